@@ -0,0 +1,36 @@
+/**
+ * Local cron stand-in for the overdue surgery sync
+ *
+ * Calls the sync-overdue-surgeries edge function every SYNC_INTERVAL_MINUTES
+ * (default 5), or once with --once. Requires SUPABASE_URL and
+ * SUPABASE_SERVICE_ROLE_KEY, e.g. from `supabase status` when running locally.
+ */
+
+const url = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const intervalMinutes = Number(process.env.SYNC_INTERVAL_MINUTES || 5);
+const once = process.argv.includes("--once");
+
+if (!url || !serviceRoleKey) {
+  console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  process.exit(1);
+}
+
+async function runSync() {
+  const response = await fetch(`${url}/functions/v1/sync-overdue-surgeries`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${serviceRoleKey}` },
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    console.error(`[${new Date().toISOString()}] Sync failed:`, body.error);
+    return;
+  }
+  console.log(`[${new Date().toISOString()}] Moved ${body.moved} overdue surgeries to pending`);
+}
+
+await runSync();
+
+if (!once) {
+  setInterval(runSync, intervalMinutes * 60 * 1000);
+}
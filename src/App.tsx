@@ -1,8 +1,9 @@
 /**
  * App Component
- * 
+ *
  * Main application entry point with routing configuration.
- * Provides QueryClient, tooltips, toast notifications, and settings context.
+ * Provides QueryClient, authentication, tooltips, toast notifications, and settings context.
+ * Every route except /auth requires a signed-in user.
  */
 
 import { Toaster } from "@/components/ui/toaster";
@@ -11,14 +12,20 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { SettingsProvider } from "@/contexts/SettingsContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import { useSurgeryStatusSync } from "@/hooks/useSurgeryStatusSync";
 import Index from "./pages/Index";
+import Auth from "./pages/Auth";
 import PatientDetail from "./pages/PatientDetail";
+import MergePatients from "./pages/MergePatients";
 import KanbanBoard from "./pages/KanbanBoard";
 import CalendarView from "./pages/CalendarView";
+import OperatingRoomSchedule from "./pages/OperatingRoomSchedule";
 import ListView from "./pages/ListView";
 import SurgeriesListView from "./pages/SurgeriesListView";
 import Settings from "./pages/Settings";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,19 +34,25 @@ const queryClient = new QueryClient();
  * Inner app component that can use hooks
  */
 function AppContent() {
-  // Auto-sync overdue surgeries to pending status
+  // Refresh views when the scheduled job moves overdue surgeries to pending
   useSurgeryStatusSync();
-  
+
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<Index />} />
-        <Route path="/patient/:id" element={<PatientDetail />} />
-        <Route path="/kanban/:id" element={<KanbanBoard />} />
-        <Route path="/calendar" element={<CalendarView />} />
-        <Route path="/list" element={<ListView />} />
-        <Route path="/surgeries" element={<SurgeriesListView />} />
-        <Route path="/settings" element={<Settings />} />
+        <Route path="/auth" element={<Auth />} />
+        <Route element={<ProtectedRoute />}>
+          <Route path="/" element={<Index />} />
+          <Route path="/patient/:id" element={<PatientDetail />} />
+          <Route path="/patient/:id/merge" element={<MergePatients />} />
+          <Route path="/kanban/:id" element={<KanbanBoard />} />
+          <Route path="/calendar" element={<CalendarView />} />
+          <Route path="/operating-rooms" element={<OperatingRoomSchedule />} />
+          <Route path="/list" element={<ListView />} />
+          <Route path="/surgeries" element={<SurgeriesListView />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="/settings/trash" element={<Trash />} />
+        </Route>
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -49,13 +62,15 @@ function AppContent() {
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <SettingsProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <AppContent />
-      </TooltipProvider>
-    </SettingsProvider>
+    <AuthProvider>
+      <SettingsProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <AppContent />
+        </TooltipProvider>
+      </SettingsProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,29 @@
+/**
+ * ProtectedRoute Component
+ *
+ * Route guard that only renders its child routes for signed-in users.
+ * Anonymous visitors are redirected to /auth and sent back afterwards.
+ */
+
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+
+export function ProtectedRoute() {
+  const { session, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
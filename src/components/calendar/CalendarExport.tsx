@@ -1,11 +1,12 @@
 /**
  * CalendarExport Component
- * 
+ *
  * Provides export functionality for surgeries to Apple and Google Calendar
- * via .ics file generation.
+ * via .ics file generation. Times are written in the hospital's time zone,
+ * and the patient is named as the calendar export settings say. Free-text
+ * notes may identify the patient, so they are only exported with full names.
  */
 
-import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -15,14 +16,34 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Calendar, Download } from "lucide-react";
 import { toast } from "sonner";
+import { useSettings } from "@/contexts/SettingsContext";
+import { buildCalendar, formatUtc, patientLabel, type CalendarPrivacy, type IcsEvent } from "@/lib/ics";
 
 interface CalendarEvent {
+  /**
+   * Stable event id, e.g. surgery-<id>@gesdoente as in the subscription
+   * feed, so importing the same event again updates it instead of adding
+   * a copy
+   */
+  uid?: string;
   title: string;
   description?: string;
+  /** Free-text notes; added to the description only when patients are exported by full name */
+  notes?: string | null;
   location?: string;
   startDate: Date;
   endDate?: Date;
   durationMinutes?: number;
+  /** Hospital's IANA time zone; times are exported in UTC when unknown */
+  timeZone?: string | null;
+  /** Patient the event is for; added to the title and description per the privacy setting */
+  patient?: { name: string; medical_record_number?: string | null };
+}
+
+interface ExportSettings {
+  privacy: CalendarPrivacy;
+  /** Minutes before the start; 0 for no reminder */
+  reminderMinutes: number;
 }
 
 interface CalendarExportProps {
@@ -30,57 +51,26 @@ interface CalendarExportProps {
   trigger?: React.ReactNode;
 }
 
-function generateICS(event: CalendarEvent): string {
-  const formatDate = (date: Date) => {
-    return format(date, "yyyyMMdd'T'HHmmss");
-  };
-
-  const endDate = event.endDate || 
-    new Date(event.startDate.getTime() + (event.durationMinutes || 60) * 60000);
-
-  const escapeText = (text: string) => {
-    return text
-      .replace(/\\/g, "\\\\")
-      .replace(/,/g, "\\,")
-      .replace(/;/g, "\\;")
-      .replace(/\n/g, "\\n");
+function toIcsEvent(event: CalendarEvent, settings: ExportSettings, index = 0): IcsEvent {
+  const label = event.patient && patientLabel(event.patient, settings.privacy);
+  return {
+    uid: event.uid ?? `${Date.now()}-${index}@gesdoente`,
+    title: label ? `${event.title} - ${label}` : event.title,
+    description: [label && `Patient: ${label}`, event.description, settings.privacy === "name" && event.notes]
+      .filter(Boolean)
+      .join("\n"),
+    location: event.location,
+    start: event.startDate,
+    end: event.endDate || new Date(event.startDate.getTime() + (event.durationMinutes || 60) * 60000),
+    timeZone: event.timeZone,
+    alarms: settings.reminderMinutes > 0 ? [settings.reminderMinutes] : [],
   };
-
-  const lines = [
-    "BEGIN:VCALENDAR",
-    "VERSION:2.0",
-    "PRODID:-//Medical Surgery App//EN",
-    "CALSCALE:GREGORIAN",
-    "METHOD:PUBLISH",
-    "BEGIN:VEVENT",
-    `DTSTART:${formatDate(event.startDate)}`,
-    `DTEND:${formatDate(endDate)}`,
-    `SUMMARY:${escapeText(event.title)}`,
-  ];
-
-  if (event.description) {
-    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
-  }
-
-  if (event.location) {
-    lines.push(`LOCATION:${escapeText(event.location)}`);
-  }
-
-  lines.push(
-    `UID:${Date.now()}@surgery-app`,
-    `DTSTAMP:${formatDate(new Date())}`,
-    "END:VEVENT",
-    "END:VCALENDAR"
-  );
-
-  return lines.join("\r\n");
 }
 
-function downloadICS(event: CalendarEvent, filename: string) {
-  const icsContent = generateICS(event);
-  const blob = new Blob([icsContent], { type: "text/calendar;charset=utf-8" });
+function downloadFile(content: string, filename: string) {
+  const blob = new Blob([content], { type: "text/calendar;charset=utf-8" });
   const url = URL.createObjectURL(blob);
-  
+
   const link = document.createElement("a");
   link.href = url;
   link.download = `${filename}.ics`;
@@ -88,31 +78,34 @@ function downloadICS(event: CalendarEvent, filename: string) {
   link.click();
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
-  
-  toast.success("Calendar file downloaded - open it to add to your calendar");
 }
 
-function openGoogleCalendar(event: CalendarEvent) {
-  const formatGoogleDate = (date: Date) => {
-    return format(date, "yyyyMMdd'T'HHmmss");
-  };
+function downloadICS(event: CalendarEvent, settings: ExportSettings) {
+  downloadFile(buildCalendar([toIcsEvent(event, settings)]), event.title.replace(/\s+/g, "-"));
+  toast.success("Calendar file downloaded - open it to add to your calendar");
+}
 
-  const endDate = event.endDate || 
-    new Date(event.startDate.getTime() + (event.durationMinutes || 60) * 60000);
+function openGoogleCalendar(event: CalendarEvent, settings: ExportSettings) {
+  const icsEvent = toIcsEvent(event, settings);
 
+  // Google takes UTC times and shows them in the zone given as ctz
   const params = new URLSearchParams({
     action: "TEMPLATE",
-    text: event.title,
-    dates: `${formatGoogleDate(event.startDate)}/${formatGoogleDate(endDate)}`,
-    details: event.description || "",
-    location: event.location || "",
+    text: icsEvent.title,
+    dates: `${formatUtc(icsEvent.start)}/${formatUtc(icsEvent.end)}`,
+    details: icsEvent.description || "",
+    location: icsEvent.location || "",
   });
+  if (icsEvent.timeZone) params.set("ctz", icsEvent.timeZone);
 
   window.open(`https://calendar.google.com/calendar/render?${params.toString()}`, "_blank");
   toast.success("Opening Google Calendar");
 }
 
 export function CalendarExport({ event, trigger }: CalendarExportProps) {
+  const { calendarPrivacy, calendarReminderMinutes } = useSettings();
+  const settings = { privacy: calendarPrivacy, reminderMinutes: calendarReminderMinutes };
+
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -124,11 +117,11 @@ export function CalendarExport({ event, trigger }: CalendarExportProps) {
         )}
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end">
-        <DropdownMenuItem onClick={() => downloadICS(event, event.title.replace(/\s+/g, "-"))}>
+        <DropdownMenuItem onClick={() => downloadICS(event, settings)}>
           <Download className="h-4 w-4 mr-2" />
           Apple Calendar (.ics)
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => openGoogleCalendar(event)}>
+        <DropdownMenuItem onClick={() => openGoogleCalendar(event, settings)}>
           <Calendar className="h-4 w-4 mr-2" />
           Google Calendar
         </DropdownMenuItem>
@@ -138,64 +131,7 @@ export function CalendarExport({ event, trigger }: CalendarExportProps) {
 }
 
 // Utility function to export multiple events
-export function exportMultipleToICS(events: CalendarEvent[], filename: string) {
-  const formatDate = (date: Date) => format(date, "yyyyMMdd'T'HHmmss");
-  
-  const escapeText = (text: string) => {
-    return text
-      .replace(/\\/g, "\\\\")
-      .replace(/,/g, "\\,")
-      .replace(/;/g, "\\;")
-      .replace(/\n/g, "\\n");
-  };
-
-  const lines = [
-    "BEGIN:VCALENDAR",
-    "VERSION:2.0",
-    "PRODID:-//Medical Surgery App//EN",
-    "CALSCALE:GREGORIAN",
-    "METHOD:PUBLISH",
-  ];
-
-  events.forEach((event, index) => {
-    const endDate = event.endDate || 
-      new Date(event.startDate.getTime() + (event.durationMinutes || 60) * 60000);
-
-    lines.push(
-      "BEGIN:VEVENT",
-      `DTSTART:${formatDate(event.startDate)}`,
-      `DTEND:${formatDate(endDate)}`,
-      `SUMMARY:${escapeText(event.title)}`
-    );
-
-    if (event.description) {
-      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
-    }
-
-    if (event.location) {
-      lines.push(`LOCATION:${escapeText(event.location)}`);
-    }
-
-    lines.push(
-      `UID:${Date.now()}-${index}@surgery-app`,
-      `DTSTAMP:${formatDate(new Date())}`,
-      "END:VEVENT"
-    );
-  });
-
-  lines.push("END:VCALENDAR");
-
-  const icsContent = lines.join("\r\n");
-  const blob = new Blob([icsContent], { type: "text/calendar;charset=utf-8" });
-  const url = URL.createObjectURL(blob);
-  
-  const link = document.createElement("a");
-  link.href = url;
-  link.download = `${filename}.ics`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
-  
+export function exportMultipleToICS(events: CalendarEvent[], filename: string, settings: ExportSettings) {
+  downloadFile(buildCalendar(events.map((event, index) => toIcsEvent(event, settings, index))), filename);
   toast.success(`${events.length} events exported`);
 }
@@ -0,0 +1,289 @@
+/**
+ * CalendarTimeGrid Component
+ *
+ * Week or day time grid for the calendar: one column per day, surgeries
+ * drawn as blocks from their scheduled date and sized by their duration.
+ * Overlapping surgeries share the column side by side.
+ *
+ * Blocks can be dragged to another time or day, and resized from their
+ * bottom edge to change the duration. Changes snap to 15 minutes and are
+ * handed to onReschedule; saving them is up to the page.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { addDays, addMinutes, differenceInMinutes, format, isSameDay, isToday, startOfDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import { surgeryInterval, type ScheduledSurgery } from "@/lib/scheduleConflicts";
+
+/** Height of an hour row, in pixels */
+const HOUR_HEIGHT = 48;
+
+/** Drags and resizes snap to this many minutes */
+const SNAP_MINUTES = 15;
+
+/** Hour the grid is scrolled to when it opens */
+const FIRST_VISIBLE_HOUR = 7;
+
+/** Pointer travel before a press counts as a drag rather than a click */
+const DRAG_THRESHOLD_PX = 4;
+
+const statusColors: Record<string, string> = {
+  scheduled: "bg-info/20 border-info",
+  pending: "bg-warning/20 border-warning",
+  in_progress: "bg-primary/20 border-primary",
+  completed: "bg-success/20 border-success",
+  cancelled: "bg-muted border-muted-foreground line-through opacity-60",
+};
+
+export interface TimeGridSurgery extends ScheduledSurgery {
+  operating_room: string | null;
+}
+
+interface DragState {
+  id: string;
+  mode: "move" | "resize";
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  minutes: number;
+  days: number;
+  moved: boolean;
+}
+
+interface CalendarTimeGridProps {
+  days: Date[];
+  surgeries: TimeGridSurgery[];
+  canReschedule: boolean;
+  onOpen: (surgery: TimeGridSurgery) => void;
+  onReschedule: (surgery: TimeGridSurgery, changes: { scheduled_date: string; duration_minutes: number }) => void;
+}
+
+/**
+ * Side-by-side lanes for a day's surgeries: each surgery takes the first
+ * lane free at its start, and shares the width with everything it overlaps
+ */
+function layoutDay(surgeries: TimeGridSurgery[]) {
+  const layout = new Map<string, { lane: number; lanes: number }>();
+  const sorted = [...surgeries].sort(
+    (a, b) => surgeryInterval(a)!.start.getTime() - surgeryInterval(b)!.start.getTime()
+  );
+
+  let cluster: TimeGridSurgery[] = [];
+  let laneEnds: Date[] = [];
+  let clusterEnd = new Date(0);
+  const closeCluster = () => {
+    cluster.forEach((s) => layout.set(s.id, { ...layout.get(s.id)!, lanes: laneEnds.length }));
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach((surgery) => {
+    const { start, end } = surgeryInterval(surgery)!;
+    if (start >= clusterEnd) closeCluster();
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    layout.set(surgery.id, { lane, lanes: 1 });
+    cluster.push(surgery);
+    clusterEnd = cluster.length === 1 || end > clusterEnd ? end : clusterEnd;
+  });
+  closeCluster();
+  return layout;
+}
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+
+export function CalendarTimeGrid({ days, surgeries, canReschedule, onOpen, onReschedule }: CalendarTimeGridProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const columnsRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Set when a drag ends so the click that follows doesn't open the surgery
+  const suppressClick = useRef(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: FIRST_VISIBLE_HOUR * HOUR_HEIGHT });
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, surgery: TimeGridSurgery, mode: DragState["mode"]) => {
+    if (!canReschedule || surgery.status === "cancelled" || e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({
+      id: surgery.id,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: (columnsRef.current?.clientWidth ?? 0) / days.length,
+      minutes: 0,
+      days: 0,
+      moved: false,
+    });
+  };
+
+  const updateDrag = (e: React.PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const dx = e.clientX - drag.originX;
+    const dy = e.clientY - drag.originY;
+    setDrag({
+      ...drag,
+      minutes: snap((dy / HOUR_HEIGHT) * 60),
+      days: drag.mode === "move" && drag.columnWidth ? Math.round(dx / drag.columnWidth) : 0,
+      moved: drag.moved || Math.abs(dx) > DRAG_THRESHOLD_PX || Math.abs(dy) > DRAG_THRESHOLD_PX,
+    });
+  };
+
+  const endDrag = (surgery: TimeGridSurgery) => {
+    if (!drag) return;
+    setDrag(null);
+    if (!drag.moved) return;
+    suppressClick.current = true;
+    if (drag.minutes === 0 && drag.days === 0) return;
+
+    const { start, end } = surgeryInterval(surgery)!;
+    const duration = differenceInMinutes(end, start);
+    if (drag.mode === "move") {
+      const newStart = addMinutes(addDays(start, drag.days), drag.minutes);
+      onReschedule(surgery, { scheduled_date: newStart.toISOString(), duration_minutes: duration });
+    } else {
+      onReschedule(surgery, {
+        scheduled_date: start.toISOString(),
+        duration_minutes: Math.max(duration + drag.minutes, SNAP_MINUTES),
+      });
+    }
+  };
+
+  const hours = Array.from({ length: 24 }, (_, i) => i);
+
+  return (
+    <div className="flex flex-col">
+      {/* Day headers */}
+      <div className="flex border-b">
+        <div className="w-14 shrink-0" />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn("flex-1 py-2 text-center text-sm border-l", isToday(day) && "text-primary font-semibold")}
+          >
+            {format(day, days.length === 1 ? "EEEE, MMMM d" : "EEE d")}
+          </div>
+        ))}
+      </div>
+
+      <div ref={scrollRef} className="flex overflow-y-auto max-h-[65vh]">
+        {/* Hour labels */}
+        <div className="w-14 shrink-0">
+          {hours.map((hour) => (
+            <div key={hour} className="relative -top-1.5 text-[10px] text-muted-foreground text-right pr-2" style={{ height: HOUR_HEIGHT }}>
+              {hour > 0 && `${hour}:00`}
+            </div>
+          ))}
+        </div>
+
+        <div ref={columnsRef} className="flex flex-1">
+          {days.map((day) => {
+            const daySurgeries = surgeries.filter(
+              (s) => s.scheduled_date && isSameDay(new Date(s.scheduled_date), day)
+            );
+            const layout = layoutDay(daySurgeries);
+            const nowOffset = differenceInMinutes(now, startOfDay(day));
+
+            return (
+              <div key={day.toISOString()} className="relative flex-1 border-l" style={{ height: 24 * HOUR_HEIGHT }}>
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-border/50"
+                    style={{ top: hour * HOUR_HEIGHT }}
+                  />
+                ))}
+
+                {isToday(day) && (
+                  <div
+                    className="absolute inset-x-0 border-t-2 border-destructive z-10 pointer-events-none"
+                    style={{ top: (nowOffset / 60) * HOUR_HEIGHT }}
+                  />
+                )}
+
+                {daySurgeries.map((surgery) => {
+                  const { start, end } = surgeryInterval(surgery)!;
+                  const { lane, lanes } = layout.get(surgery.id)!;
+                  const dragging = drag?.id === surgery.id ? drag : null;
+                  const top = (differenceInMinutes(start, startOfDay(day)) / 60) * HOUR_HEIGHT;
+                  let height = Math.max((differenceInMinutes(end, start) / 60) * HOUR_HEIGHT, 18);
+                  let transform: string | undefined;
+                  if (dragging?.mode === "move") {
+                    transform = `translate(${dragging.days * dragging.columnWidth}px, ${(dragging.minutes / 60) * HOUR_HEIGHT}px)`;
+                  } else if (dragging?.mode === "resize") {
+                    height = Math.max(height + (dragging.minutes / 60) * HOUR_HEIGHT, (SNAP_MINUTES / 60) * HOUR_HEIGHT);
+                  }
+                  const movable = canReschedule && surgery.status !== "cancelled";
+
+                  return (
+                    <div
+                      key={surgery.id}
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`${surgery.procedure_name}, ${surgery.patient?.name ?? "Unknown"}, ${format(start, "HH:mm")}`}
+                      className={cn(
+                        "absolute rounded border-l-4 px-1.5 py-0.5 text-xs overflow-hidden select-none touch-none",
+                        "focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                        statusColors[surgery.status] || "bg-muted border-muted-foreground",
+                        movable ? "cursor-grab" : "cursor-pointer",
+                        dragging && "z-20 shadow-lg cursor-grabbing opacity-90"
+                      )}
+                      style={{
+                        top,
+                        height,
+                        left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                        width: `calc(${100 / lanes}% - 4px)`,
+                        transform,
+                      }}
+                      onPointerDown={(e) => startDrag(e, surgery, "move")}
+                      onPointerMove={updateDrag}
+                      onPointerUp={() => endDrag(surgery)}
+                      onPointerCancel={() => setDrag(null)}
+                      onClick={() => {
+                        if (suppressClick.current) {
+                          suppressClick.current = false;
+                          return;
+                        }
+                        onOpen(surgery);
+                      }}
+                      onKeyDown={(e) => e.key === "Enter" && onOpen(surgery)}
+                    >
+                      <div className="font-medium truncate">
+                        {format(start, "HH:mm")}–{format(end, "HH:mm")} {surgery.procedure_name}
+                      </div>
+                      <div className="truncate text-muted-foreground">
+                        {surgery.patient?.name || "Unknown"}
+                        {surgery.operating_room && ` · ${surgery.operating_room}`}
+                      </div>
+
+                      {/* Resize handle */}
+                      {movable && (
+                        <div
+                          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                          onPointerDown={(e) => startDrag(e, surgery, "resize")}
+                          onPointerUp={(e) => {
+                            e.stopPropagation();
+                            endDrag(surgery);
+                          }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * ConflictOverrideDialog Component
+ *
+ * Hard warning shown when rescheduling a surgery from a calendar would make
+ * it overlap with others. Saving anyway needs a reason, which is recorded
+ * with the override.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle } from "lucide-react";
+import { conflictLabels, type ScheduleConflict } from "@/lib/scheduleConflicts";
+
+interface ConflictOverrideDialogProps {
+  /** The change being made, e.g. "Moving Hip replacement to Mon 3 Mar, 09:00" */
+  change: string | null;
+  conflicts: ScheduleConflict[];
+  onCancel: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+export function ConflictOverrideDialog({ change, conflicts, onCancel, onConfirm }: ConflictOverrideDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (change) setReason("");
+  }, [change]);
+
+  return (
+    <AlertDialog open={!!change} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Schedule conflict
+          </AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>{change} overlaps with:</p>
+              <ul className="list-disc pl-5">
+                {conflicts.map((clash) => (
+                  <li key={`${clash.kind}-${clash.surgery.id}`}>
+                    {conflictLabels[clash.kind]}: {clash.surgery.procedure_name}
+                    {clash.surgery.patient && ` (${clash.surgery.patient.name})`} at{" "}
+                    {format(new Date(clash.surgery.scheduled_date!), "HH:mm")}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="override-reason">Reason for scheduling anyway *</Label>
+          <Textarea id="override-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            disabled={!reason.trim()}
+            onClick={() => onConfirm(reason)}
+          >
+            Schedule anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
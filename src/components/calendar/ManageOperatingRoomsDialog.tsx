@@ -0,0 +1,163 @@
+/**
+ * ManageOperatingRoomsDialog Component
+ *
+ * Lists a hospital's operating rooms and lets hospital managers add,
+ * rename, deactivate and remove them. Rooms that already have surgeries
+ * are deactivated instead of deleted.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { DoorOpen, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  addOperatingRoom,
+  fetchOperatingRooms,
+  removeOperatingRoom,
+  updateOperatingRoom,
+  type OperatingRoom,
+} from "@/lib/operatingRooms";
+
+interface ManageOperatingRoomsDialogProps {
+  hospitalId: string;
+  hospitalName: string;
+}
+
+export function ManageOperatingRoomsDialog({ hospitalId, hospitalName }: ManageOperatingRoomsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [newRoom, setNewRoom] = useState("");
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canManage = can("hospitals.manage");
+
+  const { data: rooms = [] } = useQuery({
+    queryKey: ["operating-rooms", hospitalId],
+    queryFn: () => fetchOperatingRooms(hospitalId),
+    enabled: open,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["operating-rooms"] });
+
+  // Add a room at the end of the list
+  const addMutation = useMutation({
+    mutationFn: (name: string) =>
+      addOperatingRoom(hospitalId, name, rooms.reduce((max, room) => Math.max(max, room.position + 1), 0)),
+    onSuccess: () => {
+      invalidate();
+      setNewRoom("");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add room: " + error.message);
+    },
+  });
+
+  // Rename or (de)activate a room
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Partial<Pick<OperatingRoom, "name" | "active">> }) =>
+      updateOperatingRoom(id, changes),
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast.error("Failed to update room: " + error.message);
+    },
+  });
+
+  // Delete an unused room, deactivate a used one
+  const removeMutation = useMutation({
+    mutationFn: removeOperatingRoom,
+    onSuccess: (result) => {
+      invalidate();
+      toast.success(result === "deleted" ? "Room removed" : "Room has surgeries, so it was deactivated");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to remove room: " + error.message);
+    },
+  });
+
+  const handleAdd = () => {
+    const name = newRoom.trim();
+    if (!name) return;
+    if (rooms.some((room) => room.name.toLowerCase() === name.toLowerCase())) {
+      toast.error(`${name} already exists`);
+      return;
+    }
+    addMutation.mutate(name);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <DoorOpen className="h-4 w-4 mr-2" />
+          Rooms
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Operating Rooms</DialogTitle>
+          <DialogDescription>{hospitalName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rooms.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No operating rooms yet</p>
+          )}
+          {rooms.map((room) => (
+            <div key={room.id} className="flex items-center gap-2">
+              <Input
+                defaultValue={room.name}
+                disabled={!canManage}
+                className={room.active ? undefined : "text-muted-foreground"}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== room.name) updateMutation.mutate({ id: room.id, changes: { name } });
+                  else e.target.value = room.name;
+                }}
+              />
+              <Switch
+                checked={room.active}
+                disabled={!canManage}
+                aria-label={room.active ? "Deactivate room" : "Activate room"}
+                onCheckedChange={(active) => updateMutation.mutate({ id: room.id, changes: { active } })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={!canManage || removeMutation.isPending}
+                onClick={() => removeMutation.mutate(room.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {canManage && (
+          <div className="flex items-center gap-2 pt-2 border-t">
+            <Input
+              value={newRoom}
+              onChange={(e) => setNewRoom(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              placeholder="e.g., OR-1"
+            />
+            <Button onClick={handleAdd} disabled={!newRoom.trim() || addMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { ATTACHMENTS_BUCKET } from "@/lib/storage";
 import {
   Dialog,
   DialogContent,
@@ -45,22 +46,17 @@ export function DrawingDialog({ patientId, surgeryId, trigger }: DrawingDialogPr
 
       // Upload to storage
       const { error: uploadError } = await supabase.storage
-        .from("patient-attachments")
+        .from(ATTACHMENTS_BUCKET)
         .upload(filePath, blob, { contentType: "image/png" });
 
       if (uploadError) throw uploadError;
 
-      // Get public URL
-      const { data: publicUrlData } = supabase.storage
-        .from("patient-attachments")
-        .getPublicUrl(filePath);
-
       // Save attachment record
       const { error: dbError } = await supabase.from("attachments").insert({
         patient_id: patientId,
         surgery_id: surgeryId || null,
         file_name: fileName,
-        file_url: publicUrlData.publicUrl,
+        file_url: filePath,
         file_type: "drawing",
         mime_type: "image/png",
         attachment_type: "drawing",
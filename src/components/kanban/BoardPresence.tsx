@@ -0,0 +1,58 @@
+/**
+ * BoardPresence Component
+ *
+ * Shows the other users currently viewing a kanban board.
+ */
+
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { BoardViewer } from "@/hooks/useKanbanRealtime";
+
+interface BoardPresenceProps {
+  viewers: BoardViewer[];
+}
+
+const MAX_AVATARS = 4;
+
+function initials(name: string) {
+  return name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+export function BoardPresence({ viewers }: BoardPresenceProps) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.slice(MAX_AVATARS);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {shown.map((viewer) => (
+        <Tooltip key={viewer.user_id}>
+          <TooltipTrigger asChild>
+            <Avatar className="h-7 w-7 border-2 border-card">
+              <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                {initials(viewer.name)}
+              </AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{viewer.name} is viewing this board</TooltipContent>
+        </Tooltip>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Avatar className="h-7 w-7 border-2 border-card">
+              <AvatarFallback className="text-xs">+{hidden.length}</AvatarFallback>
+            </Avatar>
+          </TooltipTrigger>
+          <TooltipContent>{hidden.map((v) => v.name).join(", ")}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
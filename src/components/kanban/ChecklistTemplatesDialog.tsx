@@ -0,0 +1,282 @@
+/**
+ * ChecklistTemplatesDialog Component
+ *
+ * Lets board managers define checklist templates for a board. A template is
+ * added to a card's checklist when the card enters the template's column,
+ * optionally only for cards of one procedure.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Edit, Loader2, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  deleteChecklistTemplate,
+  fetchChecklistTemplates,
+  saveChecklistTemplate,
+  type ChecklistTemplateItemInput,
+} from "@/lib/checklists";
+import type { KanbanColumn } from "@/lib/kanban";
+
+interface ChecklistTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boardId: string;
+  columns: KanbanColumn[];
+}
+
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  column_key: string;
+  procedure: string;
+  items: ChecklistTemplateItemInput[];
+}
+
+export function ChecklistTemplatesDialog({ open, onOpenChange, boardId, columns }: ChecklistTemplatesDialogProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  // Fetch the board's templates
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ["checklist-templates", boardId],
+    queryFn: () => fetchChecklistTemplates(boardId),
+    enabled: open,
+  });
+
+  // Save the template being edited
+  const saveMutation = useMutation({
+    mutationFn: (template: TemplateDraft) =>
+      saveChecklistTemplate(
+        { id: template.id, board_id: boardId, name: template.name, column_key: template.column_key, procedure: template.procedure },
+        template.items
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["checklist-templates", boardId] });
+      setDraft(null);
+      toast.success("Checklist template saved");
+    },
+    onError: (error) => {
+      toast.error("Failed to save template: " + error.message);
+    },
+  });
+
+  // Delete a template; items already on cards are kept
+  const deleteMutation = useMutation({
+    mutationFn: deleteChecklistTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["checklist-templates", boardId] });
+      toast.success("Checklist template deleted");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete template: " + error.message);
+    },
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+    if (!draft.column_key) {
+      toast.error("Choose the column that applies the template");
+      return;
+    }
+    if (!draft.items.some((i) => i.text.trim())) {
+      toast.error("Add at least one item");
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const updateItem = (index: number, item: Partial<ChecklistTemplateItemInput>) => {
+    setDraft((d) => d && { ...d, items: d.items.map((it, i) => (i === index ? { ...it, ...item } : it)) });
+  };
+
+  const columnName = (key: string) => columns.find((c) => c.key === key)?.name ?? key;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) setDraft(null);
+        onOpenChange(isOpen);
+      }}
+    >
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Checklist Templates</DialogTitle>
+          <DialogDescription>
+            Items are added to a card's checklist when it enters the template's column, once per card.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-4 pt-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g., Pre-op"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Applied when a card enters</Label>
+                <Select value={draft.column_key} onValueChange={(value) => setDraft({ ...draft, column_key: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns.map((column) => (
+                      <SelectItem key={column.id} value={column.key}>
+                        {column.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Procedure (optional)</Label>
+              <Input
+                value={draft.procedure}
+                onChange={(e) => setDraft({ ...draft, procedure: e.target.value })}
+                placeholder="Only for cards of this procedure, e.g., Total hip replacement"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Items</Label>
+              {draft.items.map((item, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={item.text}
+                    onChange={(e) => updateItem(index, { text: e.target.value })}
+                    placeholder="e.g., Bloods"
+                    className="flex-1"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    value={item.due_in_days ?? ""}
+                    onChange={(e) =>
+                      updateItem(index, { due_in_days: e.target.value === "" ? null : Math.max(parseInt(e.target.value) || 0, 0) })
+                    }
+                    placeholder="Due in days"
+                    className="w-32"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, items: [...draft.items, { text: "", due_in_days: null }] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Item
+              </Button>
+            </div>
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setDraft(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Template
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 pt-2">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No checklist templates yet</p>
+            ) : (
+              templates.map((template) => (
+                <div key={template.id} className="border rounded-lg p-3 flex items-start justify-between gap-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="font-medium">{template.name}</div>
+                    <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                      <Badge variant="outline">{columnName(template.column_key)}</Badge>
+                      {template.procedure && <Badge variant="secondary">{template.procedure}</Badge>}
+                      <span>{template.items.length} item(s)</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {template.items.map((i) => i.text).join(", ")}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setDraft({
+                          id: template.id,
+                          name: template.name,
+                          column_key: template.column_key,
+                          procedure: template.procedure ?? "",
+                          items: template.items.map((i) => ({ text: i.text, due_in_days: i.due_in_days })),
+                        })
+                      }
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive"
+                      onClick={() => deleteMutation.mutate(template.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() =>
+                setDraft({ name: "", column_key: "", procedure: "", items: [{ text: "", due_in_days: null }] })
+              }
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
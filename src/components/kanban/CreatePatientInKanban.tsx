@@ -3,6 +3,7 @@
  * 
  * Inline form for creating a new patient directly from the kanban board.
  * After creation, automatically adds the patient to the board.
+ * Warns when the patient looks like one already on file.
  */
 
 import { useState } from "react";
@@ -20,11 +21,12 @@ import {
 } from "@/components/ui/select";
 import { Loader2, UserPlus } from "lucide-react";
 import { toast } from "sonner";
+import { createKanbanCard } from "@/lib/kanban";
+import { PossibleDuplicates } from "@/components/patient/PossibleDuplicates";
 
 interface CreatePatientInKanbanProps {
   boardId: string;
   columnId: string;
-  position: number;
   onSuccess: () => void;
   onCancel: () => void;
 }
@@ -32,7 +34,6 @@ interface CreatePatientInKanbanProps {
 export function CreatePatientInKanban({
   boardId,
   columnId,
-  position,
   onSuccess,
   onCancel,
 }: CreatePatientInKanbanProps) {
@@ -56,18 +57,15 @@ export function CreatePatientInKanban({
 
       if (patientError) throw patientError;
 
-      // Create kanban card
-      const { error: cardError } = await supabase.from("kanban_cards").insert({
-        board_id: boardId,
-        patient_id: patient.id,
-        column_name: columnId,
-        position,
-        surgery_type: surgeryType || null,
+      // Create kanban card at the end of the column
+      await createKanbanCard({
+        boardId,
+        patientId: patient.id,
+        columnId,
+        surgeryType: surgeryType || null,
         priority,
       });
 
-      if (cardError) throw cardError;
-
       return patient;
     },
     onSuccess: () => {
@@ -127,6 +125,8 @@ export function CreatePatientInKanban({
         </Select>
       </div>
 
+      <PossibleDuplicates patient={{ name, medical_record_number: mrn }} />
+
       <div className="flex gap-2">
         <Button
           size="sm"
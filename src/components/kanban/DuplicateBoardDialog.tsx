@@ -0,0 +1,103 @@
+/**
+ * DuplicateBoardDialog Component
+ *
+ * Copies a board with its columns, tags, checklist templates and default
+ * filters, optionally with its cards, and opens the copy.
+ */
+
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { duplicateKanbanBoard } from "@/lib/boardTemplates";
+
+interface DuplicateBoardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  board: { id: string; name: string } | null;
+}
+
+export function DuplicateBoardDialog({ open, onOpenChange, board }: DuplicateBoardDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [includeCards, setIncludeCards] = useState(false);
+
+  useEffect(() => {
+    if (open && board) {
+      setName(`Copy of ${board.name}`);
+      setIncludeCards(false);
+    }
+  }, [open, board]);
+
+  const duplicateMutation = useMutation({
+    mutationFn: () => duplicateKanbanBoard(board!.id, name, includeCards),
+    onSuccess: (newBoardId) => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
+      toast.success("Board duplicated");
+      onOpenChange(false);
+      navigate(`/kanban/${newBoardId}`);
+    },
+    onError: (error) => {
+      toast.error("Failed to duplicate board: " + error.message);
+    },
+  });
+
+  const handleDuplicate = () => {
+    if (!name.trim()) {
+      toast.error("Board name is required");
+      return;
+    }
+    duplicateMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate Board</DialogTitle>
+          <DialogDescription>
+            The copy gets the same columns, status mapping, tags, checklist templates and default filters.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-board-name">Board Name *</Label>
+            <Input id="duplicate-board-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="duplicate-board-cards"
+              checked={includeCards}
+              onCheckedChange={(checked) => setIncludeCards(checked === true)}
+            />
+            <Label htmlFor="duplicate-board-cards" className="font-normal">
+              Copy cards, with their tags and checklists
+            </Label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDuplicate} disabled={duplicateMutation.isPending}>
+              {duplicateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Duplicate
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
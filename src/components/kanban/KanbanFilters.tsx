@@ -8,7 +8,7 @@
  * - Date range picker
  * - Urgency/priority filter
  * - Hospital filter
- * - Tag filter (from kanban card metadata)
+ * - Tag filter (from the board's tag palette, matching card or patient tags)
  * - Clear all filters button
  */
 
@@ -42,6 +42,8 @@ import {
 import { format } from "date-fns";
 import { Filter, Calendar as CalendarIcon, X, Search } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { fetchBoardTags } from "@/lib/tags";
+import { TagChip } from "@/components/kanban/TagPicker";
 
 export interface FilterState {
   /** Search query for patient name or MRN */
@@ -54,7 +56,7 @@ export interface FilterState {
   dateFrom: Date | undefined;
   /** End date for date range filter */
   dateTo: Date | undefined;
-  /** Selected tags */
+  /** Selected tag ids */
   tags: string[];
 }
 
@@ -63,6 +65,8 @@ interface KanbanFiltersProps {
   filters: FilterState;
   /** Callback when filters change */
   onFiltersChange: (filters: FilterState) => void;
+  /** Board whose tag palette is offered */
+  boardId?: string;
 }
 
 /** Available urgency/priority levels */
@@ -74,7 +78,7 @@ const urgencyOptions = [
   { value: "low", label: "Low", color: "bg-success" },
 ];
 
-export function KanbanFilters({ filters, onFiltersChange }: KanbanFiltersProps) {
+export function KanbanFilters({ filters, onFiltersChange, boardId }: KanbanFiltersProps) {
   const [isOpen, setIsOpen] = useState(false);
 
   /**
@@ -92,6 +96,15 @@ export function KanbanFilters({ filters, onFiltersChange }: KanbanFiltersProps)
     },
   });
 
+  /**
+   * Fetch the board's tags for the tag filter
+   */
+  const { data: tags = [] } = useQuery({
+    queryKey: ["kanban-tags", boardId],
+    queryFn: () => fetchBoardTags(boardId!),
+    enabled: !!boardId,
+  });
+
   /**
    * Update a single filter value
    */
@@ -99,6 +112,16 @@ export function KanbanFilters({ filters, onFiltersChange }: KanbanFiltersProps)
     onFiltersChange({ ...filters, [key]: value });
   };
 
+  /**
+   * Select or deselect a tag
+   */
+  const toggleTag = (tagId: string) => {
+    updateFilter(
+      "tags",
+      filters.tags.includes(tagId) ? filters.tags.filter((t) => t !== tagId) : [...filters.tags, tagId]
+    );
+  };
+
   /**
    * Clear all filters
    */
@@ -267,6 +290,25 @@ export function KanbanFilters({ filters, onFiltersChange }: KanbanFiltersProps)
               </div>
             </div>
 
+            {/* Tag Filter */}
+            {tags.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Tags</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map((tag) => (
+                    <button key={tag.id} type="button" onClick={() => toggleTag(tag.id)}>
+                      <TagChip
+                        tag={tag}
+                        className={cn(
+                          !filters.tags.includes(tag.id) && "opacity-40 hover:opacity-70"
+                        )}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Active Filters Summary */}
             {hasActiveFilters && (
               <div className="pt-4 border-t">
@@ -305,6 +347,17 @@ export function KanbanFilters({ filters, onFiltersChange }: KanbanFiltersProps)
                       />
                     </Badge>
                   )}
+                  {tags
+                    .filter((tag) => filters.tags.includes(tag.id))
+                    .map((tag) => (
+                      <Badge key={tag.id} variant="secondary">
+                        Tag: {tag.name}
+                        <X
+                          className="h-3 w-3 ml-1 cursor-pointer"
+                          onClick={() => toggleTag(tag.id)}
+                        />
+                      </Badge>
+                    ))}
                   {filters.dateFrom && (
                     <Badge variant="secondary">
                       From: {format(filters.dateFrom, "MMM d")}
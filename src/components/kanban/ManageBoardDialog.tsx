@@ -2,7 +2,9 @@
  * ManageBoardDialog Component
  * 
  * Dialog for creating and editing kanban boards.
- * Allows setting name, hospital, service, and description.
+ * Allows setting name, hospital, service, and description, and which
+ * column each surgery status moves a patient's card into. New boards can
+ * start from a saved board template instead of the default columns.
  */
 
 import { useState, useEffect } from "react";
@@ -25,8 +27,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Loader2 } from "lucide-react";
+import { Loader2, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import {
+  assignSurgeryStatus,
+  columnForSurgeryStatus,
+  fetchBoardColumns,
+  surgeryStatuses,
+  surgeryStatusLabels,
+  type SurgeryStatus,
+} from "@/lib/kanban";
+import {
+  createBoardFromTemplate,
+  defaultBoardTemplate,
+  deleteBoardTemplate,
+  fetchBoardTemplates,
+  type BoardTemplateConfig,
+} from "@/lib/boardTemplates";
 
 interface ManageBoardDialogProps {
   open: boolean;
@@ -41,6 +58,18 @@ interface ManageBoardDialogProps {
   } | null;
 }
 
+/** Column as edited in the status mapping: database id when editing, key when creating */
+interface MappedColumn {
+  id: string;
+  name: string;
+  statuses: string[];
+}
+
+const mappedTemplateColumns = (config: BoardTemplateConfig): MappedColumn[] =>
+  config.columns.map((c) => ({ id: c.id, name: c.name, statuses: c.statuses ?? [] }));
+
+const defaultMappedColumns = mappedTemplateColumns(defaultBoardTemplate);
+
 export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDialogProps) {
   const queryClient = useQueryClient();
   const isEditing = !!board;
@@ -49,6 +78,15 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
   const [description, setDescription] = useState("");
   const [hospitalId, setHospitalId] = useState<string>("");
   const [service, setService] = useState("");
+  const [columns, setColumns] = useState<MappedColumn[]>(defaultMappedColumns);
+  const [templateId, setTemplateId] = useState("none");
+
+  // Fetch the columns of the board being edited
+  const { data: boardColumns } = useQuery({
+    queryKey: ["kanban-columns", board?.id],
+    queryFn: () => fetchBoardColumns(board!.id),
+    enabled: open && !!board,
+  });
 
   // Reset form when dialog opens/closes or board changes
   useEffect(() => {
@@ -63,10 +101,46 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
         setDescription("");
         setHospitalId("");
         setService("");
+        setColumns(defaultMappedColumns);
+        setTemplateId("none");
       }
     }
   }, [open, board]);
 
+  useEffect(() => {
+    if (open && board && boardColumns) {
+      setColumns(boardColumns.map(({ id, name, statuses }) => ({ id, name, statuses })));
+    }
+  }, [open, board, boardColumns]);
+
+  // Fetch board templates to start new boards from
+  const { data: templates = [] } = useQuery({
+    queryKey: ["board-templates"],
+    queryFn: fetchBoardTemplates,
+    enabled: open && !isEditing,
+  });
+
+  const selectedTemplate = templates.find((t) => t.id === templateId);
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    const template = templates.find((t) => t.id === value);
+    setColumns(mappedTemplateColumns(template?.config ?? defaultBoardTemplate));
+  };
+
+  // Delete the selected template; boards created from it are unaffected
+  const deleteTemplateMutation = useMutation({
+    mutationFn: deleteBoardTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["board-templates"] });
+      handleTemplateChange("none");
+      toast.success("Board template deleted");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete template: " + error.message);
+    },
+  });
+
   // Fetch hospitals for dropdown
   const { data: hospitals = [] } = useQuery({
     queryKey: ["hospitals-list"],
@@ -83,13 +157,22 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
   // Create board mutation
   const createMutation = useMutation({
     mutationFn: async () => {
-      const { error } = await supabase.from("kanban_boards").insert({
-        name,
-        description: description || null,
-        hospital_id: hospitalId && hospitalId !== "none" ? hospitalId : null,
-        service: service || null,
-      });
-      if (error) throw error;
+      const config = selectedTemplate?.config ?? defaultBoardTemplate;
+      await createBoardFromTemplate(
+        {
+          name,
+          description: description || null,
+          hospital_id: hospitalId && hospitalId !== "none" ? hospitalId : null,
+          service: service || null,
+        },
+        {
+          ...config,
+          columns: config.columns.map((c) => ({
+            ...c,
+            statuses: columns.find((m) => m.id === c.id)?.statuses as SurgeryStatus[],
+          })),
+        }
+      );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
@@ -114,10 +197,22 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
         })
         .eq("id", board!.id);
       if (error) throw error;
+
+      // Save the status mapping of columns that changed
+      for (const column of columns) {
+        const original = boardColumns?.find((c) => c.id === column.id);
+        if (original && [...original.statuses].sort().join() === [...column.statuses].sort().join()) continue;
+        const { error: columnError } = await supabase
+          .from("kanban_columns")
+          .update({ statuses: column.statuses })
+          .eq("id", column.id);
+        if (columnError) throw columnError;
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
       queryClient.invalidateQueries({ queryKey: ["kanban-board", board!.id] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-columns", board!.id] });
       toast.success("Board updated successfully");
       onOpenChange(false);
     },
@@ -142,7 +237,7 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{isEditing ? "Edit Board" : "Create New Board"}</DialogTitle>
         </DialogHeader>
@@ -157,6 +252,44 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
             />
           </div>
 
+          {!isEditing && (
+            <div className="space-y-2">
+              <Label htmlFor="board-template">Template</Label>
+              <div className="flex items-center gap-2">
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="board-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Default columns</SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive shrink-0"
+                    onClick={() => deleteTemplateMutation.mutate(selectedTemplate.id)}
+                    disabled={deleteTemplateMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {selectedTemplate && (
+                <p className="text-xs text-muted-foreground">
+                  {selectedTemplate.description ||
+                    `${selectedTemplate.config.columns.length} columns, ${selectedTemplate.config.checklist_templates.length} checklist templates, ${selectedTemplate.config.tags.length} tags`}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="board-hospital">Hospital (optional)</Label>
             <Select value={hospitalId} onValueChange={setHospitalId}>
@@ -195,6 +328,39 @@ export function ManageBoardDialog({ open, onOpenChange, board }: ManageBoardDial
             />
           </div>
 
+          <div className="space-y-2">
+            <Label>Surgery status mapping</Label>
+            <p className="text-xs text-muted-foreground">
+              Cards move to the selected column when the patient's surgery reaches a status.
+              Statuses without a column leave cards where they are.
+            </p>
+            <div className="space-y-2">
+              {surgeryStatuses.map((status) => (
+                <div key={status} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{surgeryStatusLabels[status]}</span>
+                  <Select
+                    value={columnForSurgeryStatus(columns, status) ?? "none"}
+                    onValueChange={(value) =>
+                      setColumns(assignSurgeryStatus(columns, status, value === "none" ? null : value))
+                    }
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Don't move</SelectItem>
+                      {columns.map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
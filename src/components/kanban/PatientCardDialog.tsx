@@ -67,6 +67,7 @@ import {
   Users,
   Pencil,
   Pin,
+  RefreshCw,
 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -77,6 +78,18 @@ import { EditPatientDialog } from "@/components/patient/EditPatientDialog";
 import { EditSurgeryDialog } from "@/components/patient/EditSurgeryDialog";
 import { DrawingDialog } from "@/components/drawing/DrawingDialog";
 import { CalendarExport } from "@/components/calendar/CalendarExport";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { moveToTrash } from "@/lib/trash";
+import { enableKanbanCardAutoSync, syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
+import { setCardTag, setPatientTag } from "@/lib/tags";
+import {
+  addChecklistItem,
+  deleteChecklistItem,
+  fetchCardChecklist,
+  updateChecklistItem,
+} from "@/lib/checklists";
+import { TagChip, TagPicker } from "@/components/kanban/TagPicker";
 
 interface PatientCardDialogProps {
   open: boolean;
@@ -87,12 +100,6 @@ interface PatientCardDialogProps {
   boardId: string;
 }
 
-interface ChecklistItem {
-  id: string;
-  text: string;
-  completed: boolean;
-}
-
 const priorityConfig: Record<string, { label: string; color: string; bgColor: string }> = {
   urgent: { label: "Urgent", color: "text-red-600", bgColor: "bg-red-100" },
   high: { label: "High", color: "text-orange-600", bgColor: "bg-orange-100" },
@@ -110,9 +117,12 @@ export function PatientCardDialog({
 }: PatientCardDialogProps) {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { user, profile } = useAuth();
+  const { can } = usePermissions();
   const [isEditingDescription, setIsEditingDescription] = useState(false);
   const [description, setDescription] = useState("");
   const [newChecklistItem, setNewChecklistItem] = useState("");
+  const [newChecklistDueDate, setNewChecklistDueDate] = useState("");
   const [showChecklist, setShowChecklist] = useState(false);
   const [deletePatientOpen, setDeletePatientOpen] = useState(false);
   const [deleteSurgeryId, setDeleteSurgeryId] = useState<string | null>(null);
@@ -156,7 +166,7 @@ export function PatientCardDialog({
     queryFn: async () => {
       const { data, error } = await supabase
         .from("surgeries")
-        .select("*, hospital:hospitals(name)")
+        .select("*, hospital:hospitals(name, timezone)")
         .eq("patient_id", patientId)
         .order("scheduled_date", { ascending: false });
       if (error) throw error;
@@ -165,6 +175,49 @@ export function PatientCardDialog({
     enabled: open && !!patientId,
   });
 
+  // Fetch episodes a card can track
+  const { data: episodes = [] } = useQuery({
+    queryKey: ["patient-episodes-list", patientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("episodes")
+        .select("id, title")
+        .eq("patient_id", patientId)
+        .order("start_date", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: open && !!patientId,
+  });
+
+  // Fetch the card's tags
+  const { data: cardTags = [] } = useQuery({
+    queryKey: ["card-tags", cardId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kanban_card_tags")
+        .select("tag:kanban_tags(id, name, color)")
+        .eq("card_id", cardId);
+      if (error) throw error;
+      return data.map((t) => t.tag).filter(Boolean);
+    },
+    enabled: open && !!cardId,
+  });
+
+  // Fetch the patient's tags (from every board the user can see)
+  const { data: patientTags = [] } = useQuery({
+    queryKey: ["patient-tags", patientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_tags")
+        .select("tag:kanban_tags(id, name, color)")
+        .eq("patient_id", patientId);
+      if (error) throw error;
+      return data.map((t) => t.tag).filter(Boolean);
+    },
+    enabled: open && !!patientId,
+  });
+
   // Fetch attachments
   const { data: attachments = [] } = useQuery({
     queryKey: ["patient-card-attachments", patientId],
@@ -196,15 +249,26 @@ export function PatientCardDialog({
     enabled: open && !!patientId,
   });
 
-  // Parse checklist from card notes (stored as JSON)
-  const checklist: ChecklistItem[] = card?.notes ? 
-    (() => {
-      try {
-        return JSON.parse(card.notes);
-      } catch {
-        return [];
-      }
-    })() : [];
+  // Fetch the card's checklist
+  const { data: checklist = [] } = useQuery({
+    queryKey: ["card-checklist", cardId],
+    queryFn: () => fetchCardChecklist(cardId),
+    enabled: open && !!cardId,
+  });
+
+  // Fetch teammates who can be assigned checklist items
+  const { data: teammates = [] } = useQuery({
+    queryKey: ["profiles-list"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .order("full_name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
 
   // Update patient description
   const updateDescriptionMutation = useMutation({
@@ -238,56 +302,127 @@ export function PatientCardDialog({
     },
   });
 
-  // Update checklist
-  const updateChecklistMutation = useMutation({
-    mutationFn: async (items: ChecklistItem[]) => {
+  // Link the card to the surgery or episode it tracks, then resync it
+  const updateTrackingMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const [kind, targetId] = value.split(":");
       const { error } = await supabase
         .from("kanban_cards")
-        .update({ notes: JSON.stringify(items) })
+        .update({
+          surgery_id: kind === "surgery" ? targetId : null,
+          episode_id: kind === "episode" ? targetId : null,
+        })
         .eq("id", cardId);
       if (error) throw error;
+      await syncPatientKanbanWithSurgery(patientId);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
       queryClient.invalidateQueries({ queryKey: ["kanban-card-detail", cardId] });
+      toast.success("Card tracking updated");
+    },
+    onError: (error) => {
+      toast.error("Failed to update card tracking: " + error.message);
     },
   });
 
-  // Delete patient
-  const deletePatientMutation = useMutation({
-    mutationFn: async () => {
-      // Delete related records first
-      await supabase.from("kanban_cards").delete().eq("patient_id", patientId);
-      await supabase.from("comments").delete().eq("patient_id", patientId);
-      await supabase.from("attachments").delete().eq("patient_id", patientId);
-      await supabase.from("consultations").delete().eq("patient_id", patientId);
-      await supabase.from("surgeries").delete().eq("patient_id", patientId);
-      await supabase.from("episodes").delete().eq("patient_id", patientId);
-      
-      const { error } = await supabase.from("patients").delete().eq("id", patientId);
-      if (error) throw error;
+  // Attach or detach a tag on the card
+  const toggleCardTagMutation = useMutation({
+    mutationFn: ({ tagId, attached }: { tagId: string; attached: boolean }) =>
+      setCardTag(cardId, tagId, attached),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["card-tags", cardId] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards-list-filter"] });
+    },
+    onError: (error) => {
+      toast.error("Failed to update tags: " + error.message);
+    },
+  });
+
+  // Attach or detach a tag on the patient
+  const togglePatientTagMutation = useMutation({
+    mutationFn: ({ tagId, attached }: { tagId: string; attached: boolean }) =>
+      setPatientTag(patientId, tagId, attached),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["patient-tags", patientId] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["patient-tags-list-filter"] });
+    },
+    onError: (error) => {
+      toast.error("Failed to update patient tags: " + error.message);
+    },
+  });
+
+  // Re-enable auto-sync - moves the card back to its computed column
+  const enableAutoSyncMutation = useMutation({
+    mutationFn: () => enableKanbanCardAutoSync(cardId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-card-detail", cardId] });
+      toast.success("Auto-sync re-enabled");
+    },
+    onError: (error) => {
+      toast.error("Failed to re-enable auto-sync: " + error.message);
+    },
+  });
+
+  // Checklist changes - the board shows each card's progress
+  const onChecklistChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["card-checklist", cardId] });
+    queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+  };
+
+  const addChecklistItemMutation = useMutation({
+    mutationFn: (item: { text: string; due_date: string | null }) =>
+      addChecklistItem(cardId, item, (checklist[checklist.length - 1]?.position ?? -1) + 1),
+    onSuccess: onChecklistChanged,
+    onError: (error) => {
+      toast.error("Failed to add checklist item: " + error.message);
+    },
+  });
+
+  const updateChecklistItemMutation = useMutation({
+    mutationFn: ({ itemId, updates }: { itemId: string; updates: Parameters<typeof updateChecklistItem>[1] }) =>
+      updateChecklistItem(itemId, updates),
+    onSuccess: onChecklistChanged,
+    onError: (error) => {
+      toast.error("Failed to update checklist item: " + error.message);
     },
+  });
+
+  const deleteChecklistItemMutation = useMutation({
+    mutationFn: deleteChecklistItem,
+    onSuccess: onChecklistChanged,
+    onError: (error) => {
+      toast.error("Failed to delete checklist item: " + error.message);
+    },
+  });
+
+  // Move patient (and their clinical records) to the trash
+  const deletePatientMutation = useMutation({
+    mutationFn: () => moveToTrash("patients", patientId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
       queryClient.invalidateQueries({ queryKey: ["patients"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
       onOpenChange(false);
-      toast.success("Patient deleted");
+      toast.success("Patient moved to trash");
     },
     onError: () => {
       toast.error("Failed to delete patient");
     },
   });
 
-  // Delete surgery
+  // Move surgery to the trash
   const deleteSurgeryMutation = useMutation({
-    mutationFn: async (surgeryId: string) => {
-      const { error } = await supabase.from("surgeries").delete().eq("id", surgeryId);
-      if (error) throw error;
-    },
+    mutationFn: (surgeryId: string) => moveToTrash("surgeries", surgeryId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["patient-card-surgeries", patientId] });
       queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
       setDeleteSurgeryId(null);
-      toast.success("Surgery deleted");
+      toast.success("Surgery moved to trash");
     },
   });
 
@@ -297,7 +432,7 @@ export function PatientCardDialog({
       const { error } = await supabase.from("comments").insert({
         patient_id: patientId,
         text,
-        author: "User",
+        author: profile?.full_name || user?.email,
       });
       if (error) throw error;
     },
@@ -308,25 +443,9 @@ export function PatientCardDialog({
 
   const handleAddChecklistItem = () => {
     if (!newChecklistItem.trim()) return;
-    const newItem: ChecklistItem = {
-      id: crypto.randomUUID(),
-      text: newChecklistItem,
-      completed: false,
-    };
-    updateChecklistMutation.mutate([...checklist, newItem]);
+    addChecklistItemMutation.mutate({ text: newChecklistItem, due_date: newChecklistDueDate || null });
     setNewChecklistItem("");
-  };
-
-  const handleToggleChecklistItem = (itemId: string) => {
-    const updated = checklist.map((item) =>
-      item.id === itemId ? { ...item, completed: !item.completed } : item
-    );
-    updateChecklistMutation.mutate(updated);
-  };
-
-  const handleDeleteChecklistItem = (itemId: string) => {
-    const updated = checklist.filter((item) => item.id !== itemId);
-    updateChecklistMutation.mutate(updated);
+    setNewChecklistDueDate("");
   };
 
   const [commentText, setCommentText] = useState("");
@@ -382,18 +501,22 @@ export function PatientCardDialog({
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setEditPatientOpen(true)}>
+                  <DropdownMenuItem onClick={() => setEditPatientOpen(true)} disabled={!can("patients.edit")}>
                     <Edit className="h-4 w-4 mr-2" />
                     Edit Patient
                   </DropdownMenuItem>
-                  <DropdownMenuSeparator />
-                  <DropdownMenuItem
-                    className="text-destructive"
-                    onClick={() => setDeletePatientOpen(true)}
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete Patient
-                  </DropdownMenuItem>
+                  {can("patients.delete") && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem
+                        className="text-destructive"
+                        onClick={() => setDeletePatientOpen(true)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete Patient
+                      </DropdownMenuItem>
+                    </>
+                  )}
                 </DropdownMenuContent>
               </DropdownMenu>
             </div>
@@ -423,18 +546,20 @@ export function PatientCardDialog({
 
               {/* Action Toolbar */}
               <div className="flex items-center gap-2 flex-wrap">
-                <AddSurgeryDialog
-                  patientId={patientId}
-                  trigger={
-                    <Button variant="outline" size="sm">
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add Surgery
-                    </Button>
-                  }
-                />
+                {can("surgeries.schedule") && (
+                  <AddSurgeryDialog
+                    patientId={patientId}
+                    trigger={
+                      <Button variant="outline" size="sm">
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Surgery
+                      </Button>
+                    }
+                  />
+                )}
                 
                 <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
+                  <DropdownMenuTrigger asChild disabled={!can("kanban.edit_cards")}>
                     <Button variant="outline" size="sm">
                       <Tag className="h-4 w-4 mr-1" />
                       Priority
@@ -457,6 +582,22 @@ export function PatientCardDialog({
                   </DropdownMenuContent>
                 </DropdownMenu>
 
+                <TagPicker
+                  boardId={boardId}
+                  selectedIds={cardTags.map((t) => t.id)}
+                  onToggle={(tagId, attached) => toggleCardTagMutation.mutate({ tagId, attached })}
+                  disabled={!can("kanban.edit_cards")}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Tag className="h-4 w-4 mr-1" />
+                      Tags
+                      {cardTags.length > 0 && (
+                        <Badge variant="secondary" className="ml-1">{cardTags.length}</Badge>
+                      )}
+                    </Button>
+                  }
+                />
+
                 <Button
                   variant="outline"
                   size="sm"
@@ -466,33 +607,83 @@ export function PatientCardDialog({
                   Checklist
                   {checklist.length > 0 && (
                     <Badge variant="secondary" className="ml-1">
-                      {checklist.filter((i) => i.completed).length}/{checklist.length}
+                      {checklist.filter((i) => i.done).length}/{checklist.length}
                     </Badge>
                   )}
                 </Button>
 
-                <FileUpload
-                  patientId={patientId}
-                  trigger={
-                    <Button variant="outline" size="sm">
-                      <Paperclip className="h-4 w-4 mr-1" />
-                      Attach
-                      {attachments.length > 0 && (
-                        <Badge variant="secondary" className="ml-1">{attachments.length}</Badge>
-                      )}
-                    </Button>
-                  }
-                />
+                {can("attachments.upload") && (
+                  <>
+                    <FileUpload
+                      patientId={patientId}
+                      trigger={
+                        <Button variant="outline" size="sm">
+                          <Paperclip className="h-4 w-4 mr-1" />
+                          Attach
+                          {attachments.length > 0 && (
+                            <Badge variant="secondary" className="ml-1">{attachments.length}</Badge>
+                          )}
+                        </Button>
+                      }
+                    />
 
-                <DrawingDialog
-                  patientId={patientId}
-                  trigger={
-                    <Button variant="outline" size="sm">
-                      <Pencil className="h-4 w-4 mr-1" />
-                      Draw
-                    </Button>
-                  }
-                />
+                    <DrawingDialog
+                      patientId={patientId}
+                      trigger={
+                        <Button variant="outline" size="sm">
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Draw
+                        </Button>
+                      }
+                    />
+                  </>
+                )}
+              </div>
+
+              {/* Tags */}
+              <div className="space-y-2">
+                {cardTags.length > 0 && (
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Label className="text-sm text-muted-foreground w-16">Card</Label>
+                    {cardTags.map((tag) => (
+                      <TagChip
+                        key={tag.id}
+                        tag={tag}
+                        onRemove={
+                          can("kanban.edit_cards")
+                            ? () => toggleCardTagMutation.mutate({ tagId: tag.id, attached: false })
+                            : undefined
+                        }
+                      />
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 flex-wrap">
+                  <Label className="text-sm text-muted-foreground w-16">Patient</Label>
+                  {patientTags.map((tag) => (
+                    <TagChip
+                      key={tag.id}
+                      tag={tag}
+                      onRemove={
+                        can("patients.edit")
+                          ? () => togglePatientTagMutation.mutate({ tagId: tag.id, attached: false })
+                          : undefined
+                      }
+                    />
+                  ))}
+                  <TagPicker
+                    boardId={boardId}
+                    selectedIds={patientTags.map((t) => t.id)}
+                    onToggle={(tagId, attached) => togglePatientTagMutation.mutate({ tagId, attached })}
+                    disabled={!can("patients.edit")}
+                    trigger={
+                      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                        <Plus className="h-3 w-3 mr-1" />
+                        Tag patient
+                      </Button>
+                    }
+                  />
+                </div>
               </div>
 
               {/* Scheduled Date */}
@@ -505,6 +696,54 @@ export function PatientCardDialog({
                 </div>
               )}
 
+              {/* Auto-sync */}
+              <div className="flex items-center gap-3 flex-wrap">
+                <Label className="text-sm text-muted-foreground">Tracks</Label>
+                <Select
+                  value={
+                    card?.surgery_id
+                      ? `surgery:${card.surgery_id}`
+                      : card?.episode_id
+                        ? `episode:${card.episode_id}`
+                        : "auto"
+                  }
+                  onValueChange={(value) => updateTrackingMutation.mutate(value)}
+                  disabled={!can("kanban.edit_cards")}
+                >
+                  <SelectTrigger className="w-64 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Automatic (board's hospital)</SelectItem>
+                    {surgeries.map((s) => (
+                      <SelectItem key={s.id} value={`surgery:${s.id}`}>
+                        Surgery: {s.procedure_name}
+                        {s.scheduled_date && ` (${format(new Date(s.scheduled_date), "dd/MM/yyyy")})`}
+                      </SelectItem>
+                    ))}
+                    {episodes.map((e) => (
+                      <SelectItem key={e.id} value={`episode:${e.id}`}>
+                        Episode: {e.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {card?.manual_override && (
+                  <>
+                    <span className="text-xs text-amber-600">Auto-sync off (moved manually)</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => enableAutoSyncMutation.mutate()}
+                      disabled={!can("kanban.edit_cards") || enableAutoSyncMutation.isPending}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Re-enable Auto-sync
+                    </Button>
+                  </>
+                )}
+              </div>
+
               {/* Checklist Section */}
               {showChecklist && (
                 <div className="border rounded-lg p-4 space-y-3">
@@ -513,25 +752,78 @@ export function PatientCardDialog({
                     Checklist
                   </h3>
                   <div className="space-y-2">
-                    {checklist.map((item) => (
-                      <div key={item.id} className="flex items-center gap-2 group">
-                        <Checkbox
-                          checked={item.completed}
-                          onCheckedChange={() => handleToggleChecklistItem(item.id)}
-                        />
-                        <span className={cn("flex-1", item.completed && "line-through text-muted-foreground")}>
-                          {item.text}
-                        </span>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 opacity-0 group-hover:opacity-100"
-                          onClick={() => handleDeleteChecklistItem(item.id)}
-                        >
-                          <X className="h-3 w-3" />
-                        </Button>
-                      </div>
-                    ))}
+                    {checklist.map((item) => {
+                      const overdue = !item.done && item.due_date && item.due_date < format(new Date(), "yyyy-MM-dd");
+                      return (
+                        <div key={item.id} className="flex items-start gap-2 group">
+                          <Checkbox
+                            className="mt-0.5"
+                            checked={item.done}
+                            disabled={!can("kanban.edit_cards")}
+                            onCheckedChange={(checked) =>
+                              updateChecklistItemMutation.mutate({ itemId: item.id, updates: { done: !!checked } })
+                            }
+                          />
+                          <div className="flex-1 min-w-0">
+                            <span className={cn(item.done && "line-through text-muted-foreground")}>
+                              {item.text}
+                            </span>
+                            {item.done && item.done_at && (
+                              <p className="text-xs text-muted-foreground">
+                                Done {format(new Date(item.done_at), "dd MMM yyyy, HH:mm")}
+                                {item.done_by_profile && ` by ${item.done_by_profile.full_name || item.done_by_profile.email}`}
+                              </p>
+                            )}
+                          </div>
+                          <Select
+                            value={item.assigned_to ?? "none"}
+                            onValueChange={(value) =>
+                              updateChecklistItemMutation.mutate({
+                                itemId: item.id,
+                                updates: { assigned_to: value === "none" ? null : value },
+                              })
+                            }
+                            disabled={!can("kanban.edit_cards")}
+                          >
+                            <SelectTrigger className="h-7 w-36 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Unassigned</SelectItem>
+                              {teammates.map((member) => (
+                                <SelectItem key={member.id} value={member.id}>
+                                  {member.full_name || member.email}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {/* Saved on blur, not per keystroke, so typing a date doesn't save each partial one */}
+                          <Input
+                            key={`${item.id}-${item.due_date ?? ""}`}
+                            type="date"
+                            className={cn("h-7 w-36 text-xs", overdue && "border-destructive text-destructive")}
+                            defaultValue={item.due_date ?? ""}
+                            onBlur={(e) => {
+                              const dueDate = e.target.value || null;
+                              if (dueDate === item.due_date) return;
+                              updateChecklistItemMutation.mutate({ itemId: item.id, updates: { due_date: dueDate } });
+                            }}
+                            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                            disabled={!can("kanban.edit_cards")}
+                          />
+                          {can("kanban.edit_cards") && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                              onClick={() => deleteChecklistItemMutation.mutate(item.id)}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
                   <div className="flex items-center gap-2">
                     <Input
@@ -541,6 +833,13 @@ export function PatientCardDialog({
                       onKeyDown={(e) => e.key === "Enter" && handleAddChecklistItem()}
                       className="flex-1"
                     />
+                    <Input
+                      type="date"
+                      value={newChecklistDueDate}
+                      onChange={(e) => setNewChecklistDueDate(e.target.value)}
+                      className="w-36"
+                      title="Due date (optional)"
+                    />
                     <Button size="sm" onClick={handleAddChecklistItem}>
                       Add
                     </Button>
@@ -552,7 +851,7 @@ export function PatientCardDialog({
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <h3 className="font-medium">Description</h3>
-                  {!isEditingDescription && (
+                  {!isEditingDescription && can("kanban.edit_cards") && (
                     <Button variant="ghost" size="sm" onClick={() => setIsEditingDescription(true)}>
                       <Edit className="h-3 w-3 mr-1" />
                       Edit
@@ -633,11 +932,15 @@ export function PatientCardDialog({
                             {surgery.scheduled_date && (
                               <CalendarExport
                                 event={{
-                                  title: `Surgery: ${surgery.procedure_name} - ${patient?.name}`,
-                                  description: `Procedure: ${surgery.procedure_name}\nPatient: ${patient?.name}\nSurgeon: ${surgery.main_surgeon || surgery.surgeon || "TBD"}\n${surgery.notes || ""}`,
-                                  location: surgery.hospital ? (surgery.hospital as { name: string }).name : undefined,
+                                  uid: `surgery-${surgery.id}@gesdoente`,
+                                  title: `Surgery: ${surgery.procedure_name}`,
+                                  description: `Procedure: ${surgery.procedure_name}\nSurgeon: ${surgery.main_surgeon || surgery.surgeon || "TBD"}`,
+                                  notes: surgery.notes,
+                                  location: surgery.hospital?.name,
                                   startDate: new Date(surgery.scheduled_date),
                                   durationMinutes: surgery.duration_minutes || 60,
+                                  timeZone: surgery.hospital?.timezone,
+                                  patient,
                                 }}
                                 trigger={
                                   <Button variant="ghost" size="icon" className="h-8 w-8 opacity-0 group-hover:opacity-100">
@@ -657,17 +960,22 @@ export function PatientCardDialog({
                                 </Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => setEditSurgeryId(surgery.id)}>
-                                  <Edit className="h-4 w-4 mr-2" />
-                                  Edit Surgery
-                                </DropdownMenuItem>
                                 <DropdownMenuItem
-                                  className="text-destructive"
-                                  onClick={() => setDeleteSurgeryId(surgery.id)}
+                                  onClick={() => setEditSurgeryId(surgery.id)}
+                                  disabled={!can("surgeries.schedule") && !can("surgeries.edit_clinical")}
                                 >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete Surgery
+                                  <Edit className="h-4 w-4 mr-2" />
+                                  Edit Surgery
                                 </DropdownMenuItem>
+                                {can("surgeries.delete") && (
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() => setDeleteSurgeryId(surgery.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete Surgery
+                                  </DropdownMenuItem>
+                                )}
                               </DropdownMenuContent>
                             </DropdownMenu>
                           </div>
@@ -711,26 +1019,28 @@ export function PatientCardDialog({
               </div>
 
               {/* Add Comment */}
-              <div className="p-4 border-b">
-                <div className="flex items-start gap-2">
-                  <div className="h-8 w-8 rounded-full bg-primary/20 flex items-center justify-center">
-                    <User className="h-4 w-4 text-primary" />
-                  </div>
-                  <div className="flex-1 space-y-2">
-                    <Input
-                      placeholder="Write a comment..."
-                      value={commentText}
-                      onChange={(e) => setCommentText(e.target.value)}
-                      onKeyDown={(e) => e.key === "Enter" && handleAddComment()}
-                    />
-                    {commentText && (
-                      <Button size="sm" onClick={handleAddComment}>
-                        Post
-                      </Button>
-                    )}
+              {can("comments.create") && (
+                <div className="p-4 border-b">
+                  <div className="flex items-start gap-2">
+                    <div className="h-8 w-8 rounded-full bg-primary/20 flex items-center justify-center">
+                      <User className="h-4 w-4 text-primary" />
+                    </div>
+                    <div className="flex-1 space-y-2">
+                      <Input
+                        placeholder="Write a comment..."
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleAddComment()}
+                      />
+                      {commentText && (
+                        <Button size="sm" onClick={handleAddComment}>
+                          Post
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {/* Comments List */}
               <ScrollArea className="flex-1">
@@ -768,7 +1078,7 @@ export function PatientCardDialog({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Patient?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {patient?.name} and all associated records (surgeries, episodes, consultations, comments, attachments). This action cannot be undone.
+              This will move {patient?.name} and all associated records (surgeries, episodes, consultations, comments, attachments) to the trash. They can be restored from Settings → Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -789,7 +1099,7 @@ export function PatientCardDialog({
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Surgery?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete this surgery record. This action cannot be undone.
+              This will move this surgery record to the trash. It can be restored from Settings → Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
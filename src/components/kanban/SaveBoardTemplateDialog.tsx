@@ -0,0 +1,106 @@
+/**
+ * SaveBoardTemplateDialog Component
+ *
+ * Saves a board's columns, status mapping, checklist templates, tags and the
+ * filters currently applied as a named template for new boards.
+ */
+
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { captureBoardTemplate, saveBoardTemplate, type BoardFilters } from "@/lib/boardTemplates";
+
+interface SaveBoardTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  boardId: string;
+  boardName: string;
+  /** Filters saved as the template's default filters */
+  filters: BoardFilters;
+}
+
+export function SaveBoardTemplateDialog({ open, onOpenChange, boardId, boardName, filters }: SaveBoardTemplateDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setName(`${boardName} template`);
+      setDescription("");
+    }
+  }, [open, boardName]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const config = await captureBoardTemplate(boardId, filters);
+      await saveBoardTemplate(name, description, config);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["board-templates"] });
+      toast.success("Board template saved");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error("Failed to save template: " + error.message);
+    },
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Saves this board's columns, status mapping, checklist templates, tags and current filters. Cards are not
+            included.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template Name *</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description (optional)</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Template
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * TagPicker Component
+ *
+ * Popover for attaching tags from a board's palette, creating new tags
+ * and (for board managers) removing tags from the palette.
+ * Also exports TagChip for showing a tag in its colour.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { usePermissions } from "@/hooks/usePermissions";
+import {
+  createBoardTag,
+  deleteBoardTag,
+  fetchBoardTags,
+  tagColors,
+  type KanbanTag,
+} from "@/lib/tags";
+
+interface TagChipProps {
+  tag: Pick<KanbanTag, "name" | "color">;
+  /** Shows a remove button when set */
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium",
+        (tagColors[tag.color] || tagColors.gray).chip,
+        className
+      )}
+    >
+      {tag.name}
+      {onRemove && (
+        <X
+          className="h-3 w-3 cursor-pointer opacity-70 hover:opacity-100"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+        />
+      )}
+    </span>
+  );
+}
+
+interface TagPickerProps {
+  boardId: string;
+  /** Ids of the tags currently attached */
+  selectedIds: string[];
+  onToggle: (tagId: string, attached: boolean) => void;
+  trigger: React.ReactNode;
+  disabled?: boolean;
+}
+
+export function TagPicker({ boardId, selectedIds, onToggle, trigger, disabled }: TagPickerProps) {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState("blue");
+
+  // Fetch the board's palette - shared with the board and its filters
+  const { data: tags = [] } = useQuery({
+    queryKey: ["kanban-tags", boardId],
+    queryFn: () => fetchBoardTags(boardId),
+    enabled: !!boardId,
+  });
+
+  // Create a tag and attach it straight away
+  const createTagMutation = useMutation({
+    mutationFn: () => createBoardTag(boardId, newTagName, newTagColor),
+    onSuccess: (tag) => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-tags-list-filter"] });
+      setNewTagName("");
+      onToggle(tag.id, true);
+    },
+    onError: (error) => {
+      toast.error("Failed to create tag: " + error.message);
+    },
+  });
+
+  // Remove a tag from the palette (and every card and patient)
+  const deleteTagMutation = useMutation({
+    mutationFn: deleteBoardTag,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-tags-list-filter"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+      queryClient.invalidateQueries({ queryKey: ["card-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["patient-tags"] });
+      toast.success("Tag deleted");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete tag: " + error.message);
+    },
+  });
+
+  const handleCreateTag = () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    if (tags.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+      toast.error("This board already has that tag");
+      return;
+    }
+    createTagMutation.mutate();
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild disabled={disabled}>
+        {trigger}
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-3 space-y-3" align="start">
+        <div className="space-y-1 max-h-56 overflow-y-auto">
+          {tags.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tags on this board yet</p>
+          ) : (
+            tags.map((tag) => {
+              const checked = selectedIds.includes(tag.id);
+              return (
+                <div key={tag.id} className="flex items-center gap-2 group">
+                  <Checkbox
+                    id={`tag-${tag.id}`}
+                    checked={checked}
+                    onCheckedChange={() => onToggle(tag.id, !checked)}
+                  />
+                  <label htmlFor={`tag-${tag.id}`} className="flex-1 cursor-pointer">
+                    <TagChip tag={tag} />
+                  </label>
+                  {can("boards.manage") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                      onClick={() => deleteTagMutation.mutate(tag.id)}
+                      title="Delete tag from board"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* New Tag */}
+        <div className="border-t pt-3 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              placeholder="New tag..."
+              className="h-8"
+              onKeyDown={(e) => e.key === "Enter" && handleCreateTag()}
+            />
+            <Button
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={handleCreateTag}
+              disabled={!newTagName.trim() || createTagMutation.isPending}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex gap-1.5">
+            {Object.keys(tagColors).map((color) => (
+              <button
+                key={color}
+                type="button"
+                className={cn(
+                  "h-5 w-5 rounded-full",
+                  tagColors[color].dot,
+                  newTagColor === color && "ring-2 ring-offset-1 ring-primary"
+                )}
+                onClick={() => setNewTagColor(color)}
+                title={color}
+              />
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
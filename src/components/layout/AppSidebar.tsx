@@ -2,16 +2,16 @@
  * AppSidebar Component
  * 
  * Main sidebar navigation for the application.
- * Provides access to all major views: Dashboard, Kanban boards, Calendar, List view.
+ * Provides access to all major views: Dashboard, Kanban boards, Calendar, Operating Rooms, List view.
  * Also includes hospital management and filters.
  * 
  * Features:
  * - Dashboard navigation
  * - Dynamic Kanban board links based on available boards
  * - Kanban board CRUD (create, edit, delete)
- * - Calendar and List view navigation
+ * - Calendar, operating room and List view navigation
  * - Hospital management (add new hospitals)
- * - Filter controls for date, urgency, hospital, and tags
+ * - Tag list linking to the patient list filtered by that tag
  */
 
 import { useState } from "react";
@@ -30,7 +30,11 @@ import {
   Scissors,
   MoreHorizontal,
   Edit,
+  Copy,
   Trash2,
+  LogOut,
+  Tag,
+  DoorOpen,
 } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import {
@@ -81,6 +85,12 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { ManageBoardDialog } from "@/components/kanban/ManageBoardDialog";
+import { DuplicateBoardDialog } from "@/components/kanban/DuplicateBoardDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { moveToTrash } from "@/lib/trash";
+import { tagColors } from "@/lib/tags";
+import { DEFAULT_HOSPITAL_TIME_ZONE, isValidTimeZone } from "@/lib/ics";
 
 export function AppSidebar() {
   const location = useLocation();
@@ -88,15 +98,19 @@ export function AppSidebar() {
   const { state } = useSidebar();
   const collapsed = state === "collapsed";
   const queryClient = useQueryClient();
+  const { user, profile, signOut } = useAuth();
+  const { can } = usePermissions();
   
   // State for hospital dialog
   const [hospitalDialogOpen, setHospitalDialogOpen] = useState(false);
   const [newHospitalName, setNewHospitalName] = useState("");
   const [newHospitalCode, setNewHospitalCode] = useState("");
+  const [newHospitalTimeZone, setNewHospitalTimeZone] = useState(DEFAULT_HOSPITAL_TIME_ZONE);
   
   // State for collapsible groups
   const [boardsOpen, setBoardsOpen] = useState(true);
   const [hospitalsOpen, setHospitalsOpen] = useState(false);
+  const [tagsOpen, setTagsOpen] = useState(false);
 
   // State for board CRUD
   const [createBoardOpen, setCreateBoardOpen] = useState(false);
@@ -108,6 +122,7 @@ export function AppSidebar() {
     service: string | null;
   } | null>(null);
   const [deletingBoardId, setDeletingBoardId] = useState<string | null>(null);
+  const [duplicatingBoard, setDuplicatingBoard] = useState<{ id: string; name: string } | null>(null);
 
   /**
    * Fetch all kanban boards for navigation
@@ -125,19 +140,14 @@ export function AppSidebar() {
   });
 
   /**
-   * Mutation to delete a board
+   * Mutation to move a board to the trash (its cards are kept for restore)
    */
   const deleteBoardMutation = useMutation({
-    mutationFn: async (boardId: string) => {
-      // Delete all cards first
-      await supabase.from("kanban_cards").delete().eq("board_id", boardId);
-      // Then delete the board
-      const { error } = await supabase.from("kanban_boards").delete().eq("id", boardId);
-      if (error) throw error;
-    },
+    mutationFn: (boardId: string) => moveToTrash("kanban_boards", boardId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
-      toast.success("Board deleted");
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+      toast.success("Board moved to trash");
       setDeletingBoardId(null);
       // Navigate to dashboard if currently on deleted board
       if (location.pathname.includes(deletingBoardId!)) {
@@ -164,14 +174,29 @@ export function AppSidebar() {
     },
   });
 
+  /**
+   * Fetch tags from every board - same query as the patient list's tag filter
+   */
+  const { data: tags = [] } = useQuery({
+    queryKey: ["kanban-tags-list-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kanban_tags")
+        .select("id, name, color, board:kanban_boards(name)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
   /**
    * Mutation to add a new hospital
    */
   const addHospitalMutation = useMutation({
-    mutationFn: async ({ name, code }: { name: string; code: string }) => {
+    mutationFn: async ({ name, code, timezone }: { name: string; code: string; timezone: string }) => {
       const { error } = await supabase
         .from("hospitals")
-        .insert({ name, code: code || null });
+        .insert({ name, code: code || null, timezone });
       if (error) throw error;
     },
     onSuccess: () => {
@@ -180,6 +205,7 @@ export function AppSidebar() {
       setHospitalDialogOpen(false);
       setNewHospitalName("");
       setNewHospitalCode("");
+      setNewHospitalTimeZone(DEFAULT_HOSPITAL_TIME_ZONE);
       toast.success("Hospital added successfully");
     },
     onError: (error) => {
@@ -195,12 +221,29 @@ export function AppSidebar() {
       toast.error("Hospital name is required");
       return;
     }
+    if (!isValidTimeZone(newHospitalTimeZone.trim())) {
+      toast.error("Unknown time zone; use a name like Europe/Lisbon");
+      return;
+    }
     addHospitalMutation.mutate({
       name: newHospitalName.trim(),
       code: newHospitalCode.trim(),
+      timezone: newHospitalTimeZone.trim(),
     });
   };
 
+  /**
+   * Sign the current user out and return to the login screen
+   */
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/auth");
+    } catch (error) {
+      toast.error("Failed to sign out: " + (error as Error).message);
+    }
+  };
+
   /**
    * Check if a path is currently active
    */
@@ -243,6 +286,16 @@ export function AppSidebar() {
                 </SidebarMenuButton>
               </SidebarMenuItem>
 
+              {/* Operating Room Schedule */}
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild isActive={isActive("/operating-rooms")}>
+                  <Link to="/operating-rooms">
+                    <DoorOpen className="h-4 w-4" />
+                    {!collapsed && <span>Operating Rooms</span>}
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+
               {/* List View */}
               <SidebarMenuItem>
                 <SidebarMenuButton asChild isActive={isActive("/list")}>
@@ -315,7 +368,7 @@ export function AppSidebar() {
                               )}
                             </Link>
                           </SidebarMenuButton>
-                          {!collapsed && (
+                          {!collapsed && (can("boards.manage") || can("boards.delete")) && (
                             <DropdownMenu>
                               <DropdownMenuTrigger asChild>
                                 <Button
@@ -328,17 +381,25 @@ export function AppSidebar() {
                                 </Button>
                               </DropdownMenuTrigger>
                               <DropdownMenuContent align="end">
-                                <DropdownMenuItem onClick={() => setEditingBoard(board)}>
+                                <DropdownMenuItem onClick={() => setEditingBoard(board)} disabled={!can("boards.manage")}>
                                   <Edit className="h-4 w-4 mr-2" />
                                   Edit Board
                                 </DropdownMenuItem>
-                                <DropdownMenuItem
-                                  className="text-destructive"
-                                  onClick={() => setDeletingBoardId(board.id)}
-                                >
-                                  <Trash2 className="h-4 w-4 mr-2" />
-                                  Delete Board
-                                </DropdownMenuItem>
+                                {can("boards.manage") && (
+                                  <DropdownMenuItem onClick={() => setDuplicatingBoard(board)}>
+                                    <Copy className="h-4 w-4 mr-2" />
+                                    Duplicate Board
+                                  </DropdownMenuItem>
+                                )}
+                                {can("boards.delete") && (
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() => setDeletingBoardId(board.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete Board
+                                  </DropdownMenuItem>
+                                )}
                               </DropdownMenuContent>
                             </DropdownMenu>
                           )}
@@ -347,21 +408,71 @@ export function AppSidebar() {
                     ))
                   )}
                   {/* Create Board Button */}
-                  <SidebarMenuItem>
-                    <SidebarMenuButton
-                      className="text-primary hover:text-primary"
-                      onClick={() => setCreateBoardOpen(true)}
-                    >
-                      <Plus className="h-4 w-4" />
-                      {!collapsed && <span>Create Board</span>}
-                    </SidebarMenuButton>
-                  </SidebarMenuItem>
+                  {can("boards.manage") && (
+                    <SidebarMenuItem>
+                      <SidebarMenuButton
+                        className="text-primary hover:text-primary"
+                        onClick={() => setCreateBoardOpen(true)}
+                      >
+                        <Plus className="h-4 w-4" />
+                        {!collapsed && <span>Create Board</span>}
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  )}
                 </SidebarMenu>
               </SidebarGroupContent>
             </CollapsibleContent>
           </Collapsible>
         </SidebarGroup>
 
+        {/* Tags */}
+        {tags.length > 0 && (
+          <SidebarGroup>
+            <Collapsible open={tagsOpen} onOpenChange={setTagsOpen}>
+              <CollapsibleTrigger asChild>
+                <SidebarGroupLabel className="cursor-pointer hover:bg-sidebar-accent rounded-md px-2 py-1.5 flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Tag className="h-4 w-4" />
+                    {!collapsed && <span>Tags</span>}
+                  </div>
+                  {!collapsed && (
+                    <ChevronDown className={cn(
+                      "h-4 w-4 transition-transform",
+                      tagsOpen && "rotate-180"
+                    )} />
+                  )}
+                </SidebarGroupLabel>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <SidebarGroupContent>
+                  <SidebarMenu>
+                    {tags.map((tag) => (
+                      <SidebarMenuItem key={tag.id}>
+                        <SidebarMenuButton
+                          asChild
+                          isActive={location.pathname === "/list" && location.search === `?tag=${tag.id}`}
+                        >
+                          <Link to={`/list?tag=${tag.id}`}>
+                            <div className={cn("w-2 h-2 rounded-full", (tagColors[tag.color] || tagColors.gray).dot)} />
+                            {!collapsed && (
+                              <div className="flex items-center gap-2 min-w-0">
+                                <span className="text-sm truncate">{tag.name}</span>
+                                {tag.board && (
+                                  <span className="text-xs text-muted-foreground truncate">{tag.board.name}</span>
+                                )}
+                              </div>
+                            )}
+                          </Link>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    ))}
+                  </SidebarMenu>
+                </SidebarGroupContent>
+              </CollapsibleContent>
+            </Collapsible>
+          </SidebarGroup>
+        )}
+
         {/* Hospitals Management */}
         <SidebarGroup>
           <Collapsible open={hospitalsOpen} onOpenChange={setHospitalsOpen}>
@@ -403,7 +514,10 @@ export function AppSidebar() {
                   <SidebarMenuItem>
                     <Dialog open={hospitalDialogOpen} onOpenChange={setHospitalDialogOpen}>
                       <DialogTrigger asChild>
-                        <SidebarMenuButton className="text-primary hover:text-primary">
+                        <SidebarMenuButton
+                          className="text-primary hover:text-primary"
+                          disabled={!can("hospitals.manage")}
+                        >
                           <Plus className="h-4 w-4" />
                           {!collapsed && <span>Add Hospital</span>}
                         </SidebarMenuButton>
@@ -431,6 +545,18 @@ export function AppSidebar() {
                               placeholder="e.g., CH01"
                             />
                           </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="hospital-timezone">Time Zone</Label>
+                            <Input
+                              id="hospital-timezone"
+                              value={newHospitalTimeZone}
+                              onChange={(e) => setNewHospitalTimeZone(e.target.value)}
+                              placeholder="e.g., Europe/Lisbon"
+                            />
+                            <p className="text-xs text-muted-foreground">
+                              Exported calendar events use this zone's local time.
+                            </p>
+                          </div>
                           <Button 
                             onClick={handleAddHospital} 
                             className="w-full"
@@ -459,6 +585,16 @@ export function AppSidebar() {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={handleSignOut} title={user?.email}>
+              <LogOut className="h-4 w-4" />
+              {!collapsed && (
+                <span className="truncate">
+                  Sign out {profile?.full_name ? `(${profile.full_name})` : ""}
+                </span>
+              )}
+            </SidebarMenuButton>
+          </SidebarMenuItem>
         </SidebarMenu>
       </SidebarFooter>
 
@@ -476,13 +612,20 @@ export function AppSidebar() {
         board={editingBoard}
       />
 
+      {/* Duplicate Board Dialog */}
+      <DuplicateBoardDialog
+        open={!!duplicatingBoard}
+        onOpenChange={(open) => !open && setDuplicatingBoard(null)}
+        board={duplicatingBoard}
+      />
+
       {/* Delete Board Confirmation */}
       <AlertDialog open={!!deletingBoardId} onOpenChange={(open) => !open && setDeletingBoardId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Board?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete this kanban board and all its cards. This action cannot be undone.
+              This will move this kanban board and its cards to the trash. It can be restored from Settings → Trash.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
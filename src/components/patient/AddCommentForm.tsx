@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -18,6 +19,7 @@ export function AddCommentForm({ patientId, episodeId, surgeryId }: AddCommentFo
   const [text, setText] = useState("");
   const [isPinned, setIsPinned] = useState(false);
   const queryClient = useQueryClient();
+  const { user, profile } = useAuth();
 
   const addCommentMutation = useMutation({
     mutationFn: async () => {
@@ -34,7 +36,7 @@ export function AddCommentForm({ patientId, episodeId, surgeryId }: AddCommentFo
         episode_id: episodeId || null,
         surgery_id: surgeryId || null,
         text,
-        author: "Current User", // In real app, get from auth
+        author: profile?.full_name || user?.email,
         mentions: mentions.length > 0 ? mentions : null,
         is_pinned: isPinned,
       });
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/select";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
+import { PossibleDuplicates } from "@/components/patient/PossibleDuplicates";
 
 interface AddPatientDialogProps {
   trigger?: React.ReactNode;
@@ -196,6 +197,15 @@ export function AddPatientDialog({ trigger }: AddPatientDialogProps) {
             />
           </div>
 
+          <PossibleDuplicates
+            patient={{
+              name: formData.name,
+              medical_record_number: formData.medical_record_number,
+              date_of_birth: formData.date_of_birth,
+              contact_phone: formData.contact_phone,
+            }}
+          />
+
           <Button type="submit" className="w-full" disabled={addPatientMutation.isPending}>
             {addPatientMutation.isPending ? "Adding..." : "Add Patient"}
           </Button>
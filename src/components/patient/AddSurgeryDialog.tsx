@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -21,6 +22,15 @@ import {
 } from "@/components/ui/select";
 import { Plus } from "lucide-react";
 import { toast } from "sonner";
+import { usePermissions } from "@/hooks/usePermissions";
+import { OperatingRoomSelect } from "./OperatingRoomSelect";
+import { ScheduleConflicts } from "./ScheduleConflicts";
+import {
+  fetchSurgeryConflicts,
+  saveSurgery,
+  type ScheduleConflict,
+  type SurgeryCandidate,
+} from "@/lib/scheduleConflicts";
 
 /**
  * Props for AddSurgeryDialog component
@@ -35,6 +45,7 @@ interface AddSurgeryDialogProps {
 export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps) {
   const [open, setOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
 
   // Form state with hospital_id and status defaulting to "scheduled"
   const [formData, setFormData] = useState({
@@ -45,11 +56,13 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
     main_surgeon: "",
     assistants: "",
     operating_room: "",
+    operating_room_id: "",
     duration_minutes: "",
     structured_description: "",
     notes: "",
     episode_id: "",
   });
+  const [overrideReason, setOverrideReason] = useState("");
 
   // Fetch hospitals for dropdown
   const { data: hospitals = [] } = useQuery({
@@ -82,44 +95,30 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
    * Also updates kanban card column based on surgery status
    */
   const addSurgeryMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
-      // Insert the surgery
-      const { error } = await supabase.from("surgeries").insert({
-        patient_id: patientId,
-        procedure_name: data.procedure_name,
-        scheduled_date: data.scheduled_date || null,
-        status: data.status,
-        hospital_id: data.hospital_id || null,
-        main_surgeon: data.main_surgeon || null,
-        assistants: data.assistants ? data.assistants.split(",").map((s) => s.trim()) : null,
-        operating_room: data.operating_room || null,
-        duration_minutes: data.duration_minutes ? parseInt(data.duration_minutes) : null,
-        structured_description: data.structured_description || null,
-        notes: data.notes || null,
-        episode_id: data.episode_id || null,
-      });
-      if (error) throw error;
+    mutationFn: async ({ data, conflicts }: { data: typeof formData; conflicts: ScheduleConflict[] }) => {
+      // Insert the surgery with the reason for any conflicts
+      await saveSurgery(
+        null,
+        {
+          patient_id: patientId,
+          procedure_name: data.procedure_name,
+          scheduled_date: data.scheduled_date ? new Date(data.scheduled_date).toISOString() : null,
+          status: data.status,
+          hospital_id: data.hospital_id || null,
+          main_surgeon: data.main_surgeon || null,
+          assistants: data.assistants ? data.assistants.split(",").map((s) => s.trim()) : null,
+          operating_room: data.operating_room || null,
+          operating_room_id: data.operating_room_id || null,
+          duration_minutes: data.duration_minutes ? parseInt(data.duration_minutes) : null,
+          structured_description: data.structured_description || null,
+          notes: data.notes || null,
+          episode_id: data.episode_id || null,
+        },
+        { reason: overrideReason, conflicts }
+      );
 
-      // Update kanban card column to match surgery status
-      // Map surgery status to kanban column
-      const statusToColumn: Record<string, string> = {
-        scheduled: "scheduled",
-        pending: "pending",
-        in_progress: "pending",
-        completed: "operated",
-        cancelled: "waiting",
-      };
-      
-      const newColumn = statusToColumn[data.status] || "scheduled";
-      
-      // Update all kanban cards for this patient
-      await supabase
-        .from("kanban_cards")
-        .update({ 
-          column_name: newColumn,
-          scheduled_date: data.scheduled_date || null,
-        })
-        .eq("patient_id", patientId);
+      // Move the cards tracking this surgery per their board's status mapping
+      await syncPatientKanbanWithSurgery(patientId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["patient-surgeries", patientId] });
@@ -137,11 +136,13 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
         main_surgeon: "",
         assistants: "",
         operating_room: "",
+        operating_room_id: "",
         duration_minutes: "",
         structured_description: "",
         notes: "",
         episode_id: "",
       });
+      setOverrideReason("");
       toast.success("Surgery added successfully");
     },
     onError: () => {
@@ -149,10 +150,23 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
     },
   });
 
+  // The surgery as entered, to check against the rest of the schedule
+  const scheduleCandidate: SurgeryCandidate = {
+    patient_id: patientId,
+    procedure_name: formData.procedure_name,
+    scheduled_date: formData.scheduled_date ? new Date(formData.scheduled_date).toISOString() : null,
+    duration_minutes: formData.duration_minutes ? parseInt(formData.duration_minutes) : null,
+    status: formData.status,
+    main_surgeon: formData.main_surgeon || null,
+    assistants: formData.assistants ? formData.assistants.split(",").map((s) => s.trim()) : null,
+    operating_room_id: formData.operating_room_id || null,
+  };
+
   /**
-   * Handle form submission with validation
+   * Handle form submission with validation. Conflicts are checked again
+   * here, as the inline warning may lag behind the last keystroke.
    */
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.procedure_name.trim()) {
       toast.error("Procedure name is required");
@@ -162,7 +176,18 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
       toast.error("Hospital is required");
       return;
     }
-    addSurgeryMutation.mutate(formData);
+    let conflicts: ScheduleConflict[];
+    try {
+      conflicts = await fetchSurgeryConflicts(scheduleCandidate);
+    } catch (error) {
+      toast.error("Failed to check for conflicts: " + (error as Error).message);
+      return;
+    }
+    if (conflicts.length > 0 && !overrideReason.trim()) {
+      toast.error("Give a reason to schedule this surgery despite its conflicts");
+      return;
+    }
+    addSurgeryMutation.mutate({ data: formData, conflicts });
   };
 
   return (
@@ -196,7 +221,10 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
             <Label htmlFor="hospital">Hospital *</Label>
             <Select
               value={formData.hospital_id}
-              onValueChange={(value) => setFormData({ ...formData, hospital_id: value })}
+              disabled={!can("surgeries.schedule")}
+              onValueChange={(value) =>
+                setFormData({ ...formData, hospital_id: value, operating_room_id: "", operating_room: "" })
+              }
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select hospital" />
@@ -219,12 +247,14 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
                 type="datetime-local"
                 value={formData.scheduled_date}
                 onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })}
+                disabled={!can("surgeries.schedule")}
               />
             </div>
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
                 value={formData.status}
+                disabled={!can("surgeries.schedule")}
                 onValueChange={(value) => setFormData({ ...formData, status: value })}
               >
                 <SelectTrigger>
@@ -269,15 +299,19 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
                 id="surgeon"
                 value={formData.main_surgeon}
                 onChange={(e) => setFormData({ ...formData, main_surgeon: e.target.value })}
+                disabled={!can("surgeries.schedule")}
                 placeholder="Dr. Smith"
               />
             </div>
             <div className="space-y-2">
               <Label htmlFor="room">Operating Room</Label>
-              <Input
+              <OperatingRoomSelect
                 id="room"
-                value={formData.operating_room}
-                onChange={(e) => setFormData({ ...formData, operating_room: e.target.value })}
+                hospitalId={formData.hospital_id}
+                roomId={formData.operating_room_id}
+                roomName={formData.operating_room}
+                onChange={(room) => setFormData({ ...formData, ...room })}
+                disabled={!can("surgeries.schedule")}
                 placeholder="OR-1"
               />
             </div>
@@ -290,6 +324,7 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
                 id="assistants"
                 value={formData.assistants}
                 onChange={(e) => setFormData({ ...formData, assistants: e.target.value })}
+                disabled={!can("surgeries.schedule")}
                 placeholder="Dr. Jones, Dr. Brown"
               />
             </div>
@@ -300,6 +335,7 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
                 type="number"
                 value={formData.duration_minutes}
                 onChange={(e) => setFormData({ ...formData, duration_minutes: e.target.value })}
+                disabled={!can("surgeries.schedule")}
                 placeholder="120"
               />
             </div>
@@ -311,6 +347,7 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
               id="description"
               value={formData.structured_description}
               onChange={(e) => setFormData({ ...formData, structured_description: e.target.value })}
+              disabled={!can("surgeries.edit_clinical")}
               placeholder="Detailed procedure description..."
               rows={3}
             />
@@ -327,6 +364,8 @@ export function AddSurgeryDialog({ patientId, trigger }: AddSurgeryDialogProps)
             />
           </div>
 
+          <ScheduleConflicts surgery={scheduleCandidate} reason={overrideReason} onReasonChange={setOverrideReason} />
+
           <Button type="submit" className="w-full" disabled={addSurgeryMutation.isPending}>
             {addSurgeryMutation.isPending ? "Adding..." : "Add Surgery"}
           </Button>
@@ -5,8 +5,10 @@
  */
 
 import { useState, useEffect } from "react";
+import { format } from "date-fns";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
 import {
   Dialog,
   DialogContent,
@@ -25,6 +27,16 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { usePermissions } from "@/hooks/usePermissions";
+import { OperatingRoomSelect } from "./OperatingRoomSelect";
+import { ScheduleConflicts } from "./ScheduleConflicts";
+import {
+  fetchSurgeryConflicts,
+  isSameSchedule,
+  saveSurgery,
+  type ScheduleConflict,
+  type SurgeryCandidate,
+} from "@/lib/scheduleConflicts";
 
 interface EditSurgeryDialogProps {
   open: boolean;
@@ -35,6 +47,7 @@ interface EditSurgeryDialogProps {
 
 export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }: EditSurgeryDialogProps) {
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
   const [formData, setFormData] = useState({
     procedure_name: "",
     scheduled_date: "",
@@ -43,11 +56,13 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
     main_surgeon: "",
     assistants: "",
     operating_room: "",
+    operating_room_id: "",
     duration_minutes: "",
     structured_description: "",
     notes: "",
     episode_id: "",
   });
+  const [overrideReason, setOverrideReason] = useState("");
 
   // Fetch surgery data
   const { data: surgery } = useQuery({
@@ -95,58 +110,45 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
     if (surgery) {
       setFormData({
         procedure_name: surgery.procedure_name || "",
-        scheduled_date: surgery.scheduled_date ? surgery.scheduled_date.slice(0, 16) : "",
+        scheduled_date: surgery.scheduled_date ? format(new Date(surgery.scheduled_date), "yyyy-MM-dd'T'HH:mm") : "",
         status: surgery.status || "scheduled",
         hospital_id: surgery.hospital_id || "",
         main_surgeon: surgery.main_surgeon || "",
         assistants: surgery.assistants?.join(", ") || "",
         operating_room: surgery.operating_room || "",
+        operating_room_id: surgery.operating_room_id || "",
         duration_minutes: surgery.duration_minutes?.toString() || "",
         structured_description: surgery.structured_description || "",
         notes: surgery.notes || "",
         episode_id: surgery.episode_id || "",
       });
+      setOverrideReason("");
     }
   }, [surgery]);
 
   const updateSurgeryMutation = useMutation({
-    mutationFn: async (data: typeof formData) => {
-      const { error } = await supabase
-        .from("surgeries")
-        .update({
+    mutationFn: async ({ data, conflicts }: { data: typeof formData; conflicts: ScheduleConflict[] }) => {
+      await saveSurgery(
+        surgeryId,
+        {
           procedure_name: data.procedure_name,
-          scheduled_date: data.scheduled_date || null,
+          scheduled_date: data.scheduled_date ? new Date(data.scheduled_date).toISOString() : null,
           status: data.status,
           hospital_id: data.hospital_id || null,
           main_surgeon: data.main_surgeon || null,
           assistants: data.assistants ? data.assistants.split(",").map((s) => s.trim()) : null,
           operating_room: data.operating_room || null,
+          operating_room_id: data.operating_room_id || null,
           duration_minutes: data.duration_minutes ? parseInt(data.duration_minutes) : null,
           structured_description: data.structured_description || null,
           notes: data.notes || null,
           episode_id: data.episode_id || null,
-        })
-        .eq("id", surgeryId);
-      if (error) throw error;
+        },
+        { reason: overrideReason, conflicts }
+      );
 
-      // Update kanban card column to match surgery status
-      const statusToColumn: Record<string, string> = {
-        scheduled: "scheduled",
-        pending: "pending",
-        in_progress: "pending",
-        completed: "operated",
-        cancelled: "waiting",
-      };
-      
-      const newColumn = statusToColumn[data.status] || "scheduled";
-      
-      await supabase
-        .from("kanban_cards")
-        .update({ 
-          column_name: newColumn,
-          scheduled_date: data.scheduled_date || null,
-        })
-        .eq("patient_id", patientId);
+      // Move the cards tracking this surgery per their board's status mapping
+      await syncPatientKanbanWithSurgery(patientId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["patient-card-surgeries", patientId] });
@@ -161,13 +163,46 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
     },
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // The surgery as entered, to check against the rest of the schedule
+  const scheduleCandidate: SurgeryCandidate = {
+    id: surgeryId,
+    patient_id: patientId,
+    procedure_name: formData.procedure_name,
+    scheduled_date: formData.scheduled_date ? new Date(formData.scheduled_date).toISOString() : null,
+    duration_minutes: formData.duration_minutes ? parseInt(formData.duration_minutes) : null,
+    status: formData.status,
+    main_surgeon: formData.main_surgeon || null,
+    assistants: formData.assistants ? formData.assistants.split(",").map((s) => s.trim()) : null,
+    operating_room_id: formData.operating_room_id || null,
+  };
+  // Only a change to the slot, room or team is checked, so other edits to an
+  // already overlapping surgery don't need a reason again
+  const scheduleChanged = !!surgery && !isSameSchedule(scheduleCandidate, surgery);
+
+  /**
+   * Conflicts are checked again here, as the inline warning may lag behind
+   * the last keystroke
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.procedure_name.trim()) {
       toast.error("Procedure name is required");
       return;
     }
-    updateSurgeryMutation.mutate(formData);
+    let conflicts: ScheduleConflict[] = [];
+    if (scheduleChanged) {
+      try {
+        conflicts = await fetchSurgeryConflicts(scheduleCandidate);
+      } catch (error) {
+        toast.error("Failed to check for conflicts: " + (error as Error).message);
+        return;
+      }
+    }
+    if (conflicts.length > 0 && !overrideReason.trim()) {
+      toast.error("Give a reason to schedule this surgery despite its conflicts");
+      return;
+    }
+    updateSurgeryMutation.mutate({ data: formData, conflicts });
   };
 
   return (
@@ -191,7 +226,10 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
             <Label htmlFor="hospital">Hospital</Label>
             <Select
               value={formData.hospital_id}
-              onValueChange={(value) => setFormData({ ...formData, hospital_id: value })}
+              disabled={!can("surgeries.schedule")}
+              onValueChange={(value) =>
+                setFormData({ ...formData, hospital_id: value, operating_room_id: "", operating_room: "" })
+              }
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select hospital" />
@@ -214,12 +252,14 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
                 type="datetime-local"
                 value={formData.scheduled_date}
                 onChange={(e) => setFormData({ ...formData, scheduled_date: e.target.value })}
+                disabled={!can("surgeries.schedule")}
               />
             </div>
             <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
                 value={formData.status}
+                disabled={!can("surgeries.schedule")}
                 onValueChange={(value) => setFormData({ ...formData, status: value })}
               >
                 <SelectTrigger>
@@ -265,14 +305,18 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
                 id="surgeon"
                 value={formData.main_surgeon}
                 onChange={(e) => setFormData({ ...formData, main_surgeon: e.target.value })}
+                disabled={!can("surgeries.schedule")}
               />
             </div>
             <div className="space-y-2">
               <Label htmlFor="room">Operating Room</Label>
-              <Input
+              <OperatingRoomSelect
                 id="room"
-                value={formData.operating_room}
-                onChange={(e) => setFormData({ ...formData, operating_room: e.target.value })}
+                hospitalId={formData.hospital_id}
+                roomId={formData.operating_room_id}
+                roomName={formData.operating_room}
+                onChange={(room) => setFormData({ ...formData, ...room })}
+                disabled={!can("surgeries.schedule")}
               />
             </div>
           </div>
@@ -284,6 +328,7 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
                 id="assistants"
                 value={formData.assistants}
                 onChange={(e) => setFormData({ ...formData, assistants: e.target.value })}
+                disabled={!can("surgeries.schedule")}
                 placeholder="Comma separated"
               />
             </div>
@@ -294,6 +339,7 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
                 type="number"
                 value={formData.duration_minutes}
                 onChange={(e) => setFormData({ ...formData, duration_minutes: e.target.value })}
+                disabled={!can("surgeries.schedule")}
               />
             </div>
           </div>
@@ -304,6 +350,7 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
               id="description"
               value={formData.structured_description}
               onChange={(e) => setFormData({ ...formData, structured_description: e.target.value })}
+              disabled={!can("surgeries.edit_clinical")}
               rows={3}
             />
           </div>
@@ -318,6 +365,10 @@ export function EditSurgeryDialog({ open, onOpenChange, surgeryId, patientId }:
             />
           </div>
 
+          {scheduleChanged && (
+            <ScheduleConflicts surgery={scheduleCandidate} reason={overrideReason} onReasonChange={setOverrideReason} />
+          )}
+
           <Button type="submit" className="w-full" disabled={updateSurgeryMutation.isPending}>
             {updateSurgeryMutation.isPending ? "Saving..." : "Save Changes"}
           </Button>
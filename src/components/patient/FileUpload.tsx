@@ -15,6 +15,7 @@
 import { useState, useCallback } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { ATTACHMENTS_BUCKET } from "@/lib/storage";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -87,7 +88,7 @@ export function FileUpload({ patientId, episodeId, surgeryId, trigger }: FileUpl
 
       // Upload to Supabase Storage
       const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('patient-attachments')
+        .from(ATTACHMENTS_BUCKET)
         .upload(fileName, selectedFile, {
           cacheControl: '3600',
           upsert: false,
@@ -95,20 +96,13 @@ export function FileUpload({ patientId, episodeId, surgeryId, trigger }: FileUpl
 
       if (uploadError) throw uploadError;
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('patient-attachments')
-        .getPublicUrl(fileName);
-
-      const fileUrl = urlData.publicUrl;
-      
-      // Create attachment record
+      // Create attachment record (the bucket is private, so store the path)
       const { error } = await supabase.from("attachments").insert({
         patient_id: patientId,
         episode_id: episodeId || null,
         surgery_id: surgeryId || null,
         file_name: selectedFile.name,
-        file_url: fileUrl,
+        file_url: fileName,
         file_type: selectedFile.type,
         mime_type: selectedFile.type,
         attachment_type: attachmentType,
@@ -0,0 +1,73 @@
+/**
+ * OperatingRoomSelect Component
+ *
+ * Picks one of the hospital's operating rooms for a surgery. Hospitals
+ * without rooms set up keep the free-text room field.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { fetchOperatingRooms } from "@/lib/operatingRooms";
+
+interface OperatingRoomSelectProps {
+  id?: string;
+  hospitalId: string;
+  roomId: string;
+  roomName: string;
+  onChange: (room: { operating_room_id: string; operating_room: string }) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+export function OperatingRoomSelect({ id, hospitalId, roomId, roomName, onChange, disabled, placeholder }: OperatingRoomSelectProps) {
+  const { data: rooms = [] } = useQuery({
+    queryKey: ["operating-rooms", hospitalId],
+    queryFn: () => fetchOperatingRooms(hospitalId),
+    enabled: !!hospitalId,
+  });
+
+  if (!hospitalId || rooms.length === 0) {
+    return (
+      <Input
+        id={id}
+        value={roomName}
+        onChange={(e) => onChange({ operating_room_id: "", operating_room: e.target.value })}
+        disabled={disabled}
+        placeholder={placeholder}
+      />
+    );
+  }
+
+  // Deactivated rooms are only offered when the surgery is already in one
+  const options = rooms.filter((room) => room.active || room.id === roomId);
+
+  return (
+    <Select
+      value={roomId || "none"}
+      disabled={disabled}
+      onValueChange={(value) => {
+        const room = rooms.find((r) => r.id === value);
+        onChange({ operating_room_id: room?.id ?? "", operating_room: room?.name ?? "" });
+      }}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select room" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">No room</SelectItem>
+        {options.map((room) => (
+          <SelectItem key={room.id} value={room.id}>
+            {room.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -12,7 +12,9 @@ import { Badge } from "@/components/ui/badge";
 import { FileText, Image, File, Download, ExternalLink } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
+import { createSignedAttachmentUrls } from "@/lib/storage";
 import { FileUpload } from "./FileUpload";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface PatientAttachmentsProps {
   /** Patient ID to fetch attachments for */
@@ -38,6 +40,7 @@ const typeColors: Record<string, string> = {
 };
 
 export function PatientAttachments({ patientId, surgeryId }: PatientAttachmentsProps) {
+  const { can } = usePermissions();
   const { data: attachments = [], isLoading } = useQuery({
     queryKey: ["patient-attachments", patientId, surgeryId],
     queryFn: async () => {
@@ -53,7 +56,10 @@ export function PatientAttachments({ patientId, surgeryId }: PatientAttachmentsP
       
       const { data, error } = await query.order("uploaded_at", { ascending: false });
       if (error) throw error;
-      return data;
+
+      // The bucket is private, so resolve each stored path to a signed link
+      const signedUrls = await createSignedAttachmentUrls(data.map((a) => a.file_url));
+      return data.map((a) => ({ ...a, signed_url: signedUrls[a.file_url] }));
     },
   });
 
@@ -77,7 +83,7 @@ export function PatientAttachments({ patientId, surgeryId }: PatientAttachmentsP
         <CardContent className="p-6">
           <div className="text-center py-8">
             <p className="text-muted-foreground mb-4">No attachments uploaded</p>
-            <FileUpload patientId={patientId} surgeryId={surgeryId} />
+            {can("attachments.upload") && <FileUpload patientId={patientId} surgeryId={surgeryId} />}
           </div>
         </CardContent>
       </Card>
@@ -86,9 +92,11 @@ export function PatientAttachments({ patientId, surgeryId }: PatientAttachmentsP
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-end">
-        <FileUpload patientId={patientId} surgeryId={surgeryId} />
-      </div>
+      {can("attachments.upload") && (
+        <div className="flex justify-end">
+          <FileUpload patientId={patientId} surgeryId={surgeryId} />
+        </div>
+      )}
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
       {attachments.map((attachment) => (
         <Card key={attachment.id} className="hover:shadow-md transition-shadow">
@@ -116,13 +124,13 @@ export function PatientAttachments({ patientId, surgeryId }: PatientAttachmentsP
             </div>
             <div className="flex items-center gap-2 mt-3">
               <Button variant="outline" size="sm" className="flex-1" asChild>
-                <a href={attachment.file_url} target="_blank" rel="noopener noreferrer">
+                <a href={attachment.signed_url} target="_blank" rel="noopener noreferrer">
                   <ExternalLink className="h-3 w-3 mr-1" />
                   View
                 </a>
               </Button>
               <Button variant="outline" size="sm" className="flex-1" asChild>
-                <a href={attachment.file_url} download={attachment.file_name}>
+                <a href={attachment.signed_url} download={attachment.file_name}>
                   <Download className="h-3 w-3 mr-1" />
                   Download
                 </a>
@@ -6,12 +6,14 @@ import { Pin, User } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import { AddCommentForm } from "./AddCommentForm";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface PatientCommentsProps {
   patientId: string;
 }
 
 export function PatientComments({ patientId }: PatientCommentsProps) {
+  const { can } = usePermissions();
   const { data: comments = [], isLoading } = useQuery({
     queryKey: ["patient-comments", patientId],
     queryFn: async () => {
@@ -65,11 +67,13 @@ export function PatientComments({ patientId }: PatientCommentsProps) {
 
   return (
     <div className="space-y-4">
-      <Card>
-        <CardContent className="p-4">
-          <AddCommentForm patientId={patientId} />
-        </CardContent>
-      </Card>
+      {can("comments.create") && (
+        <Card>
+          <CardContent className="p-4">
+            <AddCommentForm patientId={patientId} />
+          </CardContent>
+        </Card>
+      )}
       
       <div className="space-y-3">
         {comments.map((comment) => (
@@ -0,0 +1,202 @@
+/**
+ * PatientHistory Component
+ *
+ * Timeline of every recorded change to a patient and their clinical records,
+ * read from the audit_log table. Updates are rendered as field-level diffs,
+ * with kanban card columns shown by name.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Pencil, Trash2, ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { Json } from "@/integrations/supabase/types";
+
+interface PatientHistoryProps {
+  patientId: string;
+}
+
+const tableLabels: Record<string, string> = {
+  patients: "Patient",
+  surgeries: "Surgery",
+  episodes: "Episode",
+  consultations: "Consultation",
+  attachments: "Attachment",
+  comments: "Comment",
+  kanban_cards: "Kanban card",
+};
+
+const operationConfig: Record<string, { label: string; icon: React.ReactNode; className: string }> = {
+  INSERT: { label: "created", icon: <Plus className="h-4 w-4" />, className: "bg-success/10 text-success" },
+  UPDATE: { label: "updated", icon: <Pencil className="h-4 w-4" />, className: "bg-info/10 text-info" },
+  DELETE: { label: "deleted", icon: <Trash2 className="h-4 w-4" />, className: "bg-destructive/10 text-destructive" },
+};
+
+/** Columns that change on every write and carry no clinical meaning */
+const ignoredFields = ["id", "created_at", "updated_at", "uploaded_at", "patient_id"];
+
+/** Fields used to name the changed record in the timeline */
+const titleFields = ["procedure_name", "title", "name", "file_name", "text"];
+
+type Row = Record<string, Json>;
+
+interface FieldChange {
+  field: string;
+  before: Json;
+  after: Json;
+}
+
+/** List the fields whose values differ between two row snapshots */
+function diffRows(before: Row | null, after: Row | null): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (ignoredFields.includes(field)) return;
+    const oldValue = before?.[field] ?? null;
+    const newValue = after?.[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  });
+  return changes;
+}
+
+/** Render a JSON value as short readable text; card columns are named from columnNames */
+function formatValue(value: Json, field?: string, columnNames?: Map<string, string>): string {
+  if (field === "column_id" && typeof value === "string") return columnNames?.get(value) ?? "Removed column";
+  if (value === null || value === "") return "—";
+  if (Array.isArray(value)) return value.map((item) => formatValue(item)).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return format(new Date(value), "dd MMM yyyy, HH:mm");
+  }
+  return String(value);
+}
+
+const formatField = (field: string) => (field === "column_id" ? "column" : field.replace(/_/g, " "));
+
+export function PatientHistory({ patientId }: PatientHistoryProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["patient-history", patientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("audit_log")
+        .select("*, actor:profiles(full_name, email)")
+        .eq("patient_id", patientId)
+        .order("changed_at", { ascending: false })
+        .limit(200);
+      if (error) throw error;
+
+      // Name the columns kanban cards were in
+      const columnIds = new Set<string>();
+      data
+        .filter((entry) => entry.table_name === "kanban_cards")
+        .forEach((entry) =>
+          [entry.old_data, entry.new_data].forEach((row) => {
+            const columnId = (row as Row | null)?.column_id;
+            if (typeof columnId === "string") columnIds.add(columnId);
+          })
+        );
+      const columnNames = new Map<string, string>();
+      if (columnIds.size > 0) {
+        const { data: columns, error: columnsError } = await supabase
+          .from("kanban_columns")
+          .select("id, name")
+          .in("id", [...columnIds]);
+        if (columnsError) throw columnsError;
+        columns.forEach((c) => columnNames.set(c.id, c.name));
+      }
+
+      return { entries: data, columnNames };
+    },
+  });
+  const entries = data?.entries ?? [];
+  const columnNames = data?.columnNames;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="animate-pulse space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted rounded" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <p className="text-muted-foreground text-center py-8">No recorded changes</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="relative space-y-6 before:absolute before:left-4 before:top-2 before:bottom-2 before:w-px before:bg-border">
+          {entries.map((entry) => {
+            const before = entry.old_data as Row | null;
+            const after = entry.new_data as Row | null;
+            const snapshot = after ?? before ?? {};
+            const titleField = titleFields.find((f) => typeof snapshot[f] === "string");
+            const title =
+              entry.table_name === "kanban_cards"
+                ? formatValue(snapshot.column_id ?? null, "column_id", columnNames)
+                : titleField
+                  ? String(snapshot[titleField]).slice(0, 60)
+                  : null;
+            const op = operationConfig[entry.operation] ?? operationConfig.UPDATE;
+            const changes = entry.operation === "UPDATE" ? diffRows(before, after) : [];
+
+            return (
+              <div key={entry.id} className="relative flex gap-4">
+                <div className={cn("z-10 flex h-8 w-8 shrink-0 items-center justify-center rounded-full", op.className)}>
+                  {op.icon}
+                </div>
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-medium">
+                      {entry.actor?.full_name || entry.actor?.email || "System"}
+                    </span>
+                    <span className="text-muted-foreground">{op.label}</span>
+                    <Badge variant="outline">{tableLabels[entry.table_name] ?? entry.table_name}</Badge>
+                    {title && <span className="truncate font-medium">{title}</span>}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {format(new Date(entry.changed_at), "dd MMM yyyy, HH:mm")}
+                    </span>
+                  </div>
+                  {changes.length > 0 && (
+                    <div className="rounded-lg border bg-muted/30 p-3 space-y-1 text-xs">
+                      {changes.map((change) => (
+                        <div key={change.field} className="flex flex-wrap items-start gap-2">
+                          <span className="font-medium capitalize text-muted-foreground min-w-[120px]">
+                            {formatField(change.field)}
+                          </span>
+                          <span className="line-through text-destructive/80 break-all">
+                            {formatValue(change.before, change.field, columnNames)}
+                          </span>
+                          <ArrowRight className="h-3 w-3 mt-0.5 text-muted-foreground" />
+                          <span className="text-success break-all">{formatValue(change.after, change.field, columnNames)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Calendar, Clock, User, Users, Edit } from "lucide-react";
 import { format } from "date-fns";
 import { AddSurgeryDialog } from "./AddSurgeryDialog";
 import { EditSurgeryDialog } from "./EditSurgeryDialog";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface PatientSurgeriesProps {
   patientId: string;
@@ -21,6 +22,7 @@ const statusColors: Record<string, string> = {
 };
 
 export function PatientSurgeries({ patientId }: PatientSurgeriesProps) {
+  const { can } = usePermissions();
   const [editSurgeryId, setEditSurgeryId] = useState<string | null>(null);
   const { data: surgeries = [], isLoading } = useQuery({
     queryKey: ["patient-surgeries", patientId],
@@ -52,9 +54,11 @@ export function PatientSurgeries({ patientId }: PatientSurgeriesProps) {
   if (surgeries.length === 0) {
     return (
       <div className="space-y-4">
-        <div className="flex justify-end">
-          <AddSurgeryDialog patientId={patientId} />
-        </div>
+        {can("surgeries.schedule") && (
+          <div className="flex justify-end">
+            <AddSurgeryDialog patientId={patientId} />
+          </div>
+        )}
         <Card>
           <CardContent className="p-6">
             <p className="text-muted-foreground text-center py-8">No surgeries recorded</p>
@@ -66,9 +70,11 @@ export function PatientSurgeries({ patientId }: PatientSurgeriesProps) {
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-end">
-        <AddSurgeryDialog patientId={patientId} />
-      </div>
+      {can("surgeries.schedule") && (
+        <div className="flex justify-end">
+          <AddSurgeryDialog patientId={patientId} />
+        </div>
+      )}
       <div className="space-y-3">
       {surgeries.map((surgery) => (
         <Card key={surgery.id} className="hover:shadow-md transition-shadow">
@@ -84,9 +90,11 @@ export function PatientSurgeries({ patientId }: PatientSurgeriesProps) {
                 {surgery.operating_room && (
                   <Badge variant="outline">Room {surgery.operating_room}</Badge>
                 )}
-                <Button variant="ghost" size="sm" onClick={() => setEditSurgeryId(surgery.id)}>
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {(can("surgeries.schedule") || can("surgeries.edit_clinical")) && (
+                  <Button variant="ghost" size="sm" onClick={() => setEditSurgeryId(surgery.id)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -0,0 +1,63 @@
+/**
+ * PossibleDuplicates Component
+ *
+ * Warning shown while a new patient is being entered when patients with a
+ * similar name, the same MRN, birth date or phone number already exist.
+ * It only warns; the patient can still be created.
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import { findPatientDuplicates, type PatientIdentity } from "@/lib/patientDuplicates";
+
+interface PossibleDuplicatesProps {
+  patient: PatientIdentity;
+}
+
+/** Wait for typing to pause before searching */
+const SEARCH_DELAY_MS = 400;
+
+export function PossibleDuplicates({ patient }: PossibleDuplicatesProps) {
+  const [search, setSearch] = useState(patient);
+
+  const { name, medical_record_number, date_of_birth, contact_phone } = patient;
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setSearch({ name, medical_record_number, date_of_birth, contact_phone }),
+      SEARCH_DELAY_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [name, medical_record_number, date_of_birth, contact_phone]);
+
+  // Fetch patients that may be the one being entered
+  const { data: duplicates = [] } = useQuery({
+    queryKey: ["patient-duplicates", search],
+    queryFn: () => findPatientDuplicates(search),
+    enabled: search.name.trim().length >= 3 || !!search.medical_record_number?.trim(),
+  });
+
+  if (duplicates.length === 0) return null;
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4 text-warning" />
+      <AlertDescription className="space-y-1">
+        <div className="font-medium">This patient may already exist</div>
+        {duplicates.slice(0, 5).map(({ patient: match, reasons }) => (
+          <div key={match.id} className="text-xs">
+            <Link to={`/patient/${match.id}`} target="_blank" className="underline">
+              {match.name}
+            </Link>
+            {match.medical_record_number && <span className="font-mono"> · {match.medical_record_number}</span>}
+            {match.date_of_birth && <span> · {format(new Date(match.date_of_birth), "dd/MM/yyyy")}</span>}
+            <span className="text-muted-foreground"> ({reasons.join(", ")})</span>
+          </div>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * ScheduleConflicts Component
+ *
+ * Lists the surgeries a surgery being added or edited would overlap with,
+ * by room, surgeon, assistant or patient, and asks for the reason it is
+ * being scheduled anyway.
+ */
+
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle } from "lucide-react";
+import { conflictLabels, fetchSurgeryConflicts, type SurgeryCandidate } from "@/lib/scheduleConflicts";
+
+interface ScheduleConflictsProps {
+  surgery: SurgeryCandidate;
+  reason: string;
+  onReasonChange: (reason: string) => void;
+}
+
+/** Wait for typing to pause before checking */
+const CHECK_DELAY_MS = 400;
+
+export function ScheduleConflicts({ surgery, reason, onReasonChange }: ScheduleConflictsProps) {
+  const [check, setCheck] = useState(surgery);
+
+  const key = JSON.stringify(surgery);
+  useEffect(() => {
+    const timeout = setTimeout(() => setCheck(JSON.parse(key)), CHECK_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [key]);
+
+  // Fetch the surgeries this one would overlap with
+  const { data: conflicts = [] } = useQuery({
+    queryKey: ["surgery-conflicts", check],
+    queryFn: () => fetchSurgeryConflicts(check),
+    enabled: !!check.scheduled_date,
+  });
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <div className="font-medium">This surgery overlaps with other surgeries</div>
+        {conflicts.map(({ kind, surgery: other }) => (
+          <div key={`${kind}-${other.id}`} className="text-xs">
+            {conflictLabels[kind]}:{" "}
+            {other.patient_id ? (
+              <Link to={`/patient/${other.patient_id}`} target="_blank" className="underline">
+                {other.procedure_name}
+              </Link>
+            ) : (
+              `${other.procedure_name} (another team's patient)`
+            )}
+            {other.patient && ` (${other.patient.name})`}
+            {other.scheduled_date && ` · ${format(new Date(other.scheduled_date), "dd/MM/yyyy HH:mm")}`}
+            {other.main_surgeon && ` · ${other.main_surgeon}`}
+          </div>
+        ))}
+        <div className="space-y-1 pt-1">
+          <Label htmlFor="conflict-reason" className="text-xs">
+            Reason for scheduling anyway *
+          </Label>
+          <Textarea
+            id="conflict-reason"
+            value={reason}
+            onChange={(e) => onReasonChange(e.target.value)}
+            rows={2}
+            className="text-foreground"
+          />
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * CalendarFeedSettings Component
+ *
+ * Builds the user's subscribable surgery calendar URL, optionally narrowed
+ * to a surgeon, hospital, operating room or board, for phone and desktop
+ * calendar apps. Patient naming and reminders start from the calendar
+ * export settings. The URL carries the user's secret token; resetting it
+ * stops every URL given out before.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, Copy, ExternalLink, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useSettings } from "@/contexts/SettingsContext";
+import { fetchOperatingRooms } from "@/lib/operatingRooms";
+import { calendarPrivacyLabels, calendarReminderOptions, type CalendarPrivacy } from "@/lib/ics";
+import {
+  calendarFeedUrl,
+  fetchCalendarFeedToken,
+  rotateCalendarFeedToken,
+  type CalendarFeedFilters,
+} from "@/lib/calendarFeed";
+
+export function CalendarFeedSettings() {
+  const queryClient = useQueryClient();
+  const { calendarPrivacy, calendarReminderMinutes } = useSettings();
+  const [filters, setFilters] = useState<CalendarFeedFilters>({
+    privacy: calendarPrivacy,
+    alarm: calendarReminderMinutes > 0 ? String(calendarReminderMinutes) : undefined,
+  });
+
+  const { data: token, isLoading } = useQuery({
+    queryKey: ["calendar-feed-token"],
+    queryFn: fetchCalendarFeedToken,
+  });
+
+  const { data: hospitals = [] } = useQuery({
+    queryKey: ["hospitals-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("hospitals").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: rooms = [] } = useQuery({
+    queryKey: ["operating-rooms", filters.hospital],
+    queryFn: () => fetchOperatingRooms(filters.hospital),
+    enabled: !!filters.hospital,
+  });
+
+  const { data: boards = [] } = useQuery({
+    queryKey: ["kanban-boards-nav"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kanban_boards")
+        .select("id, name, description, hospital_id, service, hospital:hospitals(name)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Create the token, or replace it to revoke the old URLs
+  const rotateMutation = useMutation({
+    mutationFn: rotateCalendarFeedToken,
+    onSuccess: (newToken) => {
+      queryClient.setQueryData(["calendar-feed-token"], newToken);
+      toast.success(token ? "Calendar link reset; old links no longer work" : "Calendar link created");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to create calendar link: " + error.message);
+    },
+  });
+
+  const setFilter = (key: keyof CalendarFeedFilters, value: string) => {
+    const next = { ...filters, [key]: value === "all" || (key === "alarm" && value === "0") ? undefined : value };
+    if (key === "hospital") next.room = undefined;
+    setFilters(next);
+  };
+
+  const url = token ? calendarFeedUrl(token, filters) : "";
+
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Failed to copy the link; select it and copy it instead");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Calendar Subscription</CardTitle>
+        </div>
+        <CardDescription>
+          Subscribe to your surgeries from a phone or desktop calendar. Changes and cancellations show up as the calendar
+          refreshes. Anyone with the link can see these surgeries, so keep it private.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? null : !token ? (
+          <Button onClick={() => rotateMutation.mutate()} disabled={rotateMutation.isPending}>
+            Create calendar link
+          </Button>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="feed-surgeon">Surgeon</Label>
+                <Input
+                  id="feed-surgeon"
+                  value={filters.surgeon ?? ""}
+                  onChange={(e) => setFilter("surgeon", e.target.value)}
+                  placeholder="Any surgeon"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Board</Label>
+                <Select value={filters.board ?? "all"} onValueChange={(value) => setFilter("board", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All boards</SelectItem>
+                    {boards.map((board) => (
+                      <SelectItem key={board.id} value={board.id}>
+                        {board.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Hospital</Label>
+                <Select value={filters.hospital ?? "all"} onValueChange={(value) => setFilter("hospital", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All hospitals</SelectItem>
+                    {hospitals.map((hospital) => (
+                      <SelectItem key={hospital.id} value={hospital.id}>
+                        {hospital.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Operating Room</Label>
+                <Select
+                  value={filters.room ?? "all"}
+                  onValueChange={(value) => setFilter("room", value)}
+                  disabled={!filters.hospital || rooms.length === 0}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rooms</SelectItem>
+                    {rooms.map((room) => (
+                      <SelectItem key={room.id} value={room.id}>
+                        {room.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Patients shown as</Label>
+                <Select
+                  value={filters.privacy ?? "initials"}
+                  onValueChange={(value) => setFilter("privacy", value as CalendarPrivacy)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(calendarPrivacyLabels) as CalendarPrivacy[]).map((privacy) => (
+                      <SelectItem key={privacy} value={privacy}>
+                        {calendarPrivacyLabels[privacy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Reminder</Label>
+                <Select value={filters.alarm ?? "0"} onValueChange={(value) => setFilter("alarm", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {calendarReminderOptions.map((option) => (
+                      <SelectItem key={option.minutes} value={String(option.minutes)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Input value={url} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyUrl} aria-label="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" asChild>
+                <a href={calendarFeedUrl(token, filters, "webcal")}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Subscribe
+                </a>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" disabled={rotateMutation.isPending}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Reset link
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Reset calendar link?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Every calendar subscribed with your current links stops updating. You'll need to subscribe again
+                      with the new link.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => rotateMutation.mutate()}>Reset link</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,181 +1,115 @@
 /**
  * ImportKanban Component
  * 
- * Allows users to import Kanban boards from JSON files.
+ * Allows users to import Kanban boards from JSON or CSV files, in the
+ * format boards are exported in.
  * Expected JSON structure matches the database schema for boards, cards, and patients.
+ * Files without columns_config take their setup from the chosen board template.
+ * A file is validated and previewed first; the import then runs in a single
+ * transaction, so a failure leaves nothing behind.
  */
 
 import { useState, useRef } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Upload, FileJson, AlertCircle, CheckCircle } from "lucide-react";
+import { Upload, FileJson, AlertCircle, CheckCircle, Loader2 } from "lucide-react";
 import { toast } from "sonner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-
-interface ImportedPatient {
-  name: string;
-  medical_record_number?: string;
-  date_of_birth?: string;
-  gender?: string;
-  contact_phone?: string;
-  contact_email?: string;
-  address?: string;
-  notes?: string;
-}
-
-interface ImportedCard {
-  column_name: string;
-  position?: number;
-  priority?: string;
-  notes?: string;
-  scheduled_date?: string;
-  surgery_type?: string;
-  patient: ImportedPatient;
-}
-
-interface ImportedKanban {
-  name: string;
-  description?: string;
-  hospital?: string;
-  service?: string;
-  columns_config?: Array<{ id: string; name: string; color: string }>;
-  cards?: ImportedCard[];
-}
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { defaultBoardTemplate, fetchBoardTemplates } from "@/lib/boardTemplates";
+import { kanbanFromCsv } from "@/lib/kanbanExport";
+import {
+  canImportKanban,
+  importKanbanBoard,
+  previewKanbanImport,
+  type KanbanImportPreview,
+} from "@/lib/kanbanImport";
 
 export function ImportKanban() {
-  const [importing, setImporting] = useState(false);
+  const [fileData, setFileData] = useState<unknown>(null);
+  const [preview, setPreview] = useState<KanbanImportPreview | null>(null);
   const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [templateId, setTemplateId] = useState("none");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const queryClient = useQueryClient();
 
-  const importMutation = useMutation({
-    mutationFn: async (data: ImportedKanban) => {
-      // Create the board first
-      const { data: board, error: boardError } = await supabase
-        .from("kanban_boards")
-        .insert({
-          name: data.name,
-          description: data.description,
-          hospital: data.hospital,
-          service: data.service,
-          columns_config: data.columns_config || [
-            { id: "waiting", name: "Waiting List", color: "gray" },
-            { id: "scheduled", name: "Scheduled", color: "yellow" },
-            { id: "operated", name: "Operated", color: "green" },
-            { id: "follow_up", name: "Follow-up", color: "blue" },
-          ],
-        })
-        .select()
-        .single();
-
-      if (boardError) throw boardError;
-
-      // Import cards with their patients
-      if (data.cards && data.cards.length > 0) {
-        for (const card of data.cards) {
-          // Check if patient already exists by MRN
-          let patientId: string | null = null;
-
-          if (card.patient.medical_record_number) {
-            const { data: existingPatient } = await supabase
-              .from("patients")
-              .select("id")
-              .eq("medical_record_number", card.patient.medical_record_number)
-              .single();
-
-            if (existingPatient) {
-              patientId = existingPatient.id;
-            }
-          }
-
-          // Create patient if not found
-          if (!patientId) {
-            const { data: newPatient, error: patientError } = await supabase
-              .from("patients")
-              .insert({
-                name: card.patient.name,
-                medical_record_number: card.patient.medical_record_number,
-                date_of_birth: card.patient.date_of_birth,
-                gender: card.patient.gender,
-                contact_phone: card.patient.contact_phone,
-                contact_email: card.patient.contact_email,
-                address: card.patient.address,
-                notes: card.patient.notes,
-              })
-              .select()
-              .single();
-
-            if (patientError) throw patientError;
-            patientId = newPatient.id;
-          }
-
-          // Create the card
-          const { error: cardError } = await supabase
-            .from("kanban_cards")
-            .insert({
-              board_id: board.id,
-              patient_id: patientId,
-              column_name: card.column_name || "waiting",
-              position: card.position || 0,
-              priority: card.priority || "normal",
-              notes: card.notes,
-              scheduled_date: card.scheduled_date,
-              surgery_type: card.surgery_type,
-            });
+  // Fetch board templates for files that don't define their columns
+  const { data: templates = [] } = useQuery({
+    queryKey: ["board-templates"],
+    queryFn: fetchBoardTemplates,
+  });
 
-          if (cardError) throw cardError;
-        }
-      }
+  const templateConfig = (id: string) => templates.find((t) => t.id === id)?.config ?? defaultBoardTemplate;
 
-      return { boardName: data.name, cardCount: data.cards?.length || 0 };
+  // Dry run: validate the file and look up which patients already exist
+  const previewMutation = useMutation({
+    mutationFn: ({ data, template }: { data: unknown; template: string }) =>
+      previewKanbanImport(data, templateConfig(template)),
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      setResult({ success: false, message: `Preview failed: ${error.message}` });
     },
-    onSuccess: (result) => {
-      queryClient.invalidateQueries({ queryKey: ["kanban-boards"] });
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (importPreview: KanbanImportPreview) => importKanbanBoard(importPreview, templateConfig(templateId)),
+    onSuccess: (imported, importPreview) => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
       queryClient.invalidateQueries({ queryKey: ["patients"] });
       setResult({
         success: true,
-        message: `Successfully imported "${result.boardName}" with ${result.cardCount} cards`,
+        message: `Successfully imported "${importPreview.board.name}" with ${imported.cards} cards (${imported.patients_matched} patients matched, ${imported.patients_created} created)`,
       });
+      setPreview(null);
+      setFileData(null);
       toast.success("Kanban board imported successfully");
     },
     onError: (error: Error) => {
       setResult({
         success: false,
-        message: `Import failed: ${error.message}`,
+        message: `Import failed, nothing was imported: ${error.message}`,
       });
       toast.error("Failed to import Kanban board");
     },
-    onSettled: () => {
-      setImporting(false);
-    },
   });
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.endsWith(".json")) {
-      toast.error("Please select a JSON file");
+    const isCsv = file.name.toLowerCase().endsWith(".csv");
+    if (!isCsv && !file.name.toLowerCase().endsWith(".json")) {
+      toast.error("Please select a JSON or CSV file");
       return;
     }
 
-    setImporting(true);
     setResult(null);
+    setPreview(null);
 
     try {
       const text = await file.text();
-      const data = JSON.parse(text) as ImportedKanban;
-
-      if (!data.name) {
-        throw new Error("JSON must have a 'name' field for the board");
-      }
-
-      importMutation.mutate(data);
+      const data: unknown = isCsv ? kanbanFromCsv(text) : JSON.parse(text);
+      setFileData(data);
+      previewMutation.mutate({ data, template: templateId });
     } catch (error) {
-      setImporting(false);
+      setFileData(null);
       if (error instanceof SyntaxError) {
         setResult({ success: false, message: "Invalid JSON format" });
         toast.error("Invalid JSON format");
@@ -191,15 +125,23 @@ export function ImportKanban() {
     }
   };
 
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    if (fileData) previewMutation.mutate({ data: fileData, template: value });
+  };
+
+  const busy = previewMutation.isPending || importMutation.isPending;
+  const matchedCount = preview?.patients.filter((p) => p.action === "match").length ?? 0;
+
   const sampleJson = {
     name: "Sample Kanban Board",
     description: "Example board for import",
     hospital: "General Hospital",
     service: "Orthopedics",
     columns_config: [
-      { id: "waiting", name: "Waiting List", color: "gray" },
-      { id: "scheduled", name: "Scheduled", color: "yellow" },
-      { id: "operated", name: "Operated", color: "green" },
+      { id: "waiting", name: "Waiting List", color: "gray", statuses: ["cancelled"] },
+      { id: "scheduled", name: "Scheduled", color: "yellow", statuses: ["scheduled"] },
+      { id: "operated", name: "Operated", color: "green", statuses: ["completed"] },
     ],
     cards: [
       {
@@ -224,15 +166,32 @@ export function ImportKanban() {
           <CardTitle className="text-lg">Import Kanban Board</CardTitle>
         </div>
         <CardDescription>
-          Import a Kanban board from a JSON file. Patients will be created or matched by medical record number.
+          Import a Kanban board from a JSON or CSV file exported from a board. Patients will be created or matched by medical record number.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Template for files without columns_config</Label>
+          <Select value={templateId} onValueChange={handleTemplateChange}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Default columns</SelectItem>
+              {templates.map((t) => (
+                <SelectItem key={t.id} value={t.id}>
+                  {t.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.csv"
             onChange={handleFileSelect}
             className="hidden"
             id="kanban-import"
@@ -241,17 +200,128 @@ export function ImportKanban() {
             <Button
               variant="outline"
               className="cursor-pointer"
-              disabled={importing}
+              disabled={busy}
               asChild
             >
               <span>
-                <Upload className="h-4 w-4 mr-2" />
-                {importing ? "Importing..." : "Select JSON File"}
+                {previewMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {previewMutation.isPending ? "Checking..." : "Select JSON or CSV File"}
               </span>
             </Button>
           </Label>
         </div>
 
+        {preview && (
+          <div className="space-y-3 border rounded-lg p-4">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div>
+                <div className="font-medium">{preview.board.name || "Invalid file"}</div>
+                {preview.boardErrors.length === 0 && (
+                  <div className="flex items-center gap-2 flex-wrap text-xs mt-1">
+                    <Badge variant="secondary">{preview.cards.length} cards</Badge>
+                    <Badge variant="secondary">{preview.columns.length} columns</Badge>
+                    <Badge variant="outline">{matchedCount} patients matched</Badge>
+                    <Badge variant="outline">{preview.patients.length - matchedCount} patients created</Badge>
+                    {preview.invalidRows.length > 0 && (
+                      <Badge variant="destructive">{preview.invalidRows.length} invalid rows</Badge>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setPreview(null);
+                    setFileData(null);
+                  }}
+                  disabled={importMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => importMutation.mutate(preview)}
+                  disabled={!canImportKanban(preview) || busy}
+                >
+                  {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import
+                </Button>
+              </div>
+            </div>
+
+            {preview.boardErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {preview.boardErrors.map((error) => (
+                    <div key={error}>{error}</div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview.invalidRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="space-y-1">
+                  <div>Fix these cards and select the file again - nothing is imported while any are invalid:</div>
+                  {preview.invalidRows.map((r) => (
+                    <div key={r.row} className="text-xs">
+                      Card {r.row}: {r.errors.join("; ")}
+                    </div>
+                  ))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview.unknownColumns.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                New columns for cards in unknown columns: {preview.unknownColumns.join(", ")}
+              </p>
+            )}
+
+            {preview.patients.length > 0 && (
+              <div className="max-h-64 overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Card</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>MRN</TableHead>
+                      <TableHead>Action</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.patients.map((p) => (
+                      <TableRow key={p.row}>
+                        <TableCell>{p.row}</TableCell>
+                        <TableCell>
+                          {p.name}
+                          {p.existingName && (
+                            <span className="text-xs text-muted-foreground"> (on file as {p.existingName})</span>
+                          )}
+                        </TableCell>
+                        <TableCell>{p.medical_record_number ?? "-"}</TableCell>
+                        <TableCell>
+                          <Badge variant={p.action === "match" ? "secondary" : "outline"}>
+                            {p.action === "match" ? "Match existing" : "Create"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
         {result && (
           <Alert variant={result.success ? "default" : "destructive"}>
             {result.success ? (
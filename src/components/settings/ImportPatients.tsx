@@ -0,0 +1,374 @@
+/**
+ * ImportPatients Component
+ *
+ * Wizard for bringing a spreadsheet waiting list into the app: upload a CSV
+ * or XLSX file, map its columns to patient and surgery fields, check the
+ * preview and import. Rows with errors are skipped and can be downloaded as
+ * a report, fixed and imported again.
+ * Requires the patients.create permission.
+ */
+
+import { useState, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { usePermissions } from "@/hooks/usePermissions";
+import { syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, CheckCircle, Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { surgeryStatusLabels } from "@/lib/kanban";
+import { downloadFile } from "@/lib/kanbanExport";
+import {
+  guessColumnMapping,
+  importPatientRows,
+  patientImportErrorReport,
+  patientImportFields,
+  previewPatientImport,
+  readSpreadsheet,
+  type ColumnMapping,
+  type PatientImportPreview,
+  type PatientImportResult,
+  type Spreadsheet,
+} from "@/lib/patientImport";
+
+/** Preview rows shown in the table; the rest are still imported */
+const PREVIEW_LIMIT = 200;
+
+export function ImportPatients() {
+  const { can } = usePermissions();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<PatientImportPreview | null>(null);
+  const [result, setResult] = useState<(PatientImportResult & { skipped: number }) | null>(null);
+
+  const reset = () => {
+    setSheet(null);
+    setFileName("");
+    setMapping({});
+    setPreview(null);
+  };
+
+  // Check the mapped rows for bad dates, unknown hospitals and duplicates
+  const previewMutation = useMutation({
+    mutationFn: () => previewPatientImport(sheet!, mapping),
+    onSuccess: setPreview,
+    onError: (error) => {
+      toast.error("Failed to check the file: " + error.message);
+    },
+  });
+
+  // Import the valid rows; the skipped ones go into the error report
+  const importMutation = useMutation({
+    mutationFn: async (importPreview: PatientImportPreview) => {
+      const imported = await importPatientRows(importPreview.validRows);
+      // Move the cards of patients who were already on a board
+      for (const patientId of imported.matchedPatientIds) {
+        await syncPatientKanbanWithSurgery(patientId);
+      }
+      return {
+        ...imported,
+        errors: [
+          ...importPreview.invalidRows.map((row) => ({ row: row.row, error: row.errors.join("; ") })),
+          ...imported.errors,
+        ],
+        skipped: importPreview.invalidRows.length,
+      };
+    },
+    onSuccess: (imported) => {
+      queryClient.invalidateQueries({ queryKey: ["patients"] });
+      queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
+      queryClient.invalidateQueries({ queryKey: ["waiting-list"] });
+      queryClient.invalidateQueries({ queryKey: ["waiting-list-count"] });
+      setResult(imported);
+      setPreview(null);
+      toast.success(`Imported ${imported.surgeries} surgeries`);
+    },
+    onError: (error) => {
+      toast.error("Failed to import patients: " + error.message);
+    },
+  });
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+
+    setResult(null);
+    setPreview(null);
+    try {
+      const data = await readSpreadsheet(file);
+      setSheet(data);
+      setFileName(file.name);
+      setMapping(guessColumnMapping(data.headers));
+    } catch (error) {
+      reset();
+      toast.error((error as Error).message);
+    }
+  };
+
+  const setFieldColumn = (field: keyof ColumnMapping, value: string) => {
+    setPreview(null);
+    setMapping((current) => ({ ...current, [field]: value === "none" ? undefined : Number(value) }));
+  };
+
+  const downloadErrorReport = (errors: PatientImportResult["errors"]) => {
+    if (!sheet) return;
+    downloadFile(
+      patientImportErrorReport(sheet, errors),
+      `${fileName.replace(/\.[^.]+$/, "")}-errors.csv`,
+      "text/csv;charset=utf-8"
+    );
+  };
+
+  if (!can("patients.create")) return null;
+
+  const busy = previewMutation.isPending || importMutation.isPending;
+  const matchedCount = new Set(
+    preview?.validRows.filter((r) => r.action === "match").map((r) => r.patient_key)
+  ).size;
+  const createdCount = new Set(
+    preview?.validRows.filter((r) => r.action === "create").map((r) => r.patient_key)
+  ).size;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Import Patients and Surgeries</CardTitle>
+        </div>
+        <CardDescription>
+          Import a waiting list from a CSV or Excel (XLSX) file. Patients are matched by medical record number or created; each row can add one surgery.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={handleFileSelect}
+            className="hidden"
+            id="patient-import"
+          />
+          <Label htmlFor="patient-import">
+            <Button variant="outline" className="cursor-pointer" disabled={busy} asChild>
+              <span>
+                <Upload className="h-4 w-4 mr-2" />
+                Select CSV or XLSX File
+              </span>
+            </Button>
+          </Label>
+          {sheet && (
+            <span className="text-sm text-muted-foreground">
+              {fileName} - {sheet.rows.length} rows
+            </span>
+          )}
+        </div>
+
+        {/* Column mapping */}
+        {sheet && !preview && (
+          <div className="space-y-3 border rounded-lg p-4">
+            <div className="font-medium">Map columns</div>
+            {patientImportFields.map((field) => {
+              const column = mapping[field.key];
+              return (
+                <div key={field.key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="text-sm">
+                      {field.label}
+                      {field.required && " *"}
+                    </div>
+                    {column !== undefined && sheet.rows[0]?.[column] && (
+                      <div className="text-xs text-muted-foreground">e.g. {sheet.rows[0][column]}</div>
+                    )}
+                  </div>
+                  <Select
+                    value={column === undefined ? "none" : String(column)}
+                    onValueChange={(value) => setFieldColumn(field.key, value)}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not in file</SelectItem>
+                      {sheet.headers.map((header, i) => (
+                        <SelectItem key={i} value={String(i)}>
+                          {header || `Column ${i + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              Dates may be written as YYYY-MM-DD or DD/MM/YYYY. Hospitals are matched by name or code. Surgeries without a date are added as pending, past ones as completed.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={reset}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => previewMutation.mutate()}
+                disabled={mapping.name === undefined || busy}
+              >
+                {previewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="space-y-3 border rounded-lg p-4">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-2 flex-wrap text-xs">
+                <Badge variant="secondary">{preview.validRows.length} rows to import</Badge>
+                <Badge variant="outline">{matchedCount} patients matched</Badge>
+                <Badge variant="outline">{createdCount} patients created</Badge>
+                {preview.invalidRows.length > 0 && (
+                  <Badge variant="destructive">{preview.invalidRows.length} rows with errors</Badge>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPreview(null)} disabled={busy}>
+                  Back
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => importMutation.mutate(preview)}
+                  disabled={preview.validRows.length === 0 || busy}
+                >
+                  {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {preview.validRows.length} rows
+                </Button>
+              </div>
+            </div>
+
+            {preview.invalidRows.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-2">
+                  <span>Rows with errors are skipped. Download them, fix the file and import those rows again.</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      downloadErrorReport(
+                        preview.invalidRows.map((row) => ({ row: row.row, error: row.errors.join("; ") }))
+                      )
+                    }
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Error report
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="max-h-80 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">Row</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>MRN</TableHead>
+                    <TableHead>Surgery</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>
+                        {row.name || "-"}
+                        {row.existingName && (
+                          <span className="text-xs text-muted-foreground"> (on file as {row.existingName})</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.medical_record_number ?? "-"}</TableCell>
+                      <TableCell>
+                        {row.procedure_name ? (
+                          <div>
+                            <div>{row.procedure_name}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {[row.scheduled_date?.replace("T", " "), row.hospital, row.status && surgeryStatusLabels[row.status]]
+                                .filter(Boolean)
+                                .join(" · ")}
+                            </div>
+                          </div>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length > 0 ? (
+                          <span className="text-xs text-destructive">{row.errors.join("; ")}</span>
+                        ) : (
+                          <Badge variant={row.action === "match" ? "secondary" : "outline"}>
+                            {row.action === "match" ? "Match existing" : "Create"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground pt-2">
+                  Showing the first {PREVIEW_LIMIT} of {preview.rows.length} rows.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <Alert variant={result.errors.length === 0 ? "default" : "destructive"}>
+            {result.errors.length === 0 ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <AlertDescription className="space-y-2">
+              <div>
+                Imported {result.surgeries} surgeries ({result.patients_created} patients created, {result.patients_matched} matched).
+                {result.errors.length > 0 && ` ${result.errors.length} rows were not imported.`}
+              </div>
+              {result.errors.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => downloadErrorReport(result.errors)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download error report
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
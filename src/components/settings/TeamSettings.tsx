@@ -0,0 +1,239 @@
+/**
+ * TeamSettings Component
+ *
+ * Lists the teams the signed-in user belongs to and lets members
+ * create teams, invite existing users by e-mail and remove members (all of
+ * which require the teams.manage permission). Roles are global, so
+ * changing another member's role needs roles.manage instead.
+ * Team membership decides which patients and boards a user can see.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions, roleLabels, type AppRole } from "@/hooks/usePermissions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Users, Plus, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+
+export function TeamSettings() {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const canManage = can("teams.manage");
+  const canManageRoles = can("roles.manage");
+  const queryClient = useQueryClient();
+  const [newTeamName, setNewTeamName] = useState("");
+  const [inviteEmails, setInviteEmails] = useState<Record<string, string>>({});
+
+  /** Fetch the user's teams with their members */
+  const { data: teams = [] } = useQuery({
+    queryKey: ["teams", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("*, team_members(id, user_id, profile:profiles(full_name, email, user_roles(role)))")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  /** Create a new team (the creator joins automatically) */
+  const createTeamMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { error } = await supabase.from("teams").insert({ name });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      setNewTeamName("");
+      toast.success("Team created");
+    },
+    onError: (error) => {
+      toast.error("Failed to create team: " + error.message);
+    },
+  });
+
+  /** Add an existing user to a team by e-mail */
+  const addMemberMutation = useMutation({
+    mutationFn: async ({ teamId, email }: { teamId: string; email: string }) => {
+      const { error } = await supabase.rpc("add_team_member_by_email", {
+        _team_id: teamId,
+        _email: email,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { teamId }) => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      setInviteEmails((prev) => ({ ...prev, [teamId]: "" }));
+      toast.success("Member added");
+    },
+    onError: (error) => {
+      toast.error("Failed to add member: " + error.message);
+    },
+  });
+
+  /** Remove a member from a team */
+  const removeMemberMutation = useMutation({
+    mutationFn: async (memberId: string) => {
+      const { error } = await supabase.from("team_members").delete().eq("id", memberId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      toast.success("Member removed");
+    },
+    onError: (error) => {
+      toast.error("Failed to remove member: " + error.message);
+    },
+  });
+
+  /** Change a user's role */
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: AppRole }) => {
+      const { error } = await supabase.from("user_roles").update({ role }).eq("user_id", userId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["teams"] });
+      queryClient.invalidateQueries({ queryKey: ["user-permissions"] });
+      toast.success("Role updated");
+    },
+    onError: (error) => {
+      toast.error("Failed to update role: " + error.message);
+    },
+  });
+
+  const handleCreateTeam = () => {
+    if (!newTeamName.trim()) {
+      toast.error("Team name is required");
+      return;
+    }
+    createTeamMutation.mutate(newTeamName.trim());
+  };
+
+  const handleAddMember = (teamId: string) => {
+    const email = inviteEmails[teamId]?.trim();
+    if (!email) {
+      toast.error("E-mail is required");
+      return;
+    }
+    addMemberMutation.mutate({ teamId, email });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Teams</CardTitle>
+        </div>
+        <CardDescription>
+          Patients and boards are shared with the members of your team
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {teams.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {canManage
+              ? "You are not a member of any team yet. Create one or ask a colleague to add you."
+              : "You are not a member of any team yet. Ask a colleague to add you."}
+          </p>
+        )}
+
+        {teams.map((team) => (
+          <div key={team.id} className="rounded-lg border p-3 space-y-3">
+            <p className="font-medium">{team.name}</p>
+            <div className="space-y-2">
+              {team.team_members.map((member) => {
+                const role = member.profile?.user_roles?.role;
+                return (
+                  <div key={member.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{member.profile?.full_name || member.profile?.email}</span>
+                    <div className="flex items-center gap-2">
+                      {canManageRoles && member.user_id !== user?.id ? (
+                        <Select
+                          value={role}
+                          onValueChange={(value) =>
+                            updateRoleMutation.mutate({ userId: member.user_id, role: value as AppRole })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue placeholder="No role" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(roleLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="secondary">{role ? roleLabels[role] : "No role"}</Badge>
+                      )}
+                      {canManage && member.user_id !== user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => removeMemberMutation.mutate(member.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {canManage && (
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="colleague@hospital.pt"
+                  value={inviteEmails[team.id] || ""}
+                  onChange={(e) => setInviteEmails((prev) => ({ ...prev, [team.id]: e.target.value }))}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleAddMember(team.id)}
+                  disabled={addMemberMutation.isPending}
+                >
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {canManage && (
+          <div className="flex gap-2">
+            <Input
+              placeholder="New team name"
+              value={newTeamName}
+              onChange={(e) => setNewTeamName(e.target.value)}
+            />
+            <Button onClick={handleCreateTeam} disabled={createTeamMutation.isPending}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create Team
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,13 @@
 /**
  * SettingsContext
  * 
- * Provides application-wide settings including language and theme preferences.
- * Settings are persisted to localStorage.
+ * Provides application-wide settings including language and theme preferences,
+ * and how surgeries are exported to calendars. Settings are persisted to
+ * localStorage.
  */
 
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import type { CalendarPrivacy } from "@/lib/ics";
 
 type Language = "en" | "pt";
 type Theme = "light" | "dark";
@@ -15,6 +17,11 @@ interface SettingsContextType {
   setLanguage: (lang: Language) => void;
   theme: Theme;
   setTheme: (theme: Theme) => void;
+  calendarPrivacy: CalendarPrivacy;
+  setCalendarPrivacy: (privacy: CalendarPrivacy) => void;
+  /** Reminder added to exported events, in minutes before the start; 0 for none */
+  calendarReminderMinutes: number;
+  setCalendarReminderMinutes: (minutes: number) => void;
   t: (key: string) => string;
 }
 
@@ -116,6 +123,16 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     return (saved as Theme) || "light";
   });
 
+  const [calendarPrivacy, setCalendarPrivacyState] = useState<CalendarPrivacy>(() => {
+    const saved = localStorage.getItem("app-calendar-privacy");
+    return (saved as CalendarPrivacy) || "initials";
+  });
+
+  const [calendarReminderMinutes, setCalendarReminderMinutesState] = useState<number>(() => {
+    const saved = localStorage.getItem("app-calendar-reminder");
+    return saved !== null ? Number(saved) : 60;
+  });
+
   /** Update language and persist to localStorage */
   const setLanguage = (lang: Language) => {
     setLanguageState(lang);
@@ -128,6 +145,18 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     localStorage.setItem("app-theme", newTheme);
   };
 
+  /** Update how patients are named in calendar exports and persist to localStorage */
+  const setCalendarPrivacy = (privacy: CalendarPrivacy) => {
+    setCalendarPrivacyState(privacy);
+    localStorage.setItem("app-calendar-privacy", privacy);
+  };
+
+  /** Update the calendar export reminder and persist to localStorage */
+  const setCalendarReminderMinutes = (minutes: number) => {
+    setCalendarReminderMinutesState(minutes);
+    localStorage.setItem("app-calendar-reminder", String(minutes));
+  };
+
   /** Apply theme to document */
   useEffect(() => {
     const root = window.document.documentElement;
@@ -141,7 +170,19 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <SettingsContext.Provider value={{ language, setLanguage, theme, setTheme, t }}>
+    <SettingsContext.Provider
+      value={{
+        language,
+        setLanguage,
+        theme,
+        setTheme,
+        calendarPrivacy,
+        setCalendarPrivacy,
+        calendarReminderMinutes,
+        setCalendarReminderMinutes,
+        t,
+      }}
+    >
       {children}
     </SettingsContext.Provider>
   );
@@ -20,7 +20,7 @@ export interface Surgery {
 
 export interface KanbanCard {
   id: string;
-  column_name: string;
+  kanban_columns: { key: string; name: string } | null;
   patients: Patient | null;
   kanban_boards: { name: string } | null;
   created_at: string;
@@ -101,8 +101,8 @@ export function useDashboardData() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("kanban_cards")
-        .select("*, patients(id, name, date_of_birth, medical_record_number), kanban_boards(name)")
-        .eq("column_name", "waiting")
+        .select("*, patients(id, name, date_of_birth, medical_record_number), kanban_boards(name), kanban_columns!inner(key, name)")
+        .eq("kanban_columns.key", "waiting")
         .order("created_at", { ascending: true })
         .limit(10);
       if (error) throw error;
@@ -115,8 +115,8 @@ export function useDashboardData() {
     queryFn: async () => {
       const { count, error } = await supabase
         .from("kanban_cards")
-        .select("*", { count: "exact", head: true })
-        .eq("column_name", "waiting");
+        .select("id, kanban_columns!inner(key)", { count: "exact", head: true })
+        .eq("kanban_columns.key", "waiting");
       if (error) throw error;
       return count ?? 0;
     },
@@ -0,0 +1,144 @@
+/**
+ * Hook for live collaboration on a kanban board
+ *
+ * Subscribes to card, column, tag and board changes for the open board so
+ * every viewer sees moves as they happen, and tracks who else is viewing the
+ * board through Realtime presence.
+ *
+ * Realtime can't filter delete events, and under RLS they carry only the
+ * deleted row's id, so deletes are received unfiltered and matched against
+ * the board's cached rows instead.
+ */
+
+import { useEffect, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+
+export interface BoardViewer {
+  user_id: string;
+  name: string;
+}
+
+/** Remove a deleted row from a cached list; returns whether it was there */
+function dropDeleted(queryClient: QueryClient, queryKey: unknown[], id: string | undefined) {
+  const rows = queryClient.getQueryData<{ id: string }[]>(queryKey);
+  if (!id || !rows?.some((row) => row.id === id)) return false;
+  queryClient.setQueryData<{ id: string }[]>(queryKey, rows.filter((row) => row.id !== id));
+  return true;
+}
+
+/**
+ * Keep a board's queries live and return the other users viewing it
+ */
+export function useKanbanRealtime(boardId: string | undefined) {
+  const queryClient = useQueryClient();
+  const { user, profile } = useAuth();
+  const [viewers, setViewers] = useState<BoardViewer[]>([]);
+
+  const viewerName = profile?.full_name || user?.email || "Unknown user";
+
+  useEffect(() => {
+    if (!boardId || !user) return;
+
+    const channel = supabase.channel(`kanban-board-${boardId}`, {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "kanban_cards", filter: `board_id=eq.${boardId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "kanban_cards" },
+        (payload) => {
+          if (dropDeleted(queryClient, ["kanban-cards", boardId], payload.old.id)) {
+            queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "kanban_columns", filter: `board_id=eq.${boardId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-columns", boardId] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "kanban_columns" },
+        (payload) => {
+          if (dropDeleted(queryClient, ["kanban-columns", boardId], payload.old.id)) {
+            queryClient.invalidateQueries({ queryKey: ["kanban-columns", boardId] });
+            queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "kanban_tags", filter: `board_id=eq.${boardId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-tags", boardId] });
+          queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "kanban_tags" },
+        (payload) => {
+          if (dropDeleted(queryClient, ["kanban-tags", boardId], payload.old.id)) {
+            queryClient.invalidateQueries({ queryKey: ["kanban-tags", boardId] });
+          }
+        }
+      )
+      // Card tags and checklists carry no board id; refetching on other boards' changes is cheap
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "kanban_card_tags" },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "card_checklist_items" },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-cards", boardId] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "kanban_boards", filter: `id=eq.${boardId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["kanban-board", boardId] });
+          queryClient.invalidateQueries({ queryKey: ["kanban-boards-nav"] });
+        }
+      )
+      .on("presence", { event: "sync" }, () => {
+        // One entry per user, however many tabs they have open
+        const state = channel.presenceState<BoardViewer>();
+        const others = Object.entries(state)
+          .filter(([key]) => key !== user.id)
+          .map(([, presences]) => presences[0])
+          .filter(Boolean);
+        setViewers(others.map(({ user_id, name }) => ({ user_id, name })));
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          channel.track({ user_id: user.id, name: viewerName });
+        }
+      });
+
+    return () => {
+      setViewers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [boardId, user, viewerName, queryClient]);
+
+  return { viewers };
+}
@@ -0,0 +1,80 @@
+/**
+ * Hook exposing the signed-in user's role and permissions
+ *
+ * The permission matrix lives in the role_permissions table, with extra
+ * grants to individual users in user_permissions, and is also enforced by
+ * the database policies; the UI uses it to hide or disable
+ * actions the user is not allowed to perform.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export type Permission =
+  | "patients.create"
+  | "patients.edit"
+  | "patients.delete"
+  | "surgeries.schedule"
+  | "surgeries.edit_clinical"
+  | "surgeries.delete"
+  | "records.edit"
+  | "attachments.upload"
+  | "attachments.delete"
+  | "comments.create"
+  | "kanban.edit_cards"
+  | "boards.manage"
+  | "boards.delete"
+  | "hospitals.manage"
+  | "teams.manage"
+  /** Granted to individual users rather than roles, since roles are global */
+  | "roles.manage";
+
+export const roleLabels: Record<AppRole, string> = {
+  surgeon: "Surgeon",
+  resident: "Resident",
+  nurse: "Nurse",
+  secretary: "Secretary",
+  read_only: "Read-only",
+};
+
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["user-permissions", user?.id],
+    queryFn: async () => {
+      const { data: userRole, error: roleError } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+      if (roleError) throw roleError;
+
+      const { data: grants, error: grantsError } = await supabase
+        .from("user_permissions")
+        .select("permission")
+        .eq("user_id", user!.id);
+      if (grantsError) throw grantsError;
+      const granted = grants.map((g) => g.permission);
+      if (!userRole) return { role: null, permissions: granted };
+
+      const { data: rows, error } = await supabase
+        .from("role_permissions")
+        .select("permission")
+        .eq("role", userRole.role);
+      if (error) throw error;
+
+      return { role: userRole.role, permissions: [...rows.map((r) => r.permission), ...granted] };
+    },
+    enabled: !!user,
+  });
+
+  /** Check whether the current user holds a permission */
+  const can = (permission: Permission) => !!data?.permissions.includes(permission);
+
+  return { role: data?.role ?? null, can, isLoading };
+}
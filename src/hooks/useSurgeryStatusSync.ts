@@ -1,118 +1,154 @@
 /**
- * Hook to sync surgery status with kanban cards and auto-update overdue surgeries
+ * Hook to keep the UI in sync with server-side surgery status changes
  * 
- * This hook:
- * 1. Checks for scheduled surgeries where the date has passed
- * 2. Updates them to "pending" status
- * 3. Updates corresponding kanban cards (only if manual_override is false)
+ * Overdue surgeries are moved to "pending" by the sync_overdue_surgeries()
+ * database function on a schedule. This hook only listens for the transitions
+ * it logs and refreshes the affected queries.
  */
 
 import { useEffect } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  columnForSurgeryStatus,
+  currentTrackedSurgery,
+  effectiveSurgeryStatus,
+  moveKanbanCard,
+  surgeriesTrackedByCard,
+  type TrackedSurgery,
+} from "@/lib/kanban";
 
 /**
- * Mapping between surgery status and kanban column
- */
-export const surgeryStatusToKanbanColumn: Record<string, string> = {
-  scheduled: "scheduled",
-  pending: "pending",
-  in_progress: "pending",
-  completed: "operated",
-  cancelled: "waiting",
-};
-
-/**
- * Hook to automatically update overdue surgeries to pending status
- * Runs on mount and updates both surgeries and kanban cards
- * Skips kanban cards that have manual_override = true
+ * Hook to refresh surgeries and kanban cards when the scheduled job
+ * transitions an overdue surgery
  */
 export function useSurgeryStatusSync() {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   useEffect(() => {
-    const updateOverdueSurgeries = async () => {
-      const now = new Date().toISOString();
-
-      // Find scheduled surgeries where the date has passed
-      const { data: overdueSurgeries, error: fetchError } = await supabase
-        .from("surgeries")
-        .select("id, patient_id, status")
-        .eq("status", "scheduled")
-        .lt("scheduled_date", now);
-
-      if (fetchError || !overdueSurgeries?.length) return;
-
-      // Update surgeries to pending
-      const { error: updateError } = await supabase
-        .from("surgeries")
-        .update({ status: "pending" })
-        .in("id", overdueSurgeries.map(s => s.id));
-
-      if (updateError) {
-        console.error("Failed to update overdue surgeries:", updateError);
-        return;
-      }
-
-      // Update kanban cards for affected patients (only if manual_override is false)
-      const patientIds = [...new Set(overdueSurgeries.map(s => s.patient_id))];
-      
-      await supabase
-        .from("kanban_cards")
-        .update({ column_name: "pending" })
-        .in("patient_id", patientIds)
-        .eq("column_name", "scheduled")
-        .eq("manual_override", false);
-
-      // Invalidate queries to refresh UI
-      queryClient.invalidateQueries({ queryKey: ["surgeries"] });
-      queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
-      queryClient.invalidateQueries({ queryKey: ["calendar-surgeries"] });
-      queryClient.invalidateQueries({ queryKey: ["upcoming-surgeries"] });
-      queryClient.invalidateQueries({ queryKey: ["pending-surgeries-count"] });
+    // Row level security hides every row from anonymous sessions
+    if (!user) return;
+
+    const channel = supabase
+      .channel("surgery-status-transitions")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "surgery_status_transitions" },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+          queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
+          queryClient.invalidateQueries({ queryKey: ["calendar-surgeries"] });
+          queryClient.invalidateQueries({ queryKey: ["upcoming-surgeries"] });
+          queryClient.invalidateQueries({ queryKey: ["pending-surgeries-count"] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
     };
+  }, [queryClient, user]);
+}
 
-    updateOverdueSurgeries();
-  }, [queryClient]);
+const syncCardSelect =
+  "id, patient_id, column_id, scheduled_date, surgery_id, episode_id, manual_override, board:kanban_boards(hospital_id, columns:kanban_columns(id, position, statuses))";
+
+type SyncCard = {
+  id: string;
+  column_id: string;
+  scheduled_date: string | null;
+  surgery_id: string | null;
+  episode_id: string | null;
+  manual_override: boolean;
+  board: {
+    hospital_id: string | null;
+    columns: { id: string; position: number; statuses: string[] }[];
+  } | null;
+};
+
+/** Fetch a patient's surgeries in the shape the card sync needs */
+async function fetchPatientSurgeries(patientId: string): Promise<TrackedSurgery[] | null> {
+  const { data, error } = await supabase
+    .from("surgeries")
+    .select("id, status, scheduled_date, hospital_id, episode_id")
+    .eq("patient_id", patientId);
+
+  if (error) {
+    console.error("Failed to fetch surgeries:", error);
+    return null;
+  }
+  return data;
 }
 
 /**
- * Function to sync a patient's kanban card with their next surgery status
+ * Move one card to the column its board maps the tracked surgery's status to.
+ * Cards moved by hand keep their column; only the date follows the surgery.
+ */
+async function applyCardSync(card: SyncCard, surgeries: TrackedSurgery[]) {
+  const surgery = currentTrackedSurgery(
+    surgeriesTrackedByCard(card, card.board?.hospital_id ?? null, surgeries)
+  );
+  if (!surgery) return;
+
+  if (surgery.scheduled_date && surgery.scheduled_date !== card.scheduled_date) {
+    const { error } = await supabase
+      .from("kanban_cards")
+      .update({ scheduled_date: surgery.scheduled_date })
+      .eq("id", card.id);
+    if (error) console.error("Failed to sync kanban card date:", error);
+  }
+
+  if (card.manual_override) return;
+
+  const columns = [...(card.board?.columns ?? [])].sort((a, b) => a.position - b.position);
+  const column = columnForSurgeryStatus(columns, effectiveSurgeryStatus(surgery));
+  if (column && column !== card.column_id) {
+    // Appended to the target column; positions are renumbered server-side
+    try {
+      await moveKanbanCard(card.id, column, undefined, { manual: false });
+    } catch (error) {
+      console.error("Failed to move kanban card:", error);
+    }
+  }
+}
+
+/**
+ * Function to sync a patient's kanban cards with their surgeries.
+ * Each card only follows the surgeries it tracks and its own board's
+ * status mapping, so other boards are left untouched.
  */
 export async function syncPatientKanbanWithSurgery(patientId: string) {
-  // Get the patient's next upcoming surgery
-  const { data: nextSurgery, error } = await supabase
-    .from("surgeries")
-    .select("status, scheduled_date")
-    .eq("patient_id", patientId)
-    .not("status", "eq", "completed")
-    .not("status", "eq", "cancelled")
-    .order("scheduled_date", { ascending: true })
-    .limit(1)
-    .maybeSingle();
+  const { data: cards, error } = await supabase
+    .from("kanban_cards")
+    .select(syncCardSelect)
+    .eq("patient_id", patientId);
 
   if (error) {
-    console.error("Failed to fetch next surgery:", error);
+    console.error("Failed to fetch kanban cards:", error);
     return;
   }
+  if (cards.length === 0) return;
 
-  let newColumn = "waiting";
-  
-  if (nextSurgery) {
-    // Check if surgery date has passed
-    const surgeryDate = nextSurgery.scheduled_date ? new Date(nextSurgery.scheduled_date) : null;
-    const now = new Date();
-    
-    if (surgeryDate && surgeryDate < now && nextSurgery.status === "scheduled") {
-      newColumn = "pending";
-    } else {
-      newColumn = surgeryStatusToKanbanColumn[nextSurgery.status] || "waiting";
-    }
+  const surgeries = await fetchPatientSurgeries(patientId);
+  if (!surgeries) return;
+
+  for (const card of cards) {
+    await applyCardSync(card, surgeries);
   }
+}
 
-  // Update kanban cards for this patient
-  await supabase
+/** Turn auto-sync back on for a card and move it to its computed column */
+export async function enableKanbanCardAutoSync(cardId: string) {
+  const { data: card, error } = await supabase
     .from("kanban_cards")
-    .update({ column_name: newColumn })
-    .eq("patient_id", patientId);
+    .update({ manual_override: false })
+    .eq("id", cardId)
+    .select(syncCardSelect)
+    .single();
+  if (error) throw error;
+
+  const surgeries = await fetchPatientSurgeries(card.patient_id);
+  if (surgeries) await applyCardSync(card, surgeries);
 }
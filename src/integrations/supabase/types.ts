@@ -17,6 +17,7 @@ export type Database = {
       attachments: {
         Row: {
           attachment_type: string
+          deleted_at: string | null
           description: string | null
           episode_id: string | null
           file_name: string
@@ -30,6 +31,7 @@ export type Database = {
         }
         Insert: {
           attachment_type?: string
+          deleted_at?: string | null
           description?: string | null
           episode_id?: string | null
           file_name: string
@@ -43,6 +45,7 @@ export type Database = {
         }
         Update: {
           attachment_type?: string
+          deleted_at?: string | null
           description?: string | null
           episode_id?: string | null
           file_name?: string
@@ -78,10 +81,265 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          actor_id: string | null
+          changed_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          patient_id: string | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          actor_id?: string | null
+          changed_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          patient_id?: string | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          actor_id?: string | null
+          changed_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          patient_id?: string | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_templates: {
+        Row: {
+          config: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "board_templates_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      card_checklist_items: {
+        Row: {
+          assigned_to: string | null
+          card_id: string
+          created_at: string
+          done: boolean
+          done_at: string | null
+          done_by: string | null
+          due_date: string | null
+          id: string
+          position: number
+          template_id: string | null
+          text: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          card_id: string
+          created_at?: string
+          done?: boolean
+          done_at?: string | null
+          done_by?: string | null
+          due_date?: string | null
+          id?: string
+          position?: number
+          template_id?: string | null
+          text: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          card_id?: string
+          created_at?: string
+          done?: boolean
+          done_at?: string | null
+          done_by?: string | null
+          due_date?: string | null
+          id?: string
+          position?: number
+          template_id?: string | null
+          text?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_checklist_items_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_checklist_items_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_checklist_items_done_by_fkey"
+            columns: ["done_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_checklist_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checklist_template_items: {
+        Row: {
+          due_in_days: number | null
+          id: string
+          position: number
+          template_id: string
+          text: string
+        }
+        Insert: {
+          due_in_days?: number | null
+          id?: string
+          position?: number
+          template_id: string
+          text: string
+        }
+        Update: {
+          due_in_days?: number | null
+          id?: string
+          position?: number
+          template_id?: string
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checklist_templates: {
+        Row: {
+          board_id: string
+          column_key: string
+          created_at: string
+          id: string
+          name: string
+          procedure: string | null
+          updated_at: string
+        }
+        Insert: {
+          board_id: string
+          column_key: string
+          created_at?: string
+          id?: string
+          name: string
+          procedure?: string | null
+          updated_at?: string
+        }
+        Update: {
+          board_id?: string
+          column_key?: string
+          created_at?: string
+          id?: string
+          name?: string
+          procedure?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checklist_templates_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           author: string | null
           created_at: string
+          deleted_at: string | null
           episode_id: string | null
           id: string
           is_pinned: boolean
@@ -94,6 +352,7 @@ export type Database = {
         Insert: {
           author?: string | null
           created_at?: string
+          deleted_at?: string | null
           episode_id?: string | null
           id?: string
           is_pinned?: boolean
@@ -106,6 +365,7 @@ export type Database = {
         Update: {
           author?: string | null
           created_at?: string
+          deleted_at?: string | null
           episode_id?: string | null
           id?: string
           is_pinned?: boolean
@@ -144,6 +404,7 @@ export type Database = {
           consultation_date: string
           consultation_type: string
           created_at: string
+          deleted_at: string | null
           diagnosis: string | null
           episode_id: string | null
           follow_up_date: string | null
@@ -160,6 +421,7 @@ export type Database = {
           consultation_date?: string
           consultation_type?: string
           created_at?: string
+          deleted_at?: string | null
           diagnosis?: string | null
           episode_id?: string | null
           follow_up_date?: string | null
@@ -176,6 +438,7 @@ export type Database = {
           consultation_date?: string
           consultation_type?: string
           created_at?: string
+          deleted_at?: string | null
           diagnosis?: string | null
           episode_id?: string | null
           follow_up_date?: string | null
@@ -215,6 +478,7 @@ export type Database = {
       episodes: {
         Row: {
           created_at: string
+          deleted_at: string | null
           description: string | null
           end_date: string | null
           end_date_new: string | null
@@ -230,6 +494,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           end_date?: string | null
           end_date_new?: string | null
@@ -245,6 +510,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           end_date?: string | null
           end_date_new?: string | null
@@ -281,6 +547,7 @@ export type Database = {
           created_at: string
           id: string
           name: string
+          timezone: string
           updated_at: string
         }
         Insert: {
@@ -288,6 +555,7 @@ export type Database = {
           created_at?: string
           id?: string
           name: string
+          timezone?: string
           updated_at?: string
         }
         Update: {
@@ -295,42 +563,49 @@ export type Database = {
           created_at?: string
           id?: string
           name?: string
+          timezone?: string
           updated_at?: string
         }
         Relationships: []
       }
       kanban_boards: {
         Row: {
-          columns_config: Json
           created_at: string
+          default_filters: Json | null
+          deleted_at: string | null
           description: string | null
           hospital: string | null
           hospital_id: string | null
           id: string
           name: string
           service: string | null
+          team_id: string | null
           updated_at: string
         }
         Insert: {
-          columns_config?: Json
           created_at?: string
+          default_filters?: Json | null
+          deleted_at?: string | null
           description?: string | null
           hospital?: string | null
           hospital_id?: string | null
           id?: string
           name: string
           service?: string | null
+          team_id?: string | null
           updated_at?: string
         }
         Update: {
-          columns_config?: Json
           created_at?: string
+          default_filters?: Json | null
+          deleted_at?: string | null
           description?: string | null
           hospital?: string | null
           hospital_id?: string | null
           id?: string
           name?: string
           service?: string | null
+          team_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -341,13 +616,55 @@ export type Database = {
             referencedRelation: "hospitals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kanban_boards_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kanban_card_tags: {
+        Row: {
+          card_id: string
+          created_at: string
+          tag_id: string
+        }
+        Insert: {
+          card_id: string
+          created_at?: string
+          tag_id: string
+        }
+        Update: {
+          card_id?: string
+          created_at?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kanban_card_tags_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kanban_card_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_tags"
+            referencedColumns: ["id"]
+          },
         ]
       }
       kanban_cards: {
         Row: {
           board_id: string
-          column_name: string
+          column_entered_at: string
+          column_id: string
           created_at: string
+          episode_id: string | null
           id: string
           manual_override: boolean
           notes: string | null
@@ -355,13 +672,16 @@ export type Database = {
           position: number
           priority: string | null
           scheduled_date: string | null
+          surgery_id: string | null
           surgery_type: string | null
           updated_at: string
         }
         Insert: {
           board_id: string
-          column_name?: string
+          column_entered_at?: string
+          column_id: string
           created_at?: string
+          episode_id?: string | null
           id?: string
           manual_override?: boolean
           notes?: string | null
@@ -369,13 +689,16 @@ export type Database = {
           position?: number
           priority?: string | null
           scheduled_date?: string | null
+          surgery_id?: string | null
           surgery_type?: string | null
           updated_at?: string
         }
         Update: {
           board_id?: string
-          column_name?: string
+          column_entered_at?: string
+          column_id?: string
           created_at?: string
+          episode_id?: string | null
           id?: string
           manual_override?: boolean
           notes?: string | null
@@ -383,6 +706,7 @@ export type Database = {
           position?: number
           priority?: string | null
           scheduled_date?: string | null
+          surgery_id?: string | null
           surgery_type?: string | null
           updated_at?: string
         }
@@ -394,6 +718,20 @@ export type Database = {
             referencedRelation: "kanban_boards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kanban_cards_column_id_fkey"
+            columns: ["column_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_columns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kanban_cards_episode_id_fkey"
+            columns: ["episode_id"]
+            isOneToOne: false
+            referencedRelation: "episodes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "kanban_cards_patient_id_fkey"
             columns: ["patient_id"]
@@ -401,83 +739,323 @@ export type Database = {
             referencedRelation: "patients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kanban_cards_surgery_id_fkey"
+            columns: ["surgery_id"]
+            isOneToOne: false
+            referencedRelation: "surgeries"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      patients: {
+      kanban_columns: {
         Row: {
-          address: string | null
-          contact_email: string | null
-          contact_phone: string | null
+          aging_critical_days: number | null
+          aging_warning_days: number | null
+          board_id: string
+          color: string
           created_at: string
-          date_of_birth: string | null
-          gender: string | null
           id: string
-          medical_record_number: string | null
+          key: string
           name: string
-          notes: string | null
+          position: number
+          statuses: string[]
           updated_at: string
+          wip_limit: number | null
         }
         Insert: {
-          address?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
+          aging_critical_days?: number | null
+          aging_warning_days?: number | null
+          board_id: string
+          color?: string
           created_at?: string
-          date_of_birth?: string | null
-          gender?: string | null
           id?: string
-          medical_record_number?: string | null
+          key: string
           name: string
-          notes?: string | null
+          position?: number
+          statuses?: string[]
           updated_at?: string
+          wip_limit?: number | null
         }
         Update: {
-          address?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
+          aging_critical_days?: number | null
+          aging_warning_days?: number | null
+          board_id?: string
+          color?: string
           created_at?: string
-          date_of_birth?: string | null
-          gender?: string | null
           id?: string
-          medical_record_number?: string | null
+          key?: string
           name?: string
-          notes?: string | null
+          position?: number
+          statuses?: string[]
           updated_at?: string
+          wip_limit?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kanban_columns_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_boards"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      surgeries: {
+      kanban_tags: {
         Row: {
-          assistants: string[] | null
+          board_id: string
+          color: string
           created_at: string
-          drawings: string[] | null
-          duration_minutes: number | null
-          episode_id: string | null
-          extra_fields: Json | null
-          hospital_id: string | null
           id: string
-          main_surgeon: string | null
-          notes: string | null
-          operating_room: string | null
-          patient_id: string
-          procedure_name: string
-          scheduled_date: string | null
-          status: string
-          structured_description: string | null
-          surgeon: string | null
-          updated_at: string
+          name: string
+        }
+        Insert: {
+          board_id: string
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          board_id?: string
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kanban_tags_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      operating_rooms: {
+        Row: {
+          active: boolean
+          created_at: string
+          hospital_id: string
+          id: string
+          name: string
+          position: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          hospital_id: string
+          id?: string
+          name: string
+          position?: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          hospital_id?: string
+          id?: string
+          name?: string
+          position?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "operating_rooms_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_tags: {
+        Row: {
+          created_at: string
+          patient_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          patient_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          patient_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_tags_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "kanban_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patients: {
+        Row: {
+          address: string | null
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          date_of_birth: string | null
+          deleted_at: string | null
+          gender: string | null
+          id: string
+          medical_record_number: string | null
+          name: string
+          notes: string | null
+          team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          deleted_at?: string | null
+          gender?: string | null
+          id?: string
+          medical_record_number?: string | null
+          name: string
+          notes?: string | null
+          team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          deleted_at?: string | null
+          gender?: string | null
+          id?: string
+          medical_record_number?: string | null
+          name?: string
+          notes?: string | null
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patients_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      purged_attachment_files: {
+        Row: {
+          name: string
+          purged_at: string
+          purged_by: string
+        }
+        Insert: {
+          name: string
+          purged_at?: string
+          purged_by: string
+        }
+        Update: {
+          name?: string
+          purged_at?: string
+          purged_by?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      surgeries: {
+        Row: {
+          assistants: string[] | null
+          created_at: string
+          deleted_at: string | null
+          drawings: string[] | null
+          duration_minutes: number | null
+          episode_id: string | null
+          extra_fields: Json | null
+          hospital_id: string | null
+          ics_sequence: number
+          id: string
+          main_surgeon: string | null
+          notes: string | null
+          operating_room: string | null
+          operating_room_id: string | null
+          patient_id: string
+          procedure_name: string
+          scheduled_date: string | null
+          status: string
+          structured_description: string | null
+          surgeon: string | null
+          updated_at: string
         }
         Insert: {
           assistants?: string[] | null
           created_at?: string
+          deleted_at?: string | null
           drawings?: string[] | null
           duration_minutes?: number | null
           episode_id?: string | null
           extra_fields?: Json | null
           hospital_id?: string | null
+          ics_sequence?: number
           id?: string
           main_surgeon?: string | null
           notes?: string | null
           operating_room?: string | null
+          operating_room_id?: string | null
           patient_id: string
           procedure_name: string
           scheduled_date?: string | null
@@ -489,15 +1067,18 @@ export type Database = {
         Update: {
           assistants?: string[] | null
           created_at?: string
+          deleted_at?: string | null
           drawings?: string[] | null
           duration_minutes?: number | null
           episode_id?: string | null
           extra_fields?: Json | null
           hospital_id?: string | null
+          ics_sequence?: number
           id?: string
           main_surgeon?: string | null
           notes?: string | null
           operating_room?: string | null
+          operating_room_id?: string | null
           patient_id?: string
           procedure_name?: string
           scheduled_date?: string | null
@@ -521,6 +1102,13 @@ export type Database = {
             referencedRelation: "hospitals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "surgeries_operating_room_id_fkey"
+            columns: ["operating_room_id"]
+            isOneToOne: false
+            referencedRelation: "operating_rooms"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "surgeries_patient_id_fkey"
             columns: ["patient_id"]
@@ -530,15 +1118,441 @@ export type Database = {
           },
         ]
       }
+      surgery_conflict_overrides: {
+        Row: {
+          conflicts: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          reason: string
+          surgery_id: string
+        }
+        Insert: {
+          conflicts?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason: string
+          surgery_id: string
+        }
+        Update: {
+          conflicts?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          reason?: string
+          surgery_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "surgery_conflict_overrides_surgery_id_fkey"
+            columns: ["surgery_id"]
+            isOneToOne: false
+            referencedRelation: "surgeries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      surgery_status_transitions: {
+        Row: {
+          created_at: string
+          from_status: string
+          id: string
+          kanban_cards_moved: number
+          patient_id: string
+          reason: string
+          surgery_id: string
+          to_status: string
+        }
+        Insert: {
+          created_at?: string
+          from_status: string
+          id?: string
+          kanban_cards_moved?: number
+          patient_id: string
+          reason: string
+          surgery_id: string
+          to_status: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string
+          id?: string
+          kanban_cards_moved?: number
+          patient_id?: string
+          reason?: string
+          surgery_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "surgery_status_transitions_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "surgery_status_transitions_surgery_id_fkey"
+            columns: ["surgery_id"]
+            isOneToOne: false
+            referencedRelation: "surgeries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          id: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          hospital_id: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          hospital_id?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          hospital_id?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_permissions: {
+        Row: {
+          created_at: string
+          permission: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          permission: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          permission?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_permissions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_team_member_by_email: {
+        Args: { _email: string; _team_id: string }
+        Returns: string
+      }
+      board_column_for_status: {
+        Args: { _board_id: string; _status: string }
+        Returns: string
+      }
+      board_is_active: { Args: { _board_id: string }; Returns: boolean }
+      calendar_feed_surgeries: {
+        Args: {
+          _board_id?: string
+          _hospital_id?: string
+          _operating_room_id?: string
+          _surgeon?: string
+          _token: string
+        }
+        Returns: {
+          assistants: string[]
+          deleted_at: string
+          duration_minutes: number
+          hospital_name: string
+          ics_sequence: number
+          id: string
+          medical_record_number: string
+          operating_room: string
+          patient_name: string
+          procedure_name: string
+          scheduled_date: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      can_access_board: {
+        Args: { _board_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_access_patient: {
+        Args: { _patient_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_trash_record: {
+        Args: { _id: string; _table: string; _user_id: string }
+        Returns: boolean
+      }
+      create_kanban_board: {
+        Args: { _board: Json; _template: Json }
+        Returns: string
+      }
+      create_kanban_card: {
+        Args: {
+          _board_id: string
+          _column_id: string
+          _index?: number
+          _patient_id: string
+          _priority?: string
+          _surgery_type?: string
+        }
+        Returns: string
+      }
+      current_team_id: { Args: never; Returns: string }
+      delete_kanban_column: {
+        Args: { _column_id: string; _target_column_id?: string }
+        Returns: undefined
+      }
+      duplicate_kanban_board: {
+        Args: { _board_id: string; _include_cards?: boolean; _name: string }
+        Returns: string
+      }
+      get_user_role: {
+        Args: { _user_id: string }
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      has_permission: {
+        Args: { _permission: string; _user_id: string }
+        Returns: boolean
+      }
+      import_kanban_board: { Args: { _board: Json }; Returns: Json }
+      import_patient_rows: { Args: { _rows: Json }; Returns: Json }
+      is_operating_room_name: {
+        Args: { _name: string; _room_id: string }
+        Returns: boolean
+      }
+      is_purged_attachment_file: {
+        Args: { _name: string; _user_id: string }
+        Returns: boolean
+      }
+      is_team_member: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_valid_time_zone: {
+        Args: { _zone: string }
+        Returns: boolean
+      }
+      kanban_card_tracks_surgery: {
+        Args: { _card_id: string; _surgery_id: string }
+        Returns: boolean
+      }
+      kanban_tag_board_id: {
+        Args: { _tag_id: string }
+        Returns: string
+      }
+      list_trash: {
+        Args: never
+        Returns: {
+          deleted_at: string
+          label: string
+          patient_id: string
+          patient_name: string
+          purge_after: string
+          record_id: string
+          table_name: string
+        }[]
+      }
+      merge_patients: {
+        Args: { _duplicate_id: string; _fields: Json; _survivor_id: string }
+        Returns: undefined
+      }
+      move_kanban_card: {
+        Args: {
+          _card_id: string
+          _column_id: string
+          _expected_column_id?: string
+          _index?: number
+          _manual?: boolean
+        }
+        Returns: boolean
+      }
+      patient_in_user_hospitals: {
+        Args: { _patient_id: string; _user_id: string }
+        Returns: boolean
+      }
+      patient_is_active: { Args: { _patient_id: string }; Returns: boolean }
+      purge_record: { Args: { _id: string; _table: string }; Returns: string[] }
+      remove_operating_room: {
+        Args: { _room_id: string }
+        Returns: string
+      }
+      renumber_kanban_column: {
+        Args: { _column_id: string }
+        Returns: undefined
+      }
+      reorder_kanban_columns: {
+        Args: { _board_id: string; _column_ids: string[] }
+        Returns: undefined
+      }
+      restore_record: {
+        Args: { _id: string; _table: string }
+        Returns: undefined
+      }
+      rotate_calendar_feed_token: { Args: never; Returns: string }
+      save_checklist_template: {
+        Args: {
+          _board_id: string
+          _column_key: string
+          _items: Json
+          _name: string
+          _procedure: string
+          _template_id: string
+        }
+        Returns: string
+      }
+      save_surgery: {
+        Args: {
+          _conflicts?: Json
+          _override_reason?: string
+          _surgery_id: string
+          _values: Json
+        }
+        Returns: string
+      }
+      shares_team: {
+        Args: { _other_user_id: string; _user_id: string }
+        Returns: boolean
+      }
+      soft_delete_record: {
+        Args: { _id: string; _table: string }
+        Returns: undefined
+      }
+      storage_patient_id: { Args: { _name: string }; Returns: string }
+      surgery_patient_id: {
+        Args: { _surgery_id: string }
+        Returns: string
+      }
+      surgery_schedule_clashes: {
+        Args: {
+          _end: string
+          _operating_room_id: string
+          _patient_id: string
+          _start: string
+          _surgery_id?: string
+          _team: string[]
+        }
+        Returns: {
+          assistants: string[]
+          duration_minutes: number
+          id: string
+          main_surgeon: string
+          operating_room_id: string
+          patient_id: string
+          patient_name: string
+          procedure_name: string
+          scheduled_date: string
+          status: string
+        }[]
+      }
+      sync_overdue_surgeries: { Args: never; Returns: number }
+      team_hospital_id: {
+        Args: { _team_id: string }
+        Returns: string
+      }
+      trash_permission: { Args: { _table: string }; Returns: string }
+      trash_retention: { Args: never; Returns: unknown }
+      user_hospital_ids: { Args: { _user_id: string }; Returns: string[] }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "surgeon" | "resident" | "nurse" | "secretary" | "read_only"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -665,6 +1679,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["surgeon", "resident", "nurse", "secretary", "read_only"],
+    },
   },
 } as const
@@ -0,0 +1,123 @@
+/**
+ * Board template helpers
+ *
+ * A board template captures a board's columns with their status mapping,
+ * its checklist templates, tag palette and default filters. New boards can
+ * start from a template, and boards can be duplicated with or without cards.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import {
+  defaultKanbanColumns,
+  fetchBoardColumns,
+  type KanbanColumnConfig,
+  type SurgeryStatus,
+} from "@/lib/kanban";
+import { fetchChecklistTemplates, type ChecklistTemplateItemInput } from "@/lib/checklists";
+import { fetchBoardTags } from "@/lib/tags";
+
+/** Filters a board opens with; on a board, tags are ids from its palette */
+export interface BoardFilters {
+  hospital?: string;
+  urgency?: string;
+  tags?: string[];
+}
+
+export interface BoardTemplateConfig {
+  columns: KanbanColumnConfig[];
+  checklist_templates: {
+    name: string;
+    column_key: string;
+    procedure: string | null;
+    items: ChecklistTemplateItemInput[];
+  }[];
+  tags: { name: string; color: string }[];
+  /** Default filters, with tags by name */
+  filters: BoardFilters;
+}
+
+export type BoardTemplate = Omit<Tables<"board_templates">, "config"> & { config: BoardTemplateConfig };
+
+/** Setup of boards created without a template */
+export const defaultBoardTemplate: BoardTemplateConfig = {
+  columns: defaultKanbanColumns,
+  checklist_templates: [],
+  tags: [],
+  filters: {},
+};
+
+/** Fetch the team's board templates */
+export async function fetchBoardTemplates() {
+  const { data, error } = await supabase.from("board_templates").select("*").order("name");
+  if (error) throw error;
+  return data as unknown as BoardTemplate[];
+}
+
+/** Capture a board's setup, with the given filters as its default filters */
+export async function captureBoardTemplate(boardId: string, filters: BoardFilters): Promise<BoardTemplateConfig> {
+  const [columns, checklists, tags] = await Promise.all([
+    fetchBoardColumns(boardId),
+    fetchChecklistTemplates(boardId),
+    fetchBoardTags(boardId),
+  ]);
+
+  return {
+    columns: columns.map((c) => ({
+      id: c.key,
+      name: c.name,
+      color: c.color,
+      statuses: c.statuses as SurgeryStatus[],
+      wip_limit: c.wip_limit,
+      aging_warning_days: c.aging_warning_days,
+      aging_critical_days: c.aging_critical_days,
+    })),
+    checklist_templates: checklists.map((t) => ({
+      name: t.name,
+      column_key: t.column_key,
+      procedure: t.procedure,
+      items: t.items.map((i) => ({ text: i.text, due_in_days: i.due_in_days })),
+    })),
+    tags: tags.map((t) => ({ name: t.name, color: t.color })),
+    filters: {
+      ...filters,
+      tags: (filters.tags ?? []).map((tagId) => tags.find((t) => t.id === tagId)?.name).filter(Boolean),
+    },
+  };
+}
+
+export async function saveBoardTemplate(name: string, description: string | null, config: BoardTemplateConfig) {
+  const { error } = await supabase
+    .from("board_templates")
+    .insert({ name: name.trim(), description: description?.trim() || null, config: config as unknown as Json });
+  if (error) throw error;
+}
+
+export async function deleteBoardTemplate(templateId: string) {
+  const { error } = await supabase.from("board_templates").delete().eq("id", templateId);
+  if (error) throw error;
+}
+
+/** Create a board set up from a template in one transaction; returns the new board's id */
+export async function createBoardFromTemplate(
+  board: { name: string; description: string | null; hospital_id: string | null; service: string | null },
+  config: BoardTemplateConfig
+) {
+  const { data, error } = await supabase.rpc("create_kanban_board", {
+    _board: board,
+    _template: config as unknown as Json,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Copy a board with its setup and optionally its cards; returns the new board's id */
+export async function duplicateKanbanBoard(boardId: string, name: string, includeCards: boolean) {
+  const { data, error } = await supabase.rpc("duplicate_kanban_board", {
+    _board_id: boardId,
+    _name: name.trim(),
+    _include_cards: includeCards,
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,45 @@
+/**
+ * Calendar feed helpers
+ *
+ * Each user has one secret token for the surgery-calendar edge function.
+ * Anyone with a feed URL can read it, so resetting the token is how a
+ * leaked URL is revoked.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { CalendarPrivacy } from "@/lib/ics";
+
+export interface CalendarFeedFilters {
+  surgeon?: string;
+  hospital?: string;
+  room?: string;
+  board?: string;
+  /** How patients are named; the feed uses initials when unset */
+  privacy?: CalendarPrivacy;
+  /** Reminder in minutes before each surgery, as a string; none when unset */
+  alarm?: string;
+}
+
+/** The signed-in user's token, or null when they have no feed yet */
+export async function fetchCalendarFeedToken(): Promise<string | null> {
+  const { data, error } = await supabase.from("calendar_feed_tokens").select("token").maybeSingle();
+  if (error) throw error;
+  return data?.token ?? null;
+}
+
+/** Create the user's token, or replace it so old feed URLs stop working */
+export async function rotateCalendarFeedToken(): Promise<string> {
+  const { data, error } = await supabase.rpc("rotate_calendar_feed_token");
+  if (error) throw error;
+  return data;
+}
+
+/** Feed URL for a token and filters; webcal links open the subscribe dialog of calendar apps */
+export function calendarFeedUrl(token: string, filters: CalendarFeedFilters, protocol: "https" | "webcal" = "https") {
+  const params = new URLSearchParams({ token });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value?.trim()) params.set(key, value.trim());
+  });
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/surgery-calendar?${params}`;
+  return protocol === "webcal" ? url.replace(/^https?:/, "webcal:") : url;
+}
@@ -0,0 +1,88 @@
+/**
+ * Checklist helpers
+ *
+ * Card checklist items live in card_checklist_items; done_by and done_at are
+ * set by the database when an item is ticked. Board checklist templates are
+ * added to a card by the database when the card enters the template's column.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesUpdate } from "@/integrations/supabase/types";
+
+export type ChecklistItem = Tables<"card_checklist_items">;
+export type ChecklistTemplate = Tables<"checklist_templates">;
+
+export interface ChecklistTemplateItemInput {
+  text: string;
+  due_in_days: number | null;
+}
+
+/** Fetch a card's checklist in order, with who ticked and who owns each item */
+export async function fetchCardChecklist(cardId: string) {
+  const { data, error } = await supabase
+    .from("card_checklist_items")
+    .select(
+      "*, done_by_profile:profiles!card_checklist_items_done_by_fkey(full_name, email), assignee:profiles!card_checklist_items_assigned_to_fkey(full_name, email)"
+    )
+    .eq("card_id", cardId)
+    .order("position");
+  if (error) throw error;
+  return data;
+}
+
+/** Add an item at the end of a card's checklist */
+export async function addChecklistItem(
+  cardId: string,
+  item: { text: string; due_date?: string | null; assigned_to?: string | null },
+  position: number
+) {
+  const { error } = await supabase
+    .from("card_checklist_items")
+    .insert({ card_id: cardId, text: item.text.trim(), due_date: item.due_date, assigned_to: item.assigned_to, position });
+  if (error) throw error;
+}
+
+/** Update an item (ticking it records who and when) */
+export async function updateChecklistItem(itemId: string, updates: TablesUpdate<"card_checklist_items">) {
+  const { error } = await supabase.from("card_checklist_items").update(updates).eq("id", itemId);
+  if (error) throw error;
+}
+
+export async function deleteChecklistItem(itemId: string) {
+  const { error } = await supabase.from("card_checklist_items").delete().eq("id", itemId);
+  if (error) throw error;
+}
+
+/** Fetch a board's checklist templates with their items in order */
+export async function fetchChecklistTemplates(boardId: string) {
+  const { data, error } = await supabase
+    .from("checklist_templates")
+    .select("*, items:checklist_template_items(id, text, position, due_in_days)")
+    .eq("board_id", boardId)
+    .order("name");
+  if (error) throw error;
+  return data.map((t) => ({ ...t, items: [...t.items].sort((a, b) => a.position - b.position) }));
+}
+
+/** Create or update a template, replacing its items */
+/** Create or update a template and replace its items in one transaction; returns the template's id */
+export async function saveChecklistTemplate(
+  template: { id?: string; board_id: string; name: string; column_key: string; procedure: string | null },
+  items: ChecklistTemplateItemInput[]
+) {
+  const { data, error } = await supabase.rpc("save_checklist_template", {
+    _template_id: template.id ?? null,
+    _board_id: template.board_id,
+    _name: template.name,
+    _column_key: template.column_key,
+    _procedure: template.procedure,
+    _items: items as unknown as Json,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteChecklistTemplate(templateId: string) {
+  const { error } = await supabase.from("checklist_templates").delete().eq("id", templateId);
+  if (error) throw error;
+}
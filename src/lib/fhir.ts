@@ -0,0 +1,504 @@
+/**
+ * FHIR R4 export
+ *
+ * A patient's record is exported as a FHIR R4 "collection" Bundle:
+ * Patient, EpisodeOfCare (episodes), Procedure (surgeries, with the
+ * surgeon and assistants as performers), Encounter (consultations),
+ * DocumentReference (attachments) and Communication (comments and notes).
+ * Entries reference each other by urn:uuid full URLs. Before a bundle is
+ * handed out it is checked against the structure of each resource:
+ * required elements, code values, date formats, no unknown elements and
+ * references that resolve within the bundle.
+ *
+ * Attachment files are embedded as base64 up to a size limit; larger ones,
+ * and files that cannot be downloaded, are exported as metadata only. Download links are never included, as the
+ * bundle leaves the app and signed links expire and need no sign-in.
+ */
+
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { downloadAttachmentData } from "@/lib/storage";
+
+/** Largest attachment embedded in a bundle */
+const MAX_EMBEDDED_FILE_BYTES = 5 * 1024 * 1024;
+
+/** Largest total of embedded attachments per bundle */
+const MAX_EMBEDDED_TOTAL_BYTES = 20 * 1024 * 1024;
+
+/** Identifier system of our medical record numbers */
+export const MRN_SYSTEM = "urn:gesdoente:medical-record-number";
+
+// Data types --------------------------------------------------------------
+
+const fhirId = z.string().regex(/^[A-Za-z0-9\-.]{1,64}$/, "is not a valid id");
+const fhirDate = z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "is not a FHIR date");
+const fhirDateTime = z
+  .string()
+  .regex(
+    /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}:\d{2}(\.\d{1,9})?(Z|[+-]\d{2}:\d{2}))?)?)?$/,
+    "is not a FHIR dateTime"
+  );
+const fhirInstant = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,9})?(Z|[+-]\d{2}:\d{2})$/, "is not a FHIR instant");
+
+const coding = z.object({ system: z.string().optional(), code: z.string().optional(), display: z.string().optional() }).strict();
+const codeableConcept = z.object({ coding: z.array(coding).optional(), text: z.string().optional() }).strict();
+const reference = z
+  .object({ reference: z.string().optional(), display: z.string().optional() })
+  .strict()
+  .refine((r) => r.reference || r.display, "needs a reference or a display");
+const period = z.object({ start: fhirDateTime.optional(), end: fhirDateTime.optional() }).strict();
+const annotation = z.object({ text: z.string().min(1), time: fhirDateTime.optional() }).strict();
+
+// Resources ---------------------------------------------------------------
+
+const patientSchema = z
+  .object({
+    resourceType: z.literal("Patient"),
+    id: fhirId,
+    identifier: z.array(z.object({ system: z.string().optional(), value: z.string() }).strict()).optional(),
+    active: z.boolean().optional(),
+    name: z.array(z.object({ text: z.string() }).strict()).optional(),
+    telecom: z
+      .array(z.object({ system: z.enum(["phone", "email"]), value: z.string(), use: z.string().optional() }).strict())
+      .optional(),
+    gender: z.enum(["male", "female", "other", "unknown"]).optional(),
+    birthDate: fhirDate.optional(),
+    address: z.array(z.object({ text: z.string() }).strict()).optional(),
+  })
+  .strict();
+
+const episodeOfCareSchema = z
+  .object({
+    resourceType: z.literal("EpisodeOfCare"),
+    id: fhirId,
+    status: z.enum(["planned", "waitlist", "active", "onhold", "finished", "cancelled", "entered-in-error"]),
+    type: z.array(codeableConcept).optional(),
+    patient: reference,
+    managingOrganization: reference.optional(),
+    period: period.optional(),
+  })
+  .strict();
+
+const procedureSchema = z
+  .object({
+    resourceType: z.literal("Procedure"),
+    id: fhirId,
+    status: z.enum(["preparation", "in-progress", "not-done", "on-hold", "stopped", "completed", "entered-in-error", "unknown"]),
+    code: codeableConcept.optional(),
+    subject: reference,
+    performedDateTime: fhirDateTime.optional(),
+    performedPeriod: period.optional(),
+    performer: z.array(z.object({ function: codeableConcept.optional(), actor: reference }).strict()).optional(),
+    location: reference.optional(),
+    note: z.array(annotation).optional(),
+  })
+  .strict()
+  .refine((p) => !(p.performedDateTime && p.performedPeriod), "can only have one of performedDateTime and performedPeriod");
+
+const encounterSchema = z
+  .object({
+    resourceType: z.literal("Encounter"),
+    id: fhirId,
+    status: z.enum(["planned", "arrived", "triaged", "in-progress", "onleave", "finished", "cancelled", "entered-in-error", "unknown"]),
+    class: coding,
+    type: z.array(codeableConcept).optional(),
+    subject: reference.optional(),
+    episodeOfCare: z.array(reference).optional(),
+    period: period.optional(),
+    reasonCode: z.array(codeableConcept).optional(),
+    location: z.array(z.object({ location: reference }).strict()).optional(),
+  })
+  .strict();
+
+const documentReferenceSchema = z
+  .object({
+    resourceType: z.literal("DocumentReference"),
+    id: fhirId,
+    status: z.enum(["current", "superseded", "entered-in-error"]),
+    type: codeableConcept.optional(),
+    subject: reference.optional(),
+    date: fhirInstant.optional(),
+    description: z.string().optional(),
+    content: z
+      .array(
+        z
+          .object({
+            attachment: z
+              .object({
+                contentType: z.string().optional(),
+                data: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "is not base64").optional(),
+                url: z.string().optional(),
+                size: z.number().int().nonnegative().optional(),
+                title: z.string().optional(),
+              })
+              .strict(),
+          })
+          .strict()
+      )
+      .min(1),
+    context: z
+      .object({ encounter: z.array(reference).optional(), related: z.array(reference).optional() })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const communicationSchema = z
+  .object({
+    resourceType: z.literal("Communication"),
+    id: fhirId,
+    status: z.enum(["preparation", "in-progress", "not-done", "on-hold", "stopped", "completed", "entered-in-error", "unknown"]),
+    category: z.array(codeableConcept).optional(),
+    subject: reference.optional(),
+    about: z.array(reference).optional(),
+    encounter: reference.optional(),
+    sent: fhirDateTime.optional(),
+    sender: reference.optional(),
+    payload: z.array(z.object({ contentString: z.string().min(1) }).strict()).optional(),
+  })
+  .strict();
+
+const resourceSchemas = {
+  Patient: patientSchema,
+  EpisodeOfCare: episodeOfCareSchema,
+  Procedure: procedureSchema,
+  Encounter: encounterSchema,
+  DocumentReference: documentReferenceSchema,
+  Communication: communicationSchema,
+};
+
+export type FhirResourceType = keyof typeof resourceSchemas;
+
+export interface FhirResource {
+  resourceType: FhirResourceType;
+  id: string;
+  [element: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  id: string;
+  type: "collection";
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const bundleSchema = z
+  .object({
+    resourceType: z.literal("Bundle"),
+    id: fhirId,
+    type: z.literal("collection"),
+    timestamp: fhirInstant,
+    entry: z.array(
+      z
+        .object({
+          fullUrl: z.string().regex(/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/, "is not a urn:uuid"),
+          resource: z.object({}).passthrough(),
+        })
+        .strict()
+    ),
+  })
+  .strict();
+
+/** Every "reference" value anywhere in a resource */
+function collectReferences(value: unknown, found: string[] = []): string[] {
+  if (Array.isArray(value)) value.forEach((item) => collectReferences(item, found));
+  else if (value && typeof value === "object") {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === "reference" && typeof item === "string") found.push(item);
+      else collectReferences(item, found);
+    });
+  }
+  return found;
+}
+
+/** Check a bundle against the FHIR resource structure; returns the problems found */
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const issues: string[] = [];
+  const describe = (where: string, error: z.ZodError) =>
+    error.issues.forEach((issue) => issues.push(`${where}${issue.path.length ? "." + issue.path.join(".") : ""} ${issue.message}`));
+
+  const parsed = bundleSchema.safeParse(bundle);
+  if (!parsed.success) {
+    describe("Bundle", parsed.error);
+    return issues;
+  }
+
+  const fullUrls = new Set(bundle.entry.map((e) => e.fullUrl));
+  bundle.entry.forEach(({ fullUrl, resource }, index) => {
+    const where = `entry[${index}] ${resource.resourceType ?? "resource"}`;
+    const schema = resourceSchemas[resource.resourceType];
+    if (!schema) {
+      issues.push(`${where} has an unsupported resourceType`);
+      return;
+    }
+    const result = schema.safeParse(resource);
+    if (!result.success) describe(where, result.error);
+    if (fullUrl !== `urn:uuid:${resource.id}`) issues.push(`${where} fullUrl does not match its id`);
+    collectReferences(resource)
+      .filter((ref) => !fullUrls.has(ref))
+      .forEach((ref) => issues.push(`${where} references ${ref}, which is not in the bundle`));
+  });
+  return issues;
+}
+
+// Mapping -----------------------------------------------------------------
+
+const episodeStatuses: Record<string, z.infer<typeof episodeOfCareSchema>["status"]> = {
+  active: "active",
+  completed: "finished",
+  archived: "finished",
+};
+
+const procedureStatuses: Record<string, z.infer<typeof procedureSchema>["status"]> = {
+  scheduled: "preparation",
+  pending: "on-hold",
+  in_progress: "in-progress",
+  completed: "completed",
+  cancelled: "not-done",
+};
+
+const genders: Record<string, z.infer<typeof patientSchema>["gender"]> = {
+  male: "male",
+  female: "female",
+  other: "other",
+};
+
+const ambulatory = { system: "http://terminology.hl7.org/CodeSystem/v3-ActCode", code: "AMB", display: "ambulatory" };
+
+const ref = (id: string, display?: string) => ({ reference: `urn:uuid:${id}`, ...(display ? { display } : {}) });
+const dateTime = (value: string) => new Date(value).toISOString();
+const text = (value: string | null | undefined) => (value?.trim() ? value.trim() : undefined);
+
+/** Drop undefined elements and empty arrays, which FHIR does not allow */
+function clean<T extends object>(resource: T): T {
+  return Object.fromEntries(
+    Object.entries(resource).filter(([, v]) => v !== undefined && !(Array.isArray(v) && v.length === 0))
+  ) as T;
+}
+
+type WithHospital<T> = T & { hospital: { name: string } | null };
+
+export interface PatientRecord {
+  patient: Tables<"patients">;
+  episodes: WithHospital<Tables<"episodes">>[];
+  surgeries: WithHospital<Tables<"surgeries">>[];
+  consultations: Tables<"consultations">[];
+  attachments: Tables<"attachments">[];
+  comments: Tables<"comments">[];
+  /** Embedded file contents (base64) and sizes, keyed by storage path */
+  attachmentData: Record<string, { data: string; size: number }>;
+}
+
+/** Map a patient's record to a FHIR R4 collection Bundle */
+export function buildPatientBundle(record: PatientRecord): FhirBundle {
+  const { patient } = record;
+  const subject = ref(patient.id, patient.name);
+  const episodeIds = new Set(record.episodes.map((e) => e.id));
+  const surgeryIds = new Set(record.surgeries.map((s) => s.id));
+  // Links to records that were not exported (e.g. trashed) are left out
+  const episodeRef = (id: string | null) => (id && episodeIds.has(id) ? ref(id) : undefined);
+  const surgeryRef = (id: string | null) => (id && surgeryIds.has(id) ? ref(id) : undefined);
+
+  const resources: FhirResource[] = [
+    clean({
+      resourceType: "Patient" as const,
+      id: patient.id,
+      identifier: patient.medical_record_number ? [{ system: MRN_SYSTEM, value: patient.medical_record_number }] : undefined,
+      active: true,
+      name: [{ text: patient.name }],
+      telecom: [
+        ...(patient.contact_phone ? [{ system: "phone" as const, value: patient.contact_phone }] : []),
+        ...(patient.contact_email ? [{ system: "email" as const, value: patient.contact_email }] : []),
+      ],
+      gender: patient.gender ? genders[patient.gender.toLowerCase()] ?? "unknown" : undefined,
+      birthDate: patient.date_of_birth ?? undefined,
+      address: patient.address ? [{ text: patient.address }] : undefined,
+    }),
+
+    ...record.episodes.map((episode) =>
+      clean({
+        resourceType: "EpisodeOfCare" as const,
+        id: episode.id,
+        status: episodeStatuses[episode.status] ?? "active",
+        type: [{ coding: [{ code: episode.episode_type }], text: episode.title }],
+        patient: subject,
+        managingOrganization: episode.hospital ? { display: episode.hospital.name } : undefined,
+        period: clean({ start: episode.start_date, end: episode.end_date ?? undefined }),
+      })
+    ),
+
+    ...record.surgeries.map((surgery) => {
+      const start = surgery.scheduled_date ? dateTime(surgery.scheduled_date) : undefined;
+      const end =
+        start && surgery.duration_minutes
+          ? new Date(new Date(start).getTime() + surgery.duration_minutes * 60_000).toISOString()
+          : undefined;
+      return clean({
+        resourceType: "Procedure" as const,
+        id: surgery.id,
+        status: procedureStatuses[surgery.status] ?? "unknown",
+        code: { text: surgery.procedure_name },
+        subject,
+        performedPeriod: start ? clean({ start, end }) : undefined,
+        performer: [
+          ...(text(surgery.main_surgeon) ? [{ function: { text: "Main surgeon" }, actor: { display: text(surgery.main_surgeon) } }] : []),
+          ...(surgery.assistants ?? [])
+            .filter((name) => text(name))
+            .map((name) => ({ function: { text: "Assistant" }, actor: { display: name.trim() } })),
+        ],
+        location:
+          surgery.hospital || surgery.operating_room
+            ? { display: [surgery.hospital?.name, text(surgery.operating_room)].filter(Boolean).join(", ") }
+            : undefined,
+        note: [text(surgery.structured_description), text(surgery.notes)]
+          .filter((note): note is string => !!note)
+          .map((note) => ({ text: note })),
+      });
+    }),
+
+    ...record.consultations.map((consultation) =>
+      clean({
+        resourceType: "Encounter" as const,
+        id: consultation.id,
+        status: new Date(consultation.consultation_date) <= new Date() ? "finished" : "planned",
+        class: ambulatory,
+        type: [{ text: consultation.consultation_type }],
+        subject,
+        episodeOfCare: [episodeRef(consultation.episode_id)].filter(Boolean),
+        period: { start: dateTime(consultation.consultation_date) },
+        reasonCode: consultation.diagnosis ? [{ text: consultation.diagnosis }] : undefined,
+        location: consultation.location ? [{ location: { display: consultation.location } }] : undefined,
+      })
+    ),
+
+    ...record.attachments.map((attachment) =>
+      clean({
+        resourceType: "DocumentReference" as const,
+        id: attachment.id,
+        status: "current" as const,
+        type: { text: attachment.attachment_type },
+        subject,
+        date: dateTime(attachment.uploaded_at),
+        description: text(attachment.description),
+        content: [
+          {
+            attachment: clean({
+              contentType: attachment.mime_type ?? attachment.file_type ?? undefined,
+              data: record.attachmentData[attachment.file_url]?.data,
+              size: record.attachmentData[attachment.file_url]?.size,
+              title: attachment.file_name,
+            }),
+          },
+        ],
+        context:
+          attachment.episode_id || attachment.surgery_id
+            ? clean({
+                encounter: [episodeRef(attachment.episode_id)].filter(Boolean),
+                related: [surgeryRef(attachment.surgery_id)].filter(Boolean),
+              })
+            : undefined,
+      })
+    ),
+
+    ...record.comments.map((comment) =>
+      clean({
+        resourceType: "Communication" as const,
+        id: comment.id,
+        status: "completed" as const,
+        category: [{ text: "comment" }],
+        subject,
+        about: [surgeryRef(comment.surgery_id), episodeRef(comment.episode_id)].filter(Boolean),
+        sent: dateTime(comment.created_at),
+        sender: text(comment.author) ? { display: text(comment.author) } : undefined,
+        payload: text(comment.text) ? [{ contentString: comment.text }] : undefined,
+      })
+    ),
+
+    // Consultation and patient notes have no row of their own, so they get a new id on every export
+    ...record.consultations
+      .filter((c) => text(c.notes) || text(c.treatment_plan))
+      .map((consultation) =>
+        clean({
+          resourceType: "Communication" as const,
+          id: crypto.randomUUID(),
+          status: "completed" as const,
+          category: [{ text: "consultation note" }],
+          subject,
+          encounter: ref(consultation.id),
+          sent: dateTime(consultation.consultation_date),
+          payload: [text(consultation.notes), text(consultation.treatment_plan) && `Treatment plan: ${text(consultation.treatment_plan)}`]
+            .filter((note): note is string => !!note)
+            .map((note) => ({ contentString: note })),
+        })
+      ),
+
+    ...(text(patient.notes)
+      ? [
+          clean({
+            resourceType: "Communication" as const,
+            id: crypto.randomUUID(),
+            status: "completed" as const,
+            category: [{ text: "patient note" }],
+            subject,
+            sent: dateTime(patient.updated_at),
+            payload: [{ contentString: text(patient.notes)! }],
+          }),
+        ]
+      : []),
+  ];
+
+  return {
+    resourceType: "Bundle",
+    id: crypto.randomUUID(),
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: resources.map((resource) => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+  };
+}
+
+/** Load everything on file for a patient, leaving out trashed records */
+export async function fetchPatientRecord(patientId: string): Promise<PatientRecord> {
+  const { data: patient, error } = await supabase.from("patients").select("*").eq("id", patientId).single();
+  if (error) throw error;
+
+  const [episodes, surgeries, consultations, attachments, comments] = await Promise.all([
+    supabase.from("episodes").select("*, hospital:hospitals(name)").eq("patient_id", patientId).is("deleted_at", null).order("start_date"),
+    supabase.from("surgeries").select("*, hospital:hospitals(name)").eq("patient_id", patientId).is("deleted_at", null).order("scheduled_date"),
+    supabase.from("consultations").select("*").eq("patient_id", patientId).is("deleted_at", null).order("consultation_date"),
+    supabase.from("attachments").select("*").eq("patient_id", patientId).is("deleted_at", null).order("uploaded_at"),
+    supabase.from("comments").select("*").eq("patient_id", patientId).is("deleted_at", null).order("created_at"),
+  ]);
+  for (const result of [episodes, surgeries, consultations, attachments, comments]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    patient,
+    episodes: episodes.data!,
+    surgeries: surgeries.data!,
+    consultations: consultations.data!,
+    attachments: attachments.data!,
+    comments: comments.data!,
+    attachmentData: await downloadAttachmentData(
+      attachments.data!.map((a) => a.file_url),
+      { maxFileBytes: MAX_EMBEDDED_FILE_BYTES, maxTotalBytes: MAX_EMBEDDED_TOTAL_BYTES }
+    ),
+  };
+}
+
+/**
+ * Export a patient as a validated FHIR R4 Bundle. Throws with the list of
+ * problems when the bundle does not match the resource structure.
+ */
+export async function exportPatientFhir(patientId: string): Promise<FhirBundle> {
+  const bundle = buildPatientBundle(await fetchPatientRecord(patientId));
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) {
+    throw new Error(`The FHIR bundle is not valid: ${issues.slice(0, 5).join("; ")}`);
+  }
+  return bundle;
+}
@@ -0,0 +1,303 @@
+/**
+ * iCalendar (RFC 5545) helpers
+ *
+ * Event times are written in the hospital's time zone with a TZID and a
+ * matching VTIMEZONE block, or in UTC when the zone is unknown, so events
+ * never float with the device's zone. The VTIMEZONE lists the zone's actual
+ * offset changes around the exported events, taken from the browser's time
+ * zone data, rather than recurrence rules.
+ *
+ * Long lines are folded at 75 octets, and patient names can be replaced by
+ * initials or the medical record number before events leave the app.
+ */
+
+/** How patients are named in exported events */
+export type CalendarPrivacy = "name" | "initials" | "mrn";
+
+export const calendarPrivacyLabels: Record<CalendarPrivacy, string> = {
+  name: "Full name",
+  initials: "Initials",
+  mrn: "Medical record number",
+};
+
+/** Reminder choices, in minutes before the start; 0 adds none */
+export const calendarReminderOptions = [
+  { minutes: 0, label: "No reminder" },
+  { minutes: 15, label: "15 minutes before" },
+  { minutes: 30, label: "30 minutes before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 120, label: "2 hours before" },
+  { minutes: 1440, label: "1 day before" },
+];
+
+export interface IcsEvent {
+  /** Stable id, so importing the event again updates it */
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  /** IANA zone to write the times in, e.g. Europe/Lisbon; UTC when unset */
+  timeZone?: string | null;
+  sequence?: number;
+  status?: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  /** Reminders, in minutes before the start */
+  alarms?: number[];
+}
+
+/** Zone new hospitals start with, as in the hospitals table */
+export const DEFAULT_HOSPITAL_TIME_ZONE = "Europe/Lisbon";
+
+const MAX_LINE_OCTETS = 75;
+
+/** How far before the first event the VTIMEZONE starts, so it covers it */
+const ZONE_LOOKBACK_MS = 366 * 24 * 60 * 60_000;
+
+export function escapeText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Split a content line into 75-octet lines, each continuation starting
+ * with a space. Multi-byte characters are never split.
+ */
+export function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+/** UTC date-time, e.g. 20260302T083000Z */
+export function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Whether the browser knows an IANA zone name */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock parts of an instant in a zone */
+function zonedParts(date: Date, timeZone: string) {
+  let zoneFormat = zoneFormats.get(timeZone);
+  if (!zoneFormat) {
+    zoneFormat = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormats.set(timeZone, zoneFormat);
+  }
+  const parts = Object.fromEntries(zoneFormat.formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+/** Minutes the zone is ahead of UTC at an instant */
+function zoneOffset(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/** Local date-time in a zone, e.g. 20260302T093000 */
+export function formatInZone(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone);
+  return `${pad(p.year, 4)}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/** UTC offset as written in VTIMEZONE, e.g. +0100 */
+function formatOffset(minutes: number) {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function zoneAbbreviation(date: Date, timeZone: string) {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(date)
+    .find((part) => part.type === "timeZoneName")?.value;
+  return name && /^[A-Z]{2,5}$/.test(name) ? name : null;
+}
+
+/** Instants in [from, to] where the zone's offset changes, to the minute */
+function offsetTransitions(timeZone: string, from: Date, to: Date) {
+  const transitions: { at: Date; from: number; to: number }[] = [];
+  const DAY = 24 * 60 * 60_000;
+  let previous = from.getTime();
+  let previousOffset = zoneOffset(from, timeZone);
+
+  for (let time = previous + DAY; time <= to.getTime() + DAY; time += DAY) {
+    const offset = zoneOffset(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previous;
+      let high = time;
+      while (high - low > 60_000) {
+        const mid = low + Math.floor((high - low) / 2 / 60_000) * 60_000;
+        if (zoneOffset(new Date(mid), timeZone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: new Date(high), from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+    previous = time;
+  }
+  return transitions;
+}
+
+/** VTIMEZONE for a zone, covering the given instants */
+export function buildVTimezone(timeZone: string, from: Date, to: Date) {
+  const start = new Date(from.getTime() - ZONE_LOOKBACK_MS);
+  const transitions = offsetTransitions(timeZone, start, to);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(zoneOffset(from, timeZone));
+    const name = zoneAbbreviation(from, timeZone);
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      ...(name ? [`TZNAME:${name}`] : []),
+      "END:STANDARD"
+    );
+  }
+
+  transitions.forEach((transition) => {
+    const kind = transition.to > transition.from ? "DAYLIGHT" : "STANDARD";
+    // Onsets are written in the local time in force before the change
+    const onset = new Date(transition.at.getTime() + transition.from * 60_000);
+    const name = zoneAbbreviation(transition.at, timeZone);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(onset).replace("Z", "")}`,
+      `TZOFFSETFROM:${formatOffset(transition.from)}`,
+      `TZOFFSETTO:${formatOffset(transition.to)}`,
+      ...(name ? [`TZNAME:${name}`] : []),
+      `END:${kind}`
+    );
+  });
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function formatEventTime(property: string, date: Date, timeZone?: string | null) {
+  return timeZone ? `${property};TZID=${timeZone}:${formatInZone(date, timeZone)}` : `${property}:${formatUtc(date)}`;
+}
+
+function buildEvent(event: IcsEvent, now: Date) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    formatEventTime("DTSTART", event.start, event.timeZone),
+    formatEventTime("DTEND", event.end, event.timeZone),
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+
+  if (event.status !== "CANCELLED") {
+    event.alarms?.forEach((minutes) => {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.title)}`,
+        `TRIGGER:-PT${minutes}M`,
+        "END:VALARM"
+      );
+    });
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/** A complete VCALENDAR with a VTIMEZONE for every zone its events use */
+export function buildCalendar(events: IcsEvent[], name?: string) {
+  const now = new Date();
+  const zones = [...new Set(events.map((event) => event.timeZone).filter((zone): zone is string => !!zone))];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//GesDoente//Surgery Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...zones.flatMap((zone) => {
+      const zoneEvents = events.filter((event) => event.timeZone === zone);
+      const from = new Date(Math.min(...zoneEvents.map((event) => event.start.getTime())));
+      const to = new Date(Math.max(...zoneEvents.map((event) => event.end.getTime())));
+      return buildVTimezone(zone, from, to);
+    }),
+    ...events.flatMap((event) => buildEvent(event, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** "Ana Maria Silva" → "A.M.S." */
+export function patientInitials(name: string) {
+  return name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `${word[0].toUpperCase()}.`)
+    .join("");
+}
+
+/** How a patient appears in an exported event; MRN falls back to initials when missing */
+export function patientLabel(
+  patient: { name: string; medical_record_number?: string | null },
+  privacy: CalendarPrivacy
+) {
+  if (privacy === "name") return patient.name;
+  if (privacy === "mrn" && patient.medical_record_number) return `MRN ${patient.medical_record_number}`;
+  return patientInitials(patient.name);
+}
@@ -0,0 +1,286 @@
+/**
+ * Kanban helpers
+ *
+ * Board columns live in the kanban_columns table with stable ids. Each column
+ * declares which surgery statuses move a patient's card into it, so boards
+ * with custom columns decide for themselves how they follow surgery status.
+ */
+
+import { differenceInDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type SurgeryStatus = "scheduled" | "pending" | "in_progress" | "completed" | "cancelled";
+
+export type KanbanColumn = Tables<"kanban_columns">;
+
+/**
+ * Column definition used by board import/export, board templates and new
+ * boards. "id" is the column key, not the database id.
+ */
+export interface KanbanColumnConfig {
+  id: string;
+  name: string;
+  color: string;
+  /** Surgery statuses that move cards into this column */
+  statuses?: SurgeryStatus[];
+  wip_limit?: number | null;
+  aging_warning_days?: number | null;
+  aging_critical_days?: number | null;
+}
+
+export const surgeryStatusLabels: Record<SurgeryStatus, string> = {
+  scheduled: "Scheduled",
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const surgeryStatuses = Object.keys(surgeryStatusLabels) as SurgeryStatus[];
+
+/** Columns for new boards, mapped like the original hard-coded sync */
+export const defaultKanbanColumns: KanbanColumnConfig[] = [
+  { id: "waiting", name: "Waiting List", color: "gray", statuses: ["cancelled"] },
+  { id: "scheduled", name: "Scheduled", color: "yellow", statuses: ["scheduled"] },
+  { id: "operated", name: "Operated", color: "green", statuses: ["completed"] },
+  { id: "follow_up", name: "Follow-up", color: "blue", statuses: [] },
+];
+
+/** Mapping for columns that predate per-board mappings, keyed by column key */
+const legacyColumnStatuses: Record<string, SurgeryStatus[]> = {
+  waiting: ["cancelled"],
+  scheduled: ["scheduled"],
+  pending: ["pending", "in_progress"],
+  operated: ["completed"],
+};
+
+/** Give columns without a declared mapping the legacy one for their key */
+export function withDefaultStatuses(columns: KanbanColumnConfig[]): KanbanColumnConfig[] {
+  return columns.map((c) => (c.statuses ? c : { ...c, statuses: legacyColumnStatuses[c.id] ?? [] }));
+}
+
+/** Key for a new column, derived from its name and unique on the board */
+export function columnKeyFromName(name: string, existingKeys: string[]) {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "") || "column";
+  let key = base;
+  for (let i = 2; existingKeys.includes(key); i++) {
+    key = `${base}_${i}`;
+  }
+  return key;
+}
+
+/** Fetch a board's columns in display order */
+export async function fetchBoardColumns(boardId: string) {
+  const { data, error } = await supabase
+    .from("kanban_columns")
+    .select("*")
+    .eq("board_id", boardId)
+    .order("position");
+  if (error) throw error;
+  return data;
+}
+
+/** Create a new board's columns from their definitions */
+export async function createBoardColumns(boardId: string, columns: KanbanColumnConfig[]) {
+  if (columns.length === 0) return [];
+  const { data, error } = await supabase
+    .from("kanban_columns")
+    .insert(
+      columns.map((c, index) => ({
+        board_id: boardId,
+        key: c.id,
+        name: c.name,
+        color: c.color,
+        position: index,
+        statuses: c.statuses ?? [],
+        wip_limit: c.wip_limit ?? null,
+        aging_warning_days: c.aging_warning_days ?? null,
+        aging_critical_days: c.aging_critical_days ?? null,
+      }))
+    )
+    .select();
+  if (error) throw error;
+  return data;
+}
+
+/** Delete a column, moving any cards it holds to targetColumnId */
+export async function deleteKanbanColumn(columnId: string, targetColumnId?: string) {
+  const { error } = await supabase.rpc("delete_kanban_column", {
+    _column_id: columnId,
+    _target_column_id: targetColumnId,
+  });
+  if (error) throw error;
+}
+
+/** Save a board's column order */
+export async function reorderKanbanColumns(boardId: string, columnIds: string[]) {
+  const { error } = await supabase.rpc("reorder_kanban_columns", {
+    _board_id: boardId,
+    _column_ids: columnIds,
+  });
+  if (error) throw error;
+}
+
+type StatusMappedColumn = { id: string; statuses?: string[] };
+
+/**
+ * Column a card should move to for a surgery status,
+ * or null when the board has no column mapped to it
+ */
+export function columnForSurgeryStatus(columns: StatusMappedColumn[], status: string): string | null {
+  const column = columns.find((c) => c.statuses?.includes(status));
+  return column ? column.id : null;
+}
+
+/** Map a surgery status to a column, removing it from any other column */
+export function assignSurgeryStatus<T extends StatusMappedColumn>(
+  columns: T[],
+  status: SurgeryStatus,
+  columnId: string | null
+): T[] {
+  return columns.map((c) => {
+    const statuses = (c.statuses ?? []).filter((s) => s !== status);
+    return { ...c, statuses: c.id === columnId ? [...statuses, status] : statuses };
+  });
+}
+
+export interface TrackedSurgery {
+  id: string;
+  status: string;
+  scheduled_date: string | null;
+  hospital_id: string | null;
+  episode_id: string | null;
+}
+
+/**
+ * Surgeries a card follows: its linked surgery, else the surgeries of its
+ * linked episode, else the patient's surgeries at the board's hospital
+ * (all of them when the board has no hospital)
+ */
+export function surgeriesTrackedByCard<T extends TrackedSurgery>(
+  card: { surgery_id: string | null; episode_id: string | null },
+  boardHospitalId: string | null,
+  surgeries: T[]
+): T[] {
+  if (card.surgery_id) return surgeries.filter((s) => s.id === card.surgery_id);
+  if (card.episode_id) return surgeries.filter((s) => s.episode_id === card.episode_id);
+  if (boardHospitalId) return surgeries.filter((s) => s.hospital_id === boardHospitalId);
+  return surgeries;
+}
+
+/**
+ * Surgery a card should reflect: the next open one,
+ * or the latest one when nothing is upcoming
+ */
+export function currentTrackedSurgery<T extends TrackedSurgery>(surgeries: T[]): T | null {
+  const byDate = (a: T, b: T) => {
+    if (!a.scheduled_date) return 1;
+    if (!b.scheduled_date) return -1;
+    return a.scheduled_date.localeCompare(b.scheduled_date);
+  };
+  const open = surgeries
+    .filter((s) => s.status !== "completed" && s.status !== "cancelled")
+    .sort(byDate);
+  if (open.length > 0) return open[0];
+  const closed = [...surgeries].sort(byDate);
+  return closed.filter((s) => s.scheduled_date).pop() ?? closed[0] ?? null;
+}
+
+/** Status a card follows for a surgery; overdue scheduled surgeries count as pending */
+export function effectiveSurgeryStatus(surgery: TrackedSurgery, now = new Date()): string {
+  if (surgery.status === "scheduled" && surgery.scheduled_date && new Date(surgery.scheduled_date) < now) {
+    return "pending";
+  }
+  return surgery.status;
+}
+
+/**
+ * Move a card to a column at an index (end of the column when omitted).
+ * Positions in both columns are renumbered in the same transaction.
+ * Resolves to false when the card had already left expectedColumnId.
+ */
+export async function moveKanbanCard(
+  cardId: string,
+  columnId: string,
+  index?: number,
+  options: { manual?: boolean; expectedColumnId?: string } = {}
+) {
+  const { data, error } = await supabase.rpc("move_kanban_card", {
+    _card_id: cardId,
+    _column_id: columnId,
+    _index: index,
+    _manual: options.manual,
+    _expected_column_id: options.expectedColumnId,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Create a card placed at the end of its column (or at an index) */
+export async function createKanbanCard(card: {
+  boardId: string;
+  patientId: string;
+  columnId: string;
+  surgeryType?: string | null;
+  priority?: string;
+  index?: number;
+}) {
+  const { data, error } = await supabase.rpc("create_kanban_card", {
+    _board_id: card.boardId,
+    _patient_id: card.patientId,
+    _column_id: card.columnId,
+    _surgery_type: card.surgeryType ?? undefined,
+    _priority: card.priority,
+    _index: card.index,
+  });
+  if (error) throw error;
+  return data;
+}
+
+/** Same reordering as move_kanban_card, applied to cached cards */
+export function reorderKanbanCards<T extends { id: string; column_id: string; position: number }>(
+  cards: T[],
+  cardId: string,
+  columnId: string,
+  index?: number
+): T[] {
+  const card = cards.find((c) => c.id === cardId);
+  if (!card) return cards;
+
+  const inColumn = (column: string) =>
+    cards
+      .filter((c) => c.column_id === column && c.id !== cardId)
+      .sort((a, b) => a.position - b.position);
+
+  const target = inColumn(columnId);
+  const at = Math.min(Math.max(index ?? target.length, 0), target.length);
+  target.splice(at, 0, { ...card, column_id: columnId });
+
+  const positions = new Map<string, { column_id: string; position: number }>();
+  target.forEach((c, i) => positions.set(c.id, { column_id: columnId, position: i }));
+  if (card.column_id !== columnId) {
+    inColumn(card.column_id).forEach((c, i) =>
+      positions.set(c.id, { column_id: card.column_id, position: i })
+    );
+  }
+
+  return cards.map((c) => (positions.has(c.id) ? { ...c, ...positions.get(c.id) } : c));
+}
+
+export type CardAgeLevel = "normal" | "warning" | "critical";
+
+/** Whole days a card has spent in its current column */
+export function daysInColumn(columnEnteredAt: string, now = new Date()) {
+  return Math.max(differenceInDays(now, new Date(columnEnteredAt)), 0);
+}
+
+/** How overdue a card is against its column's aging thresholds */
+export function cardAgeLevel(
+  days: number,
+  column: Pick<KanbanColumn, "aging_warning_days" | "aging_critical_days">
+): CardAgeLevel {
+  if (column.aging_critical_days && days >= column.aging_critical_days) return "critical";
+  if (column.aging_warning_days && days >= column.aging_warning_days) return "warning";
+  return "normal";
+}
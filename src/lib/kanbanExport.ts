@@ -0,0 +1,392 @@
+/**
+ * Kanban export helpers
+ *
+ * Boards are exported in the ImportedKanban shape that ImportKanban reads,
+ * as JSON or as CSV, with their tag palette, checklist templates, default
+ * filters and each card's tags and checklist. The CSV has one row per
+ * board, column, tag, checklist template and card, told apart by the
+ * "type" field, so it opens in a spreadsheet and re-imports without losing
+ * anything; checklists go in JSON cells. Text cells that a spreadsheet would
+ * run as a formula are written with a leading apostrophe, which the reader
+ * drops.
+ *
+ * Who a checklist item is assigned to and who ticked it are not exported,
+ * and cards keep their surgery and episode links only when re-imported
+ * where those records exist.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { KanbanColumnConfig, SurgeryStatus } from "@/lib/kanban";
+import { captureBoardTemplate, type BoardFilters, type BoardTemplateConfig } from "@/lib/boardTemplates";
+
+export interface ImportedPatient {
+  name: string;
+  medical_record_number?: string;
+  date_of_birth?: string;
+  gender?: string;
+  contact_phone?: string;
+  contact_email?: string;
+  address?: string;
+  notes?: string;
+}
+
+export interface ImportedChecklistItem {
+  text: string;
+  done?: boolean;
+  due_date?: string;
+  /** Name of the checklist template that added the item */
+  template?: string;
+}
+
+export interface ImportedCard {
+  column_name: string;
+  position?: number;
+  priority?: string;
+  notes?: string;
+  scheduled_date?: string;
+  surgery_type?: string;
+  manual_override?: boolean;
+  surgery_id?: string;
+  episode_id?: string;
+  /** Tag names from the board's palette */
+  tags?: string[];
+  checklist?: ImportedChecklistItem[];
+  patient: ImportedPatient;
+}
+
+export interface ImportedKanban {
+  name: string;
+  description?: string;
+  hospital?: string;
+  service?: string;
+  columns_config?: KanbanColumnConfig[];
+  tags?: BoardTemplateConfig["tags"];
+  checklist_templates?: BoardTemplateConfig["checklist_templates"];
+  /** Default filters, with tags by name */
+  filters?: BoardFilters;
+  cards?: ImportedCard[];
+}
+
+/** Drop null and empty values so exports only carry what is set */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined && v !== "")
+  ) as T;
+}
+
+/** Export a board with its setup and cards in the ImportKanban format */
+export async function exportKanbanBoard(boardId: string): Promise<ImportedKanban> {
+  const { data: board, error } = await supabase
+    .from("kanban_boards")
+    .select("name, description, hospital, service, default_filters, hospital_ref:hospitals(name)")
+    .eq("id", boardId)
+    .single();
+  if (error) throw error;
+
+  const setup = await captureBoardTemplate(boardId, (board.default_filters as BoardFilters | null) ?? {});
+
+  const { data: cards, error: cardsError } = await supabase
+    .from("kanban_cards")
+    .select(
+      "position, priority, notes, scheduled_date, surgery_type, manual_override, surgery_id, episode_id, column:kanban_columns(key, position), tags:kanban_card_tags(tag:kanban_tags(name)), checklist:card_checklist_items(text, done, due_date, position, template:checklist_templates(name)), patient:patients(name, medical_record_number, date_of_birth, gender, contact_phone, contact_email, address, notes)"
+    )
+    .eq("board_id", boardId)
+    .order("position");
+  if (cardsError) throw cardsError;
+
+  return compact({
+    name: board.name,
+    description: board.description,
+    hospital: board.hospital_ref?.name ?? board.hospital,
+    service: board.service,
+    columns_config: setup.columns.map((c) => compact(c)),
+    tags: setup.tags,
+    checklist_templates: setup.checklist_templates,
+    filters: setup.filters,
+    // Cards whose patient can't be read can't be imported again, so they are left out
+    cards: cards
+      .filter((c) => c.patient)
+      .sort((a, b) => a.column.position - b.column.position || a.position - b.position)
+      .map((c) =>
+        compact({
+          column_name: c.column.key,
+          position: c.position,
+          priority: c.priority,
+          notes: c.notes,
+          scheduled_date: c.scheduled_date,
+          surgery_type: c.surgery_type,
+          manual_override: c.manual_override,
+          surgery_id: c.surgery_id,
+          episode_id: c.episode_id,
+          tags: c.tags.map((t) => t.tag?.name).filter((name): name is string => !!name),
+          checklist: [...c.checklist]
+            .sort((a, b) => a.position - b.position)
+            .map((i) => compact({ text: i.text, done: i.done, due_date: i.due_date, template: i.template?.name })),
+          patient: compact(c.patient!),
+        })
+      ),
+  });
+}
+
+/** CSV fields, in order; board, column, tag and checklist template rows share "name" */
+const csvFields = [
+  "type",
+  "name",
+  "description",
+  "hospital",
+  "service",
+  "key",
+  "color",
+  "statuses",
+  "wip_limit",
+  "aging_warning_days",
+  "aging_critical_days",
+  "procedure",
+  "items",
+  "filters",
+  "column",
+  "position",
+  "priority",
+  "scheduled_date",
+  "surgery_type",
+  "notes",
+  "tags",
+  "checklist",
+  "manual_override",
+  "surgery_id",
+  "episode_id",
+  "patient_name",
+  "medical_record_number",
+  "date_of_birth",
+  "gender",
+  "contact_phone",
+  "contact_email",
+  "address",
+  "patient_notes",
+] as const;
+
+type CsvRow = Partial<Record<(typeof csvFields)[number], string | number>>;
+
+/** Text that spreadsheets read as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV cell when it holds commas, quotes or line breaks. Text that
+ * would start a formula gets a leading apostrophe so spreadsheets show it
+ * as text instead of running it.
+ */
+export function csvCell(value: string | number | undefined) {
+  let text = value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Convert an exported board to CSV */
+export function kanbanToCsv(kanban: ImportedKanban): string {
+  const rows: CsvRow[] = [
+    {
+      type: "board",
+      name: kanban.name,
+      description: kanban.description,
+      hospital: kanban.hospital,
+      service: kanban.service,
+      filters: kanban.filters && JSON.stringify(kanban.filters),
+    },
+    ...(kanban.columns_config ?? []).map((c) => ({
+      type: "column",
+      key: c.id,
+      name: c.name,
+      color: c.color,
+      statuses: c.statuses?.join("|"),
+      wip_limit: c.wip_limit ?? undefined,
+      aging_warning_days: c.aging_warning_days ?? undefined,
+      aging_critical_days: c.aging_critical_days ?? undefined,
+    })),
+    ...(kanban.tags ?? []).map((t) => ({ type: "tag", name: t.name, color: t.color })),
+    ...(kanban.checklist_templates ?? []).map((t) => ({
+      type: "checklist_template",
+      name: t.name,
+      column: t.column_key,
+      procedure: t.procedure ?? undefined,
+      items: JSON.stringify(t.items),
+    })),
+    ...(kanban.cards ?? []).map((c) => ({
+      type: "card",
+      column: c.column_name,
+      position: c.position,
+      priority: c.priority,
+      scheduled_date: c.scheduled_date,
+      surgery_type: c.surgery_type,
+      notes: c.notes,
+      tags: c.tags?.join("|"),
+      checklist: c.checklist && JSON.stringify(c.checklist),
+      manual_override: c.manual_override === undefined ? undefined : String(c.manual_override),
+      surgery_id: c.surgery_id,
+      episode_id: c.episode_id,
+      patient_name: c.patient.name,
+      medical_record_number: c.patient.medical_record_number,
+      date_of_birth: c.patient.date_of_birth,
+      gender: c.patient.gender,
+      contact_phone: c.patient.contact_phone,
+      contact_email: c.patient.contact_email,
+      address: c.patient.address,
+      patient_notes: c.patient.notes,
+    })),
+  ];
+
+  return [csvFields.join(","), ...rows.map((row) => csvFields.map((f) => csvCell(row[f])).join(","))].join("\r\n");
+}
+
+/** Split CSV text into rows of cells, honouring quoted commas, quotes and line breaks */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+}
+
+/** Read a board exported with kanbanToCsv */
+export function kanbanFromCsv(text: string): ImportedKanban {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header || !header.includes("type")) {
+    throw new Error("CSV must have a header row with a 'type' column");
+  }
+
+  const records = lines.map((cells) => {
+    const record: Record<string, string | undefined> = {};
+    header.forEach((field, i) => {
+      // Drop the apostrophe csvCell adds in front of formula-like text
+      const value = cells[i]?.startsWith("'") && FORMULA_START.test(cells[i].slice(1)) ? cells[i].slice(1) : cells[i];
+      record[field.trim()] = value ? value : undefined;
+    });
+    return record;
+  });
+  const toNumber = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+  const fromJson = (value: string | undefined, field: string) => {
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`The '${field}' cell "${value.slice(0, 40)}" is not valid JSON`);
+    }
+  };
+
+  const board = records.find((r) => r.type === "board");
+  if (!board?.name) {
+    throw new Error("CSV must have a 'board' row with the board's name");
+  }
+
+  const columns = records.filter((r) => r.type === "column");
+  const tags = records.filter((r) => r.type === "tag");
+  const checklistTemplates = records.filter((r) => r.type === "checklist_template");
+  const cards = records.filter((r) => r.type === "card");
+  const unknown = records.find((r) => !["board", "column", "tag", "checklist_template", "card"].includes(r.type ?? ""));
+  if (unknown) {
+    throw new Error(
+      `Unknown row type '${unknown.type ?? ""}' - expected board, column, tag, checklist_template or card`
+    );
+  }
+
+  return compact({
+    name: board.name,
+    description: board.description,
+    hospital: board.hospital,
+    service: board.service,
+    columns_config:
+      columns.length > 0
+        ? columns.map((c) =>
+            compact({
+              id: c.key!,
+              name: c.name ?? c.key!,
+              color: c.color ?? "gray",
+              statuses: (c.statuses?.split("|").filter(Boolean) ?? []) as SurgeryStatus[],
+              wip_limit: toNumber(c.wip_limit),
+              aging_warning_days: toNumber(c.aging_warning_days),
+              aging_critical_days: toNumber(c.aging_critical_days),
+            })
+          )
+        : undefined,
+    tags: tags.length > 0 ? tags.map((t) => ({ name: t.name!, color: t.color ?? "gray" })) : undefined,
+    checklist_templates:
+      checklistTemplates.length > 0
+        ? checklistTemplates.map((t) => ({
+            name: t.name!,
+            column_key: t.column!,
+            procedure: t.procedure ?? null,
+            items: fromJson(t.items, "items") ?? [],
+          }))
+        : undefined,
+    filters: fromJson(board.filters, "filters"),
+    cards: cards.map((c) =>
+      compact({
+        column_name: c.column ?? "waiting",
+        position: toNumber(c.position),
+        priority: c.priority,
+        notes: c.notes,
+        scheduled_date: c.scheduled_date,
+        surgery_type: c.surgery_type,
+        manual_override: c.manual_override === undefined ? undefined : c.manual_override === "true",
+        surgery_id: c.surgery_id,
+        episode_id: c.episode_id,
+        tags: c.tags?.split("|").filter(Boolean),
+        checklist: fromJson(c.checklist, "checklist"),
+        patient: compact({
+          name: c.patient_name,
+          medical_record_number: c.medical_record_number,
+          date_of_birth: c.date_of_birth,
+          gender: c.gender,
+          contact_phone: c.contact_phone,
+          contact_email: c.contact_email,
+          address: c.address,
+          notes: c.patient_notes,
+        }),
+      })
+    ),
+  });
+}
+
+/** Save text as a file through the browser */
+export function downloadFile(content: string, filename: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,224 @@
+/**
+ * Kanban import helpers
+ *
+ * Import files are validated against the ImportedKanban schema card by card,
+ * so a dry run can list invalid rows, unknown columns and which patients
+ * will be matched by medical record number or created before anything is
+ * written. The import itself runs in a single database function and either
+ * creates everything or nothing.
+ */
+
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { surgeryStatuses, withDefaultStatuses, type KanbanColumnConfig, type SurgeryStatus } from "@/lib/kanban";
+import type { BoardTemplateConfig } from "@/lib/boardTemplates";
+import type { ImportedCard, ImportedKanban } from "@/lib/kanbanExport";
+
+const optionalText = z.string().optional();
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}/, "must be a date as YYYY-MM-DD")
+  .refine((value) => !isNaN(Date.parse(value)), "is not a valid date");
+const optionalLimit = z.number().int().positive().nullable().optional();
+
+const importedPatientSchema = z.object({
+  name: z.string({ required_error: "is required" }).trim().min(1, "is required"),
+  medical_record_number: z.string().trim().optional(),
+  date_of_birth: isoDate.optional(),
+  gender: optionalText,
+  contact_phone: optionalText,
+  contact_email: optionalText,
+  address: optionalText,
+  notes: optionalText,
+});
+
+const checklistItemSchema = z.object({
+  text: z.string().trim().min(1, "is required"),
+  done: z.boolean().optional(),
+  due_date: isoDate.optional(),
+  template: optionalText,
+});
+
+const importedCardSchema = z.object({
+  column_name: z.string().min(1).default("waiting"),
+  position: z.number().int().min(0).optional(),
+  priority: z.enum(["urgent", "high", "normal", "low"]).optional(),
+  notes: optionalText,
+  scheduled_date: isoDate.optional(),
+  surgery_type: optionalText,
+  manual_override: z.boolean().optional(),
+  surgery_id: z.string().uuid().optional(),
+  episode_id: z.string().uuid().optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  checklist: z.array(checklistItemSchema).optional(),
+  patient: importedPatientSchema,
+});
+
+const columnConfigSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  color: z.string().default("gray"),
+  statuses: z.array(z.enum(surgeryStatuses as [SurgeryStatus, ...SurgeryStatus[]])).optional(),
+  wip_limit: optionalLimit,
+  aging_warning_days: optionalLimit,
+  aging_critical_days: optionalLimit,
+});
+
+const checklistTemplateSchema = z.object({
+  name: z.string().trim().min(1, "is required"),
+  column_key: z.string().min(1),
+  procedure: z.string().nullable().default(null),
+  items: z.array(
+    z.object({
+      text: z.string(),
+      due_in_days: z.number().int().nullable().default(null),
+    })
+  ),
+});
+
+/** Board fields; cards are checked one at a time so bad rows can be listed */
+const importedBoardSchema = z.object({
+  name: z.string({ required_error: "is required" }).trim().min(1, "is required"),
+  description: optionalText,
+  hospital: optionalText,
+  service: optionalText,
+  columns_config: z
+    .array(columnConfigSchema)
+    .min(1, "needs at least one column")
+    .refine((columns) => new Set(columns.map((c) => c.id)).size === columns.length, "has duplicate column ids")
+    .optional(),
+  tags: z.array(z.object({ name: z.string().trim().min(1), color: z.string().default("gray") })).optional(),
+  checklist_templates: z.array(checklistTemplateSchema).optional(),
+  filters: z
+    .object({ hospital: optionalText, urgency: optionalText, tags: z.array(z.string()).optional() })
+    .optional(),
+  cards: z.array(z.unknown()).optional(),
+});
+
+function describeIssues(error: z.ZodError) {
+  return error.issues.map((issue) => `${issue.path.join(".") || "value"} ${issue.message}`);
+}
+
+export interface KanbanImportPatient {
+  row: number;
+  name: string;
+  medical_record_number?: string;
+  action: "match" | "create";
+  /** Name on file for a matched patient, when it differs */
+  existingName?: string;
+}
+
+export interface KanbanImportPreview {
+  board: Omit<ImportedKanban, "cards">;
+  cards: ImportedCard[];
+  /** Columns the board will get, including ones only cards mention */
+  columns: KanbanColumnConfig[];
+  unknownColumns: string[];
+  patients: KanbanImportPatient[];
+  invalidRows: { row: number; errors: string[] }[];
+  /** Problems with the board itself; nothing else is checked when there are any */
+  boardErrors: string[];
+}
+
+/**
+ * Dry-run an import: validate the file and look up which patients already
+ * exist. Columns come from the file, or from the template when it has none.
+ */
+export async function previewKanbanImport(raw: unknown, template: BoardTemplateConfig): Promise<KanbanImportPreview> {
+  const parsed = importedBoardSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      board: { name: "" },
+      cards: [],
+      columns: [],
+      unknownColumns: [],
+      patients: [],
+      invalidRows: [],
+      boardErrors: describeIssues(parsed.error),
+    };
+  }
+
+  // Without strictNullChecks zod infers every field as optional, so narrow to the import types
+  const { cards: rawCards = [], ...parsedBoard } = parsed.data;
+  const board = parsedBoard as Omit<ImportedKanban, "cards">;
+  const validRows: { row: number; card: ImportedCard }[] = [];
+  const invalidRows: KanbanImportPreview["invalidRows"] = [];
+  const rowsByMrn = new Map<string, number>();
+
+  rawCards.forEach((rawCard, index) => {
+    const row = index + 1;
+    const card = importedCardSchema.safeParse(rawCard);
+    if (!card.success) {
+      invalidRows.push({ row, errors: describeIssues(card.error) });
+      return;
+    }
+    const mrn = card.data.patient.medical_record_number;
+    if (mrn && rowsByMrn.has(mrn)) {
+      invalidRows.push({ row, errors: [`patient ${mrn} already has a card in row ${rowsByMrn.get(mrn)}`] });
+      return;
+    }
+    if (mrn) rowsByMrn.set(mrn, row);
+    validRows.push({ row, card: card.data as ImportedCard });
+  });
+  const cards = validRows.map((r) => r.card);
+
+  // Columns cards use but the board doesn't define are added at the end
+  const columns = board.columns_config ? withDefaultStatuses(board.columns_config) : [...template.columns];
+  const unknownColumns = [...new Set(cards.map((c) => c.column_name))].filter(
+    (key) => !columns.some((c) => c.id === key)
+  );
+  unknownColumns.forEach((key) => columns.push({ id: key, name: key.replace(/_/g, " "), color: "gray", statuses: [] }));
+
+  // Patients already on file, matched by medical record number
+  const mrns = [...rowsByMrn.keys()];
+  const existing = new Map<string, string>();
+  if (mrns.length > 0) {
+    const { data, error } = await supabase
+      .from("patients")
+      .select("name, medical_record_number")
+      .in("medical_record_number", mrns);
+    if (error) throw error;
+    data.forEach((p) => existing.set(p.medical_record_number!, p.name));
+  }
+
+  const patients = validRows.map(({ row, card }): KanbanImportPatient => {
+    const mrn = card.patient.medical_record_number;
+    const existingName = mrn ? existing.get(mrn) : undefined;
+    return {
+      row,
+      name: card.patient.name,
+      medical_record_number: mrn,
+      action: existingName !== undefined ? "match" : "create",
+      existingName: existingName !== undefined && existingName !== card.patient.name ? existingName : undefined,
+    };
+  });
+
+  return { board, cards, columns, unknownColumns, patients, invalidRows, boardErrors: [] };
+}
+
+/** Whether a previewed import can run */
+export function canImportKanban(preview: KanbanImportPreview) {
+  return preview.boardErrors.length === 0 && preview.invalidRows.length === 0;
+}
+
+/**
+ * Create the previewed board in one transaction. The tags, checklist
+ * templates and default filters come from the file; a file without columns
+ * takes the template's where it has none of its own.
+ */
+export async function importKanbanBoard(preview: KanbanImportPreview, template: BoardTemplateConfig) {
+  const fromTemplate = !preview.board.columns_config;
+  const { data, error } = await supabase.rpc("import_kanban_board", {
+    _board: {
+      ...preview.board,
+      columns_config: preview.columns,
+      cards: preview.cards,
+      tags: preview.board.tags ?? (fromTemplate ? template.tags : []),
+      checklist_templates: preview.board.checklist_templates ?? (fromTemplate ? template.checklist_templates : []),
+      filters: preview.board.filters ?? (fromTemplate ? template.filters : null),
+    } as unknown as Json,
+  });
+  if (error) throw error;
+  return data as { board_id: string; cards: number; patients_created: number; patients_matched: number };
+}
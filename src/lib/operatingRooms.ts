@@ -0,0 +1,43 @@
+/**
+ * Operating room helpers
+ *
+ * Each hospital has its own operating rooms, listed in position order.
+ * Rooms with surgeries are deactivated rather than deleted so past
+ * schedules keep their room.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type OperatingRoom = Tables<"operating_rooms">;
+
+/** Fetch a hospital's rooms, or every room when no hospital is given */
+export async function fetchOperatingRooms(hospitalId?: string | null): Promise<OperatingRoom[]> {
+  let query = supabase.from("operating_rooms").select("*").order("position").order("name");
+  if (hospitalId) query = query.eq("hospital_id", hospitalId);
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+/** Add a room at the end of its hospital's list */
+export async function addOperatingRoom(hospitalId: string, name: string, position: number) {
+  const { error } = await supabase.from("operating_rooms").insert({ hospital_id: hospitalId, name: name.trim(), position });
+  if (error) throw error;
+}
+
+/** Update a room; a new name is copied to its surgeries by the database */
+export async function updateOperatingRoom(id: string, changes: Partial<Pick<OperatingRoom, "name" | "active" | "position">>) {
+  const { error } = await supabase.from("operating_rooms").update(changes).eq("id", id);
+  if (error) throw error;
+}
+
+/**
+ * Delete a room that was never used, or deactivate it when it was. The
+ * check counts every surgery, including ones hidden from the caller.
+ */
+export async function removeOperatingRoom(id: string) {
+  const { data, error } = await supabase.rpc("remove_operating_room", { _room_id: id });
+  if (error) throw error;
+  return data as "deleted" | "deactivated";
+}
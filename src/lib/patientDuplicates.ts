@@ -0,0 +1,175 @@
+/**
+ * Patient duplicate detection and merging
+ *
+ * Candidates are patients sharing the MRN, date of birth or phone number
+ * with the patient being entered, or a word of the name. Each is scored on
+ * name similarity plus those exact matches, so the same name is always
+ * flagged and "Jon Smith" only when sharing a birth date or phone number
+ * with "John Smith".
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export interface PatientIdentity {
+  name: string;
+  medical_record_number?: string | null;
+  date_of_birth?: string | null;
+  contact_phone?: string | null;
+}
+
+export interface PatientDuplicate {
+  patient: Pick<Tables<"patients">, "id" | "name" | "medical_record_number" | "date_of_birth" | "contact_phone">;
+  /** 0 to 1; candidates under DUPLICATE_THRESHOLD are dropped */
+  score: number;
+  reasons: string[];
+}
+
+const DUPLICATE_THRESHOLD = 0.6;
+const CANDIDATE_LIMIT = 50;
+
+/** Lowercase without accents or punctuation, so "José Silva" matches "jose silva" */
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const phoneDigits = (phone: string | null | undefined) => (phone ?? "").replace(/\D/g, "").slice(-9);
+
+function bigrams(text: string) {
+  const grams = new Map<string, number>();
+  const padded = ` ${text} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of the names' letter pairs, with words sorted so
+ * "Smith John" and "John Smith" are the same name
+ */
+export function nameSimilarity(a: string, b: string) {
+  const sorted = (name: string) => normalizeName(name).split(" ").sort().join(" ");
+  const left = bigrams(sorted(a));
+  const right = bigrams(sorted(b));
+  let shared = 0;
+  let total = 0;
+  left.forEach((count, gram) => {
+    shared += Math.min(count, right.get(gram) ?? 0);
+    total += count;
+  });
+  right.forEach((count) => (total += count));
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/** Score one candidate against the patient being entered */
+function scoreCandidate(input: PatientIdentity, candidate: PatientDuplicate["patient"]): PatientDuplicate {
+  const reasons: string[] = [];
+  const similarity = nameSimilarity(input.name, candidate.name);
+  let score = similarity * 0.6;
+
+  if (similarity >= 0.99) reasons.push("same name");
+  else if (similarity >= 0.7) reasons.push("similar name");
+
+  const mrn = input.medical_record_number?.trim();
+  if (mrn && candidate.medical_record_number?.toLowerCase() === mrn.toLowerCase()) {
+    score = 1;
+    reasons.push("same MRN");
+  }
+  if (input.date_of_birth && candidate.date_of_birth === input.date_of_birth) {
+    score += 0.35;
+    reasons.push("same date of birth");
+  }
+  const phone = phoneDigits(input.contact_phone);
+  if (phone.length >= 6 && phone === phoneDigits(candidate.contact_phone)) {
+    score += 0.3;
+    reasons.push("same phone");
+  }
+
+  return { patient: candidate, score: Math.min(score, 1), reasons };
+}
+
+/**
+ * Find patients that may be the same person, most likely first.
+ * Pass the patient's own id to leave it out when checking an existing patient.
+ */
+export async function findPatientDuplicates(input: PatientIdentity, excludeId?: string): Promise<PatientDuplicate[]> {
+  const quote = (value: string) => `"${value.replace(/"/g, "")}"`;
+
+  // Exact identifiers are looked up on their own, so that a common name word
+  // filling the candidate limit cannot push out a same-MRN or same-birth-date match
+  const exactFilters: string[] = [];
+  if (input.medical_record_number?.trim()) {
+    exactFilters.push(`medical_record_number.ilike.${quote(input.medical_record_number.trim())}`);
+  }
+  if (input.date_of_birth) exactFilters.push(`date_of_birth.eq.${input.date_of_birth}`);
+
+  const fuzzyFilters = normalizeName(input.name)
+    .split(" ")
+    .filter((word) => word.length >= 3)
+    .map((word) => `name.ilike.${quote(`%${word}%`)}`);
+  const phone = phoneDigits(input.contact_phone);
+  if (phone.length >= 6) fuzzyFilters.push(`contact_phone.ilike.${quote(`%${phone.slice(-6)}%`)}`);
+
+  const fetchCandidates = async (filters: string[]) => {
+    if (filters.length === 0) return [];
+    let query = supabase
+      .from("patients")
+      .select("id, name, medical_record_number, date_of_birth, contact_phone")
+      .is("deleted_at", null)
+      .or(filters.join(","))
+      .limit(CANDIDATE_LIMIT);
+    if (excludeId) query = query.neq("id", excludeId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  };
+
+  const [exact, fuzzy] = await Promise.all([fetchCandidates(exactFilters), fetchCandidates(fuzzyFilters)]);
+  const candidates = new Map([...fuzzy, ...exact].map((candidate) => [candidate.id, candidate]));
+
+  return [...candidates.values()]
+    .map((candidate) => scoreCandidate(input, candidate))
+    .filter((match) => match.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Patient fields the survivor of a merge can take from either record */
+export const mergeablePatientFields = [
+  { key: "name", label: "Name" },
+  { key: "medical_record_number", label: "MRN" },
+  { key: "date_of_birth", label: "Date of birth" },
+  { key: "gender", label: "Gender" },
+  { key: "contact_phone", label: "Phone" },
+  { key: "contact_email", label: "Email" },
+  { key: "address", label: "Address" },
+  { key: "notes", label: "Notes" },
+] as const;
+
+export type MergeablePatientField = (typeof mergeablePatientFields)[number]["key"];
+
+/**
+ * Merge the duplicate into the survivor in one transaction: the survivor
+ * takes the chosen values and all of the duplicate's records, and the
+ * duplicate is moved to the trash.
+ */
+export async function mergePatients(
+  survivorId: string,
+  duplicateId: string,
+  fields: Record<MergeablePatientField, string | null>
+) {
+  const { error } = await supabase.rpc("merge_patients", {
+    _survivor_id: survivorId,
+    _duplicate_id: duplicateId,
+    _fields: fields as unknown as Json,
+  });
+  if (error) throw error;
+}
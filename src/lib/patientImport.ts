@@ -0,0 +1,335 @@
+/**
+ * Patient and surgery spreadsheet import
+ *
+ * A CSV or XLSX sheet is read into rows of text, its columns are mapped to
+ * patient and surgery fields, and every row is checked for bad dates,
+ * unknown hospitals and duplicates before anything is written. Valid rows
+ * are imported in batches; rows that fail, here or in the database, end up
+ * in a downloadable error report.
+ */
+
+import readXlsxFile from "read-excel-file";
+import { format, isValid, parse, parseISO, startOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { SurgeryStatus } from "@/lib/kanban";
+import { csvCell, parseCsv } from "@/lib/kanbanExport";
+
+export const patientImportFields = [
+  { key: "name", label: "Patient name", required: true, aliases: ["name", "patient", "patient name", "nome", "doente"] },
+  { key: "medical_record_number", label: "MRN", required: false, aliases: ["mrn", "medical record number", "record number", "processo", "n processo"] },
+  { key: "date_of_birth", label: "Date of birth", required: false, aliases: ["date of birth", "dob", "birth date", "birthdate", "data de nascimento"] },
+  { key: "procedure_name", label: "Procedure", required: false, aliases: ["procedure", "procedure name", "surgery", "cirurgia", "procedimento"] },
+  { key: "scheduled_date", label: "Surgery date", required: false, aliases: ["scheduled date", "surgery date", "date", "data", "data da cirurgia"] },
+  { key: "hospital", label: "Hospital", required: false, aliases: ["hospital", "hospital code"] },
+] as const;
+
+export type PatientImportField = (typeof patientImportFields)[number]["key"];
+
+/** Spreadsheet column index for each mapped field */
+export type ColumnMapping = Partial<Record<PatientImportField, number>>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Import rows per database call; a patient's rows are never split across calls */
+const BATCH_SIZE = 500;
+
+/** Excel dates carry no timezone, so read their UTC fields as the wall time */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.slice(11, 16) === "00:00" ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+  }
+  return String(value).trim();
+}
+
+/** Read the first sheet of a CSV or XLSX file; the first row holds the headers */
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const name = file.name.toLowerCase();
+  let cells: string[][];
+  if (name.endsWith(".csv")) {
+    cells = parseCsv((await file.text()).replace(/^\uFEFF/, "")).map((row) => row.map(cellText));
+  } else if (name.endsWith(".xlsx")) {
+    cells = (await readXlsxFile(file)).map((row) => row.map((value) => cellText(value as unknown)));
+  } else {
+    throw new Error("Please select a CSV or XLSX file");
+  }
+
+  const [headers, ...rows] = cells.filter((row) => row.some(Boolean));
+  if (!headers || rows.length === 0) {
+    throw new Error("The file needs a header row and at least one row of data");
+  }
+  return { headers, rows };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.#º°]+/g, " ").replace(/\s+/g, " ").trim();
+
+/** Map fields to columns whose headers look like them */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of patientImportFields) {
+    const index = normalized.findIndex(
+      (header, i) =>
+        !Object.values(mapping).includes(i) && (field.aliases as readonly string[]).includes(header)
+    );
+    if (index !== -1) mapping[field.key] = index;
+  }
+  return mapping;
+}
+
+const dateFormats = ["yyyy-MM-dd", "dd/MM/yyyy", "dd-MM-yyyy", "dd.MM.yyyy"];
+const timeFormats = ["", " HH:mm", "'T'HH:mm", " HH:mm:ss", "'T'HH:mm:ss"];
+
+/** Parse a spreadsheet date such as 2024-03-01 or 01/03/2024, with an optional time */
+export function parseImportDate(value: string): { date: Date; hasTime: boolean } | null {
+  for (const dateFormat of dateFormats) {
+    for (const timeFormat of timeFormats) {
+      const date = parse(value, dateFormat + timeFormat, new Date());
+      if (isValid(date) && date.getFullYear() >= 1900) return { date, hasTime: timeFormat !== "" };
+    }
+  }
+  return null;
+}
+
+export interface PatientImportRow {
+  /** Row number in the spreadsheet, counting the header as row 1 */
+  row: number;
+  name: string;
+  medical_record_number?: string;
+  date_of_birth?: string;
+  procedure_name?: string;
+  /** Local wall time as entered, yyyy-MM-dd or yyyy-MM-dd'T'HH:mm */
+  scheduled_date?: string;
+  hospital?: string;
+  hospital_id?: string;
+  /** Pending without a date, completed for past dates, scheduled otherwise */
+  status?: SurgeryStatus;
+  /** Rows with the same key belong to the same patient */
+  patient_key: string;
+  action: "match" | "create";
+  /** Name on file for a matched patient, when it differs */
+  existingName?: string;
+  errors: string[];
+}
+
+export interface PatientImportPreview {
+  rows: PatientImportRow[];
+  validRows: PatientImportRow[];
+  invalidRows: PatientImportRow[];
+}
+
+/**
+ * Map and check every row: required names, dates, hospitals, the same
+ * MRN under different names, repeated rows and surgeries already on file.
+ */
+export async function previewPatientImport(sheet: Spreadsheet, mapping: ColumnMapping): Promise<PatientImportPreview> {
+  const { data: hospitals, error: hospitalsError } = await supabase.from("hospitals").select("id, name, code");
+  if (hospitalsError) throw hospitalsError;
+  const findHospital = (value: string) =>
+    hospitals.find(
+      (h) => h.name.toLowerCase() === value.toLowerCase() || h.code?.toLowerCase() === value.toLowerCase()
+    );
+
+  const cell = (cells: string[], field: PatientImportField) =>
+    mapping[field] === undefined ? "" : (cells[mapping[field]!] ?? "").trim();
+  const today = startOfDay(new Date());
+
+  const rows = sheet.rows.map((cells, index): PatientImportRow => {
+    const errors: string[] = [];
+    const name = cell(cells, "name");
+    const mrn = cell(cells, "medical_record_number");
+    const procedure = cell(cells, "procedure_name");
+    if (!name) errors.push("patient name is required");
+
+    let dateOfBirth: string | undefined;
+    const dobText = cell(cells, "date_of_birth");
+    if (dobText) {
+      const parsed = parseImportDate(dobText);
+      if (!parsed) errors.push(`date of birth "${dobText}" is not a valid date`);
+      else if (parsed.date > today) errors.push("date of birth is in the future");
+      else dateOfBirth = format(parsed.date, "yyyy-MM-dd");
+    }
+
+    let scheduledDate: string | undefined;
+    let status: SurgeryStatus | undefined;
+    const scheduledText = cell(cells, "scheduled_date");
+    if (scheduledText) {
+      const parsed = parseImportDate(scheduledText);
+      if (!parsed) errors.push(`surgery date "${scheduledText}" is not a valid date`);
+      else {
+        scheduledDate = format(parsed.date, parsed.hasTime ? "yyyy-MM-dd'T'HH:mm" : "yyyy-MM-dd");
+        status = parsed.date < today ? "completed" : "scheduled";
+      }
+      if (!procedure) errors.push("surgery date given without a procedure");
+    } else if (procedure) {
+      status = "pending";
+    }
+
+    const hospital = cell(cells, "hospital");
+    const hospitalId = hospital ? findHospital(hospital)?.id : undefined;
+    if (hospital && !hospitalId) errors.push(`unknown hospital "${hospital}"`);
+    if (hospital && !procedure) errors.push("hospital given without a procedure");
+
+    return {
+      row: index + 2,
+      name,
+      medical_record_number: mrn || undefined,
+      date_of_birth: dateOfBirth,
+      procedure_name: procedure || undefined,
+      scheduled_date: scheduledDate,
+      hospital: hospital || undefined,
+      hospital_id: hospitalId,
+      status,
+      patient_key: mrn ? `mrn:${mrn}` : `name:${name.toLowerCase()}|${dateOfBirth ?? ""}`,
+      action: "create",
+      errors,
+    };
+  });
+
+  // Duplicates within the file
+  const namesByMrn = new Map<string, PatientImportRow>();
+  const surgeriesSeen = new Map<string, number>();
+  for (const row of rows) {
+    if (row.medical_record_number) {
+      const first = namesByMrn.get(row.medical_record_number);
+      if (!first) namesByMrn.set(row.medical_record_number, row);
+      else if (first.name.toLowerCase() !== row.name.toLowerCase()) {
+        row.errors.push(`MRN ${row.medical_record_number} belongs to "${first.name}" in row ${first.row}`);
+      }
+    }
+    const surgeryKey = `${row.patient_key}|${row.procedure_name?.toLowerCase() ?? ""}|${row.scheduled_date?.slice(0, 10) ?? ""}`;
+    if (surgeriesSeen.has(surgeryKey)) {
+      row.errors.push(`duplicate of row ${surgeriesSeen.get(surgeryKey)}`);
+    } else {
+      surgeriesSeen.set(surgeryKey, row.row);
+    }
+  }
+
+  // Patients and surgeries already on file, matched by medical record number
+  const mrns = [...namesByMrn.keys()];
+  for (let i = 0; i < mrns.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("patients")
+      .select("name, medical_record_number, surgeries(procedure_name, scheduled_date, deleted_at)")
+      .in("medical_record_number", mrns.slice(i, i + BATCH_SIZE));
+    if (error) throw error;
+
+    for (const patient of data) {
+      rows
+        .filter((row) => row.medical_record_number === patient.medical_record_number)
+        .forEach((row) => {
+          row.action = "match";
+          if (patient.name.toLowerCase() !== row.name.toLowerCase()) row.existingName = patient.name;
+          const onFile = patient.surgeries.some(
+            (s) =>
+              !s.deleted_at &&
+              s.procedure_name.toLowerCase() === row.procedure_name?.toLowerCase() &&
+              (s.scheduled_date ? format(new Date(s.scheduled_date), "yyyy-MM-dd") : "") ===
+                (row.scheduled_date?.slice(0, 10) ?? "")
+          );
+          if (onFile) row.errors.push(`surgery "${row.procedure_name}" is already on file for this patient`);
+        });
+    }
+  }
+
+  return {
+    rows,
+    validRows: rows.filter((row) => row.errors.length === 0),
+    invalidRows: rows.filter((row) => row.errors.length > 0),
+  };
+}
+
+export interface PatientImportResult {
+  patients_created: number;
+  patients_matched: number;
+  surgeries: number;
+  errors: { row: number; error: string }[];
+  /** Existing patients that got surgeries, whose kanban cards may need to move */
+  matchedPatientIds: string[];
+}
+
+/**
+ * Batches of about BATCH_SIZE rows, keeping each patient's rows together so
+ * a patient without an MRN is only created once
+ */
+function patientBatches(rows: PatientImportRow[]) {
+  const byPatient = new Map<string, PatientImportRow[]>();
+  rows.forEach((row) => byPatient.set(row.patient_key, [...(byPatient.get(row.patient_key) ?? []), row]));
+
+  const batches: PatientImportRow[][] = [];
+  let batch: PatientImportRow[] = [];
+  for (const patientRows of byPatient.values()) {
+    if (batch.length > 0 && batch.length + patientRows.length > BATCH_SIZE) {
+      batches.push(batch);
+      batch = [];
+    }
+    batch.push(...patientRows);
+  }
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Import the valid rows of a preview in batches. Each row is written on its
+ * own, so rows the database rejects are returned as errors instead of
+ * stopping the import.
+ */
+export async function importPatientRows(rows: PatientImportRow[]): Promise<PatientImportResult> {
+  const result: PatientImportResult = {
+    patients_created: 0,
+    patients_matched: 0,
+    surgeries: 0,
+    errors: [],
+    matchedPatientIds: [],
+  };
+  const matchedIds = new Set<string>();
+
+  for (const patientRows of patientBatches(rows)) {
+    const batch = patientRows.map((row) => ({
+      row: row.row,
+      patient_key: row.patient_key,
+      name: row.name,
+      medical_record_number: row.medical_record_number,
+      date_of_birth: row.date_of_birth,
+      procedure_name: row.procedure_name,
+      // Dates were entered in the user's zone, not the database's
+      scheduled_date: row.scheduled_date ? parseISO(row.scheduled_date).toISOString() : undefined,
+      status: row.status,
+      hospital_id: row.hospital_id,
+    }));
+    const { data, error } = await supabase.rpc("import_patient_rows", { _rows: batch as unknown as Json });
+    if (error) {
+      // Rows of a batch that never ran are reported rather than lost
+      batch.forEach((row) => result.errors.push({ row: row.row, error: error.message }));
+      continue;
+    }
+
+    const imported = data as Omit<PatientImportResult, "patients_matched" | "matchedPatientIds"> & {
+      matched_patient_ids: string[];
+    };
+    result.patients_created += imported.patients_created;
+    result.surgeries += imported.surgeries;
+    result.errors.push(...imported.errors);
+    imported.matched_patient_ids.forEach((id) => matchedIds.add(id));
+  }
+
+  result.matchedPatientIds = [...matchedIds];
+  result.patients_matched = matchedIds.size;
+  return result;
+}
+
+/** CSV of the rows that were not imported, with their original cells and the reason */
+export function patientImportErrorReport(sheet: Spreadsheet, errors: { row: number; error: string }[]): string {
+  const lines = [
+    ["row", ...sheet.headers, "error"],
+    ...[...errors]
+      .sort((a, b) => a.row - b.row)
+      .map(({ row, error }) => [String(row), ...sheet.headers.map((_, i) => sheet.rows[row - 2]?.[i] ?? ""), error]),
+  ];
+  return lines.map((cells) => cells.map(csvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,177 @@
+/**
+ * Surgery schedule conflicts
+ *
+ * A surgery occupies its room, patient and team from scheduled_date for
+ * duration_minutes (an hour when no duration is set). Two surgeries
+ * conflict when those intervals overlap in the same operating room, for
+ * the same patient, or with someone on both teams, whether as main surgeon
+ * or assistant. Cancelled surgeries never conflict.
+ *
+ * Conflicts are warnings: a surgery can still be scheduled over one, and
+ * the reason given is saved with it in surgery_conflict_overrides.
+ *
+ * Clashes are looked up across every team, so another team's surgery can
+ * come back as a bare slot, without its patient.
+ */
+
+import { addMinutes } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, TablesInsert } from "@/integrations/supabase/types";
+
+/** Length assumed for surgeries without a duration */
+export const DEFAULT_SURGERY_MINUTES = 60;
+
+export interface ScheduledSurgery {
+  id: string;
+  procedure_name: string;
+  scheduled_date: string | null;
+  duration_minutes: number | null;
+  status: string;
+  main_surgeon: string | null;
+  assistants: string[] | null;
+  operating_room_id: string | null;
+  /** Null for another team's surgery whose patient the user can't see */
+  patient_id: string | null;
+  patient?: { name: string } | null;
+}
+
+/** A surgery being entered, which may not have been saved yet */
+export type SurgeryCandidate = Omit<ScheduledSurgery, "id" | "patient"> & { id?: string };
+
+export type ConflictKind = "room" | "surgeon" | "assistant" | "patient";
+
+export interface ScheduleConflict {
+  kind: ConflictKind;
+  surgery: ScheduledSurgery;
+}
+
+export const conflictLabels: Record<ConflictKind, string> = {
+  room: "Room double-booked",
+  surgeon: "Surgeon double-booked",
+  assistant: "Assistant double-booked",
+  patient: "Patient already scheduled",
+};
+
+export const scheduledSurgerySelect =
+  "id, procedure_name, scheduled_date, duration_minutes, status, main_surgeon, assistants, operating_room_id, patient_id, patient:patients(name)";
+
+/** When a surgery starts and ends, or null when it has no date */
+export function surgeryInterval(surgery: Pick<ScheduledSurgery, "scheduled_date" | "duration_minutes">) {
+  if (!surgery.scheduled_date) return null;
+  const start = new Date(surgery.scheduled_date);
+  return { start, end: addMinutes(start, surgery.duration_minutes || DEFAULT_SURGERY_MINUTES) };
+}
+
+const personKey = (name: string | null) => name?.trim().toLowerCase() || null;
+
+/** Everyone on a surgery's team, main surgeon included */
+const teamKeys = (surgery: SurgeryCandidate) =>
+  new Set([surgery.main_surgeon, ...(surgery.assistants ?? [])].map(personKey).filter(Boolean));
+
+/** Ways two surgeries clash, if any */
+export function conflictsBetween(a: SurgeryCandidate, b: SurgeryCandidate): ConflictKind[] {
+  if ((a.id && a.id === b.id) || a.status === "cancelled" || b.status === "cancelled") return [];
+  const first = surgeryInterval(a);
+  const second = surgeryInterval(b);
+  if (!first || !second || first.start >= second.end || second.start >= first.end) return [];
+
+  const kinds: ConflictKind[] = [];
+  if (a.operating_room_id && a.operating_room_id === b.operating_room_id) kinds.push("room");
+  const surgeon = personKey(a.main_surgeon);
+  const sameSurgeon = !!surgeon && surgeon === personKey(b.main_surgeon);
+  if (sameSurgeon) kinds.push("surgeon");
+  // Anyone else on both teams, e.g. one surgery's surgeon assisting the other
+  const otherTeam = teamKeys(b);
+  if ([...teamKeys(a)].some((person) => otherTeam.has(person) && !(sameSurgeon && person === surgeon))) {
+    kinds.push("assistant");
+  }
+  if (a.patient_id && a.patient_id === b.patient_id) kinds.push("patient");
+  return kinds;
+}
+
+/** Whether two versions of a surgery take the same slot, room and team */
+export function isSameSchedule(a: SurgeryCandidate, b: SurgeryCandidate) {
+  const slot = (s: SurgeryCandidate) =>
+    JSON.stringify([
+      s.scheduled_date && new Date(s.scheduled_date).getTime(),
+      s.duration_minutes || DEFAULT_SURGERY_MINUTES,
+      s.status,
+      s.operating_room_id,
+      personKey(s.main_surgeon),
+      [...teamKeys(s)].sort(),
+    ]);
+  return slot(a) === slot(b);
+}
+
+/** Conflicts of every surgery in a list, keyed by surgery id */
+export function findScheduleConflicts(surgeries: ScheduledSurgery[]) {
+  const conflicts = new Map<string, ScheduleConflict[]>();
+  const sorted = surgeries
+    .filter((s) => surgeryInterval(s))
+    .sort((a, b) => surgeryInterval(a)!.start.getTime() - surgeryInterval(b)!.start.getTime());
+
+  sorted.forEach((surgery, i) => {
+    const end = surgeryInterval(surgery)!.end;
+    // Sorted by start, so only later surgeries starting before this one ends can overlap
+    for (let j = i + 1; j < sorted.length && surgeryInterval(sorted[j])!.start < end; j++) {
+      conflictsBetween(surgery, sorted[j]).forEach((kind) => {
+        conflicts.set(surgery.id, [...(conflicts.get(surgery.id) ?? []), { kind, surgery: sorted[j] }]);
+        conflicts.set(sorted[j].id, [...(conflicts.get(sorted[j].id) ?? []), { kind, surgery }]);
+      });
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Look up the surgeries a surgery would clash with at its (new) time, in
+ * any hospital and any team, so a surgeon booked elsewhere is caught too.
+ * The database returns the overlapping surgeries sharing its room, team or
+ * patient, and they are classified here.
+ */
+export async function fetchSurgeryConflicts(surgery: SurgeryCandidate): Promise<ScheduleConflict[]> {
+  const interval = surgeryInterval(surgery);
+  if (!interval || surgery.status === "cancelled") return [];
+
+  const { data, error } = await supabase.rpc("surgery_schedule_clashes", {
+    _start: interval.start.toISOString(),
+    _end: interval.end.toISOString(),
+    _operating_room_id: surgery.operating_room_id,
+    _team: [surgery.main_surgeon, ...(surgery.assistants ?? [])].filter((name): name is string => !!name),
+    _patient_id: surgery.patient_id,
+    _surgery_id: surgery.id,
+  });
+  if (error) throw error;
+
+  return data.flatMap(({ patient_name, ...other }) => {
+    const clash: ScheduledSurgery = { ...other, patient: patient_name ? { name: patient_name } : null };
+    return conflictsBetween(surgery, clash).map((kind) => ({ kind, surgery: clash }));
+  });
+}
+
+type SurgeryValues = Omit<TablesInsert<"surgeries">, "id">;
+
+/**
+ * Insert a surgery (no id) or update the given fields, together with the
+ * reason it was scheduled despite its conflicts, in one transaction.
+ * Returns the surgery's id.
+ */
+export async function saveSurgery(
+  surgeryId: string | null,
+  values: Partial<SurgeryValues>,
+  override?: { reason?: string; conflicts: ScheduleConflict[] }
+): Promise<string> {
+  const { data, error } = await supabase.rpc("save_surgery", {
+    _surgery_id: surgeryId,
+    _values: values as Json,
+    _override_reason: override?.reason?.trim() ?? null,
+    _conflicts: (override?.conflicts ?? []).map(({ kind, surgery: other }) => ({
+      kind,
+      surgery_id: other.id,
+      procedure_name: other.procedure_name,
+      scheduled_date: other.scheduled_date,
+    })),
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,79 @@
+/**
+ * Storage helpers
+ *
+ * Patient files live in a private bucket, so attachments store the object
+ * path and links are resolved to short-lived signed URLs when displayed.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const ATTACHMENTS_BUCKET = "patient-attachments";
+
+/** Lifetime of signed attachment links, in seconds */
+const SIGNED_URL_TTL = 60 * 60;
+
+/**
+ * Resolve storage paths to signed URLs, keyed by path.
+ * Paths that cannot be signed are omitted from the result.
+ */
+export async function createSignedAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL);
+
+  if (error) throw error;
+
+  const urls: Record<string, string> = {};
+  for (const item of data) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+/**
+ * Download attachments as base64, keyed by path, one at a time. Files over
+ * maxFileBytes, and everything once maxTotalBytes is used up, are left out.
+ * Sizes are checked from the object metadata before downloading, and files
+ * that are missing or cannot be read are left out too.
+ */
+export async function downloadAttachmentData(
+  paths: string[],
+  { maxFileBytes, maxTotalBytes }: { maxFileBytes: number; maxTotalBytes: number }
+): Promise<Record<string, { data: string; size: number }>> {
+  const files: Record<string, { data: string; size: number }> = {};
+  let total = 0;
+
+  for (const path of paths) {
+    if (total >= maxTotalBytes) break;
+    const { data: info, error: infoError } = await supabase.storage.from(ATTACHMENTS_BUCKET).info(path);
+    if (infoError) {
+      console.error(`Failed to read attachment ${path}:`, infoError);
+      continue;
+    }
+    if (info.size !== undefined && (info.size > maxFileBytes || total + info.size > maxTotalBytes)) continue;
+
+    const { data: blob, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(path);
+    if (error) {
+      console.error(`Failed to download attachment ${path}:`, error);
+      continue;
+    }
+    // The metadata size may be missing, so check the downloaded file as well
+    if (blob.size > maxFileBytes || total + blob.size > maxTotalBytes) continue;
+
+    files[path] = { data: await blobToBase64(blob), size: blob.size };
+    total += blob.size;
+  }
+  return files;
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Data URLs are "data:<type>;base64,<data>"
+    reader.onload = () => resolve((reader.result as string).slice((reader.result as string).indexOf(",") + 1));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,95 @@
+/**
+ * Kanban swimlane helpers
+ *
+ * Swimlanes group a board's cards into horizontal rows by main surgeon,
+ * hospital, priority or tag. Surgeon and hospital come from the surgery the
+ * card currently tracks; tag lanes use the card's own tags.
+ */
+
+export type SwimlaneMode = "none" | "surgeon" | "hospital" | "priority" | "tag";
+
+export const swimlaneModeLabels: Record<SwimlaneMode, string> = {
+  none: "No swimlanes",
+  surgeon: "Surgeon",
+  hospital: "Hospital",
+  priority: "Priority",
+  tag: "Tag",
+};
+
+/** Lane for cards without a value for the grouping field */
+export const NO_LANE = "none";
+
+export interface Swimlane {
+  key: string;
+  label: string;
+}
+
+/** What a card is grouped by */
+export interface SwimlaneCard {
+  priority: string | null;
+  /** The card's own tag ids, in palette order */
+  tagIds: string[];
+  surgery: { main_surgeon: string | null; hospital_id: string | null } | null;
+}
+
+const priorityLanes: Swimlane[] = [
+  { key: "urgent", label: "Urgent" },
+  { key: "high", label: "High" },
+  { key: "normal", label: "Normal" },
+  { key: "low", label: "Low" },
+];
+
+/** Lane a card belongs to; a card with several tags sits in its first tag's lane */
+export function swimlaneKey(mode: SwimlaneMode, card: SwimlaneCard): string {
+  switch (mode) {
+    case "surgeon":
+      return card.surgery?.main_surgeon?.trim() || NO_LANE;
+    case "hospital":
+      return card.surgery?.hospital_id || NO_LANE;
+    case "priority":
+      return card.priority || NO_LANE;
+    case "tag":
+      return card.tagIds[0] || NO_LANE;
+    default:
+      return NO_LANE;
+  }
+}
+
+/**
+ * Lanes to show: every possible value for priority, hospital and tag (so
+ * cards can be dragged into empty lanes), the surgeons on the board's cards,
+ * and a trailing lane for cards without a value
+ */
+export function buildSwimlanes(
+  mode: SwimlaneMode,
+  cards: SwimlaneCard[],
+  options: { hospitals: { id: string; name: string }[]; tags: { id: string; name: string }[] }
+): Swimlane[] {
+  let lanes: Swimlane[] = [];
+  switch (mode) {
+    case "surgeon": {
+      const surgeons = new Set(cards.map((c) => swimlaneKey(mode, c)).filter((k) => k !== NO_LANE));
+      lanes = [...surgeons].sort((a, b) => a.localeCompare(b)).map((name) => ({ key: name, label: name }));
+      break;
+    }
+    case "hospital":
+      lanes = options.hospitals.map((h) => ({ key: h.id, label: h.name }));
+      break;
+    case "priority":
+      lanes = priorityLanes;
+      break;
+    case "tag":
+      lanes = options.tags.map((t) => ({ key: t.id, label: t.name }));
+      break;
+    default:
+      return [];
+  }
+  const noValueLabel: Record<SwimlaneMode, string> = {
+    none: "",
+    surgeon: "No surgeon",
+    hospital: "No hospital",
+    priority: "No priority",
+    tag: "No tag",
+  };
+  return [...lanes, { key: NO_LANE, label: noValueLabel[mode] }];
+}
@@ -0,0 +1,72 @@
+/**
+ * Tag helpers
+ *
+ * Tags belong to a board's palette and are attached to kanban cards and to
+ * patients through the kanban_card_tags and patient_tags link tables.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type KanbanTag = Tables<"kanban_tags">;
+
+/** Chip classes for each palette colour, same names as column colours */
+export const tagColors: Record<string, { chip: string; dot: string }> = {
+  gray: { chip: "bg-slate-100 text-slate-700 border-slate-200", dot: "bg-slate-400" },
+  blue: { chip: "bg-blue-100 text-blue-700 border-blue-200", dot: "bg-blue-500" },
+  yellow: { chip: "bg-amber-100 text-amber-700 border-amber-200", dot: "bg-amber-500" },
+  orange: { chip: "bg-orange-100 text-orange-700 border-orange-200", dot: "bg-orange-500" },
+  red: { chip: "bg-red-100 text-red-700 border-red-200", dot: "bg-red-500" },
+  green: { chip: "bg-emerald-100 text-emerald-700 border-emerald-200", dot: "bg-emerald-500" },
+  purple: { chip: "bg-purple-100 text-purple-700 border-purple-200", dot: "bg-purple-500" },
+  pink: { chip: "bg-pink-100 text-pink-700 border-pink-200", dot: "bg-pink-400" },
+};
+
+/** Fetch a board's tag palette */
+export async function fetchBoardTags(boardId: string) {
+  const { data, error } = await supabase
+    .from("kanban_tags")
+    .select("*")
+    .eq("board_id", boardId)
+    .order("name");
+  if (error) throw error;
+  return data;
+}
+
+/** Add a tag to a board's palette */
+export async function createBoardTag(boardId: string, name: string, color: string) {
+  const { data, error } = await supabase
+    .from("kanban_tags")
+    .insert({ board_id: boardId, name: name.trim(), color })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Remove a tag from its palette, and from every card and patient */
+export async function deleteBoardTag(tagId: string) {
+  const { error } = await supabase.from("kanban_tags").delete().eq("id", tagId);
+  if (error) throw error;
+}
+
+/** Attach or detach a tag on a card */
+export async function setCardTag(cardId: string, tagId: string, attached: boolean) {
+  const { error } = attached
+    ? await supabase.from("kanban_card_tags").insert({ card_id: cardId, tag_id: tagId })
+    : await supabase.from("kanban_card_tags").delete().eq("card_id", cardId).eq("tag_id", tagId);
+  if (error) throw error;
+}
+
+/** Attach or detach a tag on a patient */
+export async function setPatientTag(patientId: string, tagId: string, attached: boolean) {
+  const { error } = attached
+    ? await supabase.from("patient_tags").insert({ patient_id: patientId, tag_id: tagId })
+    : await supabase.from("patient_tags").delete().eq("patient_id", patientId).eq("tag_id", tagId);
+  if (error) throw error;
+}
+
+/** Whether any of the given tag ids is among the selected ones (no selection matches everything) */
+export function matchesTagFilter(tagIds: string[], selected: string[]) {
+  return selected.length === 0 || tagIds.some((id) => selected.includes(id));
+}
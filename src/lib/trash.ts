@@ -0,0 +1,51 @@
+/**
+ * Trash helpers
+ *
+ * Records are soft deleted through database functions that check permissions
+ * and cascade a patient's trash state to their clinical records.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { ATTACHMENTS_BUCKET } from "@/lib/storage";
+
+export type TrashTable =
+  | "patients"
+  | "surgeries"
+  | "episodes"
+  | "consultations"
+  | "attachments"
+  | "comments"
+  | "kanban_boards";
+
+export const trashTableLabels: Record<TrashTable, string> = {
+  patients: "Patient",
+  surgeries: "Surgery",
+  episodes: "Episode",
+  consultations: "Consultation",
+  attachments: "Attachment",
+  comments: "Comment",
+  kanban_boards: "Board",
+};
+
+/** Move a record to the trash */
+export async function moveToTrash(table: TrashTable, id: string) {
+  const { error } = await supabase.rpc("soft_delete_record", { _table: table, _id: id });
+  if (error) throw error;
+}
+
+/** Restore a record (and, for patients, the records trashed with it) */
+export async function restoreFromTrash(table: TrashTable, id: string) {
+  const { error } = await supabase.rpc("restore_record", { _table: table, _id: id });
+  if (error) throw error;
+}
+
+/** Permanently delete a trashed record and any attachment files it owned */
+export async function purgeFromTrash(table: TrashTable, id: string) {
+  const { data: paths, error } = await supabase.rpc("purge_record", { _table: table, _id: id });
+  if (error) throw error;
+
+  if (paths && paths.length > 0) {
+    const { error: storageError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+    if (storageError) console.error("Failed to remove purged files:", storageError);
+  }
+}
@@ -7,19 +7,28 @@
  * Features:
  * - Monthly calendar view with surgery indicators
  * - Click on dates to see detailed schedule
- * - Filter by hospital, urgency, and surgery type
+ * - Week and day time grids with surgeries sized by duration; drag to move
+ *   them, drag their bottom edge to change the duration
+ * - Keyboard navigation: ←/→ previous/next period, T today, M/W/D view
+ * - Filter by hospital, urgency, and surgery type, kept in the URL along
+ *   with the view and date so they survive switching views
  * - Quick navigation to patient details
  */
 
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useNavigate } from "react-router-dom";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
+import { usePermissions } from "@/hooks/usePermissions";
 import { AppLayout } from "@/components/layout/AppLayout";
+import { CalendarTimeGrid, type TimeGridSurgery } from "@/components/calendar/CalendarTimeGrid";
+import { ConflictOverrideDialog } from "@/components/calendar/ConflictOverrideDialog";
 import { Calendar } from "@/components/ui/calendar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Select,
   SelectContent,
@@ -27,26 +36,46 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { format, isSameDay, startOfMonth, endOfMonth } from "date-fns";
-import { Clock, User, MapPin, Filter, X } from "lucide-react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isValid,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Clock, User, MapPin, Filter, X, ChevronLeft, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { fetchSurgeryConflicts, saveSurgery, type ScheduleConflict } from "@/lib/scheduleConflicts";
 
 /** Interface for surgery data with patient info */
-interface SurgeryWithPatient {
-  id: string;
-  procedure_name: string;
-  scheduled_date: string;
-  status: string;
-  operating_room: string | null;
-  main_surgeon: string | null;
-  patient_id: string;
-  patients: {
+interface SurgeryWithPatient extends TimeGridSurgery {
+  patient: {
     id: string;
     name: string;
     medical_record_number: string | null;
   } | null;
 }
 
+type CalendarMode = "month" | "week" | "day";
+
+/** A drag in the time grid, with the conflicts it would cause and why it is kept anyway */
+interface SurgeryReschedule {
+  surgery: SurgeryWithPatient;
+  changes: { scheduled_date: string; duration_minutes: number };
+  conflicts?: ScheduleConflict[];
+  reason?: string;
+}
+
 /** Priority/status color mapping */
 const statusColors: Record<string, string> = {
   scheduled: "bg-info text-info-foreground",
@@ -55,14 +84,94 @@ const statusColors: Record<string, string> = {
   pending: "bg-warning text-warning-foreground",
 };
 
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/** Move a date by one period of the current view */
+function shiftPeriod(view: CalendarMode, date: Date, step: number) {
+  if (view === "month") return addMonths(date, step);
+  if (view === "week") return addWeeks(date, step);
+  return addDays(date, step);
+}
+
+/** Targets that handle the arrow keys themselves */
+const KEYBOARD_IGNORE_SELECTOR =
+  "input, textarea, select, [contenteditable='true'], [role='grid'], [role='group'], [role='dialog'], [role='alertdialog'], [role='listbox'], [role='menu']";
+
 export default function CalendarView() {
   const navigate = useNavigate();
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-  
-  // Filter states
-  const [hospitalFilter, setHospitalFilter] = useState<string>("all");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pendingReschedule, setPendingReschedule] = useState<SurgeryReschedule | null>(null);
+
+  // View, date and filters live in the URL
+  const viewParam = searchParams.get("view");
+  const view: CalendarMode = viewParam === "week" || viewParam === "day" ? viewParam : "month";
+  const dateParam = searchParams.get("date");
+  const date = useMemo(() => {
+    const parsed = dateParam ? parse(dateParam, "yyyy-MM-dd", new Date()) : null;
+    return parsed && isValid(parsed) ? parsed : startOfDay(new Date());
+  }, [dateParam]);
+  const hospitalFilter = searchParams.get("hospital") ?? "all";
+  const statusFilter = searchParams.get("status") ?? "all";
+
+  /**
+   * Update URL params, dropping the ones back at their default
+   */
+  const updateParams = useCallback(
+    (changes: Record<string, string | null>) => {
+      setSearchParams(
+        (current) => {
+          const next = new URLSearchParams(current);
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === null || value === "all") next.delete(key);
+            else next.set(key, value);
+          });
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const setView = useCallback((mode: CalendarMode) => updateParams({ view: mode === "month" ? null : mode }), [updateParams]);
+  const setDate = useCallback(
+    (day: Date) => updateParams({ date: isSameDay(day, new Date()) ? null : format(day, "yyyy-MM-dd") }),
+    [updateParams]
+  );
+
+  // Keyboard navigation between periods and views
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+      if ((e.target as HTMLElement).closest?.(KEYBOARD_IGNORE_SELECTOR)) return;
+
+      const actions: Record<string, () => void> = {
+        ArrowLeft: () => setDate(shiftPeriod(view, date, -1)),
+        ArrowRight: () => setDate(shiftPeriod(view, date, 1)),
+        t: () => setDate(new Date()),
+        m: () => setView("month"),
+        w: () => setView("week"),
+        d: () => setView("day"),
+      };
+      const action = actions[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (!action) return;
+      e.preventDefault();
+      action();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [view, date, setDate, setView]);
+
+  /**
+   * Range shown by the current view
+   */
+  const range = useMemo(() => {
+    if (view === "month") return { start: startOfMonth(date), end: endOfMonth(date) };
+    if (view === "week") return { start: startOfWeek(date, WEEK_OPTIONS), end: endOfWeek(date, WEEK_OPTIONS) };
+    return { start: startOfDay(date), end: endOfDay(date) };
+  }, [view, date]);
 
   /**
    * Fetch hospitals for filter dropdown
@@ -80,19 +189,17 @@ export default function CalendarView() {
   });
 
   /**
-   * Fetch surgeries for the current month
+   * Fetch surgeries for the visible range
    */
+  const surgeriesKey = ["calendar-surgeries", view, range.start.toISOString(), hospitalFilter, statusFilter];
   const { data: surgeries = [], isLoading } = useQuery({
-    queryKey: ["calendar-surgeries", format(currentMonth, "yyyy-MM"), hospitalFilter, statusFilter],
+    queryKey: surgeriesKey,
     queryFn: async () => {
-      const monthStart = startOfMonth(currentMonth);
-      const monthEnd = endOfMonth(currentMonth);
-
       let query = supabase
         .from("surgeries")
-        .select("*, patients(id, name, medical_record_number)")
-        .gte("scheduled_date", monthStart.toISOString())
-        .lte("scheduled_date", monthEnd.toISOString())
+        .select("*, patient:patients(id, name, medical_record_number)")
+        .gte("scheduled_date", range.start.toISOString())
+        .lte("scheduled_date", range.end.toISOString())
         .order("scheduled_date");
 
       // Apply hospital filter
@@ -111,6 +218,52 @@ export default function CalendarView() {
     },
   });
 
+  /**
+   * Save a surgery dragged or resized in the time grid, then move its
+   * kanban cards to match. The block stays where it was dropped meanwhile.
+   */
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ surgery, changes, conflicts = [], reason }: SurgeryReschedule) => {
+      await saveSurgery(surgery.id, changes, { reason, conflicts });
+
+      await syncPatientKanbanWithSurgery(surgery.patient_id);
+    },
+    onMutate: ({ surgery, changes }) => {
+      queryClient.setQueryData<SurgeryWithPatient[]>(surgeriesKey, (current) =>
+        current?.map((s) => (s.id === surgery.id ? { ...s, ...changes } : s))
+      );
+    },
+    onSuccess: (_data, { surgery, changes }) => {
+      queryClient.invalidateQueries({ queryKey: ["patient-surgeries", surgery.patient_id] });
+      queryClient.invalidateQueries({ queryKey: ["or-schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
+      toast.success(
+        `${surgery.procedure_name} moved to ${format(new Date(changes.scheduled_date), "EEE d MMM, HH:mm")} (${changes.duration_minutes} min)`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to reschedule surgery: " + error.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["calendar-surgeries"] });
+    },
+  });
+
+  /**
+   * Check a drag for conflicts before saving it
+   */
+  const handleReschedule = async (surgery: SurgeryWithPatient, changes: SurgeryReschedule["changes"]) => {
+    try {
+      const conflicts = await fetchSurgeryConflicts({ ...surgery, ...changes });
+      if (conflicts.length > 0) setPendingReschedule({ surgery, changes, conflicts });
+      else rescheduleMutation.mutate({ surgery, changes });
+    } catch (error) {
+      toast.error("Failed to check for conflicts: " + (error as Error).message);
+    }
+  };
+
   /**
    * Get surgeries for a specific date
    */
@@ -124,29 +277,52 @@ export default function CalendarView() {
   /**
    * Get surgeries for selected date
    */
-  const selectedDateSurgeries = selectedDate ? getSurgeriesForDate(selectedDate) : [];
+  const selectedDateSurgeries = getSurgeriesForDate(date);
 
   /**
    * Clear all filters
    */
   const clearFilters = () => {
-    setHospitalFilter("all");
-    setStatusFilter("all");
+    updateParams({ hospital: null, status: null });
   };
 
   const hasFilters = hospitalFilter !== "all" || statusFilter !== "all";
 
+  const periodLabel =
+    view === "month"
+      ? format(date, "MMMM yyyy")
+      : view === "week"
+        ? `${format(range.start, "MMM d")} – ${format(range.end, "MMM d, yyyy")}`
+        : format(date, "EEEE, MMMM d, yyyy");
+
   return (
     <AppLayout>
       <div className="p-6 space-y-6">
         {/* Page Header */}
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between flex-wrap gap-4">
           <div>
             <h1 className="text-2xl font-bold text-foreground">Calendar</h1>
             <p className="text-sm text-muted-foreground">
               View and manage scheduled surgeries
             </p>
           </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" aria-label="Previous" onClick={() => setDate(shiftPeriod(view, date, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" aria-label="Next" onClick={() => setDate(shiftPeriod(view, date, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium min-w-[180px] text-center">{periodLabel}</span>
+            <ToggleGroup type="single" value={view} onValueChange={(value) => value && setView(value as CalendarMode)}>
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+              <ToggleGroupItem value="day">Day</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
         </div>
 
         {/* Filters */}
@@ -158,7 +334,7 @@ export default function CalendarView() {
                 <span className="text-sm font-medium">Filters:</span>
               </div>
               
-              <Select value={hospitalFilter} onValueChange={setHospitalFilter}>
+              <Select value={hospitalFilter} onValueChange={(value) => updateParams({ hospital: value })}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="All Hospitals" />
                 </SelectTrigger>
@@ -172,7 +348,7 @@ export default function CalendarView() {
                 </SelectContent>
               </Select>
 
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <Select value={statusFilter} onValueChange={(value) => updateParams({ status: value })}>
                 <SelectTrigger className="w-[150px]">
                   <SelectValue placeholder="All Status" />
                 </SelectTrigger>
@@ -195,101 +371,133 @@ export default function CalendarView() {
           </CardContent>
         </Card>
 
-        {/* Calendar and Details Grid */}
-        <div className="grid gap-6 lg:grid-cols-[1fr_400px]">
-          {/* Calendar */}
-          <Card>
-            <CardContent className="p-4">
-              <Calendar
-                mode="single"
-                selected={selectedDate}
-                onSelect={setSelectedDate}
-                month={currentMonth}
-                onMonthChange={setCurrentMonth}
-                className="rounded-md"
-                modifiers={{
-                  hasSurgery: (date) => getSurgeriesForDate(date).length > 0,
-                }}
-                modifiersStyles={{
-                  hasSurgery: {
-                    fontWeight: "bold",
-                    backgroundColor: "hsl(var(--primary) / 0.1)",
-                    borderRadius: "50%",
-                  },
-                }}
-                components={{
-                  DayContent: ({ date }) => {
-                    const count = getSurgeriesForDate(date).length;
-                    return (
-                      <div className="relative w-full h-full flex items-center justify-center">
-                        <span>{format(date, "d")}</span>
-                        {count > 0 && (
-                          <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-primary" />
-                        )}
-                      </div>
-                    );
-                  },
-                }}
-              />
-            </CardContent>
-          </Card>
+        {/* Month calendar with the selected day's details, or the week/day time grid */}
+        {view === "month" ? (
+          <div className="grid gap-6 lg:grid-cols-[1fr_400px]">
+            {/* Calendar */}
+            <Card>
+              <CardContent className="p-4">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  onSelect={(day) => day && setDate(day)}
+                  month={startOfMonth(date)}
+                  onMonthChange={setDate}
+                  className="rounded-md"
+                  modifiers={{
+                    hasSurgery: (date) => getSurgeriesForDate(date).length > 0,
+                  }}
+                  modifiersStyles={{
+                    hasSurgery: {
+                      fontWeight: "bold",
+                      backgroundColor: "hsl(var(--primary) / 0.1)",
+                      borderRadius: "50%",
+                    },
+                  }}
+                  components={{
+                    DayContent: ({ date }) => {
+                      const count = getSurgeriesForDate(date).length;
+                      return (
+                        <div className="relative w-full h-full flex items-center justify-center">
+                          <span>{format(date, "d")}</span>
+                          {count > 0 && (
+                            <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-primary" />
+                          )}
+                        </div>
+                      );
+                    },
+                  }}
+                />
+              </CardContent>
+            </Card>
 
-          {/* Selected Date Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg">
-                {selectedDate ? format(selectedDate, "EEEE, MMMM d, yyyy") : "Select a date"}
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              {isLoading ? (
-                <div className="animate-pulse space-y-3">
-                  {[1, 2, 3].map((i) => (
-                    <div key={i} className="h-20 bg-muted rounded" />
-                  ))}
-                </div>
-              ) : selectedDateSurgeries.length === 0 ? (
-                <p className="text-muted-foreground text-center py-8">
-                  No surgeries scheduled for this date
-                </p>
-              ) : (
-                selectedDateSurgeries.map((surgery) => (
-                  <div
-                    key={surgery.id}
-                    className="p-3 rounded-lg border bg-card hover:shadow-md transition-shadow cursor-pointer"
-                    onClick={() => surgery.patients?.id && navigate(`/patient/${surgery.patients.id}`)}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <span className="font-medium text-sm">{surgery.procedure_name}</span>
-                      <Badge className={cn("text-xs", statusColors[surgery.status] || "bg-muted")}>
-                        {surgery.status}
-                      </Badge>
-                    </div>
-                    <div className="space-y-1 text-xs text-muted-foreground">
-                      <div className="flex items-center gap-2">
-                        <User className="h-3 w-3" />
-                        <span>{surgery.patients?.name || "Unknown"}</span>
+            {/* Selected Date Details */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {format(date, "EEEE, MMMM d, yyyy")}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {isLoading ? (
+                  <div className="animate-pulse space-y-3">
+                    {[1, 2, 3].map((i) => (
+                      <div key={i} className="h-20 bg-muted rounded" />
+                    ))}
+                  </div>
+                ) : selectedDateSurgeries.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">
+                    No surgeries scheduled for this date
+                  </p>
+                ) : (
+                  selectedDateSurgeries.map((surgery) => (
+                    <div
+                      key={surgery.id}
+                      className="p-3 rounded-lg border bg-card hover:shadow-md transition-shadow cursor-pointer"
+                      onClick={() => navigate(`/patient/${surgery.patient_id}`)}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <span className="font-medium text-sm">{surgery.procedure_name}</span>
+                        <Badge className={cn("text-xs", statusColors[surgery.status] || "bg-muted")}>
+                          {surgery.status}
+                        </Badge>
                       </div>
-                      {surgery.scheduled_date && (
-                        <div className="flex items-center gap-2">
-                          <Clock className="h-3 w-3" />
-                          <span>{format(new Date(surgery.scheduled_date), "HH:mm")}</span>
-                        </div>
-                      )}
-                      {surgery.operating_room && (
+                      <div className="space-y-1 text-xs text-muted-foreground">
                         <div className="flex items-center gap-2">
-                          <MapPin className="h-3 w-3" />
-                          <span>{surgery.operating_room}</span>
+                          <User className="h-3 w-3" />
+                          <span>{surgery.patient?.name || "Unknown"}</span>
                         </div>
-                      )}
+                        {surgery.scheduled_date && (
+                          <div className="flex items-center gap-2">
+                            <Clock className="h-3 w-3" />
+                            <span>{format(new Date(surgery.scheduled_date), "HH:mm")}</span>
+                          </div>
+                        )}
+                        {surgery.operating_room && (
+                          <div className="flex items-center gap-2">
+                            <MapPin className="h-3 w-3" />
+                            <span>{surgery.operating_room}</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                ))
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="animate-pulse h-96 m-4 bg-muted rounded" />
+              ) : (
+                <CalendarTimeGrid
+                  days={eachDayOfInterval(range)}
+                  surgeries={surgeries}
+                  canReschedule={can("surgeries.schedule")}
+                  onOpen={(surgery) => navigate(`/patient/${surgery.patient_id}`)}
+                  onReschedule={handleReschedule}
+                />
               )}
             </CardContent>
           </Card>
-        </div>
+        )}
       </div>
+
+      {/* Conflict warning before saving a clashing drag */}
+      <ConflictOverrideDialog
+        change={
+          pendingReschedule &&
+          `Moving ${pendingReschedule.surgery.procedure_name} to ${format(new Date(pendingReschedule.changes.scheduled_date), "EEE d MMM, HH:mm")} (${pendingReschedule.changes.duration_minutes} min)`
+        }
+        conflicts={pendingReschedule?.conflicts ?? []}
+        onCancel={() => setPendingReschedule(null)}
+        onConfirm={(reason) => {
+          if (pendingReschedule) rescheduleMutation.mutate({ ...pendingReschedule, reason });
+          setPendingReschedule(null);
+        }}
+      />
     </AppLayout>
   );
 }
@@ -14,6 +14,7 @@ import { StatusBadge } from "@/components/dashboard/StatusBadge";
 import { useDashboardData, Surgery, KanbanCard } from "@/hooks/useDashboardData";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AddPatientDialog } from "@/components/patient/AddPatientDialog";
+import { usePermissions } from "@/hooks/usePermissions";
 
 const surgeryColumns = [
   {
@@ -93,9 +94,9 @@ const waitingListColumns = [
     ),
   },
   {
-    key: "column_name",
+    key: "kanban_columns",
     header: "Status",
-    render: (card: KanbanCard) => <StatusBadge status={card.column_name} />,
+    render: (card: KanbanCard) => <StatusBadge status={card.kanban_columns?.key ?? "waiting"} />,
   },
 ];
 
@@ -116,6 +117,7 @@ function KPICardSkeleton() {
 
 export default function Dashboard() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
   const {
     totalPatients,
     pendingSurgeries,
@@ -139,7 +141,7 @@ export default function Dashboard() {
               Overview of surgical patient management
             </p>
           </div>
-          <AddPatientDialog />
+          {can("patients.create") && <AddPatientDialog />}
         </div>
 
         {/* KPI Cards */}
@@ -5,9 +5,18 @@
  * Uses AppLayout for consistent sidebar navigation.
  * Supports filtering by hospital, urgency, and date range.
  * Supports column and card drag-and-drop reordering.
+ * Changes by other viewers appear live; moves are applied optimistically
+ * and rejected if someone else changed the card first.
+ * Columns can carry a WIP limit and aging thresholds that flag stale cards.
+ * Cards show their own and their patient's tags, which the filters can match,
+ * and their checklist progress. Board managers edit checklist templates here.
+ * An optional swimlane mode groups cards into rows by surgeon, hospital,
+ * priority or tag; dropping a card into another lane updates that field.
+ * Boards open with their saved default filters, can be saved as a template,
+ * duplicated, and exported as JSON or CSV for ImportKanban.
  */
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
@@ -40,6 +49,11 @@ import { Label } from "@/components/ui/label";
 import { KanbanFilters, FilterState } from "@/components/kanban/KanbanFilters";
 import { PatientCardDialog } from "@/components/kanban/PatientCardDialog";
 import { CreatePatientInKanban } from "@/components/kanban/CreatePatientInKanban";
+import { BoardPresence } from "@/components/kanban/BoardPresence";
+import { ChecklistTemplatesDialog } from "@/components/kanban/ChecklistTemplatesDialog";
+import { SaveBoardTemplateDialog } from "@/components/kanban/SaveBoardTemplateDialog";
+import { DuplicateBoardDialog } from "@/components/kanban/DuplicateBoardDialog";
+import { ConflictOverrideDialog } from "@/components/calendar/ConflictOverrideDialog";
 import {
   Plus,
   MoreHorizontal,
@@ -51,34 +65,105 @@ import {
   Edit,
   GripVertical,
   UserPlus,
+  RefreshCw,
+  AlertTriangle,
+  Clock,
+  ListChecks,
+  ChevronDown,
+  ChevronRight,
+  Rows3,
+  Copy,
+  LayoutTemplate,
+  Download,
 } from "lucide-react";
 import { format, isAfter, isBefore } from "date-fns";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
-
-interface KanbanColumn {
-  id: string;
-  name: string;
-  color: string;
-}
+import { usePermissions } from "@/hooks/usePermissions";
+import { useKanbanRealtime } from "@/hooks/useKanbanRealtime";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import {
+  cardAgeLevel,
+  columnKeyFromName,
+  createKanbanCard,
+  currentTrackedSurgery,
+  daysInColumn,
+  deleteKanbanColumn,
+  fetchBoardColumns,
+  moveKanbanCard,
+  reorderKanbanCards,
+  reorderKanbanColumns,
+  surgeriesTrackedByCard,
+  type KanbanColumn,
+} from "@/lib/kanban";
+import { fetchBoardTags, matchesTagFilter, setCardTag, type KanbanTag } from "@/lib/tags";
+import {
+  buildSwimlanes,
+  NO_LANE,
+  swimlaneKey,
+  swimlaneModeLabels,
+  type SwimlaneCard,
+  type SwimlaneMode,
+} from "@/lib/swimlanes";
+import type { BoardFilters } from "@/lib/boardTemplates";
+import { downloadFile, exportKanbanBoard, kanbanToCsv } from "@/lib/kanbanExport";
+import { enableKanbanCardAutoSync, syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
+import { TagChip } from "@/components/kanban/TagPicker";
+import {
+  fetchSurgeryConflicts,
+  saveSurgery,
+  scheduledSurgerySelect,
+  type ScheduleConflict,
+} from "@/lib/scheduleConflicts";
 
 interface KanbanCard {
   id: string;
   patient_id: string;
-  column_name: string;
+  column_id: string;
   position: number;
   notes: string | null;
   priority: string | null;
   scheduled_date: string | null;
   surgery_type: string | null;
+  surgery_id: string | null;
+  episode_id: string | null;
   manual_override?: boolean;
+  column_entered_at: string;
+  tags?: { tag: Pick<KanbanTag, "id" | "name" | "color"> | null }[];
+  checklist?: { done: boolean }[];
   patient?: {
     id: string;
     name: string;
     medical_record_number: string | null;
+    patient_tags?: { tag: Pick<KanbanTag, "id" | "name" | "color"> | null }[];
+    surgeries?: {
+      id: string;
+      status: string;
+      scheduled_date: string | null;
+      hospital_id: string | null;
+      episode_id: string | null;
+      main_surgeon: string | null;
+    }[];
   };
 }
 
+/** A card dropped into another swimlane, with the conflicts a new surgeon would cause and why it is kept anyway */
+interface LaneChange {
+  card: KanbanCard;
+  from: string;
+  to: string;
+  conflicts?: ScheduleConflict[];
+  reason?: string;
+}
+
+/** Tags shown on a card: its own, then its patient's */
+function cardTags(card: KanbanCard) {
+  const tags = [...(card.tags ?? []), ...(card.patient?.patient_tags ?? [])]
+    .map((t) => t.tag)
+    .filter(Boolean);
+  return tags.filter((tag, i) => tags.findIndex((t) => t.id === tag.id) === i);
+}
+
 const columnColors: Record<string, { bg: string; badge: string; dot: string }> = {
   gray: { bg: "bg-slate-50", badge: "bg-slate-200 text-slate-700", dot: "bg-slate-400" },
   blue: { bg: "bg-blue-50", badge: "bg-blue-500 text-white", dot: "bg-blue-500" },
@@ -90,6 +175,15 @@ const columnColors: Record<string, { bg: string; badge: string; dot: string }> =
   pink: { bg: "bg-pink-50", badge: "bg-pink-400 text-white", dot: "bg-pink-400" },
 };
 
+const emptyFilters: FilterState = {
+  search: "",
+  hospital: "all",
+  urgency: "all",
+  dateFrom: undefined,
+  dateTo: undefined,
+  tags: [],
+};
+
 const priorityConfig: Record<string, { icon: string; color: string }> = {
   urgent: { icon: "🚨", color: "text-destructive" },
   high: { icon: "🔴", color: "text-red-500" },
@@ -101,6 +195,8 @@ export default function KanbanBoard() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { viewers } = useKanbanRealtime(id);
   
   // Drag state
   const [draggedCard, setDraggedCard] = useState<string | null>(null);
@@ -116,9 +212,17 @@ export default function KanbanBoard() {
   
   // Column management
   const [addColumnOpen, setAddColumnOpen] = useState(false);
+  const [checklistTemplatesOpen, setChecklistTemplatesOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [duplicateOpen, setDuplicateOpen] = useState(false);
   const [newColumnName, setNewColumnName] = useState("");
   const [newColumnColor, setNewColumnColor] = useState("gray");
+  const [newColumnWipLimit, setNewColumnWipLimit] = useState("");
+  const [newColumnWarningDays, setNewColumnWarningDays] = useState("");
+  const [newColumnCriticalDays, setNewColumnCriticalDays] = useState("");
   const [editingColumn, setEditingColumn] = useState<KanbanColumn | null>(null);
+  const [deletingColumn, setDeletingColumn] = useState<KanbanColumn | null>(null);
+  const [deleteTargetColumnId, setDeleteTargetColumnId] = useState("");
 
   // Selected card for dialog
   const [selectedCard, setSelectedCard] = useState<{
@@ -128,14 +232,20 @@ export default function KanbanBoard() {
   } | null>(null);
 
   // Filter state
-  const [filters, setFilters] = useState<FilterState>({
-    search: "",
-    hospital: "all",
-    urgency: "all",
-    dateFrom: undefined,
-    dateTo: undefined,
-    tags: [],
-  });
+  const [filters, setFilters] = useState<FilterState>(emptyFilters);
+
+  // Swimlane mode is remembered per board on this device
+  const [swimlaneMode, setSwimlaneModeState] = useState<SwimlaneMode>(
+    () => (localStorage.getItem(`kanban-swimlanes-${id}`) as SwimlaneMode) || "none"
+  );
+  const [collapsedLanes, setCollapsedLanes] = useState<string[]>([]);
+  const [pendingLaneChange, setPendingLaneChange] = useState<LaneChange | null>(null);
+
+  const setSwimlaneMode = (mode: SwimlaneMode) => {
+    localStorage.setItem(`kanban-swimlanes-${id}`, mode);
+    setSwimlaneModeState(mode);
+    setCollapsedLanes([]);
+  };
 
   const { data: board, isLoading: boardLoading } = useQuery({
     queryKey: ["kanban-board", id],
@@ -151,12 +261,29 @@ export default function KanbanBoard() {
     enabled: !!id,
   });
 
+  // Start each board with its saved default filters
+  const defaultFiltersBoardId = useRef<string | null>(null);
+  useEffect(() => {
+    if (board && defaultFiltersBoardId.current !== board.id) {
+      defaultFiltersBoardId.current = board.id;
+      setFilters({ ...emptyFilters, ...(board.default_filters as BoardFilters | null) });
+    }
+  }, [board]);
+
+  const { data: columns = [], isLoading: columnsLoading } = useQuery({
+    queryKey: ["kanban-columns", id],
+    queryFn: () => fetchBoardColumns(id!),
+    enabled: !!id,
+  });
+
   const { data: cards = [], isLoading: cardsLoading } = useQuery({
     queryKey: ["kanban-cards", id],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("kanban_cards")
-        .select("*, patient:patients(id, name, medical_record_number)")
+        .select(
+          "*, tags:kanban_card_tags(tag:kanban_tags(id, name, color)), checklist:card_checklist_items(done), patient:patients(id, name, medical_record_number, patient_tags(tag:kanban_tags(id, name, color)), surgeries(id, status, scheduled_date, hospital_id, episode_id, main_surgeon))"
+        )
         .eq("board_id", id!)
         .order("position");
       if (error) throw error;
@@ -165,6 +292,26 @@ export default function KanbanBoard() {
     enabled: !!id,
   });
 
+  // Hospitals and tags for swimlanes
+  const { data: hospitals = [] } = useQuery({
+    queryKey: ["hospitals-kanban-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("hospitals")
+        .select("id, name")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: swimlaneMode === "hospital",
+  });
+
+  const { data: boardTags = [] } = useQuery({
+    queryKey: ["kanban-tags", id],
+    queryFn: () => fetchBoardTags(id!),
+    enabled: !!id && swimlaneMode === "tag",
+  });
+
   const { data: patients = [] } = useQuery({
     queryKey: ["patients-list"],
     queryFn: async () => {
@@ -177,42 +324,102 @@ export default function KanbanBoard() {
     },
   });
 
-  // Move card mutation - sets manual_override to true
+  /**
+   * Move card mutation - the database renumbers both columns atomically.
+   * Applied to the cached board immediately and rolled back if the move
+   * fails or someone else moved the card first. Changing column sets
+   * manual_override, disabling automatic surgery-status moves.
+   */
   const moveCardMutation = useMutation({
-    mutationFn: async ({ cardId, newColumn, newPosition }: { cardId: string; newColumn: string; newPosition?: number }) => {
-      const updates: { column_name: string; manual_override: boolean; position?: number } = {
-        column_name: newColumn,
-        manual_override: true, // Disable automatic date-based changes
-      };
-      if (newPosition !== undefined) {
-        updates.position = newPosition;
+    mutationFn: ({ card, newColumn, newPosition }: { card: KanbanCard; newColumn: string; newPosition?: number }) =>
+      moveKanbanCard(card.id, newColumn, newPosition, { expectedColumnId: card.column_id }),
+    onMutate: async ({ card, newColumn, newPosition }) => {
+      await queryClient.cancelQueries({ queryKey: ["kanban-cards", id] });
+      const previous = queryClient.getQueryData<KanbanCard[]>(["kanban-cards", id]);
+      queryClient.setQueryData<KanbanCard[]>(["kanban-cards", id], (old = []) =>
+        reorderKanbanCards(old, card.id, newColumn, newPosition).map((c) =>
+          c.id === card.id && newColumn !== card.column_id ? { ...c, manual_override: true } : c
+        )
+      );
+      return { previous };
+    },
+    onSuccess: (moved, { card, newColumn }, context) => {
+      if (!moved) {
+        queryClient.setQueryData(["kanban-cards", id], context?.previous);
+        toast.error("This card was just moved by someone else. The board has been refreshed.");
+        return;
+      }
+      if (newColumn !== card.column_id) {
+        toast.success("Card moved (auto-sync disabled for this card)");
       }
-      const { error } = await supabase
-        .from("kanban_cards")
-        .update(updates)
-        .eq("id", cardId);
-      if (error) throw error;
     },
-    onSuccess: () => {
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(["kanban-cards", id], context?.previous);
+      toast.error("Failed to move card: " + error.message);
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-cards", id] });
-      toast.success("Card moved (auto-sync disabled for this card)");
     },
   });
 
-  // Update card position within same column
-  const updateCardPositionMutation = useMutation({
-    mutationFn: async ({ cardId, newPosition }: { cardId: string; newPosition: number }) => {
-      const { error } = await supabase
-        .from("kanban_cards")
-        .update({ position: newPosition })
-        .eq("id", cardId);
-      if (error) throw error;
+  /**
+   * Move a card to another swimlane by updating the field the lanes group by.
+   * Surgeon and hospital live on the surgery the card tracks, so the
+   * patient's cards are re-synced afterwards.
+   */
+  const changeLaneMutation = useMutation({
+    mutationFn: async ({ card, from, to, conflicts = [], reason }: LaneChange) => {
+      const value = to === NO_LANE ? null : to;
+      if (swimlaneMode === "priority") {
+        const { error } = await supabase.from("kanban_cards").update({ priority: value }).eq("id", card.id);
+        if (error) throw error;
+      } else if (swimlaneMode === "tag") {
+        if (from !== NO_LANE) await setCardTag(card.id, from, false);
+        if (value && !card.tags?.some((t) => t.tag?.id === value)) await setCardTag(card.id, value, true);
+      } else {
+        const surgery = laneSurgery(card);
+        if (!surgery) throw new Error("the card is not linked to a surgery");
+        await saveSurgery(
+          surgery.id,
+          swimlaneMode === "surgeon" ? { main_surgeon: value } : { hospital_id: value },
+          { reason, conflicts }
+        );
+        await syncPatientKanbanWithSurgery(card.patient_id);
+      }
     },
-    onSuccess: () => {
+    onSuccess: (_data, { card }) => {
+      queryClient.invalidateQueries({ queryKey: ["card-tags", card.id] });
+      queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+      toast.success(`${swimlaneModeLabels[swimlaneMode]} updated`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to change ${swimlaneModeLabels[swimlaneMode].toLowerCase()}: ` + error.message);
+    },
+    onSettled: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-cards", id] });
     },
   });
 
+  // Export the board in the format ImportKanban reads
+  const exportMutation = useMutation({
+    mutationFn: async (fileType: "json" | "csv") => {
+      const kanban = await exportKanbanBoard(id!);
+      const filename = kanban.name.replace(/[^\w-]+/g, "_");
+      if (fileType === "json") {
+        downloadFile(JSON.stringify(kanban, null, 2), `${filename}.json`, "application/json");
+      } else {
+        downloadFile(kanbanToCsv(kanban), `${filename}.csv`, "text/csv;charset=utf-8");
+      }
+      return kanban.cards?.length ?? 0;
+    },
+    onSuccess: (cardCount) => {
+      toast.success(`Board exported with ${cardCount} cards`);
+    },
+    onError: (error) => {
+      toast.error("Failed to export board: " + error.message);
+    },
+  });
+
   const addCardMutation = useMutation({
     mutationFn: async ({
       columnId,
@@ -225,15 +432,13 @@ export default function KanbanBoard() {
       surgeryType: string;
       priority: string;
     }) => {
-      const { error } = await supabase.from("kanban_cards").insert({
-        board_id: id!,
-        patient_id: patientId,
-        column_name: columnId,
-        surgery_type: surgeryType || null,
+      await createKanbanCard({
+        boardId: id!,
+        patientId,
+        columnId,
+        surgeryType: surgeryType || null,
         priority,
-        position: cards.filter((c) => c.column_name === columnId).length,
       });
-      if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["kanban-cards", id] });
@@ -246,6 +451,18 @@ export default function KanbanBoard() {
     },
   });
 
+  // Re-enable auto-sync - moves the card back to its computed column
+  const enableAutoSyncMutation = useMutation({
+    mutationFn: (cardId: string) => enableKanbanCardAutoSync(cardId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", id] });
+      toast.success("Auto-sync re-enabled");
+    },
+    onError: (error) => {
+      toast.error("Failed to re-enable auto-sync: " + error.message);
+    },
+  });
+
   const deleteCardMutation = useMutation({
     mutationFn: async (cardId: string) => {
       const { error } = await supabase.from("kanban_cards").delete().eq("id", cardId);
@@ -257,17 +474,83 @@ export default function KanbanBoard() {
     },
   });
 
-  const updateColumnsMutation = useMutation({
-    mutationFn: async (columns: KanbanColumn[]) => {
+  /**
+   * Column order mutation - applied to the cached columns immediately
+   */
+  const reorderColumnsMutation = useMutation({
+    mutationFn: (columnIds: string[]) => reorderKanbanColumns(id!, columnIds),
+    onMutate: async (columnIds) => {
+      await queryClient.cancelQueries({ queryKey: ["kanban-columns", id] });
+      const previous = queryClient.getQueryData<KanbanColumn[]>(["kanban-columns", id]);
+      queryClient.setQueryData<KanbanColumn[]>(["kanban-columns", id], (old = []) =>
+        columnIds
+          .map((columnId, position) => {
+            const column = old.find((c) => c.id === columnId);
+            return column && { ...column, position };
+          })
+          .filter(Boolean)
+      );
+      return { previous };
+    },
+    onError: (error, _columnIds, context) => {
+      queryClient.setQueryData(["kanban-columns", id], context?.previous);
+      toast.error("Failed to reorder columns: " + error.message);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-columns", id] });
+    },
+  });
+
+  const addColumnMutation = useMutation({
+    mutationFn: async ({ name, color }: { name: string; color: string }) => {
+      const { error } = await supabase.from("kanban_columns").insert({
+        board_id: id!,
+        key: columnKeyFromName(name, columns.map((c) => c.key)),
+        name,
+        color,
+        position: columns.length,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-columns", id] });
+      toast.success("Column added");
+    },
+    onError: (error) => {
+      toast.error("Failed to add column: " + error.message);
+    },
+  });
+
+  const updateColumnMutation = useMutation({
+    mutationFn: async ({ columnId, ...updates }: { columnId: string } & TablesUpdate<"kanban_columns">) => {
       const { error } = await supabase
-        .from("kanban_boards")
-        .update({ columns_config: JSON.parse(JSON.stringify(columns)) })
-        .eq("id", id!);
+        .from("kanban_columns")
+        .update(updates)
+        .eq("id", columnId);
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["kanban-board", id] });
-      toast.success("Columns updated");
+      queryClient.invalidateQueries({ queryKey: ["kanban-columns", id] });
+      toast.success("Column updated");
+    },
+    onError: (error) => {
+      toast.error("Failed to update column: " + error.message);
+    },
+  });
+
+  // Delete a column, moving its cards to the chosen column
+  const deleteColumnMutation = useMutation({
+    mutationFn: ({ columnId, targetColumnId }: { columnId: string; targetColumnId?: string }) =>
+      deleteKanbanColumn(columnId, targetColumnId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kanban-columns", id] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards", id] });
+      setDeletingColumn(null);
+      setDeleteTargetColumnId("");
+      toast.success("Column deleted");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete column: " + error.message);
     },
   });
 
@@ -281,22 +564,88 @@ export default function KanbanBoard() {
     e.preventDefault();
   };
 
-  const handleCardDrop = (columnId: string, targetPosition?: number) => {
+  // Swimlane helpers
+  const laneSurgery = (card: KanbanCard) =>
+    currentTrackedSurgery(surgeriesTrackedByCard(card, board?.hospital_id ?? null, card.patient?.surgeries ?? []));
+
+  const toSwimlaneCard = (card: KanbanCard): SwimlaneCard => ({
+    priority: card.priority,
+    tagIds: (card.tags ?? [])
+      .map((t) => t.tag?.id)
+      .filter((tagId) => boardTags.some((t) => t.id === tagId))
+      .sort((a, b) => boardTags.findIndex((t) => t.id === a) - boardTags.findIndex((t) => t.id === b)),
+    surgery: laneSurgery(card),
+  });
+
+  const cardLane = (card: KanbanCard) => swimlaneKey(swimlaneMode, toSwimlaneCard(card));
+
+  const swimlanes = buildSwimlanes(swimlaneMode, cards.map(toSwimlaneCard), { hospitals, tags: boardTags });
+
+  /**
+   * Drop a card into a column, before beforeCardId (or at the end). The
+   * position is taken from the full column so hidden cards keep their order.
+   * Dropping into another swimlane also updates the field lanes group by.
+   */
+  const handleCardDrop = (columnId: string, beforeCardId?: string, lane?: string) => {
     if (draggedCard) {
       const card = cards.find(c => c.id === draggedCard);
-      if (card && card.column_name !== columnId) {
-        moveCardMutation.mutate({ 
-          cardId: draggedCard, 
-          newColumn: columnId,
-          newPosition: targetPosition ?? cards.filter(c => c.column_name === columnId).length
-        });
-      } else if (card && targetPosition !== undefined) {
-        updateCardPositionMutation.mutate({ cardId: draggedCard, newPosition: targetPosition });
+      if (card) {
+        const column = cards
+          .filter(c => c.column_id === columnId && c.id !== card.id)
+          .sort((a, b) => a.position - b.position);
+        const before = beforeCardId ? column.findIndex(c => c.id === beforeCardId) : -1;
+        const index = before === -1 ? column.length : before;
+        if (card.column_id !== columnId || card.position !== index) {
+          moveCardMutation.mutate({ card, newColumn: columnId, newPosition: index });
+          const targetColumn = columns.find(c => c.id === columnId);
+          if (card.column_id !== columnId && targetColumn?.wip_limit && column.length + 1 > targetColumn.wip_limit) {
+            toast.warning(`"${targetColumn.name}" is over its WIP limit of ${targetColumn.wip_limit}`);
+          }
+        }
+        const from = cardLane(card);
+        if (lane !== undefined && lane !== from) {
+          const needed = swimlaneMode === "surgeon" || swimlaneMode === "hospital" ? "surgeries.schedule" : "kanban.edit_cards";
+          if (!can(needed)) {
+            toast.error(`You don't have permission to change the ${swimlaneModeLabels[swimlaneMode].toLowerCase()}`);
+          } else if (swimlaneMode === "hospital" && board?.hospital_id) {
+            // The card would leave the board once its surgery moves hospital
+            toast.error("Cards on a hospital's board can't be moved to another hospital");
+          } else if (swimlaneMode === "surgeon") {
+            handleSurgeonChange({ card, from, to: lane });
+          } else {
+            changeLaneMutation.mutate({ card, from, to: lane });
+          }
+        }
       }
       setDraggedCard(null);
     }
   };
 
+  /**
+   * Check a new surgeon for conflicts at the surgery's time before saving it
+   */
+  const handleSurgeonChange = async (change: LaneChange) => {
+    try {
+      const tracked = laneSurgery(change.card);
+      if (!tracked) throw new Error("the card is not linked to a surgery");
+      const { data: surgery, error } = await supabase
+        .from("surgeries")
+        .select(scheduledSurgerySelect)
+        .eq("id", tracked.id)
+        .single();
+      if (error) throw error;
+
+      const conflicts = await fetchSurgeryConflicts({
+        ...surgery,
+        main_surgeon: change.to === NO_LANE ? null : change.to,
+      });
+      if (conflicts.length > 0) setPendingLaneChange({ ...change, conflicts });
+      else changeLaneMutation.mutate(change);
+    } catch (error) {
+      toast.error("Failed to check for conflicts: " + (error as Error).message);
+    }
+  };
+
   // Column drag handlers
   const handleColumnDragStart = (e: React.DragEvent, columnId: string) => {
     e.dataTransfer.setData("columnId", columnId);
@@ -312,15 +661,14 @@ export default function KanbanBoard() {
 
   const handleColumnDrop = (targetColumnId: string) => {
     if (draggedColumn && draggedColumn !== targetColumnId) {
-      const columns = (board?.columns_config as unknown as KanbanColumn[]) || [];
       const draggedIndex = columns.findIndex(c => c.id === draggedColumn);
       const targetIndex = columns.findIndex(c => c.id === targetColumnId);
       
       if (draggedIndex !== -1 && targetIndex !== -1) {
-        const newColumns = [...columns];
-        const [removed] = newColumns.splice(draggedIndex, 1);
-        newColumns.splice(targetIndex, 0, removed);
-        updateColumnsMutation.mutate(newColumns);
+        const newOrder = columns.map(c => c.id);
+        const [removed] = newOrder.splice(draggedIndex, 1);
+        newOrder.splice(targetIndex, 0, removed);
+        reorderColumnsMutation.mutate(newOrder);
       }
     }
     setDraggedColumn(null);
@@ -329,13 +677,7 @@ export default function KanbanBoard() {
 
   const handleAddColumn = () => {
     if (!newColumnName.trim()) return;
-    const columns = (board?.columns_config as unknown as KanbanColumn[]) || [];
-    const newColumn: KanbanColumn = {
-      id: newColumnName.toLowerCase().replace(/\s+/g, "_"),
-      name: newColumnName,
-      color: newColumnColor,
-    };
-    updateColumnsMutation.mutate([...columns, newColumn]);
+    addColumnMutation.mutate({ name: newColumnName.trim(), color: newColumnColor });
     setAddColumnOpen(false);
     setNewColumnName("");
     setNewColumnColor("gray");
@@ -343,29 +685,47 @@ export default function KanbanBoard() {
 
   const handleEditColumn = () => {
     if (!editingColumn || !newColumnName.trim()) return;
-    const columns = (board?.columns_config as unknown as KanbanColumn[]) || [];
-    const updated = columns.map(c => 
-      c.id === editingColumn.id 
-        ? { ...c, name: newColumnName, color: newColumnColor }
-        : c
-    );
-    updateColumnsMutation.mutate(updated);
+    const toLimit = (value: string) => (parseInt(value) > 0 ? parseInt(value) : null);
+    const warningDays = toLimit(newColumnWarningDays);
+    const criticalDays = toLimit(newColumnCriticalDays);
+    if (warningDays && criticalDays && criticalDays <= warningDays) {
+      toast.error("Red threshold must be more days than the amber one");
+      return;
+    }
+    updateColumnMutation.mutate({
+      columnId: editingColumn.id,
+      name: newColumnName.trim(),
+      color: newColumnColor,
+      wip_limit: toLimit(newColumnWipLimit),
+      aging_warning_days: warningDays,
+      aging_critical_days: criticalDays,
+    });
     setEditingColumn(null);
     setNewColumnName("");
     setNewColumnColor("gray");
   };
 
-  const handleDeleteColumn = (columnId: string) => {
-    const columns = (board?.columns_config as unknown as KanbanColumn[]) || [];
-    const filtered = columns.filter((c) => c.id !== columnId);
-    updateColumnsMutation.mutate(filtered);
+  const deletingColumnCardCount = deletingColumn
+    ? cards.filter((c) => c.column_id === deletingColumn.id).length
+    : 0;
+
+  const handleDeleteColumn = () => {
+    if (!deletingColumn) return;
+    if (deletingColumnCardCount > 0 && !deleteTargetColumnId) {
+      toast.error("Choose where to move this column's cards");
+      return;
+    }
+    deleteColumnMutation.mutate({
+      columnId: deletingColumn.id,
+      targetColumnId: deletingColumnCardCount > 0 ? deleteTargetColumnId : undefined,
+    });
   };
 
   // Filter cards based on filter state
   const getCardsForColumn = useMemo(() => {
     return (columnId: string) => {
       return cards
-        .filter((card) => card.column_name === columnId)
+        .filter((card) => card.column_id === columnId)
         .sort((a, b) => a.position - b.position)
         .filter((card) => {
           // Search filter
@@ -382,6 +742,11 @@ export default function KanbanBoard() {
             return false;
           }
 
+          // Tag filter - card or patient has any selected tag
+          if (!matchesTagFilter(cardTags(card).map((t) => t.id), filters.tags)) {
+            return false;
+          }
+
           // Date range filter
           if (card.scheduled_date) {
             const cardDate = new Date(card.scheduled_date);
@@ -396,7 +761,7 @@ export default function KanbanBoard() {
     };
   }, [cards, filters]);
 
-  if (boardLoading || cardsLoading) {
+  if (boardLoading || columnsLoading || cardsLoading) {
     return (
       <AppLayout>
         <div className="p-6">
@@ -426,7 +791,305 @@ export default function KanbanBoard() {
     );
   }
 
-  const columns: KanbanColumn[] = (board.columns_config as unknown) as KanbanColumn[];
+  /** Column header with name, card count / WIP limit and column actions */
+  const renderColumnHeader = (column: KanbanColumn) => {
+    const colors = columnColors[column.color] || columnColors.gray;
+    const totalCards = cards.filter((c) => c.column_id === column.id).length;
+    const overWipLimit = !!column.wip_limit && totalCards > column.wip_limit;
+
+    return (
+      <div className={cn("rounded-t-lg px-3 py-2", colors.bg)}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 cursor-grab">
+            <GripVertical className="h-4 w-4 text-muted-foreground" />
+            <div className={cn("w-2 h-2 rounded-full", colors.dot)} />
+            <Badge className={cn("text-xs font-medium uppercase", colors.badge)}>
+              {column.name}
+            </Badge>
+            <span
+              className={cn(
+                "text-sm font-medium text-muted-foreground",
+                overWipLimit && "text-destructive flex items-center gap-1"
+              )}
+              title={overWipLimit ? `Over WIP limit of ${column.wip_limit}` : undefined}
+            >
+              {overWipLimit && <AlertTriangle className="h-3.5 w-3.5" />}
+              {totalCards}
+              {column.wip_limit && ` / ${column.wip_limit}`}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            {can("boards.manage") && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-6 w-6">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => {
+                    setEditingColumn(column);
+                    setNewColumnName(column.name);
+                    setNewColumnColor(column.color);
+                    setNewColumnWipLimit(column.wip_limit?.toString() ?? "");
+                    setNewColumnWarningDays(column.aging_warning_days?.toString() ?? "");
+                    setNewColumnCriticalDays(column.aging_critical_days?.toString() ?? "");
+                  }}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit Column
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onClick={() => {
+                      setDeletingColumn(column);
+                      setDeleteTargetColumnId("");
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Column
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {can("kanban.edit_cards") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setAddCardColumn(column.id)}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  /** Props that make a column draggable and a drop target for cards */
+  const columnProps = (column: KanbanColumn) => {
+    const totalCards = cards.filter((c) => c.column_id === column.id).length;
+    const overWipLimit = !!column.wip_limit && totalCards > column.wip_limit;
+
+    return {
+      className: cn(
+        "flex-shrink-0 w-72 transition-all rounded-lg",
+        overWipLimit && "ring-2 ring-destructive/60",
+        dragOverColumn === column.id && "ring-2 ring-primary",
+        draggedColumn === column.id && "opacity-50"
+      ),
+      draggable: can("boards.manage"),
+      onDragStart: (e: React.DragEvent) => handleColumnDragStart(e, column.id),
+      onDragOver: (e: React.DragEvent) => handleColumnDragOver(e, column.id),
+      onDrop: () => {
+        if (draggedColumn) {
+          handleColumnDrop(column.id);
+        } else {
+          handleCardDrop(column.id);
+        }
+      },
+      onDragEnd: () => {
+        setDraggedColumn(null);
+        setDragOverColumn(null);
+      },
+    };
+  };
+
+  /** A column's cards, optionally limited to one swimlane */
+  const renderCardList = (column: KanbanColumn, columnCards: KanbanCard[], lane?: string) => {
+    const colors = columnColors[column.color] || columnColors.gray;
+
+    return (
+      <div
+        className={cn(
+          "p-2 space-y-2",
+          lane === undefined ? "min-h-[400px] rounded-b-lg" : "min-h-[120px] rounded-lg",
+          colors.bg
+        )}
+        onDragOver={handleCardDragOver}
+        onDrop={(e) => {
+          e.stopPropagation();
+          if (!draggedColumn) {
+            handleCardDrop(column.id, undefined, lane);
+          }
+        }}
+      >
+        {columnCards.map((card) => (
+          <div
+            key={card.id}
+            draggable={can("kanban.edit_cards")}
+            onDragStart={(e) => {
+              e.stopPropagation();
+              handleCardDragStart(e, card.id);
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+            }}
+            onDrop={(e) => {
+              e.stopPropagation();
+              if (draggedCard && draggedCard !== card.id) {
+                handleCardDrop(column.id, card.id, lane);
+              }
+            }}
+            onClick={() => card.patient && setSelectedCard({
+              cardId: card.id,
+              patientId: card.patient.id,
+              columnName: column.name,
+            })}
+            className={cn(
+              "bg-card rounded-lg border shadow-sm p-3 cursor-pointer",
+              "hover:shadow-md transition-shadow",
+              draggedCard === card.id && "opacity-50",
+              card.manual_override && "border-l-4 border-l-amber-400"
+            )}
+          >
+            {/* Card Title */}
+            <div className="flex items-start justify-between mb-2">
+              <span className="font-medium text-sm hover:text-primary">
+                {card.patient?.name || "Unknown Patient"}
+              </span>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="icon" className="h-6 w-6 -mr-1 -mt-1">
+                    <MoreHorizontal className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={(e) => {
+                    e.stopPropagation();
+                    card.patient && navigate(`/patient/${card.patient.id}`);
+                  }}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Full Details
+                  </DropdownMenuItem>
+                  {card.manual_override && (
+                    <DropdownMenuItem
+                      disabled={!can("kanban.edit_cards")}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        enableAutoSyncMutation.mutate(card.id);
+                      }}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-enable Auto-sync
+                    </DropdownMenuItem>
+                  )}
+                  {can("kanban.edit_cards") && (
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteCardMutation.mutate(card.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Remove from Board
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+
+            {/* Surgery Type */}
+            {card.surgery_type && (
+              <p className="text-xs text-muted-foreground mb-2">{card.surgery_type}</p>
+            )}
+
+            {/* Status Badge */}
+            <div className="flex items-center gap-2 mb-2">
+              <div className={cn("w-2 h-2 rounded-full", colors.dot)} />
+              <span className="text-xs text-muted-foreground uppercase">{column.name}</span>
+            </div>
+
+            {/* MRN */}
+            {card.patient?.medical_record_number && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
+                <User className="h-3 w-3" />
+                <span>{card.patient.medical_record_number}</span>
+              </div>
+            )}
+
+            {/* Tags */}
+            {cardTags(card).length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {cardTags(card).map((tag) => (
+                  <TagChip key={tag.id} tag={tag} />
+                ))}
+              </div>
+            )}
+
+            {/* Checklist progress */}
+            {card.checklist && card.checklist.length > 0 && (
+              <div
+                className={cn(
+                  "flex items-center gap-1 text-xs mb-2",
+                  card.checklist.every((i) => i.done) ? "text-emerald-600" : "text-muted-foreground"
+                )}
+              >
+                <ListChecks className="h-3 w-3" />
+                <span>
+                  {card.checklist.filter((i) => i.done).length}/{card.checklist.length}
+                </span>
+              </div>
+            )}
+
+            {/* Date */}
+            {card.scheduled_date && (
+              <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
+                <Calendar className="h-3 w-3" />
+                <span className="text-primary">
+                  {format(new Date(card.scheduled_date), "MM/dd/yyyy")}
+                </span>
+              </div>
+            )}
+
+            {/* Days in column */}
+            {(() => {
+              const days = daysInColumn(card.column_entered_at);
+              const level = cardAgeLevel(days, column);
+              return (
+                <div
+                  className={cn(
+                    "inline-flex items-center gap-1 text-xs rounded px-1.5 py-0.5 mb-2",
+                    level === "normal" && "text-muted-foreground",
+                    level === "warning" && "bg-amber-100 text-amber-700",
+                    level === "critical" && "bg-red-100 text-red-700"
+                  )}
+                  title={`${days} day(s) in ${column.name}`}
+                >
+                  <Clock className="h-3 w-3" />
+                  <span>{days}d</span>
+                </div>
+              );
+            })()}
+
+            {/* Priority */}
+            {card.priority && (
+              <div className="flex items-center gap-1 text-xs">
+                <Flag className={cn("h-3 w-3", priorityConfig[card.priority]?.color || "text-muted-foreground")} />
+                <span className="capitalize">{card.priority}</span>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {/* Add Task Button */}
+        {can("kanban.edit_cards") && (
+          <Button
+            variant="ghost"
+            className="w-full justify-start text-muted-foreground hover:text-foreground"
+            onClick={() => setAddCardColumn(column.id)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add patient
+          </Button>
+        )}
+      </div>
+    );
+  };
 
   return (
     <AppLayout>
@@ -449,7 +1112,57 @@ export default function KanbanBoard() {
 
             {/* Toolbar */}
             <div className="flex items-center gap-2">
-              <KanbanFilters filters={filters} onFiltersChange={setFilters} />
+              <BoardPresence viewers={viewers} />
+              <KanbanFilters filters={filters} onFiltersChange={setFilters} boardId={id} />
+              <Select value={swimlaneMode} onValueChange={(value) => setSwimlaneMode(value as SwimlaneMode)}>
+                <SelectTrigger className="h-9 w-40">
+                  <Rows3 className="h-4 w-4 mr-1" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(swimlaneModeLabels) as SwimlaneMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {swimlaneModeLabels[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {can("boards.manage") && (
+                <Button variant="outline" size="sm" onClick={() => setChecklistTemplatesOpen(true)}>
+                  <ListChecks className="h-4 w-4 mr-1" />
+                  Checklists
+                </Button>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon" className="h-9 w-9">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => exportMutation.mutate("json")} disabled={exportMutation.isPending}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export JSON
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportMutation.mutate("csv")} disabled={exportMutation.isPending}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </DropdownMenuItem>
+                  {can("boards.manage") && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setSaveTemplateOpen(true)}>
+                        <LayoutTemplate className="h-4 w-4 mr-2" />
+                        Save as Template
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setDuplicateOpen(true)}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Duplicate Board
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
               <Dialog open={addColumnOpen} onOpenChange={setAddColumnOpen}>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="sm">
@@ -499,212 +1212,64 @@ export default function KanbanBoard() {
         </div>
 
         {/* Kanban Columns */}
-        <div className="flex gap-3 overflow-x-auto pb-4">
-          {columns.map((column) => {
-            const columnCards = getCardsForColumn(column.id);
-            const colors = columnColors[column.color] || columnColors.gray;
-
-            return (
-              <div
-                key={column.id}
-                className={cn(
-                  "flex-shrink-0 w-72 transition-all",
-                  dragOverColumn === column.id && "ring-2 ring-primary",
-                  draggedColumn === column.id && "opacity-50"
-                )}
-                draggable
-                onDragStart={(e) => handleColumnDragStart(e, column.id)}
-                onDragOver={(e) => handleColumnDragOver(e, column.id)}
-                onDrop={() => {
-                  if (draggedColumn) {
-                    handleColumnDrop(column.id);
-                  } else {
-                    handleCardDrop(column.id);
-                  }
-                }}
-                onDragEnd={() => {
-                  setDraggedColumn(null);
-                  setDragOverColumn(null);
-                }}
-              >
-                {/* Column Header */}
-                <div className={cn("rounded-t-lg px-3 py-2", colors.bg)}>
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2 cursor-grab">
-                      <GripVertical className="h-4 w-4 text-muted-foreground" />
-                      <div className={cn("w-2 h-2 rounded-full", colors.dot)} />
-                      <Badge className={cn("text-xs font-medium uppercase", colors.badge)}>
-                        {column.name}
-                      </Badge>
-                      <span className="text-sm font-medium text-muted-foreground">
-                        {columnCards.length}
-                      </span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon" className="h-6 w-6">
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => {
-                            setEditingColumn(column);
-                            setNewColumnName(column.name);
-                            setNewColumnColor(column.color);
-                          }}>
-                            <Edit className="h-4 w-4 mr-2" />
-                            Edit Column
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            className="text-destructive"
-                            onClick={() => handleDeleteColumn(column.id)}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete Column
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6"
-                        onClick={() => setAddCardColumn(column.id)}
-                      >
-                        <Plus className="h-4 w-4" />
-                      </Button>
-                    </div>
+        {swimlaneMode === "none" ? (
+          <div className="flex gap-3 overflow-x-auto pb-4">
+            {columns.map((column) => (
+              <div key={column.id} {...columnProps(column)}>
+                {renderColumnHeader(column)}
+                {renderCardList(column, getCardsForColumn(column.id))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="overflow-x-auto pb-4">
+            <div className="inline-flex flex-col gap-3 min-w-full">
+              <div className="flex gap-3">
+                {columns.map((column) => (
+                  <div key={column.id} {...columnProps(column)}>
+                    {renderColumnHeader(column)}
                   </div>
-                </div>
+                ))}
+              </div>
 
-                {/* Cards Container */}
-                <div 
-                  className={cn("min-h-[400px] rounded-b-lg p-2 space-y-2", colors.bg)}
-                  onDragOver={handleCardDragOver}
-                  onDrop={(e) => {
-                    e.stopPropagation();
-                    if (!draggedColumn) {
-                      handleCardDrop(column.id);
-                    }
-                  }}
-                >
-                  {columnCards.map((card, index) => (
-                    <div
-                      key={card.id}
-                      draggable
-                      onDragStart={(e) => {
-                        e.stopPropagation();
-                        handleCardDragStart(e, card.id);
-                      }}
-                      onDragOver={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                      }}
-                      onDrop={(e) => {
-                        e.stopPropagation();
-                        if (draggedCard && draggedCard !== card.id) {
-                          handleCardDrop(column.id, index);
-                        }
-                      }}
-                      onClick={() => card.patient && setSelectedCard({
-                        cardId: card.id,
-                        patientId: card.patient.id,
-                        columnName: column.name,
-                      })}
-                      className={cn(
-                        "bg-card rounded-lg border shadow-sm p-3 cursor-pointer",
-                        "hover:shadow-md transition-shadow",
-                        draggedCard === card.id && "opacity-50",
-                        card.manual_override && "border-l-4 border-l-amber-400"
-                      )}
+              {/* Swimlanes */}
+              {swimlanes.map((lane) => {
+                const laneCount = cards.filter((c) => cardLane(c) === lane.key).length;
+                const collapsed = collapsedLanes.includes(lane.key);
+                return (
+                  <div key={lane.key} className="space-y-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2 text-sm font-medium text-foreground"
+                      onClick={() =>
+                        setCollapsedLanes((prev) =>
+                          collapsed ? prev.filter((k) => k !== lane.key) : [...prev, lane.key]
+                        )
+                      }
                     >
-                      {/* Card Title */}
-                      <div className="flex items-start justify-between mb-2">
-                        <span className="font-medium text-sm hover:text-primary">
-                          {card.patient?.name || "Unknown Patient"}
-                        </span>
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
-                            <Button variant="ghost" size="icon" className="h-6 w-6 -mr-1 -mt-1">
-                              <MoreHorizontal className="h-3 w-3" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={(e) => {
-                              e.stopPropagation();
-                              card.patient && navigate(`/patient/${card.patient.id}`);
-                            }}>
-                              <Edit className="h-4 w-4 mr-2" />
-                              Full Details
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              className="text-destructive"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteCardMutation.mutate(card.id);
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4 mr-2" />
-                              Remove from Board
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                      {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      {lane.label}
+                      <Badge variant="secondary" className="text-xs">{laneCount}</Badge>
+                    </button>
+                    {!collapsed && (
+                      <div className="flex gap-3">
+                        {columns.map((column) => (
+                          <div key={column.id} className="flex-shrink-0 w-72">
+                            {renderCardList(
+                              column,
+                              getCardsForColumn(column.id).filter((c) => cardLane(c) === lane.key),
+                              lane.key
+                            )}
+                          </div>
+                        ))}
                       </div>
-
-                      {/* Surgery Type */}
-                      {card.surgery_type && (
-                        <p className="text-xs text-muted-foreground mb-2">{card.surgery_type}</p>
-                      )}
-
-                      {/* Status Badge */}
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className={cn("w-2 h-2 rounded-full", colors.dot)} />
-                        <span className="text-xs text-muted-foreground uppercase">{column.name}</span>
-                      </div>
-
-                      {/* MRN */}
-                      {card.patient?.medical_record_number && (
-                        <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
-                          <User className="h-3 w-3" />
-                          <span>{card.patient.medical_record_number}</span>
-                        </div>
-                      )}
-
-                      {/* Date */}
-                      {card.scheduled_date && (
-                        <div className="flex items-center gap-1 text-xs text-muted-foreground mb-2">
-                          <Calendar className="h-3 w-3" />
-                          <span className="text-primary">
-                            {format(new Date(card.scheduled_date), "MM/dd/yyyy")}
-                          </span>
-                        </div>
-                      )}
-
-                      {/* Priority */}
-                      {card.priority && (
-                        <div className="flex items-center gap-1 text-xs">
-                          <Flag className={cn("h-3 w-3", priorityConfig[card.priority]?.color || "text-muted-foreground")} />
-                          <span className="capitalize">{card.priority}</span>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-
-                  {/* Add Task Button */}
-                  <Button
-                    variant="ghost"
-                    className="w-full justify-start text-muted-foreground hover:text-foreground"
-                    onClick={() => setAddCardColumn(column.id)}
-                  >
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add patient
-                  </Button>
-                </div>
-              </div>
-            );
-          })}
-        </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Add Card Dialog */}
@@ -723,7 +1288,6 @@ export default function KanbanBoard() {
               <CreatePatientInKanban
                 boardId={id!}
                 columnId={addCardColumn!}
-                position={cards.filter(c => c.column_name === addCardColumn).length}
                 onSuccess={() => {
                   setAddCardColumn(null);
                   setShowCreatePatient(false);
@@ -800,6 +1364,24 @@ export default function KanbanBoard() {
         </DialogContent>
       </Dialog>
 
+      {/* Checklist Templates Dialog */}
+      <ChecklistTemplatesDialog
+        open={checklistTemplatesOpen}
+        onOpenChange={setChecklistTemplatesOpen}
+        boardId={id!}
+        columns={columns}
+      />
+
+      {/* Board Template and Duplicate Dialogs */}
+      <SaveBoardTemplateDialog
+        open={saveTemplateOpen}
+        onOpenChange={setSaveTemplateOpen}
+        boardId={id!}
+        boardName={board.name}
+        filters={{ hospital: filters.hospital, urgency: filters.urgency, tags: filters.tags }}
+      />
+      <DuplicateBoardDialog open={duplicateOpen} onOpenChange={setDuplicateOpen} board={board} />
+
       {/* Edit Column Dialog */}
       <Dialog open={!!editingColumn} onOpenChange={(open) => !open && setEditingColumn(null)}>
         <DialogContent>
@@ -833,6 +1415,38 @@ export default function KanbanBoard() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label>WIP Limit (optional)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={newColumnWipLimit}
+                onChange={(e) => setNewColumnWipLimit(e.target.value)}
+                placeholder="No limit"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Amber after (days)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={newColumnWarningDays}
+                  onChange={(e) => setNewColumnWarningDays(e.target.value)}
+                  placeholder="Off"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Red after (days)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={newColumnCriticalDays}
+                  onChange={(e) => setNewColumnCriticalDays(e.target.value)}
+                  placeholder="Off"
+                />
+              </div>
+            </div>
             <Button onClick={handleEditColumn} className="w-full">
               Save Changes
             </Button>
@@ -840,6 +1454,50 @@ export default function KanbanBoard() {
         </DialogContent>
       </Dialog>
 
+      {/* Delete Column Dialog */}
+      <Dialog open={!!deletingColumn} onOpenChange={(open) => !open && setDeletingColumn(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Column "{deletingColumn?.name}"?</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-4">
+            {deletingColumnCardCount > 0 ? (
+              <div className="space-y-2">
+                <Label>Move its {deletingColumnCardCount} card(s) to</Label>
+                <Select value={deleteTargetColumnId} onValueChange={setDeleteTargetColumnId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columns
+                      .filter((c) => c.id !== deletingColumn?.id)
+                      .map((c) => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This column has no cards.</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDeletingColumn(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleDeleteColumn}
+                disabled={deleteColumnMutation.isPending || (deletingColumnCardCount > 0 && !deleteTargetColumnId)}
+              >
+                Delete Column
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Patient Card Dialog */}
       {selectedCard && (
         <PatientCardDialog
@@ -851,6 +1509,17 @@ export default function KanbanBoard() {
           boardId={id!}
         />
       )}
+
+      {/* Conflict warning before giving a surgery a double-booked surgeon */}
+      <ConflictOverrideDialog
+        change={pendingLaneChange && `Assigning ${pendingLaneChange.to} to ${pendingLaneChange.card.patient?.name ?? "this patient"}'s surgery`}
+        conflicts={pendingLaneChange?.conflicts ?? []}
+        onCancel={() => setPendingLaneChange(null)}
+        onConfirm={(reason) => {
+          if (pendingLaneChange) changeLaneMutation.mutate({ ...pendingLaneChange, reason });
+          setPendingLaneChange(null);
+        }}
+      />
     </AppLayout>
   );
 }
\ No newline at end of file
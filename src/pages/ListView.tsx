@@ -7,6 +7,7 @@
  * Features:
  * - Full patient list with search
  * - Advanced filtering (date range, urgency, hospital, kanban column, tags)
+ *   where a patient matches a tag set on them or on any of their cards
  * - Sortable columns
  * - Quick actions for each patient
  * - Pagination for large datasets
@@ -37,16 +38,20 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { format, differenceInYears, isAfter, isBefore, parseISO } from "date-fns";
-import { Search, Filter, X, Calendar as CalendarIcon, ChevronUp, ChevronDown, ExternalLink, Edit } from "lucide-react";
+import { Search, Filter, X, Calendar as CalendarIcon, ChevronUp, ChevronDown, ExternalLink, Edit, Tag } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AddPatientDialog } from "@/components/patient/AddPatientDialog";
+import { usePermissions } from "@/hooks/usePermissions";
 import { EditPatientDialog } from "@/components/patient/EditPatientDialog";
+import { TagChip } from "@/components/kanban/TagPicker";
+import { matchesTagFilter } from "@/lib/tags";
 
 /** Interface for patient data with related info */
 interface PatientWithDetails {
@@ -87,6 +92,7 @@ const kanbanColumns = [
 
 export default function ListView() {
   const navigate = useNavigate();
+  const { can } = usePermissions();
   const [searchParams, setSearchParams] = useSearchParams();
   
   // Search and filter states - initialize from URL params
@@ -96,6 +102,7 @@ export default function ListView() {
   const [kanbanColumnFilter, setKanbanColumnFilter] = useState<string>("all");
   const [dateFrom, setDateFrom] = useState<Date | undefined>(undefined);
   const [dateTo, setDateTo] = useState<Date | undefined>(undefined);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   
   // Sort state
   const [sortField, setSortField] = useState<SortField>("name");
@@ -110,6 +117,10 @@ export default function ListView() {
     if (kanbanColumn) {
       setKanbanColumnFilter(kanbanColumn);
     }
+    const tag = searchParams.get("tag");
+    if (tag) {
+      setTagFilter([tag]);
+    }
   }, [searchParams]);
 
   /**
@@ -150,12 +161,55 @@ export default function ListView() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from("kanban_cards")
-        .select("patient_id, priority, column_name, board_id, kanban_boards(hospital_id)");
+        .select("patient_id, priority, board_id, kanban_boards(hospital_id), kanban_columns(key), kanban_card_tags(tag_id)");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  /**
+   * Fetch tags from every board for the tag filter
+   */
+  const { data: tags = [] } = useQuery({
+    queryKey: ["kanban-tags-list-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("kanban_tags")
+        .select("id, name, color, board:kanban_boards(name)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  /**
+   * Fetch patient tags
+   */
+  const { data: patientTags = [] } = useQuery({
+    queryKey: ["patient-tags-list-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_tags")
+        .select("patient_id, tag_id");
       if (error) throw error;
       return data;
     },
   });
 
+  /**
+   * Tag ids per patient, from the patient and from their kanban cards
+   */
+  const tagIdsByPatient = useMemo(() => {
+    const byPatient = new Map<string, Set<string>>();
+    const add = (patientId: string, tagId: string) => {
+      if (!byPatient.has(patientId)) byPatient.set(patientId, new Set());
+      byPatient.get(patientId)!.add(tagId);
+    };
+    patientTags.forEach((t) => add(t.patient_id, t.tag_id));
+    kanbanCards.forEach((card) => card.kanban_card_tags.forEach((t) => add(card.patient_id, t.tag_id)));
+    return byPatient;
+  }, [patientTags, kanbanCards]);
+
   /**
    * Filter and sort patients based on current criteria
    */
@@ -196,11 +250,16 @@ export default function ListView() {
     // Kanban column filter
     if (kanbanColumnFilter !== "all") {
       const patientIdsInColumn = kanbanCards
-        .filter((card) => card.column_name === kanbanColumnFilter)
+        .filter((card) => card.kanban_columns?.key === kanbanColumnFilter)
         .map((card) => card.patient_id);
       result = result.filter((p) => patientIdsInColumn.includes(p.id));
     }
 
+    // Tag filter - patient or any of their cards has a selected tag
+    if (tagFilter.length > 0) {
+      result = result.filter((p) => matchesTagFilter([...(tagIdsByPatient.get(p.id) ?? [])], tagFilter));
+    }
+
     // Date range filter (based on created_at)
     if (dateFrom) {
       result = result.filter((p) => isAfter(parseISO(p.created_at), dateFrom));
@@ -241,7 +300,7 @@ export default function ListView() {
     });
 
     return result;
-  }, [patients, searchQuery, hospitalFilter, urgencyFilter, kanbanColumnFilter, dateFrom, dateTo, sortField, sortDirection, kanbanCards]);
+  }, [patients, searchQuery, hospitalFilter, urgencyFilter, kanbanColumnFilter, dateFrom, dateTo, tagFilter, tagIdsByPatient, sortField, sortDirection, kanbanCards]);
 
   /**
    * Toggle sort direction or change sort field
@@ -268,7 +327,7 @@ export default function ListView() {
    */
   const getPatientKanbanColumn = (patientId: string) => {
     const card = kanbanCards.find((c) => c.patient_id === patientId);
-    return card?.column_name || null;
+    return card?.kanban_columns?.key || null;
   };
 
   /**
@@ -280,11 +339,12 @@ export default function ListView() {
     setUrgencyFilter("all");
     setKanbanColumnFilter("all");
     setDateFrom(undefined);
+    setTagFilter([]);
     setSearchParams({});
     setDateTo(undefined);
   };
 
-  const hasFilters = searchQuery || hospitalFilter !== "all" || urgencyFilter !== "all" || kanbanColumnFilter !== "all" || dateFrom || dateTo;
+  const hasFilters = searchQuery || hospitalFilter !== "all" || urgencyFilter !== "all" || kanbanColumnFilter !== "all" || tagFilter.length > 0 || dateFrom || dateTo;
 
   /**
    * Render sort indicator
@@ -319,7 +379,7 @@ export default function ListView() {
               View and manage all patients ({filteredPatients.length} of {patients.length})
             </p>
           </div>
-          <AddPatientDialog />
+          {can("patients.create") && <AddPatientDialog />}
         </div>
 
         {/* Filters Card */}
@@ -380,6 +440,38 @@ export default function ListView() {
                 </SelectContent>
               </Select>
 
+              {/* Tag Filter */}
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-[150px] justify-start text-left font-normal">
+                    <Tag className="mr-2 h-4 w-4" />
+                    {tagFilter.length > 0 ? `${tagFilter.length} tag(s)` : "All Tags"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 p-3" align="start">
+                  {tags.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No tags yet</p>
+                  ) : (
+                    <div className="space-y-1 max-h-64 overflow-y-auto">
+                      {tags.map((tag) => (
+                        <label key={tag.id} className="flex items-center gap-2 cursor-pointer">
+                          <Checkbox
+                            checked={tagFilter.includes(tag.id)}
+                            onCheckedChange={(checked) =>
+                              setTagFilter((prev) =>
+                                checked ? [...prev, tag.id] : prev.filter((t) => t !== tag.id)
+                              )
+                            }
+                          />
+                          <TagChip tag={tag} />
+                          <span className="text-xs text-muted-foreground truncate">{tag.board?.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+
               {/* Date From */}
               <Popover>
                 <PopoverTrigger asChild>
@@ -484,7 +576,16 @@ export default function ListView() {
                         className="cursor-pointer hover:bg-table-row-hover"
                         onClick={() => navigate(`/patient/${patient.id}`)}
                       >
-                        <TableCell className="font-medium">{patient.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2 flex-wrap">
+                            {patient.name}
+                            {tags
+                              .filter((tag) => tagIdsByPatient.get(patient.id)?.has(tag.id))
+                              .map((tag) => (
+                                <TagChip key={tag.id} tag={tag} />
+                              ))}
+                          </div>
+                        </TableCell>
                         <TableCell>{patient.medical_record_number || "—"}</TableCell>
                         <TableCell>{age !== null ? `${age} years` : "—"}</TableCell>
                         <TableCell className="capitalize">{patient.gender || "—"}</TableCell>
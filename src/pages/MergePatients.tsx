@@ -0,0 +1,369 @@
+/**
+ * MergePatients Page
+ *
+ * Merges a duplicate into the patient it was opened from, or the other way
+ * round. Likely duplicates are suggested and any patient can be searched
+ * for; for each field the user picks which record's value survives. All
+ * episodes, surgeries, consultations, attachments, comments and kanban
+ * cards then belong to the surviving patient and the other one is trashed.
+ */
+
+import { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { usePermissions } from "@/hooks/usePermissions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, GitMerge, Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import {
+  findPatientDuplicates,
+  mergePatients,
+  mergeablePatientFields,
+  type MergeablePatientField,
+} from "@/lib/patientDuplicates";
+
+type Patient = Tables<"patients">;
+type Side = "current" | "other";
+
+/** Records moved to the survivor, counted per patient for the summary */
+const childTables = [
+  { table: "episodes", label: "Episodes" },
+  { table: "surgeries", label: "Surgeries" },
+  { table: "consultations", label: "Consultations" },
+  { table: "attachments", label: "Attachments" },
+  { table: "comments", label: "Comments" },
+  { table: "kanban_cards", label: "Kanban cards" },
+] as const;
+
+async function fetchRecordCounts(patientId: string) {
+  const counts = await Promise.all(
+    childTables.map(async ({ table }) => {
+      const query = supabase.from(table).select("id", { count: "exact", head: true }).eq("patient_id", patientId);
+      const { count, error } = table === "kanban_cards" ? await query : await query.is("deleted_at", null);
+      if (error) throw error;
+      return count ?? 0;
+    })
+  );
+  return counts;
+}
+
+export default function MergePatients() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canMerge = can("patients.edit") && can("patients.delete");
+
+  const [otherId, setOtherId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [survivor, setSurvivor] = useState<Side>("current");
+  const [choices, setChoices] = useState<Partial<Record<MergeablePatientField, Side>>>({});
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const fetchPatient = async (patientId: string) => {
+    const { data, error } = await supabase.from("patients").select("*").eq("id", patientId).maybeSingle();
+    if (error) throw error;
+    return data;
+  };
+
+  const { data: current, isLoading } = useQuery({
+    queryKey: ["patient", id],
+    queryFn: () => fetchPatient(id!),
+    enabled: !!id,
+  });
+
+  const { data: other } = useQuery({
+    queryKey: ["patient", otherId],
+    queryFn: () => fetchPatient(otherId!),
+    enabled: !!otherId,
+  });
+
+  // Suggest likely duplicates of this patient
+  const { data: duplicates = [] } = useQuery({
+    queryKey: ["patient-duplicates", id],
+    queryFn: () => findPatientDuplicates(current!, current!.id),
+    enabled: !!current,
+  });
+
+  // Or search any patient by name or MRN
+  const { data: searchResults = [] } = useQuery({
+    queryKey: ["patient-merge-search", search],
+    queryFn: async () => {
+      const term = search.replace(/[,()"]/g, " ").trim();
+      const { data, error } = await supabase
+        .from("patients")
+        .select("id, name, medical_record_number, date_of_birth")
+        .is("deleted_at", null)
+        .neq("id", id!)
+        .or(`name.ilike.%${term}%,medical_record_number.ilike.%${term}%`)
+        .order("name")
+        .limit(10);
+      if (error) throw error;
+      return data;
+    },
+    enabled: search.trim().length >= 2,
+  });
+
+  const { data: currentCounts } = useQuery({
+    queryKey: ["patient-record-counts", id],
+    queryFn: () => fetchRecordCounts(id!),
+    enabled: !!id,
+  });
+
+  const { data: otherCounts } = useQuery({
+    queryKey: ["patient-record-counts", otherId],
+    queryFn: () => fetchRecordCounts(otherId!),
+    enabled: !!otherId,
+  });
+
+  // Default each field to the survivor's value, or the other one's when the survivor has none
+  useEffect(() => {
+    if (!current || !other) return;
+    const keep = survivor === "current" ? current : other;
+    const defaults: Partial<Record<MergeablePatientField, Side>> = {};
+    mergeablePatientFields.forEach(({ key }) => {
+      defaults[key] = keep[key] ? survivor : survivor === "current" ? "other" : "current";
+    });
+    setChoices(defaults);
+  }, [current, other, survivor]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const survivorPatient = survivor === "current" ? current! : other!;
+      const duplicatePatient = survivor === "current" ? other! : current!;
+      const fields = Object.fromEntries(
+        mergeablePatientFields.map(({ key }) => [key, (choices[key] === "current" ? current! : other!)[key] ?? null])
+      ) as Record<MergeablePatientField, string | null>;
+      await mergePatients(survivorPatient.id, duplicatePatient.id, fields);
+      return survivorPatient.id;
+    },
+    onSuccess: (survivorId) => {
+      // Records moved between patients show up in most views
+      queryClient.invalidateQueries();
+      toast.success("Patients merged");
+      navigate(`/patient/${survivorId}`);
+    },
+    onError: (error) => {
+      setConfirmOpen(false);
+      toast.error("Failed to merge patients: " + error.message);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <AppLayout>
+        <div className="p-6">
+          <div className="animate-pulse h-32 bg-muted rounded" />
+        </div>
+      </AppLayout>
+    );
+  }
+
+  if (!current || !canMerge) {
+    return (
+      <AppLayout>
+        <div className="p-6">
+          <p className="text-muted-foreground">
+            {!current ? "Patient not found" : "You don't have permission to merge patients"}
+          </p>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const patients: Record<Side, Patient | null | undefined> = { current, other };
+  const counts: Record<Side, number[] | undefined> = { current: currentCounts, other: otherCounts };
+  const duplicateName = (survivor === "current" ? other : current)?.name;
+
+  const patientOption = (p: Pick<Patient, "id" | "name" | "medical_record_number" | "date_of_birth">, reasons?: string[]) => (
+    <button
+      key={p.id}
+      type="button"
+      onClick={() => setOtherId(p.id)}
+      className={`w-full text-left rounded-md border p-2 text-sm hover:bg-muted/50 ${otherId === p.id ? "border-primary bg-muted/50" : ""}`}
+    >
+      <div className="font-medium">{p.name}</div>
+      <div className="text-xs text-muted-foreground">
+        {[p.medical_record_number && `MRN ${p.medical_record_number}`, p.date_of_birth, reasons?.join(", ")]
+          .filter(Boolean)
+          .join(" · ")}
+      </div>
+    </button>
+  );
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6 max-w-4xl">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+            <Link to={`/patient/${current.id}`}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              {current.name}
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold text-foreground">Merge Patients</h1>
+          <p className="text-sm text-muted-foreground">
+            Combine two records of the same person. The surviving patient keeps the chosen values and every record of both.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Duplicate of {current.name}</CardTitle>
+            <CardDescription>Pick a suggested duplicate or search for the other record</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {duplicates.length > 0 ? (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {duplicates.map((d) => patientOption(d.patient, d.reasons))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No likely duplicates found</p>
+            )}
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name or MRN..."
+                className="pl-9"
+              />
+            </div>
+            {searchResults.length > 0 && (
+              <div className="grid gap-2 sm:grid-cols-2">{searchResults.map((p) => patientOption(p))}</div>
+            )}
+          </CardContent>
+        </Card>
+
+        {other && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Choose surviving values</CardTitle>
+              <CardDescription>
+                The other record is moved to the trash once its records belong to the survivor.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Surviving patient</Label>
+                <RadioGroup value={survivor} onValueChange={(value) => setSurvivor(value as Side)} className="flex gap-6">
+                  {(["current", "other"] as Side[]).map((side) => (
+                    <div key={side} className="flex items-center space-x-2">
+                      <RadioGroupItem value={side} id={`survivor-${side}`} />
+                      <Label htmlFor={`survivor-${side}`} className="cursor-pointer">
+                        {patients[side]!.name}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32" />
+                    {(["current", "other"] as Side[]).map((side) => (
+                      <TableHead key={side}>
+                        {patients[side]!.name}
+                        {survivor === side && <Badge variant="secondary" className="ml-2">Survives</Badge>}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mergeablePatientFields.map(({ key, label }) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell colSpan={2} className="p-0">
+                        <RadioGroup
+                          value={choices[key] ?? survivor}
+                          onValueChange={(value) => setChoices({ ...choices, [key]: value as Side })}
+                          className="grid grid-cols-2 gap-0"
+                        >
+                          {(["current", "other"] as Side[]).map((side) => (
+                            <label key={side} className="flex items-start gap-2 p-4 cursor-pointer">
+                              <RadioGroupItem value={side} className="mt-0.5" />
+                              <span className={patients[side]![key] ? "" : "text-muted-foreground italic"}>
+                                {patients[side]![key] || "empty"}
+                              </span>
+                            </label>
+                          ))}
+                        </RadioGroup>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium">Records</TableCell>
+                    {(["current", "other"] as Side[]).map((side) => (
+                      <TableCell key={side} className="text-xs text-muted-foreground">
+                        {childTables.map(({ label }, i) => `${label}: ${counts[side]?.[i] ?? "…"}`).join(", ")}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              <div className="flex justify-end">
+                <Button onClick={() => setConfirmOpen(true)} disabled={mergeMutation.isPending}>
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  Merge Patients
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Merge these patients?</AlertDialogTitle>
+              <AlertDialogDescription>
+                All records of {duplicateName} will be moved to {patients[survivor]?.name}, and {duplicateName} will be moved to the trash.
+                This cannot be undone by restoring it.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={mergeMutation.isPending}>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={(e) => {
+                  e.preventDefault();
+                  mergeMutation.mutate();
+                }}
+                disabled={mergeMutation.isPending}
+              >
+                {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Merge
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,435 @@
+/**
+ * OperatingRoomSchedule Page
+ *
+ * Day/week timeline of a hospital's operating rooms: rooms as rows, time as
+ * columns, each surgery drawn from its scheduled date and duration.
+ *
+ * Features:
+ * - Day and week views with previous/next navigation
+ * - Surgeries that overlap in a room or double-book a patient, surgeon or
+ *   assistant are outlined
+ * - Drag a surgery to another time or room to reschedule it, with a hard
+ *   warning and a recorded reason before saving a move that creates a
+ *   conflict
+ * - Operating room management for the hospital
+ */
+
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { syncPatientKanbanWithSurgery } from "@/hooks/useSurgeryStatusSync";
+import { usePermissions } from "@/hooks/usePermissions";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { ManageOperatingRoomsDialog } from "@/components/calendar/ManageOperatingRoomsDialog";
+import { ConflictOverrideDialog } from "@/components/calendar/ConflictOverrideDialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { fetchOperatingRooms } from "@/lib/operatingRooms";
+import {
+  conflictLabels,
+  fetchSurgeryConflicts,
+  findScheduleConflicts,
+  saveSurgery,
+  scheduledSurgerySelect,
+  surgeryInterval,
+  type ScheduleConflict,
+  type ScheduledSurgery,
+} from "@/lib/scheduleConflicts";
+
+/** Hours shown on the timeline */
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 21;
+const VISIBLE_MINUTES = (DAY_END_HOUR - DAY_START_HOUR) * 60;
+
+/** Width of an hour in each view */
+const HOUR_WIDTH = { day: 96, week: 24 };
+
+/** Drops snap to this many minutes */
+const SNAP_MINUTES = 15;
+
+/** Row key for surgeries without a room */
+const UNASSIGNED = "unassigned";
+
+type TimelineView = "day" | "week";
+
+interface SurgeryMove {
+  surgery: ScheduledSurgery;
+  scheduledDate: string;
+  roomId: string | null;
+  /** Conflicts being overridden, and why */
+  conflicts?: ScheduleConflict[];
+  reason?: string;
+}
+
+const statusColors: Record<string, string> = {
+  scheduled: "bg-info/20 border-info",
+  pending: "bg-warning/20 border-warning",
+  in_progress: "bg-primary/20 border-primary",
+  completed: "bg-success/20 border-success",
+};
+
+export default function OperatingRoomSchedule() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canSchedule = can("surgeries.schedule");
+
+  const [selectedHospital, setSelectedHospital] = useState<string>("");
+  const [view, setView] = useState<TimelineView>("day");
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [pendingMove, setPendingMove] = useState<SurgeryMove | null>(null);
+  // Where the block was grabbed, so it lands where the pointer drops it
+  const grabOffset = useRef(0);
+
+  const days = useMemo(() => {
+    if (view === "day") return [startOfDay(anchorDate)];
+    const start = startOfWeek(anchorDate, { weekStartsOn: 1 });
+    return eachDayOfInterval({ start, end: addDays(start, 6) });
+  }, [view, anchorDate]);
+  const rangeStart = days[0];
+  const rangeEnd = endOfDay(days[days.length - 1]);
+
+  const minuteWidth = HOUR_WIDTH[view] / 60;
+  const dayWidth = VISIBLE_MINUTES * minuteWidth;
+
+  // Fetch hospitals, defaulting to the first one
+  const { data: hospitals = [] } = useQuery({
+    queryKey: ["hospitals-filter"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("hospitals").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+  const hospitalId = selectedHospital || hospitals[0]?.id || "";
+  const hospital = hospitals.find((h) => h.id === hospitalId);
+
+  const { data: rooms = [] } = useQuery({
+    queryKey: ["operating-rooms", hospitalId],
+    queryFn: () => fetchOperatingRooms(hospitalId),
+    enabled: !!hospitalId,
+  });
+
+  // Fetch the hospital's surgeries in the visible range
+  const { data: surgeries = [], isLoading } = useQuery({
+    queryKey: ["or-schedule", hospitalId, rangeStart.toISOString(), view],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("surgeries")
+        .select(scheduledSurgerySelect)
+        .eq("hospital_id", hospitalId)
+        .neq("status", "cancelled")
+        .gte("scheduled_date", rangeStart.toISOString())
+        .lte("scheduled_date", rangeEnd.toISOString())
+        .order("scheduled_date");
+      if (error) throw error;
+      return data as ScheduledSurgery[];
+    },
+    enabled: !!hospitalId,
+  });
+
+  const conflicts = useMemo(() => findScheduleConflicts(surgeries), [surgeries]);
+
+  // Active rooms, plus inactive ones that still hold surgeries in this range
+  const rows = useMemo(() => {
+    const used = new Set(surgeries.map((s) => s.operating_room_id ?? UNASSIGNED));
+    return [
+      ...rooms.filter((room) => room.active || used.has(room.id)).map((room) => ({ id: room.id, name: room.name })),
+      { id: UNASSIGNED, name: "No room" },
+    ];
+  }, [rooms, surgeries]);
+
+  // Save a surgery's new time and room, with the reason for any conflicts
+  const moveMutation = useMutation({
+    mutationFn: async ({ conflicts = [], reason, ...move }: SurgeryMove) => {
+      await saveSurgery(
+        move.surgery.id,
+        {
+          scheduled_date: move.scheduledDate,
+          operating_room_id: move.roomId,
+          ...(move.roomId ? {} : { operating_room: null }),
+        },
+        { reason, conflicts }
+      );
+
+      await syncPatientKanbanWithSurgery(move.surgery.patient_id);
+    },
+    onSuccess: (_data, move) => {
+      queryClient.invalidateQueries({ queryKey: ["or-schedule"] });
+      queryClient.invalidateQueries({ queryKey: ["calendar-surgeries"] });
+      queryClient.invalidateQueries({ queryKey: ["patient-surgeries", move.surgery.patient_id] });
+      queryClient.invalidateQueries({ queryKey: ["surgeries"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["kanban-cards"] });
+      toast.success(`Moved to ${format(new Date(move.scheduledDate), "EEE d MMM, HH:mm")}`);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to reschedule surgery: " + error.message);
+    },
+  });
+
+  /**
+   * Work out the dropped surgery's new start and room, then save it or ask
+   * for confirmation when it would clash with another surgery
+   */
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>, roomId: string) => {
+    e.preventDefault();
+    const surgery = surgeries.find((s) => s.id === e.dataTransfer.getData("text/plain"));
+    if (!surgery) return;
+
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left - grabOffset.current;
+    const dayIndex = Math.min(Math.max(Math.floor(x / dayWidth), 0), days.length - 1);
+    const minutes = Math.round((x - dayIndex * dayWidth) / minuteWidth / SNAP_MINUTES) * SNAP_MINUTES;
+    const start = addMinutes(days[dayIndex], DAY_START_HOUR * 60 + Math.min(Math.max(minutes, 0), VISIBLE_MINUTES - SNAP_MINUTES));
+
+    const move = {
+      surgery,
+      scheduledDate: start.toISOString(),
+      roomId: roomId === UNASSIGNED ? null : roomId,
+    };
+    if (move.scheduledDate === new Date(surgery.scheduled_date!).toISOString() && move.roomId === surgery.operating_room_id) {
+      return;
+    }
+
+    try {
+      const clashes = await fetchSurgeryConflicts({
+        ...surgery,
+        scheduled_date: move.scheduledDate,
+        operating_room_id: move.roomId,
+      });
+      if (clashes.length > 0) setPendingMove({ ...move, conflicts: clashes });
+      else moveMutation.mutate(move);
+    } catch (error) {
+      toast.error("Failed to check for conflicts: " + (error as Error).message);
+    }
+  };
+
+  /** Horizontal position and width of a surgery block, or null when off-screen */
+  const blockPosition = (surgery: ScheduledSurgery) => {
+    const interval = surgeryInterval(surgery);
+    if (!interval) return null;
+    const dayIndex = days.findIndex((day) => interval.start >= day && interval.start < addDays(day, 1));
+    if (dayIndex === -1) return null;
+
+    const dayStart = addMinutes(days[dayIndex], DAY_START_HOUR * 60);
+    const from = Math.max(differenceInMinutes(interval.start, dayStart), 0);
+    const to = Math.min(differenceInMinutes(interval.end, dayStart), VISIBLE_MINUTES);
+    if (to <= 0 || from >= VISIBLE_MINUTES) return null;
+    return { left: dayIndex * dayWidth + from * minuteWidth, width: Math.max((to - from) * minuteWidth, 6) };
+  };
+
+  const step = view === "day" ? 1 : 7;
+  const hours = Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, i) => DAY_START_HOUR + i);
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6">
+        {/* Page Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Operating Rooms</h1>
+            <p className="text-sm text-muted-foreground">
+              {view === "day"
+                ? format(rangeStart, "EEEE, MMMM d, yyyy")
+                : `${format(rangeStart, "MMM d")} – ${format(rangeEnd, "MMM d, yyyy")}`}
+            </p>
+          </div>
+          {hospital && <ManageOperatingRoomsDialog hospitalId={hospital.id} hospitalName={hospital.name} />}
+        </div>
+
+        {/* Controls */}
+        <Card>
+          <CardContent className="p-4 flex items-center gap-4 flex-wrap">
+            <Select value={hospitalId} onValueChange={setSelectedHospital}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Select hospital" />
+              </SelectTrigger>
+              <SelectContent>
+                {hospitals.map((h) => (
+                  <SelectItem key={h.id} value={h.id}>
+                    {h.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <ToggleGroup type="single" value={view} onValueChange={(value) => value && setView(value as TimelineView)}>
+              <ToggleGroupItem value="day">Day</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            </ToggleGroup>
+
+            <div className="flex items-center gap-1">
+              <Button variant="outline" size="icon" onClick={() => setAnchorDate(addDays(anchorDate, -step))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setAnchorDate(new Date())}>
+                Today
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setAnchorDate(addDays(anchorDate, step))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {conflicts.size > 0 && (
+              <span className="flex items-center gap-1 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {conflicts.size} surgeries with conflicts
+              </span>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Timeline */}
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            {!hospitalId ? (
+              <p className="text-muted-foreground text-center py-8">Add a hospital to schedule its rooms</p>
+            ) : isLoading ? (
+              <div className="animate-pulse h-40 m-4 bg-muted rounded" />
+            ) : (
+              <TooltipProvider>
+                <div style={{ width: 160 + dayWidth * days.length }}>
+                  {/* Time header */}
+                  <div className="flex border-b sticky top-0 bg-card">
+                    <div className="w-40 shrink-0 p-2 text-xs font-medium text-muted-foreground">Room</div>
+                    {days.map((day) => (
+                      <div key={day.toISOString()} className="border-l" style={{ width: dayWidth }}>
+                        {view === "week" && (
+                          <div className="px-2 py-1 text-xs font-medium border-b">{format(day, "EEE d")}</div>
+                        )}
+                        <div className="flex">
+                          {hours.map((hour) => (
+                            <div
+                              key={hour}
+                              className="text-[10px] text-muted-foreground px-1 py-1 border-l first:border-l-0"
+                              style={{ width: HOUR_WIDTH[view] }}
+                            >
+                              {view === "day" || hour % 3 === 0 ? `${hour}:00` : ""}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Room rows */}
+                  {rows.map((row) => (
+                    <div key={row.id} className="flex border-b last:border-b-0">
+                      <div className="w-40 shrink-0 p-2 text-sm font-medium truncate">{row.name}</div>
+                      <div
+                        className="relative h-14"
+                        style={{ width: dayWidth * days.length }}
+                        onDragOver={(e) => canSchedule && e.preventDefault()}
+                        onDrop={(e) => handleDrop(e, row.id)}
+                      >
+                        {/* Hour grid */}
+                        {days.map((day, d) =>
+                          hours.map((hour, h) => (
+                            <div
+                              key={`${d}-${hour}`}
+                              className={cn("absolute inset-y-0 border-l", h === 0 ? "border-border" : "border-border/40")}
+                              style={{ left: d * dayWidth + h * HOUR_WIDTH[view] }}
+                            />
+                          ))
+                        )}
+
+                        {surgeries
+                          .filter((s) => (s.operating_room_id ?? UNASSIGNED) === row.id)
+                          .map((surgery) => {
+                            const position = blockPosition(surgery);
+                            if (!position) return null;
+                            const clashes = conflicts.get(surgery.id) ?? [];
+                            const interval = surgeryInterval(surgery)!;
+                            return (
+                              <Tooltip key={surgery.id}>
+                                <TooltipTrigger asChild>
+                                  <div
+                                    draggable={canSchedule}
+                                    onDragStart={(e) => {
+                                      grabOffset.current = e.clientX - e.currentTarget.getBoundingClientRect().left;
+                                      e.dataTransfer.setData("text/plain", surgery.id);
+                                      e.dataTransfer.effectAllowed = "move";
+                                    }}
+                                    onClick={() => navigate(`/patient/${surgery.patient_id}`)}
+                                    className={cn(
+                                      "absolute top-1 bottom-1 rounded border-l-4 px-1 overflow-hidden text-xs cursor-pointer",
+                                      statusColors[surgery.status] || "bg-muted border-muted-foreground",
+                                      canSchedule && "cursor-grab",
+                                      clashes.length > 0 && "ring-2 ring-destructive"
+                                    )}
+                                    style={position}
+                                  >
+                                    <div className="font-medium truncate">{surgery.patient?.name}</div>
+                                    {view === "day" && <div className="truncate">{surgery.procedure_name}</div>}
+                                  </div>
+                                </TooltipTrigger>
+                                <TooltipContent className="max-w-xs">
+                                  <p className="font-medium">{surgery.procedure_name}</p>
+                                  <p className="text-xs">
+                                    {surgery.patient?.name} · {format(interval.start, "HH:mm")}–{format(interval.end, "HH:mm")}
+                                  </p>
+                                  {surgery.main_surgeon && <p className="text-xs">{surgery.main_surgeon}</p>}
+                                  {clashes.map((clash) => (
+                                    <p key={`${clash.kind}-${clash.surgery.id}`} className="text-xs text-destructive">
+                                      {conflictLabels[clash.kind]}: {clash.surgery.procedure_name}
+                                      {clash.surgery.patient && ` (${clash.surgery.patient.name})`}
+                                    </p>
+                                  ))}
+                                </TooltipContent>
+                              </Tooltip>
+                            );
+                          })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </TooltipProvider>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Conflict warning before saving a clashing move */}
+      <ConflictOverrideDialog
+        change={
+          pendingMove &&
+          `Moving ${pendingMove.surgery.procedure_name} to ${format(new Date(pendingMove.scheduledDate), "EEE d MMM, HH:mm")}`
+        }
+        conflicts={pendingMove?.conflicts ?? []}
+        onCancel={() => setPendingMove(null)}
+        onConfirm={(reason) => {
+          if (pendingMove) moveMutation.mutate({ ...pendingMove, reason });
+          setPendingMove(null);
+        }}
+      />
+    </AppLayout>
+  );
+}
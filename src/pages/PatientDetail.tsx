@@ -1,28 +1,34 @@
 import { useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, User, Calendar, Phone, Mail, MapPin, FileText, Stethoscope, MessageSquare, Paperclip, Activity, Plus, Edit } from "lucide-react";
+import { ArrowLeft, User, Calendar, Phone, Mail, MapPin, FileText, Stethoscope, MessageSquare, Paperclip, Activity, Plus, Edit, History, GitMerge, Download, Loader2 } from "lucide-react";
 import { format } from "date-fns";
+import { toast } from "sonner";
 import { PatientEpisodes } from "@/components/patient/PatientEpisodes";
 import { PatientSurgeries } from "@/components/patient/PatientSurgeries";
 import { PatientConsultations } from "@/components/patient/PatientConsultations";
 import { PatientComments } from "@/components/patient/PatientComments";
 import { PatientAttachments } from "@/components/patient/PatientAttachments";
+import { PatientHistory } from "@/components/patient/PatientHistory";
 import { AddEpisodeDialog } from "@/components/patient/AddEpisodeDialog";
 import { AddConsultationDialog } from "@/components/patient/AddConsultationDialog";
 import { AddSurgeryDialog } from "@/components/patient/AddSurgeryDialog";
 import { EditPatientDialog } from "@/components/patient/EditPatientDialog";
+import { usePermissions } from "@/hooks/usePermissions";
+import { exportPatientFhir } from "@/lib/fhir";
+import { downloadFile } from "@/lib/kanbanExport";
 
 export default function PatientDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [editPatientOpen, setEditPatientOpen] = useState(false);
+  const { can } = usePermissions();
 
   const { data: patient, isLoading } = useQuery({
     queryKey: ["patient", id],
@@ -38,6 +44,19 @@ export default function PatientDetail() {
     enabled: !!id,
   });
 
+  // Export the patient's record as a validated FHIR R4 Bundle
+  const fhirExportMutation = useMutation({
+    mutationFn: () => exportPatientFhir(id!),
+    onSuccess: (bundle) => {
+      const fileName = (patient?.medical_record_number || patient?.name || "patient").replace(/[^\w-]+/g, "_");
+      downloadFile(JSON.stringify(bundle, null, 2), `${fileName}-fhir.json`, "application/fhir+json");
+      toast.success("FHIR bundle exported");
+    },
+    onError: (error) => {
+      toast.error("Failed to export FHIR bundle: " + error.message);
+    },
+  });
+
   if (isLoading) {
     return (
       <AppLayout>
@@ -97,10 +116,35 @@ export default function PatientDetail() {
                   </div>
                 </div>
               </div>
-              <Button variant="outline" size="sm" onClick={() => setEditPatientOpen(true)}>
-                <Edit className="h-4 w-4 mr-2" />
-                Edit Patient
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fhirExportMutation.mutate()}
+                  disabled={fhirExportMutation.isPending}
+                >
+                  {fhirExportMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="h-4 w-4 mr-2" />
+                  )}
+                  Export FHIR
+                </Button>
+                {can("patients.edit") && can("patients.delete") && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link to={`/patient/${patient.id}/merge`}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge Duplicate
+                    </Link>
+                  </Button>
+                )}
+                {can("patients.edit") && (
+                  <Button variant="outline" size="sm" onClick={() => setEditPatientOpen(true)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit Patient
+                  </Button>
+                )}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -140,7 +184,7 @@ export default function PatientDetail() {
 
         {/* Tabs Section */}
         <Tabs defaultValue="episodes" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
             <TabsTrigger value="episodes" className="gap-2">
               <Activity className="h-4 w-4" />
               <span className="hidden sm:inline">Episodes</span>
@@ -161,13 +205,19 @@ export default function PatientDetail() {
               <Paperclip className="h-4 w-4" />
               <span className="hidden sm:inline">Attachments</span>
             </TabsTrigger>
+            <TabsTrigger value="history" className="gap-2">
+              <History className="h-4 w-4" />
+              <span className="hidden sm:inline">History</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="episodes">
             <div className="space-y-4">
-              <div className="flex justify-end">
-                <AddEpisodeDialog patientId={patient.id} />
-              </div>
+              {can("records.edit") && (
+                <div className="flex justify-end">
+                  <AddEpisodeDialog patientId={patient.id} />
+                </div>
+              )}
               <PatientEpisodes patientId={patient.id} />
             </div>
           </TabsContent>
@@ -178,9 +228,11 @@ export default function PatientDetail() {
 
           <TabsContent value="consultations">
             <div className="space-y-4">
-              <div className="flex justify-end">
-                <AddConsultationDialog patientId={patient.id} />
-              </div>
+              {can("records.edit") && (
+                <div className="flex justify-end">
+                  <AddConsultationDialog patientId={patient.id} />
+                </div>
+              )}
               <PatientConsultations patientId={patient.id} />
             </div>
           </TabsContent>
@@ -192,6 +244,10 @@ export default function PatientDetail() {
           <TabsContent value="attachments">
             <PatientAttachments patientId={patient.id} />
           </TabsContent>
+
+          <TabsContent value="history">
+            <PatientHistory patientId={patient.id} />
+          </TabsContent>
         </Tabs>
 
         {/* Edit Patient Dialog */}
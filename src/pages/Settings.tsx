@@ -4,7 +4,12 @@
  * Allows users to configure application preferences including:
  * - Language (English/Portuguese)
  * - Theme (Light/Dark mode)
+ * - Team membership
+ * - Calendar exports (patient naming and reminders)
+ * - Calendar subscription link for surgeries
+ * - Trash (restore or purge deleted records)
  * - Import Kanban boards from JSON
+ * - Import patients and surgeries from CSV/XLSX spreadsheets
  */
 
 import { AppLayout } from "@/components/layout/AppLayout";
@@ -12,11 +17,34 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useSettings } from "@/contexts/SettingsContext";
-import { Globe, Moon, Sun } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarDays, Globe, Moon, Sun, Trash2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { ImportKanban } from "@/components/settings/ImportKanban";
+import { ImportPatients } from "@/components/settings/ImportPatients";
+import { TeamSettings } from "@/components/settings/TeamSettings";
+import { CalendarFeedSettings } from "@/components/settings/CalendarFeedSettings";
+import { calendarPrivacyLabels, calendarReminderOptions, type CalendarPrivacy } from "@/lib/ics";
 
 export default function Settings() {
-  const { language, setLanguage, theme, setTheme, t } = useSettings();
+  const {
+    language,
+    setLanguage,
+    theme,
+    setTheme,
+    calendarPrivacy,
+    setCalendarPrivacy,
+    calendarReminderMinutes,
+    setCalendarReminderMinutes,
+    t,
+  } = useSettings();
 
   return (
     <AppLayout>
@@ -92,8 +120,82 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Teams */}
+        <TeamSettings />
+
+        {/* Calendar Exports */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Calendar Exports</CardTitle>
+            </div>
+            <CardDescription>
+              {language === "en"
+                ? "How patients are named in surgeries added to Apple or Google Calendar, and when to be reminded"
+                : "Como os doentes aparecem nas cirurgias adicionadas ao Apple ou Google Calendar, e quando ser lembrado"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RadioGroup value={calendarPrivacy} onValueChange={(value) => setCalendarPrivacy(value as CalendarPrivacy)}>
+              {(Object.keys(calendarPrivacyLabels) as CalendarPrivacy[]).map((privacy) => (
+                <div key={privacy} className="flex items-center space-x-2">
+                  <RadioGroupItem value={privacy} id={`calendar-privacy-${privacy}`} />
+                  <Label htmlFor={`calendar-privacy-${privacy}`} className="cursor-pointer">
+                    {calendarPrivacyLabels[privacy]}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <div className="space-y-2">
+              <Label>Reminder</Label>
+              <Select
+                value={String(calendarReminderMinutes)}
+                onValueChange={(value) => setCalendarReminderMinutes(Number(value))}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {calendarReminderOptions.map((option) => (
+                    <SelectItem key={option.minutes} value={String(option.minutes)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Calendar Subscription */}
+        <CalendarFeedSettings />
+
+        {/* Trash */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Trash</CardTitle>
+            </div>
+            <CardDescription>
+              {language === "en"
+                ? "Restore deleted patients, records and boards"
+                : "Restaurar doentes, registos e quadros eliminados"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" asChild>
+              <Link to="/settings/trash">Open Trash</Link>
+            </Button>
+          </CardContent>
+        </Card>
+
         {/* Import Kanban */}
         <ImportKanban />
+
+        {/* Import Patients */}
+        <ImportPatients />
       </div>
     </AppLayout>
   );
@@ -0,0 +1,265 @@
+/**
+ * Trash Page
+ *
+ * Lists soft-deleted patients, clinical records and boards.
+ * Items can be restored at any time, and permanently purged once
+ * their retention period has passed.
+ */
+
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react";
+import { format, isPast } from "date-fns";
+import { toast } from "sonner";
+import {
+  purgeFromTrash,
+  restoreFromTrash,
+  trashTableLabels,
+  type TrashTable,
+} from "@/lib/trash";
+
+interface TrashItem {
+  table_name: string;
+  record_id: string;
+  label: string;
+  patient_id: string | null;
+  patient_name: string | null;
+  deleted_at: string;
+  purge_after: string;
+}
+
+export default function Trash() {
+  const queryClient = useQueryClient();
+  const [purgeItem, setPurgeItem] = useState<TrashItem | null>(null);
+  const [purgeExpiredOpen, setPurgeExpiredOpen] = useState(false);
+
+  /** Fetch everything in the trash the user may manage */
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: ["trash"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("list_trash");
+      if (error) throw error;
+      return data as TrashItem[];
+    },
+  });
+
+  const expiredItems = items.filter((item) => isPast(new Date(item.purge_after)));
+
+  /** Refresh the trash and every list that may now show the restored record */
+  const invalidateAll = () => {
+    queryClient.invalidateQueries();
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => restoreFromTrash(item.table_name as TrashTable, item.record_id),
+    onSuccess: () => {
+      invalidateAll();
+      toast.success("Item restored");
+    },
+    onError: (error) => {
+      toast.error("Failed to restore: " + error.message);
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => purgeFromTrash(item.table_name as TrashTable, item.record_id),
+    onSuccess: () => {
+      invalidateAll();
+      setPurgeItem(null);
+      toast.success("Item permanently deleted");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete permanently: " + error.message);
+    },
+  });
+
+  const purgeExpiredMutation = useMutation({
+    mutationFn: async () => {
+      for (const item of expiredItems) {
+        await purgeFromTrash(item.table_name as TrashTable, item.record_id);
+      }
+    },
+    onSuccess: () => {
+      invalidateAll();
+      setPurgeExpiredOpen(false);
+      toast.success("Expired items permanently deleted");
+    },
+    onError: (error) => {
+      invalidateAll();
+      toast.error("Failed to purge expired items: " + error.message);
+    },
+  });
+
+  return (
+    <AppLayout>
+      <div className="p-6 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+              <Link to="/settings">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Settings
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold text-foreground">Trash</h1>
+            <p className="text-sm text-muted-foreground">
+              Deleted items can be restored, or permanently deleted once their retention period has passed
+            </p>
+          </div>
+          <Button
+            variant="destructive"
+            onClick={() => setPurgeExpiredOpen(true)}
+            disabled={expiredItems.length === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Purge Expired ({expiredItems.length})
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-table-header">
+                  <TableHead>Type</TableHead>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Patient</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purge Available</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      Trash is empty
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  items.map((item) => {
+                    const canPurge = isPast(new Date(item.purge_after));
+                    return (
+                      <TableRow key={`${item.table_name}-${item.record_id}`}>
+                        <TableCell>
+                          <Badge variant="outline">
+                            {trashTableLabels[item.table_name as TrashTable] ?? item.table_name}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="font-medium max-w-xs truncate">{item.label}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {item.table_name === "patients" ? "—" : item.patient_name || "—"}
+                        </TableCell>
+                        <TableCell>{format(new Date(item.deleted_at), "dd MMM yyyy, HH:mm")}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {canPurge ? "Now" : format(new Date(item.purge_after), "dd MMM yyyy")}
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => restoreMutation.mutate(item)}
+                            disabled={restoreMutation.isPending}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Restore
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive"
+                            onClick={() => setPurgeItem(item)}
+                            disabled={!canPurge}
+                          >
+                            <Trash2 className="h-3 w-3 mr-1" />
+                            Delete Permanently
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Purge Item Confirmation */}
+      <AlertDialog open={!!purgeItem} onOpenChange={() => setPurgeItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeItem?.table_name === "patients"
+                ? `This will permanently delete ${purgeItem?.label} and all associated records and files.`
+                : `This will permanently delete "${purgeItem?.label}".`}{" "}
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeItem && purgeMutation.mutate(purgeItem)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Purge Expired Confirmation */}
+      <AlertDialog open={purgeExpiredOpen} onOpenChange={setPurgeExpiredOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Purge Expired Items?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {expiredItems.length} item(s) whose retention period has passed.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeExpiredMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Purge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * iCalendar feed builder for the surgery-calendar edge function
+ *
+ * Every surgery keeps the same UID for its whole life, so calendars update
+ * the existing event when it changes; SEQUENCE tells them which version is
+ * newer. Cancelled and deleted surgeries stay in the feed as
+ * STATUS:CANCELLED so subscribers drop them.
+ *
+ * Times are in UTC, which every calendar shows in its own zone. Patients
+ * are named by initials unless the feed URL asks for the name or MRN.
+ *
+ * The app's own .ics export lives in src/lib/ics.ts; edge functions can't
+ * import from src, so the text helpers are kept in step by hand.
+ */
+
+export interface FeedSurgery {
+  id: string;
+  procedure_name: string;
+  scheduled_date: string;
+  duration_minutes: number | null;
+  status: string;
+  main_surgeon: string | null;
+  assistants: string[] | null;
+  operating_room: string | null;
+  hospital_name: string | null;
+  patient_name: string;
+  medical_record_number: string | null;
+  ics_sequence: number;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/** How patients are named in events */
+export type FeedPrivacy = "name" | "initials" | "mrn";
+
+export interface FeedOptions {
+  name: string;
+  privacy: FeedPrivacy;
+  /** Reminder in minutes before the start; 0 for none */
+  alarmMinutes: number;
+}
+
+/** Length assumed for surgeries without a duration, as in the app */
+const DEFAULT_SURGERY_MINUTES = 60;
+
+/** Same UID as the app's single-event .ics download, so the two don't duplicate */
+export const surgeryUid = (id: string) => `surgery-${id}@gesdoente`;
+
+const eventStatus: Record<string, string> = {
+  pending: "TENTATIVE",
+  cancelled: "CANCELLED",
+};
+
+export function escapeText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets without splitting multi-byte characters */
+export function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+/** UTC date-time, e.g. 20260302T083000Z */
+export function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** "Ana Maria Silva" → "A.M.S."; MRN falls back to initials when missing */
+export function patientLabel(surgery: FeedSurgery, privacy: FeedPrivacy) {
+  if (privacy === "name") return surgery.patient_name;
+  if (privacy === "mrn" && surgery.medical_record_number) return `MRN ${surgery.medical_record_number}`;
+  return surgery.patient_name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `${word[0].toUpperCase()}.`)
+    .join("");
+}
+
+function buildEvent(surgery: FeedSurgery, options: FeedOptions, now: Date) {
+  const start = new Date(surgery.scheduled_date);
+  const end = new Date(start.getTime() + (surgery.duration_minutes || DEFAULT_SURGERY_MINUTES) * 60_000);
+  const cancelled = surgery.status === "cancelled" || !!surgery.deleted_at;
+
+  const patient = patientLabel(surgery, options.privacy);
+  const summary = `${surgery.procedure_name} - ${patient}`;
+
+  const description = [
+    `Patient: ${patient}`,
+    options.privacy === "name" && surgery.medical_record_number && `MRN: ${surgery.medical_record_number}`,
+    surgery.main_surgeon && `Surgeon: ${surgery.main_surgeon}`,
+    surgery.assistants?.length && `Assistants: ${surgery.assistants.join(", ")}`,
+  ].filter(Boolean);
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${surgeryUid(surgery.id)}`,
+    `SEQUENCE:${surgery.ics_sequence}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `LAST-MODIFIED:${formatUtc(new Date(surgery.updated_at))}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description.join("\n"))}`,
+  ];
+  const location = [surgery.hospital_name, surgery.operating_room].filter(Boolean).join(", ");
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  lines.push(`STATUS:${cancelled ? "CANCELLED" : eventStatus[surgery.status] ?? "CONFIRMED"}`);
+  if (!cancelled && options.alarmMinutes > 0) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(summary)}`,
+      `TRIGGER:-PT${options.alarmMinutes}M`,
+      "END:VALARM",
+    );
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildSurgeryCalendar(surgeries: FeedSurgery[], options: FeedOptions) {
+  const now = new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//GesDoente//Surgery Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...surgeries.flatMap((surgery) => buildEvent(surgery, options, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,92 @@
+/**
+ * surgery-calendar Edge Function
+ *
+ * Serves a subscribable iCalendar feed of surgeries. Calendar apps can't
+ * sign in, so the feed is protected by the user's secret token instead of
+ * a JWT (verify_jwt is off for this function) and only lists surgeries that
+ * user can access.
+ *
+ * Query parameters:
+ * - token: the user's calendar token (required)
+ * - surgeon: main surgeon or assistant name
+ * - hospital, room, board: hospital, operating room or kanban board id
+ * - privacy: name, initials (default) or mrn, for how patients are named
+ * - alarm: reminder in minutes before each surgery
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildSurgeryCalendar, type FeedPrivacy, type FeedSurgery } from "./ics.ts";
+
+const PRIVACY_MODES: FeedPrivacy[] = ["name", "initials", "mrn"];
+
+/** Longest reminder accepted, one week */
+const MAX_ALARM_MINUTES = 7 * 24 * 60;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Postgres error raised for an unknown token */
+const INVALID_TOKEN = "28000";
+
+/**
+ * Errors the feed can expect, as shown to the calendar app. Anything else
+ * gets a generic 500; the details only go to the function's log.
+ */
+const KNOWN_ERRORS: { match: (error: { code?: string; message: string }) => boolean; body: string; status: number }[] = [
+  { match: (error) => error.message === "Board not found", body: "Board not found", status: 404 },
+  // invalid_text_representation, invalid_parameter_value
+  { match: (error) => error.code === "22P02" || error.code === "22023", body: "Invalid feed parameters", status: 400 },
+];
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+
+Deno.serve(async (req) => {
+  const params = new URL(req.url).searchParams;
+  const token = params.get("token");
+  if (!token) return textResponse("Missing calendar token", 401);
+
+  const ids: Record<string, string | null> = {
+    hospital: params.get("hospital"),
+    room: params.get("room"),
+    board: params.get("board"),
+  };
+  const invalid = Object.entries(ids).find(([, id]) => id && !UUID_PATTERN.test(id));
+  if (invalid) return textResponse(`Invalid ${invalid[0]} id`, 400);
+
+  const privacy = (params.get("privacy") || "initials") as FeedPrivacy;
+  if (!PRIVACY_MODES.includes(privacy)) return textResponse("Invalid privacy mode", 400);
+
+  const alarmMinutes = Number(params.get("alarm") || 0);
+  if (!Number.isInteger(alarmMinutes) || alarmMinutes < 0 || alarmMinutes > MAX_ALARM_MINUTES) {
+    return textResponse("Invalid alarm minutes", 400);
+  }
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data, error } = await supabase.rpc("calendar_feed_surgeries", {
+    _token: token,
+    _surgeon: params.get("surgeon")?.trim() || null,
+    _hospital_id: ids.hospital,
+    _operating_room_id: ids.room,
+    _board_id: ids.board,
+  });
+
+  if (error) {
+    if (error.code === INVALID_TOKEN) return textResponse("Invalid calendar token", 401);
+    console.error("Failed to build surgery calendar:", error);
+    const known = KNOWN_ERRORS.find(({ match }) => match(error));
+    return known ? textResponse(known.body, known.status) : textResponse("Failed to build the calendar", 500);
+  }
+
+  const name = params.get("name")?.trim() || "Surgeries";
+  return new Response(buildSurgeryCalendar(data as FeedSurgery[], { name, privacy, alarmMinutes }), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="surgeries.ics"',
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * sync-overdue-surgeries Edge Function
+ *
+ * Runs the sync_overdue_surgeries() database function with the service role.
+ * Used where pg_cron is not available: schedule an HTTP call to this function
+ * (or run `npm run cron:overdue-surgeries` locally as a cron stand-in).
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+  );
+
+  const { data, error } = await supabase.rpc("sync_overdue_surgeries");
+
+  if (error) {
+    console.error("Failed to sync overdue surgeries:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify({ moved: data }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,388 @@
+-- Authentication, teams and per-user Row Level Security
+-- Replaces the temporary "Allow all access" policies with policies scoped to the
+-- teams (and the hospitals of those teams) a user belongs to.
+
+-- Profiles mirror auth.users so we can show names and join on members
+CREATE TABLE public.profiles (
+  id uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text,
+  email text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Teams group users, optionally within a hospital
+CREATE TABLE public.teams (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  hospital_id uuid REFERENCES public.hospitals(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.team_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX idx_team_members_user_id ON public.team_members(user_id);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON public.profiles FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON public.teams FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Membership helpers (SECURITY DEFINER so policies can call them without recursion)
+CREATE OR REPLACE FUNCTION public.is_team_member(_user_id uuid, _team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.team_members
+    WHERE user_id = _user_id AND team_id = _team_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_hospital_ids(_user_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT t.hospital_id
+  FROM public.teams t
+  JOIN public.team_members m ON m.team_id = t.id
+  WHERE m.user_id = _user_id AND t.hospital_id IS NOT NULL
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_team(_user_id uuid, _other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.team_members a
+    JOIN public.team_members b ON b.team_id = a.team_id
+    WHERE a.user_id = _user_id AND b.user_id = _other_user_id
+  )
+$$;
+
+-- Team used as default owner for new patients and boards
+CREATE OR REPLACE FUNCTION public.current_team_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team_id FROM public.team_members
+  WHERE user_id = auth.uid()
+  ORDER BY created_at
+  LIMIT 1
+$$;
+
+-- Owning team for patients and boards
+ALTER TABLE public.patients
+  ADD COLUMN team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL DEFAULT public.current_team_id();
+
+ALTER TABLE public.kanban_boards
+  ADD COLUMN team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL DEFAULT public.current_team_id();
+
+CREATE INDEX idx_patients_team_id ON public.patients(team_id);
+CREATE INDEX idx_kanban_boards_team_id ON public.kanban_boards(team_id);
+
+CREATE OR REPLACE FUNCTION public.can_access_board(_user_id uuid, _board_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.kanban_boards b
+    WHERE b.id = _board_id
+      AND (
+        public.is_team_member(_user_id, b.team_id)
+        OR b.hospital_id IN (SELECT public.user_hospital_ids(_user_id))
+      )
+  )
+$$;
+
+-- A patient is reachable through a hospital of the user's teams when one of their
+-- surgeries or episodes takes place there, or they sit on a board the user can access
+CREATE OR REPLACE FUNCTION public.patient_in_user_hospitals(_user_id uuid, _patient_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    EXISTS (
+      SELECT 1 FROM public.surgeries s
+      WHERE s.patient_id = _patient_id
+        AND s.hospital_id IN (SELECT public.user_hospital_ids(_user_id))
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.episodes e
+      WHERE e.patient_id = _patient_id
+        AND e.hospital_id IN (SELECT public.user_hospital_ids(_user_id))
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.kanban_cards c
+      WHERE c.patient_id = _patient_id
+        AND public.can_access_board(_user_id, c.board_id)
+    )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_patient(_user_id uuid, _patient_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.patients p
+    WHERE p.id = _patient_id
+      AND (
+        public.is_team_member(_user_id, p.team_id)
+        OR public.patient_in_user_hospitals(_user_id, p.id)
+      )
+  )
+$$;
+
+-- Create a profile for every new auth user.
+-- The very first user is bootstrapped into the default team created below.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _default_team uuid;
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email), NEW.email);
+
+  SELECT id INTO _default_team FROM public.teams WHERE name = 'Default Team' ORDER BY created_at LIMIT 1;
+  IF _default_team IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.team_members WHERE team_id = _default_team) THEN
+    INSERT INTO public.team_members (team_id, user_id) VALUES (_default_team, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- The creator of a team becomes its first member
+CREATE OR REPLACE FUNCTION public.handle_new_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO public.team_members (team_id, user_id)
+    VALUES (NEW.id, NEW.created_by)
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_team_created
+  AFTER INSERT ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_team();
+
+-- Add an existing user to a team by e-mail (caller must already be a member)
+CREATE OR REPLACE FUNCTION public.add_team_member_by_email(_team_id uuid, _email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF NOT public.is_team_member(auth.uid(), _team_id) THEN
+    RAISE EXCEPTION 'Only team members can add members';
+  END IF;
+
+  SELECT id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with e-mail %', _email;
+  END IF;
+
+  INSERT INTO public.team_members (team_id, user_id)
+  VALUES (_team_id, _user_id)
+  ON CONFLICT (team_id, user_id) DO NOTHING;
+
+  RETURN _user_id;
+END;
+$$;
+
+-- Existing records are assigned to a default team so they are not orphaned
+INSERT INTO public.teams (name, created_by) VALUES ('Default Team', NULL);
+UPDATE public.patients SET team_id = (SELECT id FROM public.teams WHERE name = 'Default Team') WHERE team_id IS NULL;
+UPDATE public.kanban_boards SET team_id = (SELECT id FROM public.teams WHERE name = 'Default Team') WHERE team_id IS NULL;
+
+-- Remove temporary permissive policies
+DROP POLICY "Allow all access to patients" ON public.patients;
+DROP POLICY "Allow all access to episodes" ON public.episodes;
+DROP POLICY "Allow all access to surgeries" ON public.surgeries;
+DROP POLICY "Allow all access to consultations" ON public.consultations;
+DROP POLICY "Allow all access to attachments" ON public.attachments;
+DROP POLICY "Allow all access to kanban_boards" ON public.kanban_boards;
+DROP POLICY "Allow all access to kanban_cards" ON public.kanban_cards;
+DROP POLICY "Allow all access to hospitals" ON public.hospitals;
+DROP POLICY "Allow all access to comments" ON public.comments;
+
+-- Profiles
+CREATE POLICY "Users can view own and teammates profiles" ON public.profiles
+  FOR SELECT TO authenticated
+  USING (id = auth.uid() OR public.shares_team(auth.uid(), id));
+CREATE POLICY "Users can update own profile" ON public.profiles
+  FOR UPDATE TO authenticated
+  USING (id = auth.uid()) WITH CHECK (id = auth.uid());
+
+-- Teams
+CREATE POLICY "Members can view their teams" ON public.teams
+  FOR SELECT TO authenticated
+  USING (public.is_team_member(auth.uid(), id) OR created_by = auth.uid());
+CREATE POLICY "Users can create teams" ON public.teams
+  FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid());
+CREATE POLICY "Members can update their teams" ON public.teams
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), id))
+  WITH CHECK (public.is_team_member(auth.uid(), id));
+
+-- Team members
+CREATE POLICY "Members can view team membership" ON public.team_members
+  FOR SELECT TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id));
+CREATE POLICY "Members can add team members" ON public.team_members
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id));
+CREATE POLICY "Members can remove team members" ON public.team_members
+  FOR DELETE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id));
+
+-- Hospitals are shared reference data for signed-in users
+CREATE POLICY "Authenticated users can view hospitals" ON public.hospitals
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated users can add hospitals" ON public.hospitals
+  FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update hospitals" ON public.hospitals
+  FOR UPDATE TO authenticated USING (true) WITH CHECK (true);
+
+-- Patients (checked on the row itself so INSERT ... RETURNING works)
+CREATE POLICY "Team members can view patients" ON public.patients
+  FOR SELECT TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id));
+CREATE POLICY "Team members can add patients" ON public.patients
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id));
+CREATE POLICY "Team members can update patients" ON public.patients
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id))
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id));
+CREATE POLICY "Team members can delete patients" ON public.patients
+  FOR DELETE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id));
+
+-- Clinical records follow the access rules of their patient
+CREATE POLICY "Team members can access episodes" ON public.episodes
+  FOR ALL TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Team members can access surgeries" ON public.surgeries
+  FOR ALL TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Team members can access consultations" ON public.consultations
+  FOR ALL TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Team members can access attachments" ON public.attachments
+  FOR ALL TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Team members can access comments" ON public.comments
+  FOR ALL TO authenticated
+  USING (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id))
+  WITH CHECK (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+-- Kanban boards and cards
+CREATE POLICY "Team members can view boards" ON public.kanban_boards
+  FOR SELECT TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())));
+CREATE POLICY "Team members can add boards" ON public.kanban_boards
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id));
+CREATE POLICY "Team members can update boards" ON public.kanban_boards
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())))
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())));
+CREATE POLICY "Team members can delete boards" ON public.kanban_boards
+  FOR DELETE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())));
+
+CREATE POLICY "Team members can access kanban cards" ON public.kanban_cards
+  FOR ALL TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id))
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.can_access_patient(auth.uid(), patient_id));
+
+-- Attachments bucket becomes private; files live under "<patient_id>/..."
+UPDATE storage.buckets SET public = false WHERE id = 'patient-attachments';
+
+DROP POLICY "Public read access for attachments" ON storage.objects;
+DROP POLICY "Allow insert for attachments" ON storage.objects;
+DROP POLICY "Allow delete for attachments" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION public.storage_patient_id(_name text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN split_part(_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(_name, '/', 1)::uuid
+  END
+$$;
+
+CREATE POLICY "Team members can read patient files" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'patient-attachments' AND public.can_access_patient(auth.uid(), public.storage_patient_id(name)));
+CREATE POLICY "Team members can upload patient files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'patient-attachments' AND public.can_access_patient(auth.uid(), public.storage_patient_id(name)));
+CREATE POLICY "Team members can delete patient files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'patient-attachments' AND public.can_access_patient(auth.uid(), public.storage_patient_id(name)));
+
+-- Attachments now store the storage path instead of a public URL
+UPDATE public.attachments
+SET file_url = substring(file_url FROM '/object/public/patient-attachments/(.*)$')
+WHERE file_url LIKE '%/object/public/patient-attachments/%';
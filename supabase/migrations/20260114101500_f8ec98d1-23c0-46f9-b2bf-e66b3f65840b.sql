@@ -0,0 +1,396 @@
+-- Role-based permissions
+-- Every user has one role; a permission matrix maps roles to the actions they may
+-- perform. Policies below combine patient/board access with the matching permission.
+
+CREATE TYPE public.app_role AS ENUM ('surgeon', 'resident', 'nurse', 'secretary', 'read_only');
+
+CREATE TABLE public.user_roles (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL DEFAULT 'read_only',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.role_permissions (
+  role public.app_role NOT NULL,
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_roles_updated_at BEFORE UPDATE ON public.user_roles FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Permission matrix
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('surgeon', 'patients.create'),
+  ('surgeon', 'patients.edit'),
+  ('surgeon', 'patients.delete'),
+  ('surgeon', 'surgeries.schedule'),
+  ('surgeon', 'surgeries.edit_clinical'),
+  ('surgeon', 'surgeries.delete'),
+  ('surgeon', 'records.edit'),
+  ('surgeon', 'attachments.upload'),
+  ('surgeon', 'attachments.delete'),
+  ('surgeon', 'comments.create'),
+  ('surgeon', 'kanban.edit_cards'),
+  ('surgeon', 'boards.manage'),
+  ('surgeon', 'boards.delete'),
+  ('surgeon', 'hospitals.manage'),
+  ('surgeon', 'teams.manage'),
+
+  ('resident', 'patients.create'),
+  ('resident', 'patients.edit'),
+  ('resident', 'surgeries.schedule'),
+  ('resident', 'surgeries.edit_clinical'),
+  ('resident', 'records.edit'),
+  ('resident', 'attachments.upload'),
+  ('resident', 'comments.create'),
+  ('resident', 'kanban.edit_cards'),
+  ('resident', 'boards.manage'),
+
+  ('nurse', 'patients.edit'),
+  ('nurse', 'records.edit'),
+  ('nurse', 'attachments.upload'),
+  ('nurse', 'comments.create'),
+  ('nurse', 'kanban.edit_cards'),
+
+  ('secretary', 'patients.create'),
+  ('secretary', 'patients.edit'),
+  ('secretary', 'surgeries.schedule'),
+  ('secretary', 'attachments.upload'),
+  ('secretary', 'comments.create'),
+  ('secretary', 'kanban.edit_cards'),
+  ('secretary', 'hospitals.manage');
+
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id uuid)
+RETURNS public.app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.user_roles WHERE user_id = _user_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id uuid, _permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id AND rp.permission = _permission
+  )
+$$;
+
+-- Existing users keep full access; the bootstrap user becomes a surgeon too
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'surgeon' FROM public.profiles
+ON CONFLICT (user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _default_team uuid;
+  _bootstrap boolean := false;
+BEGIN
+  INSERT INTO public.profiles (id, full_name, email)
+  VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email), NEW.email);
+
+  SELECT id INTO _default_team FROM public.teams WHERE name = 'Default Team' ORDER BY created_at LIMIT 1;
+  IF _default_team IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.team_members WHERE team_id = _default_team) THEN
+    INSERT INTO public.team_members (team_id, user_id) VALUES (_default_team, NEW.id);
+    _bootstrap := true;
+  END IF;
+
+  -- New accounts are read-only until a team member with teams.manage assigns a role
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, CASE WHEN _bootstrap THEN 'surgeon'::public.app_role ELSE 'read_only'::public.app_role END);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Clinical content of a surgery can only be changed with surgeries.edit_clinical,
+-- scheduling details only with surgeries.schedule. Server-side jobs (no auth.uid()) are exempt.
+CREATE OR REPLACE FUNCTION public.enforce_surgery_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.structured_description IS NOT NULL)
+     OR (TG_OP = 'UPDATE' AND NEW.structured_description IS DISTINCT FROM OLD.structured_description) THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.edit_clinical') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.edit_clinical is required to edit the surgery description';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR NEW.operating_room IS DISTINCT FROM OLD.operating_room
+     OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+     OR NEW.main_surgeon IS DISTINCT FROM OLD.main_surgeon
+     OR NEW.assistants IS DISTINCT FROM OLD.assistants THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.schedule') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.schedule is required to schedule surgeries';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_surgery_permissions
+  BEFORE INSERT OR UPDATE ON public.surgeries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_surgery_permissions();
+
+-- Only members allowed to manage teams can add people by e-mail
+CREATE OR REPLACE FUNCTION public.add_team_member_by_email(_team_id uuid, _email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  IF NOT public.is_team_member(auth.uid(), _team_id)
+     OR NOT public.has_permission(auth.uid(), 'teams.manage') THEN
+    RAISE EXCEPTION 'Only team members with teams.manage can add members';
+  END IF;
+
+  SELECT id INTO _user_id FROM public.profiles WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with e-mail %', _email;
+  END IF;
+
+  INSERT INTO public.team_members (team_id, user_id)
+  VALUES (_team_id, _user_id)
+  ON CONFLICT (team_id, user_id) DO NOTHING;
+
+  RETURN _user_id;
+END;
+$$;
+
+-- Roles and permissions
+CREATE POLICY "Users can view own and teammates roles" ON public.user_roles
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR public.shares_team(auth.uid(), user_id));
+CREATE POLICY "Team managers can change teammates roles" ON public.user_roles
+  FOR UPDATE TO authenticated
+  USING (public.has_permission(auth.uid(), 'teams.manage') AND public.shares_team(auth.uid(), user_id))
+  WITH CHECK (public.has_permission(auth.uid(), 'teams.manage') AND public.shares_team(auth.uid(), user_id));
+CREATE POLICY "Authenticated users can view permission matrix" ON public.role_permissions
+  FOR SELECT TO authenticated USING (true);
+
+-- Team membership
+DROP POLICY "Members can add team members" ON public.team_members;
+DROP POLICY "Members can remove team members" ON public.team_members;
+CREATE POLICY "Team managers can add team members" ON public.team_members
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'teams.manage'));
+CREATE POLICY "Team managers can remove team members" ON public.team_members
+  FOR DELETE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'teams.manage'));
+
+-- Hospitals
+DROP POLICY "Authenticated users can add hospitals" ON public.hospitals;
+DROP POLICY "Authenticated users can update hospitals" ON public.hospitals;
+CREATE POLICY "Hospital managers can add hospitals" ON public.hospitals
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission(auth.uid(), 'hospitals.manage'));
+CREATE POLICY "Hospital managers can update hospitals" ON public.hospitals
+  FOR UPDATE TO authenticated
+  USING (public.has_permission(auth.uid(), 'hospitals.manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'hospitals.manage'));
+
+-- Patients
+DROP POLICY "Team members can add patients" ON public.patients;
+DROP POLICY "Team members can update patients" ON public.patients;
+DROP POLICY "Team members can delete patients" ON public.patients;
+CREATE POLICY "Team members can add patients" ON public.patients
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'patients.create'));
+CREATE POLICY "Team members can update patients" ON public.patients
+  FOR UPDATE TO authenticated
+  USING (
+    (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id))
+    AND public.has_permission(auth.uid(), 'patients.edit')
+  )
+  WITH CHECK (
+    (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id))
+    AND public.has_permission(auth.uid(), 'patients.edit')
+  );
+CREATE POLICY "Team members can delete patients" ON public.patients
+  FOR DELETE TO authenticated
+  USING (
+    (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id))
+    AND public.has_permission(auth.uid(), 'patients.delete')
+  );
+
+-- Episodes and consultations
+DROP POLICY "Team members can access episodes" ON public.episodes;
+CREATE POLICY "Team members can view episodes" ON public.episodes
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Clinical staff can add episodes" ON public.episodes
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+CREATE POLICY "Clinical staff can update episodes" ON public.episodes
+  FOR UPDATE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+CREATE POLICY "Clinical staff can delete episodes" ON public.episodes
+  FOR DELETE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+
+DROP POLICY "Team members can access consultations" ON public.consultations;
+CREATE POLICY "Team members can view consultations" ON public.consultations
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Clinical staff can add consultations" ON public.consultations
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+CREATE POLICY "Clinical staff can update consultations" ON public.consultations
+  FOR UPDATE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+CREATE POLICY "Clinical staff can delete consultations" ON public.consultations
+  FOR DELETE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'records.edit'));
+
+-- Surgeries (field-level rules live in enforce_surgery_permissions)
+DROP POLICY "Team members can access surgeries" ON public.surgeries;
+CREATE POLICY "Team members can view surgeries" ON public.surgeries
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Schedulers can add surgeries" ON public.surgeries
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'surgeries.schedule'));
+CREATE POLICY "Staff can update surgeries" ON public.surgeries
+  FOR UPDATE TO authenticated
+  USING (
+    public.can_access_patient(auth.uid(), patient_id)
+    AND (public.has_permission(auth.uid(), 'surgeries.schedule') OR public.has_permission(auth.uid(), 'surgeries.edit_clinical'))
+  )
+  WITH CHECK (
+    public.can_access_patient(auth.uid(), patient_id)
+    AND (public.has_permission(auth.uid(), 'surgeries.schedule') OR public.has_permission(auth.uid(), 'surgeries.edit_clinical'))
+  );
+CREATE POLICY "Surgeons can delete surgeries" ON public.surgeries
+  FOR DELETE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'surgeries.delete'));
+
+-- Attachments
+DROP POLICY "Team members can access attachments" ON public.attachments;
+CREATE POLICY "Team members can view attachments" ON public.attachments
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Staff can upload attachments" ON public.attachments
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'attachments.upload'));
+CREATE POLICY "Staff can update attachments" ON public.attachments
+  FOR UPDATE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'attachments.upload'))
+  WITH CHECK (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'attachments.upload'));
+CREATE POLICY "Staff can delete attachments" ON public.attachments
+  FOR DELETE TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'attachments.delete'));
+
+-- Comments
+DROP POLICY "Team members can access comments" ON public.comments;
+CREATE POLICY "Team members can view comments" ON public.comments
+  FOR SELECT TO authenticated
+  USING (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id));
+CREATE POLICY "Staff can add comments" ON public.comments
+  FOR INSERT TO authenticated
+  WITH CHECK (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'comments.create'));
+CREATE POLICY "Staff can update comments" ON public.comments
+  FOR UPDATE TO authenticated
+  USING (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'comments.create'))
+  WITH CHECK (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'comments.create'));
+CREATE POLICY "Staff can delete comments" ON public.comments
+  FOR DELETE TO authenticated
+  USING (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id) AND public.has_permission(auth.uid(), 'comments.create'));
+
+-- Boards
+DROP POLICY "Team members can add boards" ON public.kanban_boards;
+DROP POLICY "Team members can update boards" ON public.kanban_boards;
+DROP POLICY "Team members can delete boards" ON public.kanban_boards;
+CREATE POLICY "Board managers can add boards" ON public.kanban_boards
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can update boards" ON public.kanban_boards
+  FOR UPDATE TO authenticated
+  USING (
+    (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())))
+    AND public.has_permission(auth.uid(), 'boards.manage')
+  )
+  WITH CHECK (
+    (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())))
+    AND public.has_permission(auth.uid(), 'boards.manage')
+  );
+CREATE POLICY "Board managers can delete boards" ON public.kanban_boards
+  FOR DELETE TO authenticated
+  USING (
+    (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())))
+    AND public.has_permission(auth.uid(), 'boards.delete')
+  );
+
+-- Kanban cards
+DROP POLICY "Team members can access kanban cards" ON public.kanban_cards;
+CREATE POLICY "Team members can view kanban cards" ON public.kanban_cards
+  FOR SELECT TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id));
+CREATE POLICY "Staff can add kanban cards" ON public.kanban_cards
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.can_access_board(auth.uid(), board_id) AND public.can_access_patient(auth.uid(), patient_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+CREATE POLICY "Staff can update kanban cards" ON public.kanban_cards
+  FOR UPDATE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'kanban.edit_cards'))
+  WITH CHECK (
+    public.can_access_board(auth.uid(), board_id) AND public.can_access_patient(auth.uid(), patient_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+CREATE POLICY "Staff can delete kanban cards" ON public.kanban_cards
+  FOR DELETE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'kanban.edit_cards'));
+
+-- Storage
+DROP POLICY "Team members can upload patient files" ON storage.objects;
+DROP POLICY "Team members can delete patient files" ON storage.objects;
+CREATE POLICY "Staff can upload patient files" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'patient-attachments'
+    AND public.can_access_patient(auth.uid(), public.storage_patient_id(name))
+    AND public.has_permission(auth.uid(), 'attachments.upload')
+  );
+CREATE POLICY "Staff can delete patient files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'patient-attachments'
+    AND public.can_access_patient(auth.uid(), public.storage_patient_id(name))
+    AND public.has_permission(auth.uid(), 'attachments.delete')
+  );
@@ -0,0 +1,64 @@
+-- Audit trail for clinical records
+-- Every insert, update and delete on the tracked tables is recorded with the acting
+-- user and the row before/after the change. Rows are append-only for clients.
+
+CREATE TABLE public.audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name text NOT NULL,
+  record_id uuid NOT NULL,
+  patient_id uuid,
+  operation text NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  old_data jsonb,
+  new_data jsonb
+);
+
+CREATE INDEX idx_audit_log_patient_id ON public.audit_log(patient_id, changed_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view patient history" ON public.audit_log
+  FOR SELECT TO authenticated
+  USING (patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+-- Generic row trigger; the patient is taken from the row itself (patients) or its patient_id
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  _row jsonb := COALESCE(_new, _old);
+BEGIN
+  -- Ignore updates that only touched the bookkeeping timestamp
+  IF TG_OP = 'UPDATE' AND (_old - 'updated_at') = (_new - 'updated_at') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, patient_id, operation, actor_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    (_row ->> 'id')::uuid,
+    CASE WHEN TG_TABLE_NAME = 'patients' THEN (_row ->> 'id')::uuid ELSE (_row ->> 'patient_id')::uuid END,
+    TG_OP,
+    auth.uid(),
+    _old,
+    _new
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_patients AFTER INSERT OR UPDATE OR DELETE ON public.patients FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_surgeries AFTER INSERT OR UPDATE OR DELETE ON public.surgeries FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_episodes AFTER INSERT OR UPDATE OR DELETE ON public.episodes FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_consultations AFTER INSERT OR UPDATE OR DELETE ON public.consultations FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_attachments AFTER INSERT OR UPDATE OR DELETE ON public.attachments FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_comments AFTER INSERT OR UPDATE OR DELETE ON public.comments FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+CREATE TRIGGER audit_kanban_cards AFTER INSERT OR UPDATE OR DELETE ON public.kanban_cards FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
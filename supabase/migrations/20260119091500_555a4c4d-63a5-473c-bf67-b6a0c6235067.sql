@@ -0,0 +1,331 @@
+-- Soft delete
+-- Clinical records and boards are moved to the trash (deleted_at) instead of being
+-- removed. SELECT policies hide trashed rows, so every list query excludes them.
+-- Trashed rows can be restored, or purged once the retention period has passed.
+
+ALTER TABLE public.patients ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.surgeries ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.episodes ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.consultations ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.attachments ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.comments ADD COLUMN deleted_at timestamp with time zone;
+ALTER TABLE public.kanban_boards ADD COLUMN deleted_at timestamp with time zone;
+
+CREATE INDEX idx_patients_deleted_at ON public.patients(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_surgeries_deleted_at ON public.surgeries(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_episodes_deleted_at ON public.episodes(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_consultations_deleted_at ON public.consultations(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_attachments_deleted_at ON public.attachments(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_comments_deleted_at ON public.comments(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_kanban_boards_deleted_at ON public.kanban_boards(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- How long trashed records are kept before they may be purged
+CREATE OR REPLACE FUNCTION public.trash_retention()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '30 days'
+$$;
+
+CREATE OR REPLACE FUNCTION public.patient_is_active(_patient_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id AND deleted_at IS NULL)
+$$;
+
+CREATE OR REPLACE FUNCTION public.board_is_active(_board_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.kanban_boards WHERE id = _board_id AND deleted_at IS NULL)
+$$;
+
+-- Hide trashed rows from regular reads
+DROP POLICY "Team members can view patients" ON public.patients;
+CREATE POLICY "Team members can view patients" ON public.patients
+  FOR SELECT TO authenticated
+  USING (
+    deleted_at IS NULL
+    AND (public.is_team_member(auth.uid(), team_id) OR public.patient_in_user_hospitals(auth.uid(), id))
+  );
+
+DROP POLICY "Team members can view surgeries" ON public.surgeries;
+CREATE POLICY "Team members can view surgeries" ON public.surgeries
+  FOR SELECT TO authenticated
+  USING (deleted_at IS NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+DROP POLICY "Team members can view episodes" ON public.episodes;
+CREATE POLICY "Team members can view episodes" ON public.episodes
+  FOR SELECT TO authenticated
+  USING (deleted_at IS NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+DROP POLICY "Team members can view consultations" ON public.consultations;
+CREATE POLICY "Team members can view consultations" ON public.consultations
+  FOR SELECT TO authenticated
+  USING (deleted_at IS NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+DROP POLICY "Team members can view attachments" ON public.attachments;
+CREATE POLICY "Team members can view attachments" ON public.attachments
+  FOR SELECT TO authenticated
+  USING (deleted_at IS NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+DROP POLICY "Team members can view comments" ON public.comments;
+CREATE POLICY "Team members can view comments" ON public.comments
+  FOR SELECT TO authenticated
+  USING (deleted_at IS NULL AND patient_id IS NOT NULL AND public.can_access_patient(auth.uid(), patient_id));
+
+DROP POLICY "Team members can view boards" ON public.kanban_boards;
+CREATE POLICY "Team members can view boards" ON public.kanban_boards
+  FOR SELECT TO authenticated
+  USING (
+    deleted_at IS NULL
+    AND (public.is_team_member(auth.uid(), team_id) OR hospital_id IN (SELECT public.user_hospital_ids(auth.uid())))
+  );
+
+-- Cards disappear with their board or their patient
+DROP POLICY "Team members can view kanban cards" ON public.kanban_cards;
+CREATE POLICY "Team members can view kanban cards" ON public.kanban_cards
+  FOR SELECT TO authenticated
+  USING (
+    public.can_access_board(auth.uid(), board_id)
+    AND public.board_is_active(board_id)
+    AND public.patient_is_active(patient_id)
+  );
+
+-- Records are no longer hard deleted by clients; purging goes through purge_record()
+DROP POLICY "Team members can delete patients" ON public.patients;
+DROP POLICY "Surgeons can delete surgeries" ON public.surgeries;
+DROP POLICY "Clinical staff can delete episodes" ON public.episodes;
+DROP POLICY "Clinical staff can delete consultations" ON public.consultations;
+DROP POLICY "Staff can delete attachments" ON public.attachments;
+DROP POLICY "Staff can delete comments" ON public.comments;
+DROP POLICY "Board managers can delete boards" ON public.kanban_boards;
+
+-- Permission required to trash, restore or purge a record of each table
+CREATE OR REPLACE FUNCTION public.trash_permission(_table text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _table
+    WHEN 'patients' THEN 'patients.delete'
+    WHEN 'surgeries' THEN 'surgeries.delete'
+    WHEN 'episodes' THEN 'records.edit'
+    WHEN 'consultations' THEN 'records.edit'
+    WHEN 'attachments' THEN 'attachments.delete'
+    WHEN 'comments' THEN 'comments.create'
+    WHEN 'kanban_boards' THEN 'boards.delete'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_trash_record(_user_id uuid, _table text, _id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patient_id uuid;
+BEGIN
+  IF public.trash_permission(_table) IS NULL THEN
+    RAISE EXCEPTION 'Table % does not support soft delete', _table;
+  END IF;
+
+  IF NOT public.has_permission(_user_id, public.trash_permission(_table)) THEN
+    RETURN false;
+  END IF;
+
+  IF _table = 'kanban_boards' THEN
+    RETURN public.can_access_board(_user_id, _id);
+  ELSIF _table = 'patients' THEN
+    RETURN public.can_access_patient(_user_id, _id);
+  END IF;
+
+  EXECUTE format('SELECT patient_id FROM public.%I WHERE id = $1', _table) INTO _patient_id USING _id;
+  RETURN _patient_id IS NOT NULL AND public.can_access_patient(_user_id, _patient_id);
+END;
+$$;
+
+-- Move a record to the trash. Trashing a patient trashes their clinical records
+-- with the same timestamp so they are restored together.
+CREATE OR REPLACE FUNCTION public.soft_delete_record(_table text, _id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now timestamp with time zone := now();
+  _child text;
+BEGIN
+  IF NOT public.can_manage_trash_record(auth.uid(), _table, _id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  EXECUTE format('UPDATE public.%I SET deleted_at = $1 WHERE id = $2 AND deleted_at IS NULL', _table)
+  USING _now, _id;
+
+  IF _table = 'patients' THEN
+    FOREACH _child IN ARRAY ARRAY['surgeries', 'episodes', 'consultations', 'attachments', 'comments'] LOOP
+      EXECUTE format('UPDATE public.%I SET deleted_at = $1 WHERE patient_id = $2 AND deleted_at IS NULL', _child)
+      USING _now, _id;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_record(_table text, _id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at timestamp with time zone;
+  _patient_id uuid;
+  _child text;
+BEGIN
+  IF NOT public.can_manage_trash_record(auth.uid(), _table, _id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM public.%I WHERE id = $1', _table) INTO _deleted_at USING _id;
+  IF _deleted_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _table NOT IN ('patients', 'kanban_boards') THEN
+    EXECUTE format('SELECT patient_id FROM public.%I WHERE id = $1', _table) INTO _patient_id USING _id;
+    IF NOT public.patient_is_active(_patient_id) THEN
+      RAISE EXCEPTION 'Restore the patient first';
+    END IF;
+  END IF;
+
+  EXECUTE format('UPDATE public.%I SET deleted_at = NULL WHERE id = $1', _table) USING _id;
+
+  IF _table = 'patients' THEN
+    FOREACH _child IN ARRAY ARRAY['surgeries', 'episodes', 'consultations', 'attachments', 'comments'] LOOP
+      EXECUTE format('UPDATE public.%I SET deleted_at = NULL WHERE patient_id = $1 AND deleted_at = $2', _child)
+      USING _id, _deleted_at;
+    END LOOP;
+  END IF;
+END;
+$$;
+
+-- Permanently delete a trashed record once its retention period has passed.
+-- Returns the storage paths of removed attachments so the caller can delete the files.
+CREATE OR REPLACE FUNCTION public.purge_record(_table text, _id uuid)
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at timestamp with time zone;
+BEGIN
+  IF NOT public.can_manage_trash_record(auth.uid(), _table, _id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM public.%I WHERE id = $1', _table) INTO _deleted_at USING _id;
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Only records in the trash can be purged';
+  END IF;
+  IF _deleted_at > now() - public.trash_retention() THEN
+    RAISE EXCEPTION 'Record can be purged after %', _deleted_at + public.trash_retention();
+  END IF;
+
+  IF _table = 'patients' THEN
+    RETURN QUERY SELECT file_url FROM public.attachments WHERE patient_id = _id;
+    DELETE FROM public.patients WHERE id = _id;
+  ELSIF _table = 'attachments' THEN
+    RETURN QUERY SELECT file_url FROM public.attachments WHERE id = _id;
+    DELETE FROM public.attachments WHERE id = _id;
+  ELSIF _table = 'surgeries' THEN
+    UPDATE public.consultations SET surgery_id = NULL WHERE surgery_id = _id;
+    UPDATE public.attachments SET surgery_id = NULL WHERE surgery_id = _id;
+    DELETE FROM public.surgeries WHERE id = _id;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I WHERE id = $1', _table) USING _id;
+  END IF;
+END;
+$$;
+
+-- Everything in the trash the current user may restore or purge.
+-- Records trashed together with their patient are listed under the patient only.
+CREATE OR REPLACE FUNCTION public.list_trash()
+RETURNS TABLE (
+  table_name text,
+  record_id uuid,
+  label text,
+  patient_id uuid,
+  patient_name text,
+  deleted_at timestamp with time zone,
+  purge_after timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH items AS (
+    SELECT 'patients' AS table_name, p.id AS record_id, p.name AS label, p.id AS patient_id, p.deleted_at
+    FROM public.patients p WHERE p.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'surgeries', s.id, s.procedure_name, s.patient_id, s.deleted_at
+    FROM public.surgeries s WHERE s.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'episodes', e.id, e.title, e.patient_id, e.deleted_at
+    FROM public.episodes e WHERE e.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'consultations', c.id, c.consultation_type || ' - ' || to_char(c.consultation_date, 'YYYY-MM-DD'), c.patient_id, c.deleted_at
+    FROM public.consultations c WHERE c.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'attachments', a.id, a.file_name, a.patient_id, a.deleted_at
+    FROM public.attachments a WHERE a.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'comments', c.id, left(c.text, 80), c.patient_id, c.deleted_at
+    FROM public.comments c WHERE c.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'kanban_boards', b.id, b.name, NULL, b.deleted_at
+    FROM public.kanban_boards b WHERE b.deleted_at IS NOT NULL
+  )
+  SELECT i.table_name, i.record_id, i.label, i.patient_id, p.name, i.deleted_at, i.deleted_at + public.trash_retention()
+  FROM items i
+  LEFT JOIN public.patients p ON p.id = i.patient_id
+  WHERE public.can_manage_trash_record(auth.uid(), i.table_name, i.record_id)
+    AND (i.table_name IN ('patients', 'kanban_boards') OR p.deleted_at IS NULL OR p.deleted_at <> i.deleted_at)
+  ORDER BY i.deleted_at DESC
+$$;
+
+-- Files of purged attachments may be removed by staff allowed to delete attachments
+CREATE OR REPLACE FUNCTION public.is_orphan_attachment_file(_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (SELECT 1 FROM public.attachments WHERE file_url = _name)
+$$;
+
+DROP POLICY "Staff can delete patient files" ON storage.objects;
+CREATE POLICY "Staff can delete patient files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'patient-attachments'
+    AND public.has_permission(auth.uid(), 'attachments.delete')
+    AND (
+      public.can_access_patient(auth.uid(), public.storage_patient_id(name))
+      OR public.is_orphan_attachment_file(name)
+    )
+  );
@@ -0,0 +1,100 @@
+-- Server-side overdue surgery sync
+-- Scheduled surgeries whose date has passed are moved to "pending" by a database
+-- function run on a schedule (pg_cron, or the sync-overdue-surgeries edge function).
+-- Each surgery is handled individually and every transition is logged.
+
+CREATE TABLE public.surgery_status_transitions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  surgery_id uuid NOT NULL REFERENCES public.surgeries(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  reason text NOT NULL,
+  kanban_cards_moved integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_surgery_status_transitions_surgery_id ON public.surgery_status_transitions(surgery_id);
+CREATE INDEX idx_surgery_status_transitions_created_at ON public.surgery_status_transitions(created_at DESC);
+
+ALTER TABLE public.surgery_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view surgery transitions" ON public.surgery_status_transitions
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+
+-- Clients are notified of transitions through Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.surgery_status_transitions;
+
+-- Move overdue scheduled surgeries to pending. Safe to run concurrently and repeatedly:
+-- rows are locked with SKIP LOCKED and only surgeries still "scheduled" are touched.
+-- A patient's "scheduled" kanban cards only follow when no other surgery of that
+-- patient is still scheduled in the future. Returns the number of surgeries moved.
+CREATE OR REPLACE FUNCTION public.sync_overdue_surgeries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _surgery record;
+  _cards integer;
+  _count integer := 0;
+BEGIN
+  FOR _surgery IN
+    SELECT s.id, s.patient_id, s.status
+    FROM public.surgeries s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_date < now()
+      AND s.deleted_at IS NULL
+    ORDER BY s.scheduled_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.surgeries
+    SET status = 'pending'
+    WHERE id = _surgery.id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    _cards := 0;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.surgeries other
+      WHERE other.patient_id = _surgery.patient_id
+        AND other.id <> _surgery.id
+        AND other.status = 'scheduled'
+        AND other.scheduled_date >= now()
+        AND other.deleted_at IS NULL
+    ) THEN
+      UPDATE public.kanban_cards
+      SET column_name = 'pending'
+      WHERE patient_id = _surgery.patient_id
+        AND column_name = 'scheduled'
+        AND manual_override = false;
+      GET DIAGNOSTICS _cards = ROW_COUNT;
+    END IF;
+
+    INSERT INTO public.surgery_status_transitions (surgery_id, patient_id, from_status, to_status, reason, kanban_cards_moved)
+    VALUES (_surgery.id, _surgery.patient_id, _surgery.status, 'pending', 'overdue', _cards);
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+-- Only the scheduler (service role) may run the sync
+REVOKE EXECUTE ON FUNCTION public.sync_overdue_surgeries() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_overdue_surgeries() TO service_role;
+
+-- Run every 5 minutes where pg_cron is available; otherwise schedule the edge function
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('sync-overdue-surgeries', '*/5 * * * *', 'SELECT public.sync_overdue_surgeries()');
+  END IF;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Per-board surgery status to column mapping
+-- Each entry of kanban_boards.columns_config may declare the surgery statuses
+-- that move cards into it: {"id", "name", "color", "statuses": [...]}.
+-- Boards without a column for a status leave their cards where they are.
+
+-- Existing columns get the mapping the client used to hard-code
+UPDATE public.kanban_boards b
+SET columns_config = (
+  SELECT COALESCE(jsonb_agg(
+    CASE
+      WHEN col ? 'statuses' THEN col
+      ELSE col || jsonb_build_object('statuses', CASE col->>'id'
+        WHEN 'waiting' THEN '["cancelled"]'::jsonb
+        WHEN 'scheduled' THEN '["scheduled"]'::jsonb
+        WHEN 'pending' THEN '["pending", "in_progress"]'::jsonb
+        WHEN 'operated' THEN '["completed"]'::jsonb
+        ELSE '[]'::jsonb
+      END)
+    END
+    ORDER BY ord
+  ), '[]'::jsonb)
+  FROM jsonb_array_elements(b.columns_config) WITH ORDINALITY AS t(col, ord)
+)
+WHERE jsonb_typeof(b.columns_config) = 'array';
+
+ALTER TABLE public.kanban_boards
+  ALTER COLUMN columns_config SET DEFAULT '[{"id": "waiting", "name": "Waiting List", "color": "gray", "statuses": ["cancelled"]}, {"id": "scheduled", "name": "Scheduled", "color": "yellow", "statuses": ["scheduled"]}, {"id": "operated", "name": "Operated", "color": "green", "statuses": ["completed"]}, {"id": "follow_up", "name": "Follow-up", "color": "blue", "statuses": []}]';
+
+-- Column a board maps a surgery status to, or NULL when it has none
+CREATE OR REPLACE FUNCTION public.board_column_for_status(_board_id uuid, _status text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT col->>'id'
+  FROM public.kanban_boards b,
+       jsonb_array_elements(b.columns_config) WITH ORDINALITY AS t(col, ord)
+  WHERE b.id = _board_id
+    AND jsonb_typeof(b.columns_config) = 'array'
+    AND COALESCE(col->'statuses', '[]'::jsonb) ? _status
+  ORDER BY ord
+  LIMIT 1
+$$;
+
+-- Overdue sync: cards in a board's "scheduled" column move to that board's
+-- "pending" column. Boards without either mapping are skipped.
+CREATE OR REPLACE FUNCTION public.sync_overdue_surgeries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _surgery record;
+  _cards integer;
+  _count integer := 0;
+BEGIN
+  FOR _surgery IN
+    SELECT s.id, s.patient_id, s.status
+    FROM public.surgeries s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_date < now()
+      AND s.deleted_at IS NULL
+    ORDER BY s.scheduled_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.surgeries
+    SET status = 'pending'
+    WHERE id = _surgery.id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    _cards := 0;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.surgeries other
+      WHERE other.patient_id = _surgery.patient_id
+        AND other.id <> _surgery.id
+        AND other.status = 'scheduled'
+        AND other.scheduled_date >= now()
+        AND other.deleted_at IS NULL
+    ) THEN
+      UPDATE public.kanban_cards c
+      SET column_name = public.board_column_for_status(c.board_id, 'pending')
+      WHERE c.patient_id = _surgery.patient_id
+        AND c.manual_override = false
+        AND c.column_name = public.board_column_for_status(c.board_id, 'scheduled')
+        AND public.board_column_for_status(c.board_id, 'pending') IS NOT NULL;
+      GET DIAGNOSTICS _cards = ROW_COUNT;
+    END IF;
+
+    INSERT INTO public.surgery_status_transitions (surgery_id, patient_id, from_status, to_status, reason, kanban_cards_moved)
+    VALUES (_surgery.id, _surgery.patient_id, _surgery.status, 'pending', 'overdue', _cards);
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Board-scoped kanban sync
+-- A card may track a specific surgery or episode. Unlinked cards track the
+-- patient's surgeries at their board's hospital (all surgeries when the board
+-- has no hospital). Cards moved by hand (manual_override) are never moved.
+
+ALTER TABLE public.kanban_cards
+  ADD COLUMN surgery_id uuid REFERENCES public.surgeries(id) ON DELETE SET NULL,
+  ADD COLUMN episode_id uuid REFERENCES public.episodes(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_kanban_cards_surgery_id ON public.kanban_cards(surgery_id);
+CREATE INDEX idx_kanban_cards_episode_id ON public.kanban_cards(episode_id);
+
+-- Whether a card follows a surgery
+CREATE OR REPLACE FUNCTION public.kanban_card_tracks_surgery(_card_id uuid, _surgery_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.kanban_cards c
+    JOIN public.kanban_boards b ON b.id = c.board_id
+    JOIN public.surgeries s ON s.id = _surgery_id AND s.patient_id = c.patient_id
+    WHERE c.id = _card_id
+      AND CASE
+        WHEN c.surgery_id IS NOT NULL THEN c.surgery_id = s.id
+        WHEN c.episode_id IS NOT NULL THEN c.episode_id = s.episode_id
+        WHEN b.hospital_id IS NOT NULL THEN b.hospital_id = s.hospital_id
+        ELSE true
+      END
+  )
+$$;
+
+-- Overdue sync: only cards tracking the overdue surgery move, and only when
+-- they track no other surgery still scheduled in the future
+CREATE OR REPLACE FUNCTION public.sync_overdue_surgeries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _surgery record;
+  _cards integer;
+  _count integer := 0;
+BEGIN
+  FOR _surgery IN
+    SELECT s.id, s.patient_id, s.status
+    FROM public.surgeries s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_date < now()
+      AND s.deleted_at IS NULL
+    ORDER BY s.scheduled_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.surgeries
+    SET status = 'pending'
+    WHERE id = _surgery.id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.kanban_cards c
+    SET column_name = public.board_column_for_status(c.board_id, 'pending')
+    WHERE c.patient_id = _surgery.patient_id
+      AND c.manual_override = false
+      AND public.kanban_card_tracks_surgery(c.id, _surgery.id)
+      AND c.column_name = public.board_column_for_status(c.board_id, 'scheduled')
+      AND public.board_column_for_status(c.board_id, 'pending') IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.surgeries other
+        WHERE other.patient_id = _surgery.patient_id
+          AND other.id <> _surgery.id
+          AND other.status = 'scheduled'
+          AND other.scheduled_date >= now()
+          AND other.deleted_at IS NULL
+          AND public.kanban_card_tracks_surgery(c.id, other.id)
+      );
+    GET DIAGNOSTICS _cards = ROW_COUNT;
+
+    INSERT INTO public.surgery_status_transitions (surgery_id, patient_id, from_status, to_status, reason, kanban_cards_moved)
+    VALUES (_surgery.id, _surgery.patient_id, _surgery.status, 'pending', 'overdue', _cards);
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
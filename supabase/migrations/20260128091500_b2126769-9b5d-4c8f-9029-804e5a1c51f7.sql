@@ -0,0 +1,8 @@
+-- Realtime kanban boards
+-- Viewers of a board subscribe to its cards and configuration.
+
+ALTER TABLE public.kanban_cards REPLICA IDENTITY FULL;
+ALTER TABLE public.kanban_boards REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kanban_cards;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kanban_boards;
@@ -0,0 +1,105 @@
+-- Transactional kanban card ordering
+-- Cards are placed through move_kanban_card(), which renumbers the source and
+-- target columns densely (0..n-1) in one transaction. Moves on the same board
+-- are serialised with an advisory lock so concurrent drags cannot interleave.
+-- Runs with the caller's rights: row level security still applies.
+
+CREATE OR REPLACE FUNCTION public.move_kanban_card(
+  _card_id uuid,
+  _column_name text,
+  _index integer DEFAULT NULL,
+  _manual boolean DEFAULT true,
+  _expected_column text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _card public.kanban_cards%ROWTYPE;
+  _ids uuid[];
+BEGIN
+  SELECT * INTO _card FROM public.kanban_cards WHERE id = _card_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kanban card % not found', _card_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('kanban_board:' || _card.board_id::text));
+
+  -- Re-read under the lock; the move is stale if someone else already
+  -- moved the card out of the column the caller saw it in
+  SELECT * INTO _card FROM public.kanban_cards WHERE id = _card_id FOR UPDATE;
+  IF _expected_column IS NOT NULL AND _card.column_name <> _expected_column THEN
+    RETURN false;
+  END IF;
+
+  -- Target column order without the moved card, then insert it at the index
+  SELECT COALESCE(array_agg(id ORDER BY position, created_at, id), '{}')
+  INTO _ids
+  FROM public.kanban_cards
+  WHERE board_id = _card.board_id AND column_name = _column_name AND id <> _card_id;
+
+  _index := LEAST(GREATEST(COALESCE(_index, array_length(_ids, 1), 0), 0), COALESCE(array_length(_ids, 1), 0));
+  _ids := _ids[1:_index] || _card_id || _ids[_index + 1:];
+
+  UPDATE public.kanban_cards c
+  SET position = o.ord - 1,
+      column_name = _column_name,
+      manual_override = CASE
+        WHEN c.id = _card_id AND _manual AND _card.column_name <> _column_name THEN true
+        ELSE c.manual_override
+      END
+  FROM unnest(_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE c.id = o.id
+    AND (c.position <> o.ord - 1 OR c.column_name <> _column_name OR c.id = _card_id);
+
+  -- Close the gap left in the source column
+  IF _card.column_name <> _column_name THEN
+    UPDATE public.kanban_cards c
+    SET position = o.ord - 1
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY position, created_at, id) AS ord
+      FROM public.kanban_cards
+      WHERE board_id = _card.board_id AND column_name = _card.column_name
+    ) o
+    WHERE c.id = o.id AND c.position <> o.ord - 1;
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Create a card and place it in its column (at the end by default)
+CREATE OR REPLACE FUNCTION public.create_kanban_card(
+  _board_id uuid,
+  _patient_id uuid,
+  _column_name text,
+  _surgery_type text DEFAULT NULL,
+  _priority text DEFAULT 'normal',
+  _index integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _card_id uuid;
+BEGIN
+  INSERT INTO public.kanban_cards (board_id, patient_id, column_name, surgery_type, priority, position)
+  VALUES (_board_id, _patient_id, _column_name, _surgery_type, _priority, 2147483647)
+  RETURNING id INTO _card_id;
+
+  PERFORM public.move_kanban_card(_card_id, _column_name, _index, false);
+
+  RETURN _card_id;
+END;
+$$;
+
+-- Compact existing boards once
+UPDATE public.kanban_cards c
+SET position = o.ord - 1
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY board_id, column_name ORDER BY position, created_at, id) AS ord
+  FROM public.kanban_cards
+) o
+WHERE c.id = o.id AND c.position <> o.ord - 1;
@@ -0,0 +1,336 @@
+-- Normalised kanban columns
+-- Columns move from the kanban_boards.columns_config JSON blob into their own
+-- table with stable ids. Cards reference their column by id, so renaming a
+-- column is safe and a column with cards cannot be deleted without choosing
+-- where its cards go. "key" keeps the original slug for import/export and
+-- for well-known columns such as the waiting list.
+
+CREATE TABLE public.kanban_columns (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id uuid NOT NULL REFERENCES public.kanban_boards(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT 'gray',
+  position integer NOT NULL DEFAULT 0,
+  wip_limit integer CHECK (wip_limit IS NULL OR wip_limit > 0),
+  statuses text[] NOT NULL DEFAULT '{}',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (board_id, key)
+);
+
+CREATE INDEX idx_kanban_columns_board_id ON public.kanban_columns(board_id, position);
+
+CREATE TRIGGER update_kanban_columns_updated_at BEFORE UPDATE ON public.kanban_columns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.kanban_columns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view kanban columns" ON public.kanban_columns
+  FOR SELECT TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.board_is_active(board_id));
+CREATE POLICY "Board managers can add kanban columns" ON public.kanban_columns
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can update kanban columns" ON public.kanban_columns
+  FOR UPDATE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'))
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can delete kanban columns" ON public.kanban_columns
+  FOR DELETE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+
+ALTER TABLE public.kanban_columns REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kanban_columns;
+
+-- Convert columns_config (duplicate ids keep their first occurrence)
+INSERT INTO public.kanban_columns (board_id, key, name, color, position, statuses)
+SELECT
+  b.id,
+  t.col->>'id',
+  COALESCE(NULLIF(t.col->>'name', ''), t.col->>'id'),
+  COALESCE(NULLIF(t.col->>'color', ''), 'gray'),
+  t.ord - 1,
+  COALESCE(ARRAY(SELECT jsonb_array_elements_text(t.col->'statuses')), '{}')
+FROM public.kanban_boards b,
+     jsonb_array_elements(
+       CASE WHEN jsonb_typeof(b.columns_config) = 'array' THEN b.columns_config ELSE '[]'::jsonb END
+     ) WITH ORDINALITY AS t(col, ord)
+WHERE COALESCE(t.col->>'id', '') <> ''
+ORDER BY b.id, t.ord
+ON CONFLICT (board_id, key) DO NOTHING;
+
+-- Cards left behind by previously deleted columns get their column back
+INSERT INTO public.kanban_columns (board_id, key, name, position)
+SELECT DISTINCT c.board_id, c.column_name, initcap(replace(c.column_name, '_', ' ')), 1000
+FROM public.kanban_cards c
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.kanban_columns k WHERE k.board_id = c.board_id AND k.key = c.column_name
+);
+
+UPDATE public.kanban_columns k
+SET position = o.ord - 1
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY board_id ORDER BY position, key) AS ord
+  FROM public.kanban_columns
+) o
+WHERE k.id = o.id AND k.position <> o.ord - 1;
+
+-- Cards reference columns by id
+ALTER TABLE public.kanban_cards ADD COLUMN column_id uuid REFERENCES public.kanban_columns(id);
+
+UPDATE public.kanban_cards c
+SET column_id = k.id
+FROM public.kanban_columns k
+WHERE k.board_id = c.board_id AND k.key = c.column_name;
+
+ALTER TABLE public.kanban_cards ALTER COLUMN column_id SET NOT NULL;
+CREATE INDEX idx_kanban_cards_column_id ON public.kanban_cards(column_id, position);
+
+-- Functions that worked on column names
+DROP FUNCTION public.board_column_for_status(uuid, text);
+DROP FUNCTION public.move_kanban_card(uuid, text, integer, boolean, text);
+DROP FUNCTION public.create_kanban_card(uuid, uuid, text, text, text, integer);
+
+ALTER TABLE public.kanban_cards DROP COLUMN column_name;
+ALTER TABLE public.kanban_boards DROP COLUMN columns_config;
+
+-- Column a board maps a surgery status to, or NULL when it has none
+CREATE OR REPLACE FUNCTION public.board_column_for_status(_board_id uuid, _status text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.kanban_columns
+  WHERE board_id = _board_id AND _status = ANY(statuses)
+  ORDER BY position
+  LIMIT 1
+$$;
+
+-- Move a card to a column at an index (end of the column when NULL) and
+-- renumber the source and target columns densely. Returns false when the
+-- card already left _expected_column_id.
+CREATE OR REPLACE FUNCTION public.move_kanban_card(
+  _card_id uuid,
+  _column_id uuid,
+  _index integer DEFAULT NULL,
+  _manual boolean DEFAULT true,
+  _expected_column_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _card public.kanban_cards%ROWTYPE;
+  _ids uuid[];
+BEGIN
+  SELECT * INTO _card FROM public.kanban_cards WHERE id = _card_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kanban card % not found', _card_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kanban_columns WHERE id = _column_id AND board_id = _card.board_id) THEN
+    RAISE EXCEPTION 'Column % is not on the card''s board', _column_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('kanban_board:' || _card.board_id::text));
+
+  -- Re-read under the lock; the move is stale if someone else already
+  -- moved the card out of the column the caller saw it in
+  SELECT * INTO _card FROM public.kanban_cards WHERE id = _card_id FOR UPDATE;
+  IF _expected_column_id IS NOT NULL AND _card.column_id <> _expected_column_id THEN
+    RETURN false;
+  END IF;
+
+  SELECT COALESCE(array_agg(id ORDER BY position, created_at, id), '{}')
+  INTO _ids
+  FROM public.kanban_cards
+  WHERE column_id = _column_id AND id <> _card_id;
+
+  _index := LEAST(GREATEST(COALESCE(_index, array_length(_ids, 1), 0), 0), COALESCE(array_length(_ids, 1), 0));
+  _ids := _ids[1:_index] || _card_id || _ids[_index + 1:];
+
+  UPDATE public.kanban_cards c
+  SET position = o.ord - 1,
+      column_id = _column_id,
+      manual_override = CASE
+        WHEN c.id = _card_id AND _manual AND _card.column_id <> _column_id THEN true
+        ELSE c.manual_override
+      END
+  FROM unnest(_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE c.id = o.id
+    AND (c.position <> o.ord - 1 OR c.column_id <> _column_id OR c.id = _card_id);
+
+  IF _card.column_id <> _column_id THEN
+    PERFORM public.renumber_kanban_column(_card.column_id);
+  END IF;
+
+  RETURN true;
+END;
+$$;
+
+-- Close gaps in a column's card positions
+CREATE OR REPLACE FUNCTION public.renumber_kanban_column(_column_id uuid)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.kanban_cards c
+  SET position = o.ord - 1
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY position, created_at, id) AS ord
+    FROM public.kanban_cards
+    WHERE column_id = _column_id
+  ) o
+  WHERE c.id = o.id AND c.position <> o.ord - 1
+$$;
+
+-- Create a card and place it in its column (at the end by default)
+CREATE OR REPLACE FUNCTION public.create_kanban_card(
+  _board_id uuid,
+  _patient_id uuid,
+  _column_id uuid,
+  _surgery_type text DEFAULT NULL,
+  _priority text DEFAULT 'normal',
+  _index integer DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _card_id uuid;
+BEGIN
+  INSERT INTO public.kanban_cards (board_id, patient_id, column_id, surgery_type, priority, position)
+  VALUES (_board_id, _patient_id, _column_id, _surgery_type, _priority, 2147483647)
+  RETURNING id INTO _card_id;
+
+  PERFORM public.move_kanban_card(_card_id, _column_id, _index, false);
+
+  RETURN _card_id;
+END;
+$$;
+
+-- Delete a column, first appending its cards to _target_column_id.
+-- A column that still has cards cannot be deleted without a target.
+CREATE OR REPLACE FUNCTION public.delete_kanban_column(_column_id uuid, _target_column_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _board_id uuid;
+  _offset integer;
+BEGIN
+  SELECT board_id INTO _board_id FROM public.kanban_columns WHERE id = _column_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Column % not found', _column_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('kanban_board:' || _board_id::text));
+
+  IF EXISTS (SELECT 1 FROM public.kanban_cards WHERE column_id = _column_id) THEN
+    IF _target_column_id IS NULL OR _target_column_id = _column_id THEN
+      RAISE EXCEPTION 'Choose a column to move this column''s cards to';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.kanban_columns WHERE id = _target_column_id AND board_id = _board_id) THEN
+      RAISE EXCEPTION 'Column % is not on the same board', _target_column_id;
+    END IF;
+
+    SELECT COUNT(*) INTO _offset FROM public.kanban_cards WHERE column_id = _target_column_id;
+
+    UPDATE public.kanban_cards c
+    SET column_id = _target_column_id,
+        position = _offset + o.ord - 1
+    FROM (
+      SELECT id, row_number() OVER (ORDER BY position, created_at, id) AS ord
+      FROM public.kanban_cards
+      WHERE column_id = _column_id
+    ) o
+    WHERE c.id = o.id;
+  END IF;
+
+  DELETE FROM public.kanban_columns WHERE id = _column_id;
+
+  UPDATE public.kanban_columns k
+  SET position = o.ord - 1
+  FROM (
+    SELECT id, row_number() OVER (ORDER BY position, created_at) AS ord
+    FROM public.kanban_columns
+    WHERE board_id = _board_id
+  ) o
+  WHERE k.id = o.id AND k.position <> o.ord - 1;
+END;
+$$;
+
+-- Set a board's column order
+CREATE OR REPLACE FUNCTION public.reorder_kanban_columns(_board_id uuid, _column_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.kanban_columns k
+  SET position = o.ord - 1
+  FROM unnest(_column_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE k.id = o.id AND k.board_id = _board_id AND k.position <> o.ord - 1
+$$;
+
+-- Overdue sync on column ids
+CREATE OR REPLACE FUNCTION public.sync_overdue_surgeries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _surgery record;
+  _cards integer;
+  _count integer := 0;
+BEGIN
+  FOR _surgery IN
+    SELECT s.id, s.patient_id, s.status
+    FROM public.surgeries s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_date < now()
+      AND s.deleted_at IS NULL
+    ORDER BY s.scheduled_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.surgeries
+    SET status = 'pending'
+    WHERE id = _surgery.id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.kanban_cards c
+    SET column_id = public.board_column_for_status(c.board_id, 'pending')
+    WHERE c.patient_id = _surgery.patient_id
+      AND c.manual_override = false
+      AND public.kanban_card_tracks_surgery(c.id, _surgery.id)
+      AND c.column_id = public.board_column_for_status(c.board_id, 'scheduled')
+      AND public.board_column_for_status(c.board_id, 'pending') IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.surgeries other
+        WHERE other.patient_id = _surgery.patient_id
+          AND other.id <> _surgery.id
+          AND other.status = 'scheduled'
+          AND other.scheduled_date >= now()
+          AND other.deleted_at IS NULL
+          AND public.kanban_card_tracks_surgery(c.id, other.id)
+      );
+    GET DIAGNOSTICS _cards = ROW_COUNT;
+
+    INSERT INTO public.surgery_status_transitions (surgery_id, patient_id, from_status, to_status, reason, kanban_cards_moved)
+    VALUES (_surgery.id, _surgery.patient_id, _surgery.status, 'pending', 'overdue', _cards);
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
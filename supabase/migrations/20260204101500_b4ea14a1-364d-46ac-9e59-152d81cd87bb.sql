@@ -0,0 +1,30 @@
+-- Kanban WIP limits and column aging
+-- Cards record when they entered their current column. Columns carry the
+-- number of days after which waiting cards are flagged amber (warning) and
+-- red (critical); wip_limit already exists on kanban_columns.
+
+ALTER TABLE public.kanban_cards
+  ADD COLUMN column_entered_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Best available estimate for existing cards
+UPDATE public.kanban_cards SET column_entered_at = updated_at;
+
+ALTER TABLE public.kanban_columns
+  ADD COLUMN aging_warning_days integer CHECK (aging_warning_days IS NULL OR aging_warning_days > 0),
+  ADD COLUMN aging_critical_days integer CHECK (aging_critical_days IS NULL OR aging_critical_days > 0);
+
+CREATE OR REPLACE FUNCTION public.set_kanban_card_column_entered_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.column_id IS DISTINCT FROM OLD.column_id THEN
+    NEW.column_entered_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_kanban_card_column_entered_at BEFORE UPDATE ON public.kanban_cards
+  FOR EACH ROW EXECUTE FUNCTION public.set_kanban_card_column_entered_at();
@@ -0,0 +1,128 @@
+-- Kanban tags
+-- Each board has its own palette of coloured tags. Tags are attached to cards
+-- (kanban_card_tags) and to patients (patient_tags), so a patient keeps a tag
+-- such as "diabetic" on every board while card tags describe the card alone.
+
+CREATE TABLE public.kanban_tags (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id uuid NOT NULL REFERENCES public.kanban_boards(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  color text NOT NULL DEFAULT 'gray',
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_kanban_tags_board_name ON public.kanban_tags(board_id, lower(name));
+
+CREATE TABLE public.kanban_card_tags (
+  card_id uuid NOT NULL REFERENCES public.kanban_cards(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.kanban_tags(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (card_id, tag_id)
+);
+
+CREATE INDEX idx_kanban_card_tags_tag_id ON public.kanban_card_tags(tag_id);
+
+CREATE TABLE public.patient_tags (
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.kanban_tags(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (patient_id, tag_id)
+);
+
+CREATE INDEX idx_patient_tags_tag_id ON public.patient_tags(tag_id);
+
+-- Tags are only attached to cards of the tag's own board
+CREATE OR REPLACE FUNCTION public.check_kanban_card_tag_board()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.kanban_cards c
+    JOIN public.kanban_tags t ON t.board_id = c.board_id
+    WHERE c.id = NEW.card_id AND t.id = NEW.tag_id
+  ) THEN
+    RAISE EXCEPTION 'Tag % does not belong to the board of card %', NEW.tag_id, NEW.card_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_kanban_card_tag_board BEFORE INSERT OR UPDATE ON public.kanban_card_tags
+  FOR EACH ROW EXECUTE FUNCTION public.check_kanban_card_tag_board();
+
+-- Board a tag belongs to, for policies on the link tables
+CREATE OR REPLACE FUNCTION public.kanban_tag_board_id(_tag_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT board_id FROM public.kanban_tags WHERE id = _tag_id
+$$;
+
+ALTER TABLE public.kanban_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.kanban_card_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.patient_tags ENABLE ROW LEVEL SECURITY;
+
+-- Palette: anyone who edits cards can add tags, board managers curate them
+CREATE POLICY "Team members can view kanban tags" ON public.kanban_tags
+  FOR SELECT TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.board_is_active(board_id));
+CREATE POLICY "Staff can add kanban tags" ON public.kanban_tags
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'kanban.edit_cards'));
+CREATE POLICY "Board managers can update kanban tags" ON public.kanban_tags
+  FOR UPDATE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'))
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can delete kanban tags" ON public.kanban_tags
+  FOR DELETE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+
+-- Card tags follow the card's own policies
+CREATE POLICY "Team members can view kanban card tags" ON public.kanban_card_tags
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id));
+CREATE POLICY "Staff can add kanban card tags" ON public.kanban_card_tags
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+CREATE POLICY "Staff can remove kanban card tags" ON public.kanban_card_tags
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+
+-- Patient tags need access to both the patient and the tag's board
+CREATE POLICY "Team members can view patient tags" ON public.patient_tags
+  FOR SELECT TO authenticated
+  USING (
+    public.can_access_patient(auth.uid(), patient_id)
+    AND public.can_access_board(auth.uid(), public.kanban_tag_board_id(tag_id))
+  );
+CREATE POLICY "Staff can add patient tags" ON public.patient_tags
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    public.can_access_patient(auth.uid(), patient_id)
+    AND public.can_access_board(auth.uid(), public.kanban_tag_board_id(tag_id))
+    AND public.has_permission(auth.uid(), 'patients.edit')
+  );
+CREATE POLICY "Staff can remove patient tags" ON public.patient_tags
+  FOR DELETE TO authenticated
+  USING (
+    public.can_access_patient(auth.uid(), patient_id)
+    AND public.can_access_board(auth.uid(), public.kanban_tag_board_id(tag_id))
+    AND public.has_permission(auth.uid(), 'patients.edit')
+  );
+
+ALTER TABLE public.kanban_tags REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kanban_tags;
+ALTER TABLE public.kanban_card_tags REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.kanban_card_tags;
@@ -0,0 +1,225 @@
+-- Card checklists and checklist templates
+-- Checklist items move out of the JSON blob in kanban_cards.notes into their
+-- own table with who ticked them and when, an assignee and a due date.
+-- Boards can define templates (optionally for one procedure) that are added
+-- to a card whenever it enters a column, at most once per card.
+
+CREATE TABLE public.checklist_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id uuid NOT NULL REFERENCES public.kanban_boards(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Column (by key) whose entry applies the template
+  column_key text NOT NULL,
+  -- Only cards for this procedure, matched case-insensitively; NULL for every card
+  procedure text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_checklist_templates_board_id ON public.checklist_templates(board_id, column_key);
+
+CREATE TABLE public.checklist_template_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id uuid NOT NULL REFERENCES public.checklist_templates(id) ON DELETE CASCADE,
+  text text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  -- Due this many days after the template is applied
+  due_in_days integer CHECK (due_in_days IS NULL OR due_in_days >= 0)
+);
+
+CREATE INDEX idx_checklist_template_items_template_id ON public.checklist_template_items(template_id, position);
+
+CREATE TABLE public.card_checklist_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  card_id uuid NOT NULL REFERENCES public.kanban_cards(id) ON DELETE CASCADE,
+  template_id uuid REFERENCES public.checklist_templates(id) ON DELETE SET NULL,
+  text text NOT NULL,
+  done boolean NOT NULL DEFAULT false,
+  done_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  done_at timestamp with time zone,
+  assigned_to uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  due_date date,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_card_checklist_items_card_id ON public.card_checklist_items(card_id, position);
+
+CREATE TRIGGER update_checklist_templates_updated_at BEFORE UPDATE ON public.checklist_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_card_checklist_items_updated_at BEFORE UPDATE ON public.card_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- done_by and done_at are recorded by the database, not sent by clients
+CREATE OR REPLACE FUNCTION public.set_checklist_item_done()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.done THEN
+      NEW.done_at := COALESCE(NEW.done_at, now());
+      NEW.done_by := COALESCE(NEW.done_by, auth.uid());
+    ELSE
+      NEW.done_at := NULL;
+      NEW.done_by := NULL;
+    END IF;
+  ELSIF NEW.done IS DISTINCT FROM OLD.done THEN
+    NEW.done_at := CASE WHEN NEW.done THEN now() END;
+    NEW.done_by := CASE WHEN NEW.done THEN auth.uid() END;
+  ELSE
+    NEW.done_at := OLD.done_at;
+    NEW.done_by := OLD.done_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_checklist_item_done BEFORE INSERT OR UPDATE ON public.card_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_checklist_item_done();
+
+-- Add the items of every matching template a card does not have yet.
+-- Runs as the table owner so moves made by the overdue sync apply them too.
+CREATE OR REPLACE FUNCTION public.apply_checklist_templates()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _column_key text;
+  _procedure text;
+  _start integer;
+BEGIN
+  SELECT k.key INTO _column_key FROM public.kanban_columns k WHERE k.id = NEW.column_id;
+
+  _procedure := NULLIF(btrim(NEW.surgery_type), '');
+  IF _procedure IS NULL AND NEW.surgery_id IS NOT NULL THEN
+    SELECT procedure_name INTO _procedure FROM public.surgeries WHERE id = NEW.surgery_id;
+  END IF;
+
+  SELECT COALESCE(max(position) + 1, 0) INTO _start
+  FROM public.card_checklist_items
+  WHERE card_id = NEW.id;
+
+  INSERT INTO public.card_checklist_items (card_id, template_id, text, due_date, position)
+  SELECT
+    NEW.id,
+    t.id,
+    i.text,
+    current_date + i.due_in_days,
+    _start + row_number() OVER (ORDER BY t.created_at, t.id, i.position) - 1
+  FROM public.checklist_templates t
+  JOIN public.checklist_template_items i ON i.template_id = t.id
+  WHERE t.board_id = NEW.board_id
+    AND t.column_key = _column_key
+    AND (t.procedure IS NULL OR lower(t.procedure) = lower(_procedure))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.card_checklist_items x WHERE x.card_id = NEW.id AND x.template_id = t.id
+    );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_checklist_templates_on_insert AFTER INSERT ON public.kanban_cards
+  FOR EACH ROW EXECUTE FUNCTION public.apply_checklist_templates();
+CREATE TRIGGER apply_checklist_templates_on_move AFTER UPDATE OF column_id ON public.kanban_cards
+  FOR EACH ROW WHEN (OLD.column_id IS DISTINCT FROM NEW.column_id)
+  EXECUTE FUNCTION public.apply_checklist_templates();
+
+ALTER TABLE public.checklist_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.checklist_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.card_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view checklist templates" ON public.checklist_templates
+  FOR SELECT TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.board_is_active(board_id));
+CREATE POLICY "Board managers can add checklist templates" ON public.checklist_templates
+  FOR INSERT TO authenticated
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can update checklist templates" ON public.checklist_templates
+  FOR UPDATE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'))
+  WITH CHECK (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can delete checklist templates" ON public.checklist_templates
+  FOR DELETE TO authenticated
+  USING (public.can_access_board(auth.uid(), board_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+
+-- Template items follow their template
+CREATE POLICY "Team members can view checklist template items" ON public.checklist_template_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.checklist_templates t WHERE t.id = template_id));
+CREATE POLICY "Board managers can manage checklist template items" ON public.checklist_template_items
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.checklist_templates t WHERE t.id = template_id)
+    AND public.has_permission(auth.uid(), 'boards.manage')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.checklist_templates t WHERE t.id = template_id)
+    AND public.has_permission(auth.uid(), 'boards.manage')
+  );
+
+-- Checklist items follow their card
+CREATE POLICY "Team members can view card checklist items" ON public.card_checklist_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id));
+CREATE POLICY "Staff can add card checklist items" ON public.card_checklist_items
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+CREATE POLICY "Staff can update card checklist items" ON public.card_checklist_items
+  FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+CREATE POLICY "Staff can delete card checklist items" ON public.card_checklist_items
+  FOR DELETE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.kanban_cards c WHERE c.id = card_id)
+    AND public.has_permission(auth.uid(), 'kanban.edit_cards')
+  );
+
+-- Convert checklists stored as JSON in card notes; notes that are not a
+-- checklist are left alone
+DO $$
+DECLARE
+  _card record;
+  _items jsonb;
+BEGIN
+  FOR _card IN
+    SELECT id, notes, updated_at FROM public.kanban_cards WHERE notes ~ '^\s*\['
+  LOOP
+    BEGIN
+      _items := _card.notes::jsonb;
+    EXCEPTION WHEN others THEN
+      CONTINUE;
+    END;
+
+    INSERT INTO public.card_checklist_items (card_id, text, done, done_at, position)
+    SELECT
+      _card.id,
+      e.item->>'text',
+      e.item->'completed' = 'true'::jsonb,
+      CASE WHEN e.item->'completed' = 'true'::jsonb THEN _card.updated_at END,
+      e.ord - 1
+    FROM jsonb_array_elements(_items) WITH ORDINALITY AS e(item, ord)
+    WHERE jsonb_typeof(e.item) = 'object' AND COALESCE(btrim(e.item->>'text'), '') <> '';
+
+    UPDATE public.kanban_cards SET notes = NULL WHERE id = _card.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.card_checklist_items REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.card_checklist_items;
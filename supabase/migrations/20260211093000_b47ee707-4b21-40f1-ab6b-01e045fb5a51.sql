@@ -0,0 +1,149 @@
+-- Board templates and board duplication
+-- A template stores a board's columns (with their status mapping, WIP limits
+-- and aging thresholds), checklist templates, tag palette and default filters
+-- so new boards can start from it. Boards keep the filters they open with.
+
+ALTER TABLE public.kanban_boards ADD COLUMN default_filters jsonb;
+
+CREATE TABLE public.board_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE DEFAULT public.current_team_id(),
+  name text NOT NULL,
+  description text,
+  -- { columns, checklist_templates, tags, filters } - see src/lib/boardTemplates.ts
+  config jsonb NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_board_templates_team_id ON public.board_templates(team_id);
+
+CREATE TRIGGER update_board_templates_updated_at BEFORE UPDATE ON public.board_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.board_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view board templates" ON public.board_templates
+  FOR SELECT TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id));
+CREATE POLICY "Board managers can add board templates" ON public.board_templates
+  FOR INSERT TO authenticated
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can update board templates" ON public.board_templates
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'boards.manage'))
+  WITH CHECK (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+CREATE POLICY "Board managers can delete board templates" ON public.board_templates
+  FOR DELETE TO authenticated
+  USING (public.is_team_member(auth.uid(), team_id) AND public.has_permission(auth.uid(), 'boards.manage'));
+
+-- Copy a board with its columns, tags and checklist templates, and optionally
+-- its cards with their tags and checklists. Runs as the caller, so the
+-- caller needs to be able to create boards (and cards, when copying them).
+CREATE OR REPLACE FUNCTION public.duplicate_kanban_board(_board_id uuid, _name text, _include_cards boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _new_board_id uuid;
+  _template record;
+  _new_template_id uuid;
+  _template_ids jsonb := '{}'::jsonb;
+  _card record;
+  _new_card_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.kanban_boards WHERE id = _board_id) THEN
+    RAISE EXCEPTION 'Board % not found', _board_id;
+  END IF;
+  IF COALESCE(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Board name is required';
+  END IF;
+
+  INSERT INTO public.kanban_boards (name, description, hospital, hospital_id, service, team_id, default_filters)
+  SELECT btrim(_name), description, hospital, hospital_id, service, team_id, default_filters
+  FROM public.kanban_boards
+  WHERE id = _board_id
+  RETURNING id INTO _new_board_id;
+
+  -- Columns and tags are matched between the boards by key and by name
+  INSERT INTO public.kanban_columns (board_id, key, name, color, position, statuses, wip_limit, aging_warning_days, aging_critical_days)
+  SELECT _new_board_id, key, name, color, position, statuses, wip_limit, aging_warning_days, aging_critical_days
+  FROM public.kanban_columns
+  WHERE board_id = _board_id;
+
+  INSERT INTO public.kanban_tags (board_id, name, color)
+  SELECT _new_board_id, name, color
+  FROM public.kanban_tags
+  WHERE board_id = _board_id;
+
+  FOR _template IN
+    SELECT * FROM public.checklist_templates WHERE board_id = _board_id ORDER BY created_at, id
+  LOOP
+    INSERT INTO public.checklist_templates (board_id, name, column_key, procedure)
+    VALUES (_new_board_id, _template.name, _template.column_key, _template.procedure)
+    RETURNING id INTO _new_template_id;
+
+    INSERT INTO public.checklist_template_items (template_id, text, position, due_in_days)
+    SELECT _new_template_id, text, position, due_in_days
+    FROM public.checklist_template_items
+    WHERE template_id = _template.id;
+
+    _template_ids := _template_ids || jsonb_build_object(_template.id::text, _new_template_id);
+  END LOOP;
+
+  -- Default filters pick tags by id, so point them at the copied palette
+  UPDATE public.kanban_boards b
+  SET default_filters = jsonb_set(
+    b.default_filters,
+    '{tags}',
+    COALESCE((
+      SELECT jsonb_agg(n.id)
+      FROM jsonb_array_elements_text(b.default_filters->'tags') f(tag_id)
+      JOIN public.kanban_tags o ON o.id = f.tag_id::uuid
+      JOIN public.kanban_tags n ON n.board_id = _new_board_id AND lower(n.name) = lower(o.name)
+    ), '[]'::jsonb)
+  )
+  WHERE b.id = _new_board_id AND jsonb_typeof(b.default_filters->'tags') = 'array';
+
+  IF _include_cards THEN
+    FOR _card IN
+      SELECT c.*, k.key AS column_key
+      FROM public.kanban_cards c
+      JOIN public.kanban_columns k ON k.id = c.column_id
+      WHERE c.board_id = _board_id
+    LOOP
+      INSERT INTO public.kanban_cards (
+        board_id, patient_id, column_id, position, notes, priority, scheduled_date,
+        surgery_type, surgery_id, episode_id, manual_override, column_entered_at
+      )
+      SELECT
+        _new_board_id, _card.patient_id, k.id, _card.position, _card.notes, _card.priority, _card.scheduled_date,
+        _card.surgery_type, _card.surgery_id, _card.episode_id, _card.manual_override, _card.column_entered_at
+      FROM public.kanban_columns k
+      WHERE k.board_id = _new_board_id AND k.key = _card.column_key
+      RETURNING id INTO _new_card_id;
+
+      INSERT INTO public.kanban_card_tags (card_id, tag_id)
+      SELECT _new_card_id, n.id
+      FROM public.kanban_card_tags ct
+      JOIN public.kanban_tags o ON o.id = ct.tag_id
+      JOIN public.kanban_tags n ON n.board_id = _new_board_id AND lower(n.name) = lower(o.name)
+      WHERE ct.card_id = _card.id;
+
+      -- Replace the items the templates just added with the original checklist
+      DELETE FROM public.card_checklist_items WHERE card_id = _new_card_id;
+      INSERT INTO public.card_checklist_items (
+        card_id, template_id, text, done, done_by, done_at, assigned_to, due_date, position
+      )
+      SELECT
+        _new_card_id, (_template_ids->>template_id::text)::uuid, text, done, done_by, done_at, assigned_to, due_date, position
+      FROM public.card_checklist_items
+      WHERE card_id = _card.id;
+    END LOOP;
+  END IF;
+
+  RETURN _new_board_id;
+END;
+$$;
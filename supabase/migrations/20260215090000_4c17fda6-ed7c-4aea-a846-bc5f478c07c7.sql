@@ -0,0 +1,97 @@
+-- Bulk import of patients and their surgeries from a spreadsheet
+-- Takes rows already mapped and validated by the import wizard. Each row is
+-- imported on its own, so a bad row is reported back without undoing the
+-- rest. Rows of the same patient share a patient_key; patients are matched
+-- by medical record number or created once per key.
+-- Runs as the caller, so the usual permissions on patients and surgeries apply.
+
+CREATE OR REPLACE FUNCTION public.import_patient_rows(_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _row jsonb;
+  _key text;
+  _mrn text;
+  _patient_id uuid;
+  _is_new boolean;
+  _patients jsonb := '{}'::jsonb;
+  _matched_ids uuid[] := '{}';
+  _errors jsonb := '[]'::jsonb;
+  _created integer := 0;
+  _surgeries integer := 0;
+  _added_surgery boolean;
+BEGIN
+  FOR _row IN SELECT * FROM jsonb_array_elements(COALESCE(_rows, '[]'::jsonb))
+  LOOP
+    BEGIN
+      _key := COALESCE(_row->>'patient_key', _row->>'row');
+      _patient_id := (_patients->>_key)::uuid;
+      _is_new := false;
+      _added_surgery := false;
+
+      IF _patient_id IS NULL THEN
+        _mrn := NULLIF(btrim(_row->>'medical_record_number'), '');
+        IF _mrn IS NOT NULL THEN
+          SELECT id INTO _patient_id FROM public.patients WHERE medical_record_number = _mrn;
+        END IF;
+
+        IF _patient_id IS NULL THEN
+          BEGIN
+            INSERT INTO public.patients (name, medical_record_number, date_of_birth)
+            VALUES (btrim(_row->>'name'), _mrn, (_row->>'date_of_birth')::date)
+            RETURNING id INTO _patient_id;
+          EXCEPTION WHEN unique_violation THEN
+            RAISE EXCEPTION 'A patient with medical record number % already exists but is not visible to you', _mrn;
+          END;
+          _is_new := true;
+        END IF;
+      END IF;
+
+      IF NULLIF(btrim(_row->>'procedure_name'), '') IS NOT NULL THEN
+        IF EXISTS (
+          SELECT 1 FROM public.surgeries
+          WHERE patient_id = _patient_id
+            AND deleted_at IS NULL
+            AND lower(procedure_name) = lower(btrim(_row->>'procedure_name'))
+            AND scheduled_date::date IS NOT DISTINCT FROM (_row->>'scheduled_date')::timestamp with time zone::date
+        ) THEN
+          RAISE EXCEPTION 'Surgery "%" is already on file for this patient', btrim(_row->>'procedure_name');
+        END IF;
+
+        INSERT INTO public.surgeries (patient_id, procedure_name, scheduled_date, status, hospital_id)
+        VALUES (
+          _patient_id,
+          btrim(_row->>'procedure_name'),
+          (_row->>'scheduled_date')::timestamp with time zone,
+          COALESCE(_row->>'status', 'pending'),
+          (_row->>'hospital_id')::uuid
+        );
+        _added_surgery := true;
+      END IF;
+
+      -- Variables are not rolled back with the row, so only count it once it is in
+      _patients := _patients || jsonb_build_object(_key, _patient_id);
+      IF _is_new THEN
+        _created := _created + 1;
+      ELSIF NOT _patient_id = ANY(_matched_ids) THEN
+        _matched_ids := _matched_ids || _patient_id;
+      END IF;
+      IF _added_surgery THEN
+        _surgeries := _surgeries + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      _errors := _errors || jsonb_build_object('row', _row->'row', 'error', SQLERRM);
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'patients_created', _created,
+    'patients_matched', cardinality(_matched_ids),
+    'matched_patient_ids', to_jsonb(_matched_ids),
+    'surgeries', _surgeries,
+    'errors', _errors
+  );
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Operating rooms per hospital
+-- Surgeries point at a room through operating_room_id; the free-text
+-- operating_room column is kept in step with the room's name so existing
+-- views keep working. Rooms already typed into surgeries are created for
+-- their hospital and linked.
+
+CREATE TABLE public.operating_rooms (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hospital_id uuid NOT NULL REFERENCES public.hospitals(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  position integer NOT NULL DEFAULT 0,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (hospital_id, name)
+);
+
+CREATE TRIGGER update_operating_rooms_updated_at BEFORE UPDATE ON public.operating_rooms
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.operating_rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view operating rooms" ON public.operating_rooms
+  FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Hospital managers can add operating rooms" ON public.operating_rooms
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission(auth.uid(), 'hospitals.manage'));
+CREATE POLICY "Hospital managers can update operating rooms" ON public.operating_rooms
+  FOR UPDATE TO authenticated
+  USING (public.has_permission(auth.uid(), 'hospitals.manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'hospitals.manage'));
+CREATE POLICY "Hospital managers can delete operating rooms" ON public.operating_rooms
+  FOR DELETE TO authenticated USING (public.has_permission(auth.uid(), 'hospitals.manage'));
+
+ALTER TABLE public.surgeries
+  ADD COLUMN operating_room_id uuid REFERENCES public.operating_rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_surgeries_operating_room_id ON public.surgeries(operating_room_id, scheduled_date);
+CREATE INDEX idx_surgeries_main_surgeon ON public.surgeries(lower(main_surgeon), scheduled_date);
+
+INSERT INTO public.operating_rooms (hospital_id, name)
+SELECT DISTINCT hospital_id, btrim(operating_room)
+FROM public.surgeries
+WHERE hospital_id IS NOT NULL AND NULLIF(btrim(operating_room), '') IS NOT NULL
+ON CONFLICT (hospital_id, name) DO NOTHING;
+
+UPDATE public.surgeries s
+SET operating_room_id = r.id
+FROM public.operating_rooms r
+WHERE r.hospital_id = s.hospital_id AND r.name = btrim(s.operating_room);
+
+-- A room belongs to one hospital; the surgery takes its hospital and name
+CREATE OR REPLACE FUNCTION public.sync_surgery_operating_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _room public.operating_rooms%ROWTYPE;
+BEGIN
+  IF NEW.operating_room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _room FROM public.operating_rooms WHERE id = NEW.operating_room_id;
+  IF NEW.hospital_id IS NULL THEN
+    NEW.hospital_id := _room.hospital_id;
+  ELSIF NEW.hospital_id <> _room.hospital_id THEN
+    RAISE EXCEPTION 'Operating room % is not in the surgery''s hospital', _room.name;
+  END IF;
+  NEW.operating_room := _room.name;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_surgery_operating_room
+  BEFORE INSERT OR UPDATE OF operating_room_id, hospital_id ON public.surgeries
+  FOR EACH ROW EXECUTE FUNCTION public.sync_surgery_operating_room();
+
+-- Moving a surgery to another room is scheduling
+CREATE OR REPLACE FUNCTION public.enforce_surgery_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.structured_description IS NOT NULL)
+     OR (TG_OP = 'UPDATE' AND NEW.structured_description IS DISTINCT FROM OLD.structured_description) THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.edit_clinical') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.edit_clinical is required to edit the surgery description';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR NEW.operating_room IS DISTINCT FROM OLD.operating_room
+     OR NEW.operating_room_id IS DISTINCT FROM OLD.operating_room_id
+     OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+     OR NEW.main_surgeon IS DISTINCT FROM OLD.main_surgeon
+     OR NEW.assistants IS DISTINCT FROM OLD.assistants THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.schedule') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.schedule is required to schedule surgeries';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
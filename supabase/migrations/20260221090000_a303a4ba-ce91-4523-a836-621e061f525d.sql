@@ -0,0 +1,30 @@
+-- Reasons given for scheduling a surgery despite a conflict
+-- The conflicts at the time of the override are kept alongside the reason,
+-- as later changes to the other surgeries would otherwise hide them.
+
+CREATE TABLE public.surgery_conflict_overrides (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  surgery_id uuid NOT NULL REFERENCES public.surgeries(id) ON DELETE CASCADE,
+  patient_id uuid NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (btrim(reason) <> ''),
+  conflicts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_surgery_conflict_overrides_surgery_id ON public.surgery_conflict_overrides(surgery_id);
+
+ALTER TABLE public.surgery_conflict_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view conflict overrides" ON public.surgery_conflict_overrides
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), patient_id));
+
+CREATE POLICY "Schedulers can record conflict overrides" ON public.surgery_conflict_overrides
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND public.has_permission(auth.uid(), 'surgeries.schedule')
+    AND public.can_access_patient(auth.uid(), patient_id)
+    AND EXISTS (SELECT 1 FROM public.surgeries s WHERE s.id = surgery_id AND s.patient_id = surgery_conflict_overrides.patient_id)
+  );
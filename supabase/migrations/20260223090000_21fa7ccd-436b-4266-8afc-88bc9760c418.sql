@@ -0,0 +1,138 @@
+-- Subscribable surgery calendar feeds
+-- Each user has one secret token; the surgery-calendar edge function looks
+-- the token up with the service role and serves the surgeries that user can
+-- see. Rotating the token breaks every feed URL handed out before.
+--
+-- Surgeries keep an iCalendar SEQUENCE, bumped whenever the event as
+-- subscribed calendars show it changes, so rescheduled surgeries replace
+-- the old event instead of being ignored.
+
+CREATE TABLE public.calendar_feed_tokens (
+  user_id uuid NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar token" ON public.calendar_feed_tokens
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users can create their calendar token" ON public.calendar_feed_tokens
+  FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users can revoke their calendar token" ON public.calendar_feed_tokens
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Replace the caller's token with a new one
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _token text;
+BEGIN
+  DELETE FROM public.calendar_feed_tokens WHERE user_id = auth.uid();
+  INSERT INTO public.calendar_feed_tokens (user_id) VALUES (auth.uid()) RETURNING token INTO _token;
+  RETURN _token;
+END;
+$$;
+
+ALTER TABLE public.surgeries ADD COLUMN ics_sequence integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_surgery_ics_sequence()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+     OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.procedure_name IS DISTINCT FROM OLD.procedure_name
+     OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR NEW.operating_room IS DISTINCT FROM OLD.operating_room
+     OR NEW.main_surgeon IS DISTINCT FROM OLD.main_surgeon
+     OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+    NEW.ics_sequence := OLD.ics_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_surgery_ics_sequence
+  BEFORE UPDATE ON public.surgeries
+  FOR EACH ROW EXECUTE FUNCTION public.bump_surgery_ics_sequence();
+
+-- Surgeries for a feed token, optionally narrowed to a surgeon, hospital,
+-- operating room or board. Surgeries deleted in the last 30 days are
+-- returned too so subscribed calendars can cancel them.
+CREATE OR REPLACE FUNCTION public.calendar_feed_surgeries(
+  _token text,
+  _surgeon text DEFAULT NULL,
+  _hospital_id uuid DEFAULT NULL,
+  _operating_room_id uuid DEFAULT NULL,
+  _board_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  procedure_name text,
+  scheduled_date timestamp with time zone,
+  duration_minutes integer,
+  status text,
+  main_surgeon text,
+  assistants text[],
+  operating_room text,
+  hospital_name text,
+  patient_name text,
+  medical_record_number text,
+  ics_sequence integer,
+  updated_at timestamp with time zone,
+  deleted_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid;
+BEGIN
+  SELECT t.user_id INTO _user_id FROM public.calendar_feed_tokens t WHERE t.token = _token;
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid calendar token' USING ERRCODE = 'invalid_authorization_specification';
+  END IF;
+
+  IF _board_id IS NOT NULL AND NOT public.can_access_board(_user_id, _board_id) THEN
+    RAISE EXCEPTION 'Board not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.procedure_name, s.scheduled_date, s.duration_minutes, s.status, s.main_surgeon,
+         s.assistants, s.operating_room, h.name, p.name, p.medical_record_number,
+         -- Deleting the patient cancels the event without touching the surgery row
+         s.ics_sequence + CASE WHEN s.deleted_at IS NULL AND p.deleted_at IS NOT NULL THEN 1 ELSE 0 END,
+         s.updated_at, COALESCE(s.deleted_at, p.deleted_at)
+  FROM public.surgeries s
+  JOIN public.patients p ON p.id = s.patient_id
+  LEFT JOIN public.hospitals h ON h.id = s.hospital_id
+  WHERE s.scheduled_date IS NOT NULL
+    AND s.scheduled_date > now() - interval '90 days'
+    AND (COALESCE(s.deleted_at, p.deleted_at) IS NULL OR COALESCE(s.deleted_at, p.deleted_at) > now() - interval '30 days')
+    AND public.can_access_patient(_user_id, s.patient_id)
+    AND (_surgeon IS NULL
+         OR lower(btrim(s.main_surgeon)) = lower(btrim(_surgeon))
+         OR lower(btrim(_surgeon)) IN (SELECT lower(btrim(a)) FROM unnest(s.assistants) a))
+    AND (_hospital_id IS NULL OR s.hospital_id = _hospital_id)
+    AND (_operating_room_id IS NULL OR s.operating_room_id = _operating_room_id)
+    AND (_board_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.kanban_cards c
+      WHERE c.board_id = _board_id
+        AND c.patient_id = s.patient_id
+        AND (c.surgery_id IS NULL OR c.surgery_id = s.id)
+    ))
+  ORDER BY s.scheduled_date;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calendar_feed_surgeries(text, text, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calendar_feed_surgeries(text, text, uuid, uuid, uuid) TO service_role;
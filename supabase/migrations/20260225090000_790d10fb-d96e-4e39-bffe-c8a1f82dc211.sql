@@ -0,0 +1,23 @@
+-- Hospital time zones
+-- Exported calendar events are written in the hospital's own zone, with a
+-- VTIMEZONE block, so they keep their wall-clock time wherever the
+-- calendar is opened. Zones are IANA names, e.g. Europe/Lisbon.
+
+-- Whether Postgres knows a zone name
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(_zone text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE _zone;
+  RETURN true;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN false;
+END;
+$$;
+
+ALTER TABLE public.hospitals
+  ADD COLUMN timezone text NOT NULL DEFAULT 'Europe/Lisbon'
+  CONSTRAINT hospitals_timezone_valid CHECK (public.is_valid_time_zone(timezone));
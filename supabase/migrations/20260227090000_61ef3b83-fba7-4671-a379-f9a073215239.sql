@@ -0,0 +1,31 @@
+-- Teams can't be linked to a hospital from the app
+-- A team's hospital gives its members access to every patient, surgery and
+-- board at that hospital, and anyone can sign up and create a team. Clients
+-- may only create teams without a hospital and never change it; linking a
+-- team to a hospital is left to the database owner (service role).
+
+-- The hospital a team is stored with, read past RLS so update checks can
+-- compare against the row as it was before the update
+CREATE OR REPLACE FUNCTION public.team_hospital_id(_team_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT hospital_id FROM public.teams WHERE id = _team_id
+$$;
+
+DROP POLICY "Users can create teams" ON public.teams;
+DROP POLICY "Members can update their teams" ON public.teams;
+
+CREATE POLICY "Users can create teams" ON public.teams
+  FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid() AND hospital_id IS NULL);
+CREATE POLICY "Members can update their teams" ON public.teams
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), id))
+  WITH CHECK (
+    public.is_team_member(auth.uid(), id)
+    AND hospital_id IS NOT DISTINCT FROM public.team_hospital_id(id)
+  );
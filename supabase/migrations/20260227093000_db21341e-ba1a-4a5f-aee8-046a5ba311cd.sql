@@ -0,0 +1,20 @@
+-- Creating and editing teams needs teams.manage, like managing their members
+
+DROP POLICY "Users can create teams" ON public.teams;
+DROP POLICY "Members can update their teams" ON public.teams;
+
+CREATE POLICY "Users can create teams" ON public.teams
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND hospital_id IS NULL
+    AND public.has_permission(auth.uid(), 'teams.manage')
+  );
+CREATE POLICY "Members can update their teams" ON public.teams
+  FOR UPDATE TO authenticated
+  USING (public.is_team_member(auth.uid(), id) AND public.has_permission(auth.uid(), 'teams.manage'))
+  WITH CHECK (
+    public.is_team_member(auth.uid(), id)
+    AND public.has_permission(auth.uid(), 'teams.manage')
+    AND hospital_id IS NOT DISTINCT FROM public.team_hospital_id(id)
+  );
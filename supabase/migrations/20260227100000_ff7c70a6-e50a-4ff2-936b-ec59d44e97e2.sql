@@ -0,0 +1,92 @@
+-- Conflict overrides follow their surgery, and are saved with it
+-- The override's patient is now taken from its surgery rather than stored,
+-- so merging patients can't leave overrides behind on the trashed
+-- duplicate. save_surgery writes a surgery and the reason for its
+-- conflicts in one transaction, so a conflicting booking is never saved
+-- without one.
+
+-- The patient a surgery belongs to, including trashed surgeries
+CREATE OR REPLACE FUNCTION public.surgery_patient_id(_surgery_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT patient_id FROM public.surgeries WHERE id = _surgery_id
+$$;
+
+DROP POLICY "Team members can view conflict overrides" ON public.surgery_conflict_overrides;
+DROP POLICY "Schedulers can record conflict overrides" ON public.surgery_conflict_overrides;
+
+ALTER TABLE public.surgery_conflict_overrides DROP COLUMN patient_id;
+
+CREATE POLICY "Team members can view conflict overrides" ON public.surgery_conflict_overrides
+  FOR SELECT TO authenticated
+  USING (public.can_access_patient(auth.uid(), public.surgery_patient_id(surgery_id)));
+
+CREATE POLICY "Schedulers can record conflict overrides" ON public.surgery_conflict_overrides
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND public.has_permission(auth.uid(), 'surgeries.schedule')
+    AND public.can_access_patient(auth.uid(), public.surgery_patient_id(surgery_id))
+  );
+
+-- Insert a surgery (no id) or update the fields present in _values, and
+-- record the reason for scheduling it despite _conflicts. Runs as the
+-- caller, so surgery policies and field-level permissions still apply.
+CREATE OR REPLACE FUNCTION public.save_surgery(
+  _surgery_id uuid,
+  _values jsonb,
+  _override_reason text DEFAULT NULL,
+  _conflicts jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _new public.surgeries := jsonb_populate_record(NULL::public.surgeries, _values);
+  _id uuid;
+BEGIN
+  IF _surgery_id IS NULL THEN
+    INSERT INTO public.surgeries (
+      patient_id, procedure_name, scheduled_date, status, hospital_id, main_surgeon, assistants,
+      operating_room, operating_room_id, duration_minutes, structured_description, notes, episode_id
+    ) VALUES (
+      _new.patient_id, _new.procedure_name, _new.scheduled_date, COALESCE(_new.status, 'scheduled'),
+      _new.hospital_id, _new.main_surgeon, _new.assistants, _new.operating_room, _new.operating_room_id,
+      _new.duration_minutes, _new.structured_description, _new.notes, _new.episode_id
+    )
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.surgeries s SET
+      procedure_name = CASE WHEN _values ? 'procedure_name' THEN _new.procedure_name ELSE s.procedure_name END,
+      scheduled_date = CASE WHEN _values ? 'scheduled_date' THEN _new.scheduled_date ELSE s.scheduled_date END,
+      status = CASE WHEN _values ? 'status' THEN _new.status ELSE s.status END,
+      hospital_id = CASE WHEN _values ? 'hospital_id' THEN _new.hospital_id ELSE s.hospital_id END,
+      main_surgeon = CASE WHEN _values ? 'main_surgeon' THEN _new.main_surgeon ELSE s.main_surgeon END,
+      assistants = CASE WHEN _values ? 'assistants' THEN _new.assistants ELSE s.assistants END,
+      operating_room = CASE WHEN _values ? 'operating_room' THEN _new.operating_room ELSE s.operating_room END,
+      operating_room_id = CASE WHEN _values ? 'operating_room_id' THEN _new.operating_room_id ELSE s.operating_room_id END,
+      duration_minutes = CASE WHEN _values ? 'duration_minutes' THEN _new.duration_minutes ELSE s.duration_minutes END,
+      structured_description = CASE WHEN _values ? 'structured_description' THEN _new.structured_description ELSE s.structured_description END,
+      notes = CASE WHEN _values ? 'notes' THEN _new.notes ELSE s.notes END,
+      episode_id = CASE WHEN _values ? 'episode_id' THEN _new.episode_id ELSE s.episode_id END
+    WHERE s.id = _surgery_id
+    RETURNING s.id INTO _id;
+
+    IF _id IS NULL THEN
+      RAISE EXCEPTION 'Surgery not found';
+    END IF;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_conflicts, '[]'::jsonb)) > 0 THEN
+    INSERT INTO public.surgery_conflict_overrides (surgery_id, reason, conflicts)
+    VALUES (_id, btrim(COALESCE(_override_reason, '')), _conflicts);
+  END IF;
+
+  RETURN _id;
+END;
+$$;
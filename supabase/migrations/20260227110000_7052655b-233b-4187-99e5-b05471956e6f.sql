@@ -0,0 +1,67 @@
+-- Overdue sync moves cards through move_kanban_card
+-- Writing column_id directly left duplicate positions in the pending column
+-- and a gap in the scheduled one; move_kanban_card appends each card to its
+-- new column and renumbers both.
+
+CREATE OR REPLACE FUNCTION public.sync_overdue_surgeries()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _surgery record;
+  _card record;
+  _cards integer;
+  _count integer := 0;
+BEGIN
+  FOR _surgery IN
+    SELECT s.id, s.patient_id, s.status
+    FROM public.surgeries s
+    WHERE s.status = 'scheduled'
+      AND s.scheduled_date < now()
+      AND s.deleted_at IS NULL
+    ORDER BY s.scheduled_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.surgeries
+    SET status = 'pending'
+    WHERE id = _surgery.id AND status = 'scheduled';
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    _cards := 0;
+    FOR _card IN
+      SELECT c.id, c.column_id, public.board_column_for_status(c.board_id, 'pending') AS pending_column_id
+      FROM public.kanban_cards c
+      WHERE c.patient_id = _surgery.patient_id
+        AND c.manual_override = false
+        AND public.kanban_card_tracks_surgery(c.id, _surgery.id)
+        AND c.column_id = public.board_column_for_status(c.board_id, 'scheduled')
+        AND public.board_column_for_status(c.board_id, 'pending') IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM public.surgeries other
+          WHERE other.patient_id = _surgery.patient_id
+            AND other.id <> _surgery.id
+            AND other.status = 'scheduled'
+            AND other.scheduled_date >= now()
+            AND other.deleted_at IS NULL
+            AND public.kanban_card_tracks_surgery(c.id, other.id)
+        )
+    LOOP
+      IF public.move_kanban_card(_card.id, _card.pending_column_id, NULL, false, _card.column_id) THEN
+        _cards := _cards + 1;
+      END IF;
+    END LOOP;
+
+    INSERT INTO public.surgery_status_transitions (surgery_id, patient_id, from_status, to_status, reason, kanban_cards_moved)
+    VALUES (_surgery.id, _surgery.patient_id, _surgery.status, 'pending', 'overdue', _cards);
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Surgeries keep their room's current name
+-- Renaming a room updates the operating_room text of every surgery in it,
+-- trashed ones included, and unlinking a surgery from its room clears the
+-- room name it was given.
+
+-- Whether a name is the current name of a room
+CREATE OR REPLACE FUNCTION public.is_operating_room_name(_room_id uuid, _name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.operating_rooms WHERE id = _room_id AND name = _name)
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_surgery_operating_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _room public.operating_rooms%ROWTYPE;
+BEGIN
+  IF NEW.operating_room_id IS NULL THEN
+    -- The name came from the room, unless another one was typed in with the change
+    IF TG_OP = 'UPDATE' AND OLD.operating_room_id IS NOT NULL
+       AND NEW.operating_room IS NOT DISTINCT FROM OLD.operating_room THEN
+      NEW.operating_room := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _room FROM public.operating_rooms WHERE id = NEW.operating_room_id;
+  IF NEW.hospital_id IS NULL THEN
+    NEW.hospital_id := _room.hospital_id;
+  ELSIF NEW.hospital_id <> _room.hospital_id THEN
+    RAISE EXCEPTION 'Operating room % is not in the surgery''s hospital', _room.name;
+  END IF;
+  NEW.operating_room := _room.name;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs as the owner so hospital managers without surgeries.schedule can
+-- rename rooms that hold surgeries
+CREATE OR REPLACE FUNCTION public.rename_surgeries_operating_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.surgeries
+  SET operating_room = NEW.name
+  WHERE operating_room_id = NEW.id AND operating_room IS DISTINCT FROM NEW.name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rename_surgeries_operating_room
+  AFTER UPDATE OF name ON public.operating_rooms
+  FOR EACH ROW
+  WHEN (NEW.name IS DISTINCT FROM OLD.name)
+  EXECUTE FUNCTION public.rename_surgeries_operating_room();
+
+-- Taking on the linked room's current name is not a scheduling change
+CREATE OR REPLACE FUNCTION public.enforce_surgery_permissions()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.structured_description IS NOT NULL)
+     OR (TG_OP = 'UPDATE' AND NEW.structured_description IS DISTINCT FROM OLD.structured_description) THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.edit_clinical') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.edit_clinical is required to edit the surgery description';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+     OR NEW.scheduled_date IS DISTINCT FROM OLD.scheduled_date
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id
+     OR (NEW.operating_room IS DISTINCT FROM OLD.operating_room AND NOT public.is_operating_room_name(NEW.operating_room_id, NEW.operating_room))
+     OR NEW.operating_room_id IS DISTINCT FROM OLD.operating_room_id
+     OR NEW.duration_minutes IS DISTINCT FROM OLD.duration_minutes
+     OR NEW.main_surgeon IS DISTINCT FROM OLD.main_surgeon
+     OR NEW.assistants IS DISTINCT FROM OLD.assistants THEN
+    IF NOT public.has_permission(auth.uid(), 'surgeries.schedule') THEN
+      RAISE EXCEPTION 'Permission denied: surgeries.schedule is required to schedule surgeries';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,32 @@
+-- Remove an operating room: delete it when no surgery ever used it, or
+-- deactivate it when one did. Surgeries are counted past RLS, so rooms used
+-- by trashed or other teams' surgeries are never deleted from under them.
+CREATE OR REPLACE FUNCTION public.remove_operating_room(_room_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'hospitals.manage') THEN
+    RAISE EXCEPTION 'Permission denied: hospitals.manage is required to remove operating rooms';
+  END IF;
+
+  -- Locking the room holds off surgeries being booked into it meanwhile
+  PERFORM 1 FROM public.operating_rooms WHERE id = _room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Operating room not found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.surgeries WHERE operating_room_id = _room_id) THEN
+    UPDATE public.operating_rooms SET active = false WHERE id = _room_id;
+    RETURN 'deactivated';
+  END IF;
+
+  DELETE FROM public.operating_rooms WHERE id = _room_id;
+  RETURN 'deleted';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.remove_operating_room(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_operating_room(uuid) TO authenticated;
@@ -0,0 +1,77 @@
+-- Create a kanban board from a template in one transaction
+-- Takes the board's name, description, hospital and service, and a board
+-- template config ({ columns, checklist_templates, tags, filters }, see
+-- src/lib/boardTemplates.ts). Any failure rolls the whole board back, so a
+-- half-built board is never left behind.
+-- Runs as the caller, so the usual permissions on boards apply.
+
+CREATE OR REPLACE FUNCTION public.create_kanban_board(_board jsonb, _template jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _board_id uuid;
+  _checklist jsonb;
+  _checklist_id uuid;
+BEGIN
+  IF COALESCE(btrim(_board->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Board name is required';
+  END IF;
+  IF jsonb_typeof(_template->'columns') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(_template->'columns') = 0 THEN
+    RAISE EXCEPTION 'The board needs at least one column';
+  END IF;
+
+  INSERT INTO public.kanban_boards (name, description, hospital_id, service)
+  VALUES (
+    btrim(_board->>'name'),
+    NULLIF(btrim(_board->>'description'), ''),
+    (NULLIF(_board->>'hospital_id', ''))::uuid,
+    NULLIF(btrim(_board->>'service'), '')
+  )
+  RETURNING id INTO _board_id;
+
+  INSERT INTO public.kanban_columns (board_id, key, name, color, position, statuses, wip_limit, aging_warning_days, aging_critical_days)
+  SELECT
+    _board_id,
+    c.value->>'id',
+    COALESCE(c.value->>'name', c.value->>'id'),
+    COALESCE(c.value->>'color', 'gray'),
+    c.ordinality - 1,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(c.value->'statuses')), '{}'),
+    (c.value->>'wip_limit')::integer,
+    (c.value->>'aging_warning_days')::integer,
+    (c.value->>'aging_critical_days')::integer
+  FROM jsonb_array_elements(_template->'columns') WITH ORDINALITY AS c(value, ordinality);
+
+  INSERT INTO public.kanban_tags (board_id, name, color)
+  SELECT _board_id, t->>'name', COALESCE(t->>'color', 'gray')
+  FROM jsonb_array_elements(COALESCE(_template->'tags', '[]'::jsonb)) AS t;
+
+  FOR _checklist IN SELECT * FROM jsonb_array_elements(COALESCE(_template->'checklist_templates', '[]'::jsonb))
+  LOOP
+    INSERT INTO public.checklist_templates (board_id, name, column_key, procedure)
+    VALUES (_board_id, btrim(_checklist->>'name'), _checklist->>'column_key', NULLIF(btrim(_checklist->>'procedure'), ''))
+    RETURNING id INTO _checklist_id;
+
+    INSERT INTO public.checklist_template_items (template_id, text, position, due_in_days)
+    SELECT _checklist_id, btrim(i.value->>'text'), i.ordinality - 1, (i.value->>'due_in_days')::integer
+    FROM jsonb_array_elements(COALESCE(_checklist->'items', '[]'::jsonb)) WITH ORDINALITY AS i(value, ordinality)
+    WHERE btrim(i.value->>'text') <> '';
+  END LOOP;
+
+  -- Templates pick default filter tags by name; boards by id
+  IF jsonb_typeof(_template->'filters') = 'object' THEN
+    UPDATE public.kanban_boards
+    SET default_filters = (_template->'filters') || jsonb_build_object('tags', COALESCE((
+      SELECT jsonb_agg(k.id)
+      FROM jsonb_array_elements_text(COALESCE(_template->'filters'->'tags', '[]'::jsonb)) f(tag_name)
+      JOIN public.kanban_tags k ON k.board_id = _board_id AND lower(k.name) = lower(f.tag_name)
+    ), '[]'::jsonb))
+    WHERE id = _board_id;
+  END IF;
+
+  RETURN _board_id;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- Save a checklist template and its items in one transaction
+-- The template's fields are updated (or the template created) and its items
+-- replaced together, so a failure part-way never leaves a template without
+-- items. Runs as the caller, so the usual permissions on templates apply.
+
+CREATE OR REPLACE FUNCTION public.save_checklist_template(
+  _template_id uuid,
+  _board_id uuid,
+  _name text,
+  _column_key text,
+  _procedure text,
+  _items jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid := _template_id;
+BEGIN
+  IF COALESCE(btrim(_name), '') = '' THEN
+    RAISE EXCEPTION 'Template name is required';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.checklist_templates (board_id, name, column_key, procedure)
+    VALUES (_board_id, btrim(_name), _column_key, NULLIF(btrim(_procedure), ''))
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.checklist_templates
+    SET name = btrim(_name), column_key = _column_key, procedure = NULLIF(btrim(_procedure), '')
+    WHERE id = _id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Checklist template not found';
+    END IF;
+
+    DELETE FROM public.checklist_template_items WHERE template_id = _id;
+  END IF;
+
+  INSERT INTO public.checklist_template_items (template_id, text, position, due_in_days)
+  SELECT _id, item.text, row_number() OVER (ORDER BY item.ordinality) - 1, item.due_in_days
+  FROM (
+    SELECT btrim(i.value->>'text') AS text, (i.value->>'due_in_days')::integer AS due_in_days, i.ordinality
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb)) WITH ORDINALITY AS i(value, ordinality)
+  ) item
+  WHERE item.text <> '';
+
+  RETURN _id;
+END;
+$$;
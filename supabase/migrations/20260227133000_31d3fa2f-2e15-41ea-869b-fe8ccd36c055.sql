@@ -0,0 +1,87 @@
+-- Keep card positions dense when merging patients
+-- merge_patients deletes the duplicate's card where the survivor already
+-- has one on the same board, which left a gap in that card's column. The
+-- column is now renumbered after the card goes; the merge is otherwise
+-- unchanged.
+
+CREATE OR REPLACE FUNCTION public.merge_patients(_survivor_id uuid, _duplicate_id uuid, _fields jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _table text;
+  _card record;
+  _survivor_card_id uuid;
+BEGIN
+  IF _survivor_id = _duplicate_id THEN
+    RAISE EXCEPTION 'A patient cannot be merged into itself';
+  END IF;
+  IF NOT (public.has_permission(auth.uid(), 'patients.edit') AND public.has_permission(auth.uid(), 'patients.delete'))
+     OR NOT public.can_access_patient(auth.uid(), _survivor_id)
+     OR NOT public.can_access_patient(auth.uid(), _duplicate_id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+  IF NOT (public.patient_is_active(_survivor_id) AND public.patient_is_active(_duplicate_id)) THEN
+    RAISE EXCEPTION 'Restore both patients from the trash before merging them';
+  END IF;
+
+  -- Free the duplicate's MRN in case the survivor takes it
+  UPDATE public.patients SET medical_record_number = NULL WHERE id = _duplicate_id;
+
+  UPDATE public.patients
+  SET
+    name = COALESCE(NULLIF(btrim(_fields->>'name'), ''), name),
+    medical_record_number = NULLIF(btrim(_fields->>'medical_record_number'), ''),
+    date_of_birth = (NULLIF(_fields->>'date_of_birth', ''))::date,
+    gender = NULLIF(_fields->>'gender', ''),
+    contact_phone = NULLIF(_fields->>'contact_phone', ''),
+    contact_email = NULLIF(_fields->>'contact_email', ''),
+    address = NULLIF(_fields->>'address', ''),
+    notes = NULLIF(_fields->>'notes', '')
+  WHERE id = _survivor_id;
+
+  FOREACH _table IN ARRAY ARRAY['episodes', 'surgeries', 'consultations', 'attachments', 'comments', 'surgery_status_transitions'] LOOP
+    EXECUTE format('UPDATE public.%I SET patient_id = $1 WHERE patient_id = $2', _table)
+    USING _survivor_id, _duplicate_id;
+  END LOOP;
+
+  INSERT INTO public.patient_tags (patient_id, tag_id)
+  SELECT _survivor_id, tag_id FROM public.patient_tags WHERE patient_id = _duplicate_id
+  ON CONFLICT DO NOTHING;
+  DELETE FROM public.patient_tags WHERE patient_id = _duplicate_id;
+
+  -- One card per patient and board: fold the duplicate's card into the survivor's
+  FOR _card IN SELECT id, board_id, column_id FROM public.kanban_cards WHERE patient_id = _duplicate_id LOOP
+    SELECT id INTO _survivor_card_id
+    FROM public.kanban_cards
+    WHERE patient_id = _survivor_id AND board_id = _card.board_id;
+
+    IF _survivor_card_id IS NULL THEN
+      UPDATE public.kanban_cards SET patient_id = _survivor_id WHERE id = _card.id;
+    ELSE
+      INSERT INTO public.kanban_card_tags (card_id, tag_id)
+      SELECT _survivor_card_id, tag_id FROM public.kanban_card_tags WHERE card_id = _card.id
+      ON CONFLICT DO NOTHING;
+
+      UPDATE public.card_checklist_items i
+      SET card_id = _survivor_card_id,
+          position = i.position + (SELECT COUNT(*) FROM public.card_checklist_items WHERE card_id = _survivor_card_id)
+      WHERE i.card_id = _card.id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.card_checklist_items s
+          WHERE s.card_id = _survivor_card_id AND lower(s.text) = lower(i.text)
+        );
+
+      DELETE FROM public.kanban_cards WHERE id = _card.id;
+      PERFORM public.renumber_kanban_column(_card.column_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.patients
+  SET deleted_at = now(),
+      notes = concat_ws(E'\n', notes, format('Merged into patient %s', _survivor_id))
+  WHERE id = _duplicate_id;
+END;
+$$;
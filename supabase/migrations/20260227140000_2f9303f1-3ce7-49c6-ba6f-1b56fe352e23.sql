@@ -0,0 +1,50 @@
+-- Role changes need a dedicated admin permission
+-- Roles are global, so letting any teams.manage holder change the role of a
+-- teammate let one team's surgeon promote or demote users of other teams
+-- (after adding them to their own team), and even themselves. Changing roles
+-- now needs roles.manage, which no role carries: it is granted to individual
+-- users in user_permissions, by the service role only. Nobody can change
+-- their own role.
+
+CREATE TABLE public.user_permissions (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  permission text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+ALTER TABLE public.user_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own permission grants" ON public.user_permissions
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- A role's permissions plus the user's own grants
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id uuid, _permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id AND rp.permission = _permission
+  ) OR EXISTS (
+    SELECT 1 FROM public.user_permissions up
+    WHERE up.user_id = _user_id AND up.permission = _permission
+  )
+$$;
+
+DROP POLICY "Team managers can change teammates roles" ON public.user_roles;
+CREATE POLICY "Role admins can change other users roles" ON public.user_roles
+  FOR UPDATE TO authenticated
+  USING (public.has_permission(auth.uid(), 'roles.manage') AND user_id <> auth.uid())
+  WITH CHECK (public.has_permission(auth.uid(), 'roles.manage') AND user_id <> auth.uid());
+
+-- The bootstrap user, the first to sign up, administers roles to begin with
+INSERT INTO public.user_permissions (user_id, permission)
+SELECT id, 'roles.manage' FROM public.profiles ORDER BY created_at LIMIT 1
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,198 @@
+-- Import everything a board export carries
+-- Board exports now include the tag palette, checklist templates, default
+-- filters and, per card, its tags, checklist, manual override flag and
+-- surgery and episode links, so an export re-imports without losing them.
+-- The palette, templates and filters come from the file when it has them,
+-- else from the chosen template as before. Surgery and episode links are
+-- kept only when that record exists for the card's patient.
+
+CREATE OR REPLACE FUNCTION public.import_kanban_board(_board jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _board_id uuid;
+  _hospital_id uuid;
+  _template jsonb;
+  _template_id uuid;
+  _card jsonb;
+  _card_id uuid;
+  _column_id uuid;
+  _patient jsonb;
+  _patient_id uuid;
+  _mrn text;
+  _created integer := 0;
+  _matched integer := 0;
+  _cards integer := 0;
+BEGIN
+  IF COALESCE(btrim(_board->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Board name is required';
+  END IF;
+  IF jsonb_typeof(_board->'columns_config') IS DISTINCT FROM 'array'
+     OR jsonb_array_length(_board->'columns_config') = 0 THEN
+    RAISE EXCEPTION 'The board needs at least one column';
+  END IF;
+
+  SELECT id INTO _hospital_id FROM public.hospitals WHERE name = _board->>'hospital' LIMIT 1;
+
+  INSERT INTO public.kanban_boards (name, description, hospital, hospital_id, service)
+  VALUES (
+    btrim(_board->>'name'),
+    NULLIF(_board->>'description', ''),
+    NULLIF(_board->>'hospital', ''),
+    _hospital_id,
+    NULLIF(_board->>'service', '')
+  )
+  RETURNING id INTO _board_id;
+
+  INSERT INTO public.kanban_columns (board_id, key, name, color, position, statuses, wip_limit, aging_warning_days, aging_critical_days)
+  SELECT
+    _board_id,
+    c.value->>'id',
+    COALESCE(c.value->>'name', c.value->>'id'),
+    COALESCE(c.value->>'color', 'gray'),
+    c.ordinality - 1,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(c.value->'statuses')), '{}'),
+    (c.value->>'wip_limit')::integer,
+    (c.value->>'aging_warning_days')::integer,
+    (c.value->>'aging_critical_days')::integer
+  FROM jsonb_array_elements(_board->'columns_config') WITH ORDINALITY AS c(value, ordinality);
+
+  -- Setup from the file, or from the chosen board template
+  INSERT INTO public.kanban_tags (board_id, name, color)
+  SELECT _board_id, t->>'name', COALESCE(t->>'color', 'gray')
+  FROM jsonb_array_elements(COALESCE(_board->'tags', '[]'::jsonb)) AS t;
+
+  FOR _template IN SELECT * FROM jsonb_array_elements(COALESCE(_board->'checklist_templates', '[]'::jsonb))
+  LOOP
+    INSERT INTO public.checklist_templates (board_id, name, column_key, procedure)
+    VALUES (_board_id, _template->>'name', _template->>'column_key', NULLIF(btrim(_template->>'procedure'), ''))
+    RETURNING id INTO _template_id;
+
+    INSERT INTO public.checklist_template_items (template_id, text, position, due_in_days)
+    SELECT _template_id, i.value->>'text', i.ordinality - 1, (i.value->>'due_in_days')::integer
+    FROM jsonb_array_elements(_template->'items') WITH ORDINALITY AS i(value, ordinality);
+  END LOOP;
+
+  IF jsonb_typeof(_board->'filters') = 'object' THEN
+    UPDATE public.kanban_boards
+    SET default_filters = (_board->'filters') || jsonb_build_object('tags', COALESCE((
+      SELECT jsonb_agg(k.id)
+      FROM jsonb_array_elements_text(COALESCE(_board->'filters'->'tags', '[]'::jsonb)) f(tag_name)
+      JOIN public.kanban_tags k ON k.board_id = _board_id AND lower(k.name) = lower(f.tag_name)
+    ), '[]'::jsonb))
+    WHERE id = _board_id;
+  END IF;
+
+  -- Cards in column order, each column renumbered densely
+  FOR _card IN
+    SELECT c.value
+    FROM jsonb_array_elements(COALESCE(_board->'cards', '[]'::jsonb)) WITH ORDINALITY AS c(value, ordinality)
+    ORDER BY COALESCE(c.value->>'column_name', 'waiting'), (c.value->>'position')::integer NULLS LAST, c.ordinality
+  LOOP
+    SELECT id INTO _column_id
+    FROM public.kanban_columns
+    WHERE board_id = _board_id AND key = COALESCE(_card->>'column_name', 'waiting');
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown column "%"', COALESCE(_card->>'column_name', 'waiting');
+    END IF;
+
+    _patient := _card->'patient';
+    _mrn := NULLIF(btrim(_patient->>'medical_record_number'), '');
+    _patient_id := NULL;
+
+    IF _mrn IS NOT NULL THEN
+      SELECT id INTO _patient_id FROM public.patients WHERE medical_record_number = _mrn;
+    END IF;
+
+    IF _patient_id IS NULL THEN
+      BEGIN
+        INSERT INTO public.patients (
+          name, medical_record_number, date_of_birth, gender, contact_phone, contact_email, address, notes
+        )
+        VALUES (
+          btrim(_patient->>'name'),
+          _mrn,
+          (_patient->>'date_of_birth')::date,
+          NULLIF(_patient->>'gender', ''),
+          NULLIF(_patient->>'contact_phone', ''),
+          NULLIF(_patient->>'contact_email', ''),
+          NULLIF(_patient->>'address', ''),
+          NULLIF(_patient->>'notes', '')
+        )
+        RETURNING id INTO _patient_id;
+      EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'A patient with medical record number % already exists but is not visible to you', _mrn;
+      END;
+      _created := _created + 1;
+    ELSE
+      _matched := _matched + 1;
+    END IF;
+
+    BEGIN
+      INSERT INTO public.kanban_cards (
+        board_id, patient_id, column_id, position, priority, notes, scheduled_date, surgery_type,
+        manual_override, surgery_id, episode_id
+      )
+      VALUES (
+        _board_id,
+        _patient_id,
+        _column_id,
+        (SELECT COUNT(*) FROM public.kanban_cards WHERE column_id = _column_id),
+        COALESCE(_card->>'priority', 'normal'),
+        NULLIF(_card->>'notes', ''),
+        (_card->>'scheduled_date')::timestamp with time zone,
+        NULLIF(_card->>'surgery_type', ''),
+        COALESCE((_card->>'manual_override')::boolean, false),
+        -- Links are kept only where the record exists for this patient, e.g. on a re-import
+        (SELECT s.id FROM public.surgeries s WHERE s.id = (_card->>'surgery_id')::uuid AND s.patient_id = _patient_id),
+        (SELECT e.id FROM public.episodes e WHERE e.id = (_card->>'episode_id')::uuid AND e.patient_id = _patient_id)
+      )
+      RETURNING id INTO _card_id;
+    EXCEPTION WHEN unique_violation THEN
+      RAISE EXCEPTION 'Patient "%" has more than one card', _patient->>'name';
+    END;
+    _cards := _cards + 1;
+
+    -- Card tags by name; names missing from the palette are added to it
+    INSERT INTO public.kanban_tags (board_id, name, color)
+    SELECT DISTINCT ON (lower(btrim(t.name))) _board_id, btrim(t.name), 'gray'
+    FROM jsonb_array_elements_text(COALESCE(_card->'tags', '[]'::jsonb)) AS t(name)
+    WHERE btrim(t.name) <> ''
+      AND NOT EXISTS (
+        SELECT 1 FROM public.kanban_tags k WHERE k.board_id = _board_id AND lower(k.name) = lower(btrim(t.name))
+      );
+
+    INSERT INTO public.kanban_card_tags (card_id, tag_id)
+    SELECT _card_id, k.id
+    FROM jsonb_array_elements_text(COALESCE(_card->'tags', '[]'::jsonb)) AS t(name)
+    JOIN public.kanban_tags k ON k.board_id = _board_id AND lower(k.name) = lower(btrim(t.name))
+    ON CONFLICT DO NOTHING;
+
+    -- An exported checklist replaces the items the column's templates just added
+    IF jsonb_typeof(_card->'checklist') = 'array' THEN
+      DELETE FROM public.card_checklist_items WHERE card_id = _card_id;
+
+      INSERT INTO public.card_checklist_items (card_id, template_id, text, done, due_date, position)
+      SELECT
+        _card_id,
+        (SELECT t.id FROM public.checklist_templates t
+         WHERE t.board_id = _board_id AND lower(t.name) = lower(i.value->>'template')
+         ORDER BY t.created_at LIMIT 1),
+        btrim(i.value->>'text'),
+        COALESCE((i.value->>'done')::boolean, false),
+        (i.value->>'due_date')::date,
+        i.ordinality - 1
+      FROM jsonb_array_elements(_card->'checklist') WITH ORDINALITY AS i(value, ordinality);
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'board_id', _board_id,
+    'cards', _cards,
+    'patients_created', _created,
+    'patients_matched', _matched
+  );
+END;
+$$;
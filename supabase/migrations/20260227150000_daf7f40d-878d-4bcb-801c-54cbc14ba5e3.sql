@@ -0,0 +1,74 @@
+-- Look up schedule clashes across every team
+-- Conflict checks ran under the caller's RLS, so a surgeon double-booked
+-- through another team's patient went unnoticed. This returns the surgeries
+-- overlapping a slot that share its room, a team member or its patient,
+-- whoever's patient they are. Surgeries of patients the caller can't access
+-- come back as a bare slot: time, room, procedure and team, without the
+-- patient.
+
+CREATE OR REPLACE FUNCTION public.surgery_schedule_clashes(
+  _start timestamp with time zone,
+  _end timestamp with time zone,
+  _operating_room_id uuid,
+  _team text[],
+  _patient_id uuid,
+  _surgery_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  procedure_name text,
+  scheduled_date timestamp with time zone,
+  duration_minutes integer,
+  status text,
+  main_surgeon text,
+  assistants text[],
+  operating_room_id uuid,
+  patient_id uuid,
+  patient_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_keys text[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT lower(btrim(t))) FILTER (WHERE btrim(t) <> ''), '{}')
+  INTO _team_keys
+  FROM unnest(COALESCE(_team, '{}')) t;
+
+  -- Patients the caller can't access are never matched, so they can't be probed
+  IF _patient_id IS NOT NULL AND NOT public.can_access_patient(auth.uid(), _patient_id) THEN
+    _patient_id := NULL;
+  END IF;
+
+  RETURN QUERY
+  SELECT s.id, s.procedure_name, s.scheduled_date, s.duration_minutes, s.status, s.main_surgeon,
+         s.assistants, s.operating_room_id,
+         CASE WHEN visible.ok THEN s.patient_id END,
+         CASE WHEN visible.ok THEN p.name END
+  FROM public.surgeries s
+  JOIN public.patients p ON p.id = s.patient_id
+  CROSS JOIN LATERAL (SELECT public.can_access_patient(auth.uid(), s.patient_id) AS ok) visible
+  WHERE s.scheduled_date < _end
+    AND s.scheduled_date + make_interval(mins => COALESCE(NULLIF(s.duration_minutes, 0), 60)) > _start
+    AND s.status <> 'cancelled'
+    AND s.deleted_at IS NULL
+    AND p.deleted_at IS NULL
+    AND (_surgery_id IS NULL OR s.id <> _surgery_id)
+    AND (
+      (_operating_room_id IS NOT NULL AND s.operating_room_id = _operating_room_id)
+      OR lower(btrim(s.main_surgeon)) = ANY (_team_keys)
+      OR EXISTS (SELECT 1 FROM unnest(s.assistants) a WHERE lower(btrim(a)) = ANY (_team_keys))
+      OR (_patient_id IS NOT NULL AND s.patient_id = _patient_id)
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.surgery_schedule_clashes(timestamp with time zone, timestamp with time zone, uuid, text[], uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.surgery_schedule_clashes(timestamp with time zone, timestamp with time zone, uuid, text[], uuid, uuid) TO authenticated;
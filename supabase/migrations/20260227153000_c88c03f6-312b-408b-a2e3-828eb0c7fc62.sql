@@ -0,0 +1,38 @@
+-- Keep card reordering out of patient history
+-- Moving or adding a card renumbers every card in its column, and each
+-- shifted card wrote an audit_log row, flooding the history of every
+-- patient in that column. Updates to kanban_cards that change only the
+-- position (and updated_at) are no longer recorded.
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  _row jsonb := COALESCE(_new, _old);
+  -- Bookkeeping columns; a card's position changes whenever a neighbour moves
+  _ignored text[] := CASE WHEN TG_TABLE_NAME = 'kanban_cards' THEN ARRAY['updated_at', 'position'] ELSE ARRAY['updated_at'] END;
+BEGIN
+  -- Ignore updates that only touched bookkeeping columns
+  IF TG_OP = 'UPDATE' AND (_old - _ignored) = (_new - _ignored) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, patient_id, operation, actor_id, old_data, new_data)
+  VALUES (
+    TG_TABLE_NAME,
+    (_row ->> 'id')::uuid,
+    CASE WHEN TG_TABLE_NAME = 'patients' THEN (_row ->> 'id')::uuid ELSE (_row ->> 'patient_id')::uuid END,
+    TG_OP,
+    auth.uid(),
+    _old,
+    _new
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,87 @@
+-- Purged attachment files
+-- Removing a file with no attachments row was allowed for anyone with attachments.delete,
+-- which covered other teams' uploads whose row is inserted after the upload. purge_record
+-- now records the files it releases, and only the user who purged them may remove them.
+
+CREATE TABLE public.purged_attachment_files (
+  name text PRIMARY KEY,
+  purged_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  purged_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Only written and read by SECURITY DEFINER functions
+ALTER TABLE public.purged_attachment_files ENABLE ROW LEVEL SECURITY;
+
+-- Permanently delete a trashed record once its retention period has passed.
+-- Returns the storage paths of removed attachments so the caller can delete the files.
+CREATE OR REPLACE FUNCTION public.purge_record(_table text, _id uuid)
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _deleted_at timestamp with time zone;
+BEGIN
+  IF NOT public.can_manage_trash_record(auth.uid(), _table, _id) THEN
+    RAISE EXCEPTION 'Permission denied';
+  END IF;
+
+  EXECUTE format('SELECT deleted_at FROM public.%I WHERE id = $1', _table) INTO _deleted_at USING _id;
+  IF _deleted_at IS NULL THEN
+    RAISE EXCEPTION 'Only records in the trash can be purged';
+  END IF;
+  IF _deleted_at > now() - public.trash_retention() THEN
+    RAISE EXCEPTION 'Record can be purged after %', _deleted_at + public.trash_retention();
+  END IF;
+
+  IF _table = 'patients' THEN
+    INSERT INTO public.purged_attachment_files (name, purged_by)
+    SELECT file_url, auth.uid() FROM public.attachments WHERE patient_id = _id
+    ON CONFLICT (name) DO UPDATE SET purged_by = EXCLUDED.purged_by, purged_at = now();
+    RETURN QUERY SELECT file_url FROM public.attachments WHERE patient_id = _id;
+    DELETE FROM public.patients WHERE id = _id;
+  ELSIF _table = 'attachments' THEN
+    INSERT INTO public.purged_attachment_files (name, purged_by)
+    SELECT file_url, auth.uid() FROM public.attachments WHERE id = _id
+    ON CONFLICT (name) DO UPDATE SET purged_by = EXCLUDED.purged_by, purged_at = now();
+    RETURN QUERY SELECT file_url FROM public.attachments WHERE id = _id;
+    DELETE FROM public.attachments WHERE id = _id;
+  ELSIF _table = 'surgeries' THEN
+    UPDATE public.consultations SET surgery_id = NULL WHERE surgery_id = _id;
+    UPDATE public.attachments SET surgery_id = NULL WHERE surgery_id = _id;
+    DELETE FROM public.surgeries WHERE id = _id;
+  ELSE
+    EXECUTE format('DELETE FROM public.%I WHERE id = $1', _table) USING _id;
+  END IF;
+END;
+$$;
+
+-- Files released by purge_record may be removed by the user who purged them
+CREATE OR REPLACE FUNCTION public.is_purged_attachment_file(_user_id uuid, _name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.purged_attachment_files
+    WHERE name = _name AND purged_by = _user_id
+  )
+  AND NOT EXISTS (SELECT 1 FROM public.attachments WHERE file_url = _name)
+$$;
+
+DROP POLICY "Staff can delete patient files" ON storage.objects;
+CREATE POLICY "Staff can delete patient files" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'patient-attachments'
+    AND public.has_permission(auth.uid(), 'attachments.delete')
+    AND (
+      public.can_access_patient(auth.uid(), public.storage_patient_id(name))
+      OR public.is_purged_attachment_file(auth.uid(), name)
+    )
+  );
+
+DROP FUNCTION public.is_orphan_attachment_file(text);